@@ -0,0 +1,162 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/Context.sol";
+import "./interfaces/IBridgeAdapter.sol";
+import "./interfaces/IMessageEndpoint.sol";
+import "./interfaces/IMessageReceiver.sol";
+import "./interfaces/IMinter.sol";
+import "./interfaces/IVUSD.sol";
+
+/**
+ * @title VUSD Bridge Adapter, It moves VUSD between chains by burning it on source chain and minting it on
+ * destination chain.
+ * @dev Messages go via a generic message endpoint, each chain has one adapter which trusts only its peer adapters.
+ * On home chain adapter mints via `mintBridged` of Minter, Minter should point to it via `updateBridge`. On
+ * satellite chain adapter is minter of satellite VUSD itself. VUSD minted for messages from a chain can not exceed
+ * VUSD burnt toward that chain plus its mint ceiling, hence zero ceiling only returns what was sent.
+ */
+contract BridgeAdapter is Context, ReentrancyGuard, IBridgeAdapter, IMessageReceiver {
+    string public constant NAME = "VUSD-BridgeAdapter";
+    string public constant VERSION = "1.5.0";
+
+    IVUSD public immutable vusd;
+    IMessageEndpoint public immutable endpoint;
+
+    // Chain id => bridge adapter on that chain
+    mapping(uint256 => address) public peers;
+    // Chain id => VUSD minted for messages from chain, in excess of VUSD burnt toward it, can not exceed it
+    mapping(uint256 => uint256) public mintCeiling;
+    // Chain id => VUSD ever burnt toward chain and VUSD ever minted for messages from chain
+    mapping(uint256 => uint256) public outbound;
+    mapping(uint256 => uint256) public inbound;
+    // VUSD ever burnt toward and ever minted for messages from all chains
+    uint256 public totalOutbound;
+    uint256 public totalInbound;
+
+    event UpdatedPeer(uint256 indexed chainId, address indexed previousPeer, address indexed newPeer);
+    event UpdatedMintCeiling(uint256 indexed chainId, uint256 previousMintCeiling, uint256 newMintCeiling);
+    event BridgeSent(uint256 indexed dstChainId, address indexed sender, address receiver, uint256 amount);
+    event BridgeReceived(uint256 indexed srcChainId, address indexed receiver, uint256 amount);
+
+    constructor(address _vusd, address _endpoint) {
+        require(_vusd != address(0), "vusd-address-is-zero");
+        require(_endpoint != address(0), "endpoint-address-is-zero");
+        vusd = IVUSD(_vusd);
+        endpoint = IMessageEndpoint(_endpoint);
+    }
+
+    modifier onlyGovernor() {
+        require(_msgSender() == governor(), "caller-is-not-the-governor");
+        _;
+    }
+
+    ////////////////////////////// Only Governor //////////////////////////////
+
+    /**
+     * @notice Update bridge adapter of a chain, messages are sent to it and accepted only from it
+     * @param _chainId Chain id of peer
+     * @param _newPeer new peer address, zero address disables the chain
+     */
+    function updatePeer(uint256 _chainId, address _newPeer) external onlyGovernor {
+        address _currentPeer = peers[_chainId];
+        require(_currentPeer != _newPeer, "same-peer");
+        emit UpdatedPeer(_chainId, _currentPeer, _newPeer);
+        peers[_chainId] = _newPeer;
+    }
+
+    /**
+     * @notice Update VUSD which messages from a chain can mint in excess of VUSD burnt toward it
+     * @param _chainId Chain id of peer
+     * @param _newMintCeiling new mint ceiling, it is the max supply of VUSD on satellite chain
+     */
+    function updateMintCeiling(uint256 _chainId, uint256 _newMintCeiling) external onlyGovernor {
+        uint256 _currentMintCeiling = mintCeiling[_chainId];
+        require(_currentMintCeiling != _newMintCeiling, "same-mint-ceiling");
+        emit UpdatedMintCeiling(_chainId, _currentMintCeiling, _newMintCeiling);
+        mintCeiling[_chainId] = _newMintCeiling;
+    }
+
+    ///////////////////////////////////////////////////////////////////////////
+
+    /**
+     * @notice Burn VUSD of caller and send it to receiver on destination chain
+     * @dev Caller should approve VUSD to adapter. Message fee, see `bridgeFee`, is sent as value.
+     * @param _dstChainId Destination chain id
+     * @param _receiver Address of VUSD receiver on destination chain
+     * @param _amount VUSD amount to send
+     */
+    function bridge(
+        uint256 _dstChainId,
+        address _receiver,
+        uint256 _amount
+    ) external payable nonReentrant {
+        address _peer = peers[_dstChainId];
+        require(_peer != address(0), "chain-is-not-supported");
+        require(_receiver != address(0), "receiver-address-is-zero");
+        require(_amount != 0, "amount-is-zero");
+        vusd.burnFrom(_msgSender(), _amount);
+        outbound[_dstChainId] += _amount;
+        totalOutbound += _amount;
+        endpoint.sendMessage{value: msg.value}(_dstChainId, _peer, abi.encode(_receiver, _amount));
+        emit BridgeSent(_dstChainId, _msgSender(), _receiver, _amount);
+    }
+
+    /**
+     * @notice Mint VUSD sent from peer adapter on source chain
+     * @dev Only endpoint is allowed to call. Message above mint ceiling reverts, endpoint should keep it to retry.
+     */
+    function receiveMessage(
+        uint256 _srcChainId,
+        address _sender,
+        bytes calldata _payload
+    ) external override nonReentrant {
+        require(_msgSender() == address(endpoint), "caller-is-not-the-endpoint");
+        require(_sender != address(0) && _sender == peers[_srcChainId], "sender-is-not-a-peer");
+        (address _receiver, uint256 _amount) = abi.decode(_payload, (address, uint256));
+        require(_amount <= availableToMint(_srcChainId), "mint-ceiling-reached");
+        // Inbound is counted before mint, so that Minter sees VUSD returning from other chains as not minted yet
+        inbound[_srcChainId] += _amount;
+        totalInbound += _amount;
+        address _minter = vusd.minter();
+        if (_minter == address(this)) {
+            vusd.mint(_receiver, _amount);
+        } else {
+            IMinter(_minter).mintBridged(_receiver, _amount);
+        }
+        emit BridgeReceived(_srcChainId, _receiver, _amount);
+    }
+
+    /// @notice VUSD which messages from given chain can still mint
+    function availableToMint(uint256 _chainId) public view returns (uint256) {
+        uint256 _limit = outbound[_chainId] + mintCeiling[_chainId];
+        uint256 _inbound = inbound[_chainId];
+        return _limit > _inbound ? _limit - _inbound : 0;
+    }
+
+    /**
+     * @notice VUSD burnt on this chain and not returned yet, i.e. VUSD living on other chains
+     * @dev On home chain it is backed by treasury, Minter counts it in supply
+     */
+    function netOutbound() external view override returns (uint256) {
+        uint256 _totalOutbound = totalOutbound;
+        uint256 _totalInbound = totalInbound;
+        return _totalOutbound > _totalInbound ? _totalOutbound - _totalInbound : 0;
+    }
+
+    /// @notice Message fee of endpoint to bridge given amount, in native token
+    function bridgeFee(
+        uint256 _dstChainId,
+        address _receiver,
+        uint256 _amount
+    ) external view returns (uint256) {
+        return endpoint.estimateFee(_dstChainId, peers[_dstChainId], abi.encode(_receiver, _amount));
+    }
+
+    /// @dev Governor is defined in VUSD token contract only
+    function governor() public view returns (address) {
+        return vusd.governor();
+    }
+}
@@ -0,0 +1,173 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+import "@openzeppelin/contracts/utils/Context.sol";
+import "./interfaces/ICircuitBreaker.sol";
+import "./interfaces/IMinter.sol";
+import "./interfaces/IRoleRegistry.sol";
+import "./interfaces/ITreasury.sol";
+import "./interfaces/IVUSD.sol";
+
+/**
+ * @title VUSD Circuit Breaker, Minter and Redeemer stop mint and redeem of a paused token.
+ * @dev Pause is global or per token. Guardian, as per role registry, or governor can pause, only governor can unpause.
+ * Anyone can pause when treasury is under-collateralized, globally, or when oracle router price of a token is depegged.
+ */
+contract CircuitBreaker is Context, ICircuitBreaker {
+    string public constant NAME = "VUSD-CircuitBreaker";
+    string public constant VERSION = "1.5.0";
+    uint256 public constant MAX_BPS = 10_000; // 10_000 = 100%
+    bytes32 public constant GUARDIAN_ROLE = keccak256("GUARDIAN_ROLE");
+
+    IVUSD public immutable vusd;
+    IRoleRegistry public roleRegistry;
+
+    // Global pause, covers all tokens
+    bool public override paused;
+    // Token => paused mapping
+    mapping(address => bool) public override tokenPaused;
+
+    uint256 public minCollateralizationRatio = 9_900; // Default 99% based on BPS
+    uint256 public depegTolerance = 300; // Default 3% based on BPS
+
+    // Token is zero address for global pause
+    event Paused(address indexed token, address indexed caller);
+    event Unpaused(address indexed token, address indexed caller);
+    event UnderCollateralized(uint256 collateralizationRatio, uint256 minCollateralizationRatio);
+    event Depegged(address indexed token, address indexed oracleRouter, uint256 price);
+    event UpdatedRoleRegistry(address indexed previousRoleRegistry, address indexed newRoleRegistry);
+    event UpdatedMinCollateralizationRatio(uint256 previousRatio, uint256 newRatio);
+    event UpdatedDepegTolerance(uint256 previousTolerance, uint256 newTolerance);
+
+    constructor(address _vusd) {
+        require(_vusd != address(0), "vusd-address-is-zero");
+        vusd = IVUSD(_vusd);
+    }
+
+    modifier onlyGovernor() {
+        require(_msgSender() == governor(), "caller-is-not-the-governor");
+        _;
+    }
+
+    modifier onlyGuardianOrGovernor() {
+        require(_msgSender() == governor() || _hasRole(GUARDIAN_ROLE), "caller-is-not-authorized");
+        _;
+    }
+
+    ////////////////////////////// Only Governor //////////////////////////////
+
+    /**
+     * @notice Update role registry, guardian role is read from it
+     * @param _newRoleRegistry new role registry address, zero address leaves governor only
+     */
+    function updateRoleRegistry(address _newRoleRegistry) external onlyGovernor {
+        address _currentRoleRegistry = address(roleRegistry);
+        require(_currentRoleRegistry != _newRoleRegistry, "same-role-registry");
+        emit UpdatedRoleRegistry(_currentRoleRegistry, _newRoleRegistry);
+        roleRegistry = IRoleRegistry(_newRoleRegistry);
+    }
+
+    /// @notice Resume mint and redeem of all tokens, except tokens which are paused on their own
+    function unpause() external onlyGovernor {
+        require(paused, "not-paused");
+        paused = false;
+        emit Unpaused(address(0), _msgSender());
+    }
+
+    /// @notice Resume mint and redeem of given token
+    function unpause(address _token) external onlyGovernor {
+        require(tokenPaused[_token], "not-paused");
+        tokenPaused[_token] = false;
+        emit Unpaused(_token, _msgSender());
+    }
+
+    /// @notice Update collateralization ratio below which anyone can pause
+    function updateMinCollateralizationRatio(uint256 _newRatio) external onlyGovernor {
+        uint256 _previousRatio = minCollateralizationRatio;
+        require(_previousRatio != _newRatio, "same-collateralization-ratio");
+        minCollateralizationRatio = _newRatio;
+        emit UpdatedMinCollateralizationRatio(_previousRatio, _newRatio);
+    }
+
+    /// @notice Update deviation from 1 USD after which anyone can pause a token
+    function updateDepegTolerance(uint256 _newTolerance) external onlyGovernor {
+        require(_newTolerance <= MAX_BPS, "depeg-tolerance-is-invalid");
+        uint256 _previousTolerance = depegTolerance;
+        require(_previousTolerance != _newTolerance, "same-depeg-tolerance");
+        depegTolerance = _newTolerance;
+        emit UpdatedDepegTolerance(_previousTolerance, _newTolerance);
+    }
+
+    ///////////////////////////////////////////////////////////////////////////
+
+    /// @notice Pause mint and redeem of all tokens
+    function pause() external onlyGuardianOrGovernor {
+        _pause();
+    }
+
+    /// @notice Pause mint and redeem of given token
+    function pause(address _token) external onlyGuardianOrGovernor {
+        _pause(_token);
+    }
+
+    /**
+     * @notice Pause mint and redeem of all tokens when collateralization ratio of treasury is below minimum.
+     * @dev Anyone can call, reverts if treasury is healthy.
+     */
+    function pauseIfUnderCollateralized() external {
+        (, , uint256 _ratio) = ITreasury(vusd.treasury()).reserves();
+        require(_ratio < minCollateralizationRatio, "collateralization-is-healthy");
+        emit UnderCollateralized(_ratio, minCollateralizationRatio);
+        _pause();
+    }
+
+    /**
+     * @notice Pause mint and redeem of given token when its price deviates from 1 USD beyond depegTolerance.
+     * @dev Anyone can call, reverts if token is pegged. Price is read from oracle router of Minter, which checks
+     * staleness and rounds of feeds, hence it also reverts if there is no valid price.
+     * @param _token Whitelisted token of treasury
+     */
+    function pauseIfDepegged(address _token) external {
+        require(ITreasury(vusd.treasury()).isWhitelistedToken(_token), "token-is-not-supported");
+        IOracleRouter _oracleRouter = IMinter(vusd.minter()).oracleRouter();
+        uint256 _price = _oracleRouter.price(_token);
+        require(isDepegged(_price), "token-is-pegged");
+        emit Depegged(_token, address(_oracleRouter), _price);
+        _pause(_token);
+    }
+
+    /// @notice Whether mint and redeem of given token are paused, globally or for token
+    function isPaused(address _token) external view override returns (bool) {
+        return paused || tokenPaused[_token];
+    }
+
+    /// @notice Whether given price, with 18 decimals, deviates from 1 USD beyond depegTolerance
+    function isDepegged(uint256 _price) public view returns (bool) {
+        uint256 _tolerance = (1e18 * depegTolerance) / MAX_BPS;
+        return _price > 1e18 + _tolerance || _price < 1e18 - _tolerance;
+    }
+
+    /// @dev Governor is defined in VUSD token contract only
+    function governor() public view returns (address) {
+        return vusd.governor();
+    }
+
+    /// @dev Whether caller holds given role in role registry, no role is held without registry
+    function _hasRole(bytes32 _role) internal view returns (bool) {
+        IRoleRegistry _roleRegistry = roleRegistry;
+        return address(_roleRegistry) != address(0) && _roleRegistry.hasRole(_role, _msgSender());
+    }
+
+    function _pause() internal {
+        require(!paused, "already-paused");
+        paused = true;
+        emit Paused(address(0), _msgSender());
+    }
+
+    function _pause(address _token) internal {
+        require(!tokenPaused[_token], "already-paused");
+        tokenPaused[_token] = true;
+        emit Paused(_token, _msgSender());
+    }
+}
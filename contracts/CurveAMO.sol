@@ -0,0 +1,159 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/Context.sol";
+import "./interfaces/curve/ICurveMetapool.sol";
+import "./interfaces/IMinter.sol";
+import "./interfaces/ITreasury.sol";
+import "./interfaces/IVUSD.sol";
+
+/**
+ * @title VUSD Curve AMO, It defends the peg with VUSD liquidity of Curve metapool.
+ * @dev When VUSD trades above peg, keeper mints VUSD via Minter and adds it to metapool. When VUSD trades below
+ * peg, keeper removes VUSD from metapool and burns it. VUSD minted and not burnt yet, i.e. debt, is capped by
+ * debt ceiling and by mint limit of Minter. Minter should point to AMO via `updateAmo`.
+ * Peg and slippage are checked against balances of metapool at the end of previous block, so a swap in the same
+ * block, i.e. sandwich or flash loan, can not move them.
+ */
+contract CurveAMO is Context, ReentrancyGuard {
+    string public constant NAME = "VUSD-CurveAMO";
+    string public constant VERSION = "1.5.0";
+    uint256 public constant MAX_BPS = 10_000; // 10_000 = 100%
+
+    // Index of VUSD in metapool coins, other coin is LP token of base pool
+    int128 internal constant VUSD_INDEX = 0;
+    // Index of DAI in metapool underlying coins, VUSD price is quoted in DAI
+    int128 internal constant DAI_INDEX = 1;
+    uint256 internal constant FEE_DENOMINATOR = 1e10;
+
+    IVUSD public immutable vusd;
+    ICurveMetapool public immutable metapool;
+
+    // Max VUSD minted by AMO and not burnt yet. Zero disables mint.
+    uint256 public debtCeiling;
+    // VUSD minted by AMO less VUSD burnt by AMO
+    uint256 public debt;
+    // Lowest accepted min out of an operation against quote of metapool at previous balances, in BPS
+    uint256 public maxSlippage = 50; // 0.5%
+
+    event UpdatedDebtCeiling(uint256 previousDebtCeiling, uint256 newDebtCeiling);
+    event UpdatedMaxSlippage(uint256 previousMaxSlippage, uint256 newMaxSlippage);
+    event LiquidityAdded(uint256 vusdAmount, uint256 lpAmount);
+    event LiquidityRemoved(uint256 lpAmount, uint256 vusdAmount);
+
+    constructor(address _vusd, address _metapool) {
+        require(_vusd != address(0), "vusd-address-is-zero");
+        require(_metapool != address(0), "metapool-address-is-zero");
+        require(ICurveMetapool(_metapool).coins(0) == _vusd, "metapool-is-invalid");
+        vusd = IVUSD(_vusd);
+        metapool = ICurveMetapool(_metapool);
+    }
+
+    modifier onlyGovernor() {
+        require(_msgSender() == governor(), "caller-is-not-the-governor");
+        _;
+    }
+
+    modifier onlyKeeperOrGovernor() {
+        require(_msgSender() == governor() || ITreasury(treasury()).isKeeper(_msgSender()), "caller-is-not-authorized");
+        _;
+    }
+
+    ////////////////////////////// Only Governor //////////////////////////////
+
+    /// @notice Update max VUSD minted by AMO and not burnt yet, zero disables mint
+    function updateDebtCeiling(uint256 _newDebtCeiling) external onlyGovernor {
+        uint256 _currentDebtCeiling = debtCeiling;
+        require(_currentDebtCeiling != _newDebtCeiling, "same-debt-ceiling");
+        emit UpdatedDebtCeiling(_currentDebtCeiling, _newDebtCeiling);
+        debtCeiling = _newDebtCeiling;
+    }
+
+    /// @notice Update lowest accepted min out against quote of metapool, in BPS
+    function updateMaxSlippage(uint256 _newMaxSlippage) external onlyGovernor {
+        require(_newMaxSlippage <= MAX_BPS, "slippage-is-invalid");
+        uint256 _currentMaxSlippage = maxSlippage;
+        require(_currentMaxSlippage != _newMaxSlippage, "same-max-slippage");
+        emit UpdatedMaxSlippage(_currentMaxSlippage, _newMaxSlippage);
+        maxSlippage = _newMaxSlippage;
+    }
+
+    ///////////////////////////////////////////////////////////////////////////
+
+    /**
+     * @notice Mint VUSD and add it to metapool, only when VUSD trades above peg
+     * @param _vusdAmount Amount of VUSD to mint
+     * @param _minLpOut Minimum metapool LP expected, it can not be lower than quote at previous balances less max
+     * slippage
+     * @return _lpOut Metapool LP received
+     */
+    function mintAndAddLiquidity(uint256 _vusdAmount, uint256 _minLpOut)
+        external
+        nonReentrant
+        onlyKeeperOrGovernor
+        returns (uint256 _lpOut)
+    {
+        require(_vusdAmount != 0, "amount-is-zero");
+        require(vusdPrice() > 1e18, "vusd-is-not-above-peg");
+        uint256 _debt = debt + _vusdAmount;
+        require(_debt <= debtCeiling, "debt-ceiling-reached");
+        _checkSlippage(_minLpOut, metapool.calc_token_amount([_vusdAmount, 0], true, true));
+        debt = _debt;
+        IMinter(vusd.minter()).mintLiquidity(_vusdAmount);
+        vusd.approve(address(metapool), _vusdAmount);
+        _lpOut = metapool.add_liquidity([_vusdAmount, 0], _minLpOut);
+        emit LiquidityAdded(_vusdAmount, _lpOut);
+    }
+
+    /**
+     * @notice Remove VUSD from metapool and burn it, only when VUSD trades below peg
+     * @param _lpAmount Metapool LP to remove
+     * @param _minVusdOut Minimum VUSD expected, it can not be lower than quote at previous balances less max slippage
+     * @return _vusdOut VUSD removed and burnt
+     */
+    function removeLiquidityAndBurn(uint256 _lpAmount, uint256 _minVusdOut)
+        external
+        nonReentrant
+        onlyKeeperOrGovernor
+        returns (uint256 _vusdOut)
+    {
+        require(_lpAmount != 0, "amount-is-zero");
+        require(vusdPrice() < 1e18, "vusd-is-not-below-peg");
+        _checkSlippage(_minVusdOut, metapool.calc_withdraw_one_coin(_lpAmount, VUSD_INDEX, true));
+        _vusdOut = metapool.remove_liquidity_one_coin(_lpAmount, VUSD_INDEX, _minVusdOut);
+        vusd.burn(_vusdOut);
+        // Burning more than debt, i.e. trading fees earned by LP, retires VUSD backed by treasury
+        uint256 _debt = debt;
+        debt = _vusdOut < _debt ? _debt - _vusdOut : 0;
+        emit LiquidityRemoved(_lpAmount, _vusdOut);
+    }
+
+    /// @notice Metapool LP held by AMO
+    function lpBalance() external view returns (uint256) {
+        return metapool.balanceOf(address(this));
+    }
+
+    /// @notice DAI per VUSD in metapool at previous balances, with 18 decimals, before swap fee of metapool
+    function vusdPrice() public view returns (uint256) {
+        ICurveMetapool _metapool = metapool;
+        uint256 _daiOut = _metapool.get_dy_underlying(VUSD_INDEX, DAI_INDEX, 1e18, _metapool.get_previous_balances());
+        return (_daiOut * FEE_DENOMINATOR) / (FEE_DENOMINATOR - _metapool.fee());
+    }
+
+    /// @dev Governor is defined in VUSD token contract only
+    function governor() public view returns (address) {
+        return vusd.governor();
+    }
+
+    /// @dev Treasury is defined in VUSD token contract only
+    function treasury() public view returns (address) {
+        return vusd.treasury();
+    }
+
+    /// @dev Revert if given min out is lower than quote less max slippage
+    function _checkSlippage(uint256 _minOut, uint256 _quote) internal view {
+        require(_minOut >= (_quote * (MAX_BPS - maxSlippage)) / MAX_BPS, "min-out-is-too-low");
+    }
+}
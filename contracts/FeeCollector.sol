@@ -0,0 +1,185 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/Context.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./interfaces/IFeeCollector.sol";
+import "./interfaces/IMinter.sol";
+import "./interfaces/ITreasury.sol";
+import "./interfaces/IVUSD.sol";
+
+/**
+ * @title VUSD Fee Collector, It counts minting and redeem fees and distributes them as VUSD.
+ * @dev Minter keeps minting fee by minting less VUSD and Redeemer keeps redeem fee by paying out fewer tokens, fee
+ * stays in treasury either way. Both report fee, in VUSD, here. Unclaimed fees are the surplus, recipients claim
+ * it as VUSD minted by Minter as long as collateralization ratio of treasury stays at or above the floor.
+ */
+contract FeeCollector is Context, ReentrancyGuard, IFeeCollector {
+    string public constant NAME = "VUSD-FeeCollector";
+    string public constant VERSION = "1.5.0";
+    uint256 public constant MAX_BPS = 10_000; // 10_000 = 100%
+
+    IVUSD public immutable vusd;
+
+    // Token => minting and redeem fee of token, in VUSD
+    mapping(address => uint256) public mintFees;
+    mapping(address => uint256) public redeemFees;
+    // Fees ever recorded and fees ever claimed, in VUSD
+    uint256 public totalFees;
+    uint256 public claimedFees;
+    // Recipient => claimed VUSD
+    mapping(address => uint256) public claimedBy;
+    // Collateralization ratio of treasury after claim can not go below it, in BPS
+    uint256 public minCollateralizationRatio = 10_000;
+
+    address[] private _recipients;
+    // Recipient => share of each claim in BPS
+    mapping(address => uint256) public shareOf;
+
+    event MintFeeRecorded(address indexed token, uint256 vusdAmount);
+    event RedeemFeeRecorded(address indexed token, uint256 vusdAmount);
+    event SurplusClaimed(address indexed recipient, uint256 vusdAmount);
+    event UpdatedFeeRecipient(address indexed recipient, uint256 previousShare, uint256 newShare);
+    event UpdatedMinCollateralizationRatio(uint256 previousRatio, uint256 newRatio);
+
+    constructor(address _vusd) {
+        require(_vusd != address(0), "vusd-address-is-zero");
+        vusd = IVUSD(_vusd);
+    }
+
+    modifier onlyGovernor() {
+        require(_msgSender() == governor(), "caller-is-not-the-governor");
+        _;
+    }
+
+    ////////////////////////////// Only Governor //////////////////////////////
+
+    /**
+     * @notice Replace fee recipients and their shares. Shares must add up to 100%.
+     * @param _newRecipients Fee recipients
+     * @param _shares Share of each claim in BPS correspond to _newRecipients
+     */
+    function updateFeeRecipients(address[] calldata _newRecipients, uint256[] calldata _shares) external onlyGovernor {
+        uint256 _len = _newRecipients.length;
+        require(_len != 0 && _shares.length == _len, "input-length-mismatch");
+        for (uint256 i = 0; i < _recipients.length; i++) {
+            emit UpdatedFeeRecipient(_recipients[i], shareOf[_recipients[i]], 0);
+            delete shareOf[_recipients[i]];
+        }
+        delete _recipients;
+        uint256 _totalShare;
+        for (uint256 i = 0; i < _len; i++) {
+            require(_newRecipients[i] != address(0), "recipient-address-is-zero");
+            require(_shares[i] != 0 && shareOf[_newRecipients[i]] == 0, "share-is-invalid");
+            emit UpdatedFeeRecipient(_newRecipients[i], 0, _shares[i]);
+            shareOf[_newRecipients[i]] = _shares[i];
+            _recipients.push(_newRecipients[i]);
+            _totalShare += _shares[i];
+        }
+        require(_totalShare == MAX_BPS, "fee-shares-are-invalid");
+    }
+
+    /// @notice Update collateralization ratio floor, it can not be below 100%
+    function updateMinCollateralizationRatio(uint256 _newRatio) external onlyGovernor {
+        require(_newRatio >= MAX_BPS, "collateralization-ratio-is-invalid");
+        uint256 _currentRatio = minCollateralizationRatio;
+        require(_currentRatio != _newRatio, "same-collateralization-ratio");
+        emit UpdatedMinCollateralizationRatio(_currentRatio, _newRatio);
+        minCollateralizationRatio = _newRatio;
+    }
+
+    ///////////////////////////////////////////////////////////////////////////
+
+    /**
+     * @notice Record minting fee of a mint
+     * @dev Only minter of VUSD is allowed to call
+     * @param _token Token deposited to mint
+     * @param _vusdAmount VUSD not minted due to minting fee
+     */
+    function recordMintFee(address _token, uint256 _vusdAmount) external override {
+        require(_msgSender() == vusd.minter(), "caller-is-not-the-minter");
+        mintFees[_token] += _vusdAmount;
+        totalFees += _vusdAmount;
+        emit MintFeeRecorded(_token, _vusdAmount);
+    }
+
+    /**
+     * @notice Record redeem fee of a redeem
+     * @dev Only redeemer of treasury is allowed to call
+     * @param _token Token redeemed
+     * @param _vusdAmount VUSD burnt without paying out tokens due to redeem fee
+     */
+    function recordRedeemFee(address _token, uint256 _vusdAmount) external override {
+        require(_msgSender() == ITreasury(vusd.treasury()).redeemer(), "caller-is-not-the-redeemer");
+        redeemFees[_token] += _vusdAmount;
+        totalFees += _vusdAmount;
+        emit RedeemFeeRecorded(_token, _vusdAmount);
+    }
+
+    /**
+     * @notice Claim surplus as VUSD and split it between fee recipients as per their shares.
+     * @dev Fee recipient or governor is allowed to call. Rounding dust goes to first recipient.
+     */
+    function claim() external nonReentrant {
+        require(shareOf[_msgSender()] != 0 || _msgSender() == governor(), "caller-is-not-authorized");
+        uint256 _amount = claimableSurplus();
+        require(_amount != 0, "nothing-to-claim");
+        claimedFees += _amount;
+        IMinter _minter = IMinter(vusd.minter());
+        uint256 _len = _recipients.length;
+        uint256 _remaining = _amount;
+        for (uint256 i = _len; i > 0; i--) {
+            address _recipient = _recipients[i - 1];
+            uint256 _share = i == 1 ? _remaining : (_amount * shareOf[_recipient]) / MAX_BPS;
+            _remaining -= _share;
+            claimedBy[_recipient] += _share;
+            _minter.mintSurplus(_recipient, _share);
+            emit SurplusClaimed(_recipient, _share);
+        }
+    }
+
+    /// @notice Fee recipients and their share of each claim in BPS
+    function feeRecipients() external view returns (address[] memory _addresses, uint256[] memory _shares) {
+        _addresses = _recipients;
+        _shares = new uint256[](_addresses.length);
+        for (uint256 i = 0; i < _addresses.length; i++) {
+            _shares[i] = shareOf[_addresses[i]];
+        }
+    }
+
+    /// @notice Unclaimed fees, in VUSD
+    function surplus() public view override returns (uint256) {
+        return totalFees - claimedFees;
+    }
+
+    /**
+     * @notice Surplus which can be claimed now, in VUSD. It is capped by VUSD supply treasury can back at
+     * `minCollateralizationRatio` and by available mintage of Minter. Reserves are valued conservatively, see
+     * `cappedReservesValue` of treasury.
+     */
+    function claimableSurplus() public view override returns (uint256) {
+        uint256 _surplus = surplus();
+        if (_surplus == 0 || _recipients.length == 0) {
+            return 0;
+        }
+        uint256 _maxSupply = (ITreasury(treasury()).cappedReservesValue() * MAX_BPS) / minCollateralizationRatio;
+        IMinter _minter = IMinter(vusd.minter());
+        uint256 _supply = _minter.backedSupply();
+        if (_maxSupply <= _supply) {
+            return 0;
+        }
+        return Math.min(Math.min(_surplus, _maxSupply - _supply), _minter.availableMintage());
+    }
+
+    /// @dev Governor is defined in VUSD token contract only
+    function governor() public view returns (address) {
+        return vusd.governor();
+    }
+
+    /// @dev Treasury is defined in VUSD token contract only
+    function treasury() public view returns (address) {
+        return vusd.treasury();
+    }
+}
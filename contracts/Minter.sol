@@ -3,12 +3,21 @@
 pragma solidity 0.8.3;
 
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/draft-IERC20Permit.sol";
 import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/utils/Context.sol";
 import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
-import "./interfaces/chainlink/IAggregatorV3.sol";
-import "./interfaces/compound/ICompound.sol";
+import "./interfaces/maker/IDai.sol";
+import "./interfaces/IBridgeAdapter.sol";
+import "./interfaces/ICircuitBreaker.sol";
+import "./interfaces/ICurveAMO.sol";
+import "./interfaces/IFeeCollector.sol";
+import "./interfaces/IOracleRouter.sol";
+import "./interfaces/IRateLimiter.sol";
+import "./interfaces/IRoleRegistry.sol";
+import "./interfaces/IStrategy.sol";
+import "./interfaces/ITreasury.sol";
 import "./interfaces/IVUSD.sol";
 
 /// @title Minter contract which will mint VUSD 1:1, less minting fee, with DAI, USDC or USDT.
@@ -17,7 +26,7 @@ contract Minter is Context, ReentrancyGuard {
     using EnumerableSet for EnumerableSet.AddressSet;
 
     string public constant NAME = "VUSD-Minter";
-    string public constant VERSION = "1.4.2";
+    string public constant VERSION = "1.5.0";
 
     IVUSD public immutable vusd;
     uint8 public immutable vusdDecimals;
@@ -28,35 +37,26 @@ contract Minter is Context, ReentrancyGuard {
     uint256 public constant MAX_BPS = 10_000; // 10_000 = 100%
     uint256 public priceTolerance = 100; // 1% based on BPS
 
-    // Token => cToken mapping
-    mapping(address => address) public cTokens;
-    // Token => oracle mapping
-    mapping(address => address) public oracles;
-
-    // Oracle => stalePeriod mapping
-    mapping(address => uint256) public stalePeriod;
+    bytes32 public constant GUARDIAN_ROLE = keccak256("GUARDIAN_ROLE");
+    bytes32 public constant FEE_MANAGER_ROLE = keccak256("FEE_MANAGER_ROLE");
+    bytes32 public constant ORACLE_MANAGER_ROLE = keccak256("ORACLE_MANAGER_ROLE");
+
+    IOracleRouter public oracleRouter;
+    ICircuitBreaker public circuitBreaker;
+    IRateLimiter public rateLimiter;
+    IFeeCollector public feeCollector;
+    IRoleRegistry public roleRegistry;
+    // Liquidity manager, it mints VUSD into Curve metapool within same limit as governor mint
+    address public amo;
+    // ERC-4626 vault of VUSD, it mints surplus yield of treasury to itself for its holders
+    address public savingsVault;
+    // Bridge adapter, it mints VUSD sent from other chains within its own per-chain ceilings
+    address public bridge;
 
     EnumerableSet.AddressSet private _whitelistedTokens;
 
-    // Default whitelist token addresses
-    address private constant DAI = 0x6B175474E89094C44Da98b954EedeAC495271d0F;
-    address private constant USDC = 0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48;
-    address private constant USDT = 0xdAC17F958D2ee523a2206206994597C13D831ec7;
-
-    // cToken addresses for default whitelisted tokens
-    //solhint-disable const-name-snakecase
-    address private constant cDAI = 0x5d3a536E4D6DbD6114cc1Ead35777bAB948E3643;
-    address private constant cUSDC = 0x39AA39c021dfbaE8faC545936693aC917d5E7563;
-    address private constant cUSDT = 0xf650C3d88D12dB855b8bf7D11Be6C55A4e07dCC9;
-
-    // Chainlink price oracle for default whitelisted tokens
-    address private constant DAI_USD = 0xAed0c38402a5d19df6E4c03F4E2DceD6e29c1ee9;
-    address private constant USDC_USD = 0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6;
-    address private constant USDT_USD = 0x3E7d1eAB13ad0104d2750B8863b489D65364e32D;
-
     event UpdatedMintingFee(uint256 previousMintingFee, uint256 newMintingFee);
     event UpdatedPriceTolerance(uint256 previousPriceTolerance, uint256 newPriceTolerance);
-    event UpdatedStalePeriod(address indexed oracle, uint256 previousStalePeriod, uint256 newStalePeriod);
     event MintingLimitUpdated(uint256 previousMintLimit, uint256 newMintLimit);
     event Mint(
         address indexed tokenIn,
@@ -65,18 +65,38 @@ contract Minter is Context, ReentrancyGuard {
         uint256 mintage,
         address receiver
     );
-    event WhitelistedTokenAdded(address indexed token, address cToken, address oracle);
+    event WhitelistedTokenAdded(address indexed token);
     event WhitelistedTokenRemoved(address indexed token);
+    event UpdatedCircuitBreaker(address indexed previousCircuitBreaker, address indexed newCircuitBreaker);
+    event UpdatedRateLimiter(address indexed previousRateLimiter, address indexed newRateLimiter);
+    event UpdatedOracleRouter(address indexed previousOracleRouter, address indexed newOracleRouter);
+    event UpdatedFeeCollector(address indexed previousFeeCollector, address indexed newFeeCollector);
+    event UpdatedRoleRegistry(address indexed previousRoleRegistry, address indexed newRoleRegistry);
+    event UpdatedAmo(address indexed previousAmo, address indexed newAmo);
+    event UpdatedSavingsVault(address indexed previousSavingsVault, address indexed newSavingsVault);
+    event UpdatedBridge(address indexed previousBridge, address indexed newBridge);
 
-    constructor(address _vusd, uint256 _maxMintLimit) {
+    /**
+     * @param _vusd VUSD address
+     * @param _oracleRouter Oracle router address, it prices whitelisted tokens
+     * @param _maxMintLimit Maximum VUSD can be minted
+     * @param _tokens Default whitelisted tokens
+     */
+    constructor(
+        address _vusd,
+        address _oracleRouter,
+        uint256 _maxMintLimit,
+        address[] memory _tokens
+    ) {
         require(_vusd != address(0), "vusd-address-is-zero");
+        require(_oracleRouter != address(0), "oracle-router-address-is-zero");
         vusd = IVUSD(_vusd);
+        oracleRouter = IOracleRouter(_oracleRouter);
         maxMintLimit = _maxMintLimit;
         vusdDecimals = IERC20Metadata(_vusd).decimals();
-        // Add token into the list, add oracle and cToken into the mapping and approve cToken to spend token
-        _addToken(DAI, cDAI, DAI_USD, 1 hours);
-        _addToken(USDC, cUSDC, USDC_USD, 24 hours);
-        _addToken(USDT, cUSDT, USDT_USD, 24 hours);
+        for (uint256 i = 0; i < _tokens.length; i++) {
+            _addToken(_tokens[i]);
+        }
     }
 
     modifier onlyGovernor() {
@@ -84,37 +104,29 @@ contract Minter is Context, ReentrancyGuard {
         _;
     }
 
+    modifier onlyGovernorOrRole(bytes32 _role) {
+        require(_msgSender() == governor() || _hasRole(_role), "caller-is-not-authorized");
+        _;
+    }
+
     ////////////////////////////// Only Governor //////////////////////////////
     /**
      * @notice Add token as whitelisted token for VUSD system
-     * @dev Add token address in whitelistedTokens list and add cToken in mapping
+     * @dev Add token address in whitelistedTokens list. Token should also have feeds in oracle router and
+     * be whitelisted in treasury, minted funds go to its strategy.
      * @param _token address which we want to add in token list.
-     * @param _cToken CToken address correspond to _token
-     * @param _oracle Chainlink oracle address for token/USD feed
      */
-    function addWhitelistedToken(
-        address _token,
-        address _cToken,
-        address _oracle,
-        uint256 _stalePeriod
-    ) external onlyGovernor {
-        require(_token != address(0), "token-address-is-zero");
-        require(_cToken != address(0), "cToken-address-is-zero");
-        require(_oracle != address(0), "oracle-address-is-zero");
-        require(_stalePeriod > 0, "invalid-stale-period");
-        _addToken(_token, _cToken, _oracle, _stalePeriod);
+    function addWhitelistedToken(address _token) external onlyGovernor {
+        _addToken(_token);
     }
 
     /**
-     * @notice Remove token from whitelisted tokens
+     * @notice Remove token from whitelisted tokens, it stops mint with token
+     * @dev Guardian is also allowed to call
      * @param _token address which we want to remove from token list.
      */
-    function removeWhitelistedToken(address _token) external onlyGovernor {
+    function removeWhitelistedToken(address _token) external onlyGovernorOrRole(GUARDIAN_ROLE) {
         require(_whitelistedTokens.remove(_token), "remove-from-list-failed");
-        IERC20(_token).safeApprove(cTokens[_token], 0);
-        delete stalePeriod[oracles[_token]];
-        delete cTokens[_token];
-        delete oracles[_token];
         emit WhitelistedTokenRemoved(_token);
     }
 
@@ -128,10 +140,11 @@ contract Minter is Context, ReentrancyGuard {
         vusd.mint(_msgSender(), _amount);
     }
 
-    /// @notice Update minting fee
-    function updateMintingFee(uint256 _newMintingFee) external onlyGovernor {
+    /// @notice Update minting fee, fee manager is also allowed to call to lower it
+    function updateMintingFee(uint256 _newMintingFee) external onlyGovernorOrRole(FEE_MANAGER_ROLE) {
         require(_newMintingFee <= MAX_BPS, "minting-fee-limit-reached");
         require(mintingFee != _newMintingFee, "same-minting-fee");
+        require(_newMintingFee < mintingFee || _msgSender() == governor(), "fee-increase-is-not-allowed");
         emit UpdatedMintingFee(mintingFee, _newMintingFee);
         mintingFee = _newMintingFee;
     }
@@ -143,23 +156,106 @@ contract Minter is Context, ReentrancyGuard {
         maxMintLimit = _newMintLimit;
     }
 
-    /// @notice Update price deviation limit
-    function updatePriceTolerance(uint256 _newPriceTolerance) external onlyGovernor {
+    /// @notice Update price deviation limit, oracle manager is also allowed to call to lower it
+    function updatePriceTolerance(uint256 _newPriceTolerance) external onlyGovernorOrRole(ORACLE_MANAGER_ROLE) {
         require(_newPriceTolerance <= MAX_BPS, "price-deviation-is-invalid");
         uint256 _currentPriceTolerance = priceTolerance;
         require(_currentPriceTolerance != _newPriceTolerance, "same-price-deviation-limit");
+        require(
+            _newPriceTolerance < _currentPriceTolerance || _msgSender() == governor(),
+            "tolerance-increase-is-not-allowed"
+        );
         emit UpdatedPriceTolerance(_currentPriceTolerance, _newPriceTolerance);
         priceTolerance = _newPriceTolerance;
     }
 
-    /// @notice Update stale period
-    function updateStalePeriod(address _oracle, uint256 _newStalePeriod) external onlyGovernor {
-        require(_newStalePeriod != 0, "stale-period-is-invalid");
-        uint256 _currentStalePeriod = stalePeriod[_oracle];
-        require(_currentStalePeriod != 0, "invalid-oracle");
-        require(_currentStalePeriod != _newStalePeriod, "same-stale-period");
-        emit UpdatedStalePeriod(_oracle, _currentStalePeriod, _newStalePeriod);
-        stalePeriod[_oracle] = _newStalePeriod;
+    /**
+     * @notice Update oracle router, token price is read from it
+     * @param _newOracleRouter new oracle router address
+     */
+    function updateOracleRouter(address _newOracleRouter) external onlyGovernor {
+        require(_newOracleRouter != address(0), "oracle-router-address-is-zero");
+        address _currentOracleRouter = address(oracleRouter);
+        require(_currentOracleRouter != _newOracleRouter, "same-oracle-router");
+        emit UpdatedOracleRouter(_currentOracleRouter, _newOracleRouter);
+        oracleRouter = IOracleRouter(_newOracleRouter);
+    }
+
+    /**
+     * @notice Update circuit breaker, mint and redeem of a token paused by it are rejected
+     * @param _newCircuitBreaker new circuit breaker address, zero address disables the check
+     */
+    function updateCircuitBreaker(address _newCircuitBreaker) external onlyGovernor {
+        address _currentCircuitBreaker = address(circuitBreaker);
+        require(_currentCircuitBreaker != _newCircuitBreaker, "same-circuit-breaker");
+        emit UpdatedCircuitBreaker(_currentCircuitBreaker, _newCircuitBreaker);
+        circuitBreaker = ICircuitBreaker(_newCircuitBreaker);
+    }
+
+    /**
+     * @notice Update rate limiter, it caps mint volume per time window
+     * @param _newRateLimiter new rate limiter address, zero address disables the limits
+     */
+    function updateRateLimiter(address _newRateLimiter) external onlyGovernor {
+        address _currentRateLimiter = address(rateLimiter);
+        require(_currentRateLimiter != _newRateLimiter, "same-rate-limiter");
+        emit UpdatedRateLimiter(_currentRateLimiter, _newRateLimiter);
+        rateLimiter = IRateLimiter(_newRateLimiter);
+    }
+
+    /**
+     * @notice Update fee collector, it counts minting fee and mints claimed surplus via Minter
+     * @param _newFeeCollector new fee collector address, zero address disables fee accounting
+     */
+    function updateFeeCollector(address _newFeeCollector) external onlyGovernor {
+        address _currentFeeCollector = address(feeCollector);
+        require(_currentFeeCollector != _newFeeCollector, "same-fee-collector");
+        emit UpdatedFeeCollector(_currentFeeCollector, _newFeeCollector);
+        feeCollector = IFeeCollector(_newFeeCollector);
+    }
+
+    /**
+     * @notice Update role registry, guardian, fee manager and oracle manager roles are read from it
+     * @param _newRoleRegistry new role registry address, zero address leaves governor only
+     */
+    function updateRoleRegistry(address _newRoleRegistry) external onlyGovernor {
+        address _currentRoleRegistry = address(roleRegistry);
+        require(_currentRoleRegistry != _newRoleRegistry, "same-role-registry");
+        emit UpdatedRoleRegistry(_currentRoleRegistry, _newRoleRegistry);
+        roleRegistry = IRoleRegistry(_newRoleRegistry);
+    }
+
+    /**
+     * @notice Update AMO, it mints VUSD to add liquidity via `mintLiquidity`
+     * @param _newAmo new AMO address, zero address disables AMO mint
+     */
+    function updateAmo(address _newAmo) external onlyGovernor {
+        address _currentAmo = amo;
+        require(_currentAmo != _newAmo, "same-amo");
+        emit UpdatedAmo(_currentAmo, _newAmo);
+        amo = _newAmo;
+    }
+
+    /**
+     * @notice Update savings vault, it mints yield of treasury to itself via `mintYield`
+     * @param _newSavingsVault new savings vault address, zero address disables yield mint
+     */
+    function updateSavingsVault(address _newSavingsVault) external onlyGovernor {
+        address _currentSavingsVault = savingsVault;
+        require(_currentSavingsVault != _newSavingsVault, "same-savings-vault");
+        emit UpdatedSavingsVault(_currentSavingsVault, _newSavingsVault);
+        savingsVault = _newSavingsVault;
+    }
+
+    /**
+     * @notice Update bridge adapter, it mints VUSD sent from other chains via `mintBridged`
+     * @param _newBridge new bridge adapter address, zero address disables bridge mint
+     */
+    function updateBridge(address _newBridge) external onlyGovernor {
+        address _currentBridge = bridge;
+        require(_currentBridge != _newBridge, "same-bridge");
+        emit UpdatedBridge(_currentBridge, _newBridge);
+        bridge = _newBridge;
     }
 
     ///////////////////////////////////////////////////////////////////////////
@@ -180,6 +276,102 @@ contract Minter is Context, ReentrancyGuard {
         _mint(_token, _amountIn, _minAmountOut, _receiver);
     }
 
+    /**
+     * @notice Mint VUSD using EIP-2612 permit of _token, approve and mint in one transaction.
+     * @dev Permit failure is ignored, it may be front-run, mint works as long as allowance is in place.
+     * @param _token Address of token being deposited, it should support EIP-2612 permit
+     * @param _amountIn Amount of _token, it is also the permit value
+     * @param _minAmountOut Minimum amount of VUSD to mint
+     * @param _receiver Address of VUSD receiver
+     * @param _deadline Permit deadline
+     */
+    function mintWithPermit(
+        address _token,
+        uint256 _amountIn,
+        uint256 _minAmountOut,
+        address _receiver,
+        uint256 _deadline,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) external nonReentrant {
+        try IERC20Permit(_token).permit(_msgSender(), address(this), _amountIn, _deadline, _v, _r, _s) {} catch {}
+        _mint(_token, _amountIn, _minAmountOut, _receiver);
+    }
+
+    /**
+     * @notice Mint VUSD using DAI-style permit of _token, approve and mint in one transaction.
+     * @dev DAI-style permit approves max allowance. Permit failure is ignored, same as mintWithPermit.
+     * @param _token Address of token being deposited, it should support DAI-style permit
+     * @param _amountIn Amount of _token
+     * @param _minAmountOut Minimum amount of VUSD to mint
+     * @param _receiver Address of VUSD receiver
+     * @param _nonce Permit nonce of caller
+     * @param _expiry Permit expiry
+     */
+    function mintWithDaiPermit(
+        address _token,
+        uint256 _amountIn,
+        uint256 _minAmountOut,
+        address _receiver,
+        uint256 _nonce,
+        uint256 _expiry,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) external nonReentrant {
+        try IDaiPermit(_token).permit(_msgSender(), address(this), _nonce, _expiry, true, _v, _r, _s) {} catch {}
+        _mint(_token, _amountIn, _minAmountOut, _receiver);
+    }
+
+    /**
+     * @notice Mint surplus claimed from fee collector
+     * @dev Only fee collector is allowed to call, it caps amount by surplus and collateralization floor
+     * @param _receiver Address of VUSD receiver
+     * @param _amount Amount of VUSD to mint
+     */
+    function mintSurplus(address _receiver, uint256 _amount) external {
+        require(_msgSender() == address(feeCollector), "caller-is-not-the-fee-collector");
+        require(availableMintage() >= _amount, "mint-limit-reached");
+        vusd.mint(_receiver, _amount);
+    }
+
+    /**
+     * @notice Mint VUSD to AMO to add liquidity, same as governor mint
+     * @dev Only AMO is allowed to call, AMO caps amount by its debt ceiling
+     * @param _amount Amount of VUSD to mint
+     */
+    function mintLiquidity(uint256 _amount) external {
+        require(_msgSender() == amo, "caller-is-not-the-amo");
+        require(availableMintage() >= _amount, "mint-limit-reached");
+        vusd.mint(_msgSender(), _amount);
+    }
+
+    /**
+     * @notice Mint yield of treasury to savings vault
+     * @dev Only savings vault is allowed to call, it caps amount by collateralization floor
+     * @param _amount Amount of VUSD to mint
+     */
+    function mintYield(uint256 _amount) external {
+        require(_msgSender() == savingsVault, "caller-is-not-the-savings-vault");
+        require(availableMintage() >= _amount, "mint-limit-reached");
+        vusd.mint(_msgSender(), _amount);
+    }
+
+    /**
+     * @notice Mint VUSD sent from another chain, where it is burnt
+     * @dev Only bridge adapter is allowed to call. Adapter caps it by VUSD burnt toward source chain plus mint
+     * ceiling of that chain. VUSD returning from other chains is already in supply of `availableMintage`, hence it is
+     * capped by mint limit only when VUSD of all chains is above it.
+     * @param _receiver Address of VUSD receiver
+     * @param _amount Amount of VUSD to mint
+     */
+    function mintBridged(address _receiver, uint256 _amount) external {
+        require(_msgSender() == bridge, "caller-is-not-the-bridge");
+        require(availableMintage() >= _amount, "mint-limit-reached");
+        vusd.mint(_receiver, _amount);
+    }
+
     /**
      * @notice Calculate minting amount of VUSD for given _token and its amountIn.
      * @param _token Address of token which will be deposited for this mintage
@@ -189,10 +381,40 @@ contract Minter is Context, ReentrancyGuard {
      */
     function calculateMintage(address _token, uint256 _amountIn) external view returns (uint256 _mintage) {
         if (_whitelistedTokens.contains(_token)) {
-            _mintage = _calculateMintage(_token, _amountIn);
+            (_mintage, ) = _calculateMintageAndFee(_token, _amountIn);
         }
     }
 
+    /**
+     * @notice VUSD mintage and minting fee, both in VUSD decimals, for given token amount at given price.
+     * It checks neither price tolerance nor mint limit. Mint and Quoter share it, so quotes follow mint math.
+     * @param _token Address of token being deposited
+     * @param _amountIn Amount of _token received
+     * @param _price USD price of _token with 18 decimals
+     */
+    function mintageAt(
+        address _token,
+        uint256 _amountIn,
+        uint256 _price
+    ) public view returns (uint256 _mintage, uint256 _fee) {
+        // Token is expected to be stable coin only, it never mints more than 1 VUSD per USD
+        uint256 _oneUSD = 1e18;
+        uint256 _actualAmountIn = mintingFee > 0 ? (_amountIn * (MAX_BPS - mintingFee)) / MAX_BPS : _amountIn;
+        _mintage = _price >= _oneUSD ? _actualAmountIn : (_actualAmountIn * _price) / _oneUSD;
+        uint256 _beforeFee = _price >= _oneUSD ? _amountIn : (_amountIn * _price) / _oneUSD;
+
+        // Token may have fewer or more decimals than VUSD, both round down
+        uint8 _decimals = IERC20Metadata(_token).decimals();
+        _mintage = _scale(_mintage, _decimals, vusdDecimals);
+        _fee = _scale(_beforeFee, _decimals, vusdDecimals) - _mintage;
+    }
+
+    /// @notice Whether given price, with 18 decimals, is within price tolerance of 1 USD
+    function isPriceWithinTolerance(uint256 _price) public view returns (bool) {
+        uint256 _tolerance = (1e18 * priceTolerance) / MAX_BPS;
+        return _price <= 1e18 + _tolerance && _price >= 1e18 - _tolerance;
+    }
+
     /// @notice Returns whether given address is whitelisted or not
     function isWhitelistedToken(address _address) external view returns (bool) {
         return _whitelistedTokens.contains(_address);
@@ -203,15 +425,28 @@ contract Minter is Context, ReentrancyGuard {
         return _whitelistedTokens.values();
     }
 
-    /// @notice Check available mintage based on mint limit
+    /// @notice Check available mintage based on mint limit, VUSD bridged to other chains is part of supply
     function availableMintage() public view returns (uint256 _mintage) {
-        uint256 _totalSupply = vusd.totalSupply();
+        uint256 _totalSupply = vusd.totalSupply() + _netOutbound();
         uint256 _mintageLimit = maxMintLimit;
         if (_mintageLimit > _totalSupply) {
             _mintage = _mintageLimit - _totalSupply;
         }
     }
 
+    /**
+     * @notice VUSD supply backed by treasury, i.e. total supply plus VUSD bridged to other chains less debt of AMO
+     * @dev VUSD minted by AMO is backed by metapool LP held by AMO, not by reserves of treasury
+     */
+    function backedSupply() external view returns (uint256 _supply) {
+        _supply = vusd.totalSupply() + _netOutbound();
+        address _amo = amo;
+        if (_amo != address(0)) {
+            uint256 _debt = ICurveAMO(_amo).debt();
+            _supply = _debt < _supply ? _supply - _debt : 0;
+        }
+    }
+
     /// @dev Treasury is defined in VUSD token contract only
     function treasury() public view returns (address) {
         return vusd.treasury();
@@ -222,22 +457,17 @@ contract Minter is Context, ReentrancyGuard {
         return vusd.governor();
     }
 
-    /**
-     * @dev Add _token into the list, add _cToken in mapping and
-     * approve cToken to spend token
-     */
-    function _addToken(
-        address _token,
-        address _cToken,
-        address _oracle,
-        uint256 _stalePeriod
-    ) internal {
+    /// @dev Whether caller holds given role in role registry, no role is held without registry
+    function _hasRole(bytes32 _role) internal view returns (bool) {
+        IRoleRegistry _roleRegistry = roleRegistry;
+        return address(_roleRegistry) != address(0) && _roleRegistry.hasRole(_role, _msgSender());
+    }
+
+    /// @dev Add _token into the list
+    function _addToken(address _token) internal {
+        require(_token != address(0), "token-address-is-zero");
         require(_whitelistedTokens.add(_token), "add-in-list-failed");
-        oracles[_token] = _oracle;
-        cTokens[_token] = _cToken;
-        stalePeriod[_oracle] = _stalePeriod;
-        IERC20(_token).safeApprove(_cToken, type(uint256).max);
-        emit WhitelistedTokenAdded(_token, _cToken, _oracle);
+        emit WhitelistedTokenAdded(_token);
     }
 
     /**
@@ -253,45 +483,65 @@ contract Minter is Context, ReentrancyGuard {
         address _receiver
     ) internal returns (uint256 _mintage) {
         require(_whitelistedTokens.contains(_token), "token-is-not-supported");
-        uint256 _balanceBefore = IERC20(_token).balanceOf(address(this));
-        IERC20(_token).safeTransferFrom(_msgSender(), address(this), _amountIn);
-        uint256 _balanceAfter = IERC20(_token).balanceOf(address(this));
-
-        uint256 _actualAmountIn = _balanceAfter - _balanceBefore;
-        _mintage = _calculateMintage(_token, _actualAmountIn);
+        _requireNotPaused(_token);
+        address _strategy = ITreasury(treasury()).strategies(_token);
+        require(_strategy != address(0), "token-is-not-supported-by-treasury");
+        // Token goes straight to strategy of treasury, actual amount is what strategy received
+        uint256 _balanceBefore = IERC20(_token).balanceOf(_strategy);
+        IERC20(_token).safeTransferFrom(_msgSender(), _strategy, _amountIn);
+        uint256 _actualAmountIn = IERC20(_token).balanceOf(_strategy) - _balanceBefore;
+
+        uint256 _fee;
+        (_mintage, _fee) = _calculateMintageAndFee(_token, _actualAmountIn);
         require(_mintage >= _minAmountOut, "mint-amount-is-less-than-minimum");
-        address _cToken = cTokens[_token];
-
-        require(CToken(_cToken).mint(_balanceAfter) == 0, "cToken-mint-failed");
-        IERC20(_cToken).safeTransfer(treasury(), IERC20(_cToken).balanceOf(address(this)));
+        IStrategy(_strategy).deposit();
+        if (address(rateLimiter) != address(0)) {
+            rateLimiter.consumeMint(_token, _msgSender(), _mintage);
+        }
         vusd.mint(_receiver, _mintage);
+        if (_fee != 0 && address(feeCollector) != address(0)) {
+            feeCollector.recordMintFee(_token, _fee);
+        }
         emit Mint(_token, _amountIn, _actualAmountIn, _mintage, _receiver);
     }
 
+    /// @dev VUSD bridged from this chain and not returned yet, zero when there is no bridge adapter
+    function _netOutbound() internal view returns (uint256) {
+        address _bridge = bridge;
+        return _bridge == address(0) ? 0 : IBridgeAdapter(_bridge).netOutbound();
+    }
+
+    /// @dev Revert if circuit breaker, if any, paused given token
+    function _requireNotPaused(address _token) internal view {
+        ICircuitBreaker _circuitBreaker = circuitBreaker;
+        require(address(_circuitBreaker) == address(0) || !_circuitBreaker.isPaused(_token), "token-is-paused");
+    }
+
     /**
-     * @notice Calculate mintage based on mintingFee, if any.
-     * Also covert _token defined decimal amount to 18 decimal amount
-     * @return _mintage VUSD mintage based on given input
+     * @dev Calculate mintage based on oracle price and mintingFee, if any, in VUSD decimals. Also returns VUSD not
+     * minted due to minting fee.
      */
-    function _calculateMintage(address _token, uint256 _amountIn) internal view returns (uint256 _mintage) {
-        IAggregatorV3 _oracle = IAggregatorV3(oracles[_token]);
-        uint8 _oracleDecimal = IAggregatorV3(_oracle).decimals();
-        (, int256 _price, , uint256 _updatedAt, ) = IAggregatorV3(_oracle).latestRoundData();
-        require(block.timestamp - _updatedAt < stalePeriod[address(_oracle)], "oracle-price-is-stale");
-        uint256 _latestPrice = uint256(_price);
-
-        // Token is expected to be stable coin only. Ideal price is 1 USD
-        uint256 _oneUSD = 10**_oracleDecimal;
-        uint256 _priceTolerance = (_oneUSD * priceTolerance) / MAX_BPS;
-        uint256 _priceUpperBound = _oneUSD + _priceTolerance;
-        uint256 _priceLowerBound = _oneUSD - _priceTolerance;
-
-        require(_latestPrice <= _priceUpperBound && _latestPrice >= _priceLowerBound, "oracle-price-exceed-tolerance");
-        uint256 _actualAmountIn = mintingFee > 0 ? (_amountIn * (MAX_BPS - mintingFee)) / MAX_BPS : _amountIn;
-        _mintage = _latestPrice >= _oneUSD ? _actualAmountIn : (_actualAmountIn * _latestPrice) / _oneUSD;
-
-        _mintage = _mintage * 10**(vusdDecimals - IERC20Metadata(_token).decimals());
+    function _calculateMintageAndFee(address _token, uint256 _amountIn)
+        internal
+        view
+        returns (uint256 _mintage, uint256 _fee)
+    {
+        uint256 _latestPrice = oracleRouter.price(_token);
+        require(isPriceWithinTolerance(_latestPrice), "oracle-price-exceed-tolerance");
+        (_mintage, _fee) = mintageAt(_token, _amountIn, _latestPrice);
         uint256 _availableMintage = availableMintage();
         require(_availableMintage >= _mintage, "mint-limit-reached");
     }
+
+    /// @dev Convert _amount from _fromDecimals to _toDecimals, rounding down
+    function _scale(
+        uint256 _amount,
+        uint8 _fromDecimals,
+        uint8 _toDecimals
+    ) internal pure returns (uint256) {
+        return
+            _fromDecimals > _toDecimals
+                ? _amount / 10**(_fromDecimals - _toDecimals)
+                : _amount * 10**(_toDecimals - _fromDecimals);
+    }
 }
@@ -0,0 +1,257 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+import "@openzeppelin/contracts/utils/Context.sol";
+import "./interfaces/chainlink/IAggregatorV3.sol";
+import "./interfaces/IOracleRouter.sol";
+import "./interfaces/IRoleRegistry.sol";
+import "./interfaces/IVUSD.sol";
+
+/**
+ * @title VUSD Oracle Router, Minter and Redeemer read token price from it.
+ * @dev Each token has a primary and an optional secondary feed. Any feed with Chainlink aggregator interface works,
+ * i.e. a TWAP adapter as secondary. Feeds are combined as per mode of token:
+ * Fallback: primary price, secondary price if primary is stale, invalid or reverts.
+ * Median: median of both prices, which is their average. Both feeds must be valid.
+ * Oracle manager, as per role registry, can lower stale periods. Only governor changes feeds, so a feed swap goes
+ * through timelock of governor.
+ */
+contract OracleRouter is Context, IOracleRouter {
+    string public constant NAME = "VUSD-OracleRouter";
+    string public constant VERSION = "1.5.0";
+    uint8 public constant PRICE_DECIMALS = 18;
+    bytes32 public constant ORACLE_MANAGER_ROLE = keccak256("ORACLE_MANAGER_ROLE");
+
+    struct Feeds {
+        address primary;
+        address secondary;
+        Mode mode;
+    }
+
+    IVUSD public immutable vusd;
+    IRoleRegistry public roleRegistry;
+
+    // Token => feeds mapping
+    mapping(address => Feeds) public override feeds;
+    // Feed => stalePeriod mapping
+    mapping(address => uint256) public stalePeriod;
+
+    event UpdatedFeeds(address indexed token, address primary, address secondary, Mode mode);
+    event RemovedFeeds(address indexed token);
+    event UpdatedStalePeriod(address indexed feed, uint256 previousStalePeriod, uint256 newStalePeriod);
+    event UpdatedRoleRegistry(address indexed previousRoleRegistry, address indexed newRoleRegistry);
+
+    /**
+     * @dev Default feeds are given as 1:1 arrays, tokens start in Fallback mode
+     * @param _vusd VUSD address
+     * @param _tokens Default tokens
+     * @param _primaries Primary token/USD feed correspond to _tokens
+     * @param _secondaries Secondary token/USD feed correspond to _tokens, zero if token has none
+     * @param _stalePeriods Stale period of both feeds of token
+     */
+    constructor(
+        address _vusd,
+        address[] memory _tokens,
+        address[] memory _primaries,
+        address[] memory _secondaries,
+        uint256[] memory _stalePeriods
+    ) {
+        require(_vusd != address(0), "vusd-address-is-zero");
+        uint256 _len = _tokens.length;
+        require(
+            _primaries.length == _len && _secondaries.length == _len && _stalePeriods.length == _len,
+            "input-length-mismatch"
+        );
+        vusd = IVUSD(_vusd);
+        for (uint256 i = 0; i < _len; i++) {
+            _updateFeeds(_tokens[i], _primaries[i], _secondaries[i], Mode.Fallback);
+            _updateStalePeriod(_primaries[i], _stalePeriods[i]);
+            if (_secondaries[i] != address(0)) {
+                _updateStalePeriod(_secondaries[i], _stalePeriods[i]);
+            }
+        }
+    }
+
+    modifier onlyGovernor() {
+        require(_msgSender() == governor(), "caller-is-not-the-governor");
+        _;
+    }
+
+    modifier onlyGovernorOrRole(bytes32 _role) {
+        require(_msgSender() == governor() || _hasRole(_role), "caller-is-not-authorized");
+        _;
+    }
+
+    ////////////////////////////// Only Governor //////////////////////////////
+
+    /**
+     * @notice Update feeds of token and the way those are combined
+     * @dev Stale period of a new feed should be set via updateStalePeriod, else feed is always stale
+     * @param _token Token to price
+     * @param _primary Primary token/USD feed
+     * @param _secondary Secondary token/USD feed, zero if token has none
+     * @param _mode Fallback or Median, Median needs a secondary feed
+     */
+    function updateFeeds(
+        address _token,
+        address _primary,
+        address _secondary,
+        Mode _mode
+    ) external onlyGovernor {
+        _updateFeeds(_token, _primary, _secondary, _mode);
+    }
+
+    /// @notice Remove feeds of token, it can not be priced afterwards
+    function removeFeeds(address _token) external onlyGovernor {
+        require(feeds[_token].primary != address(0), "token-has-no-feed");
+        delete feeds[_token];
+        emit RemovedFeeds(_token);
+    }
+
+    /// @notice Update stale period of feed, oracle manager is also allowed to call to lower it
+    function updateStalePeriod(address _feed, uint256 _newStalePeriod)
+        external
+        onlyGovernorOrRole(ORACLE_MANAGER_ROLE)
+    {
+        require(_feed != address(0), "feed-address-is-zero");
+        uint256 _currentStalePeriod = stalePeriod[_feed];
+        require(_currentStalePeriod != _newStalePeriod, "same-stale-period");
+        require(
+            _newStalePeriod < _currentStalePeriod || _msgSender() == governor(),
+            "stale-period-increase-is-not-allowed"
+        );
+        _updateStalePeriod(_feed, _newStalePeriod);
+    }
+
+    /**
+     * @notice Update role registry, oracle manager role is read from it
+     * @param _newRoleRegistry new role registry address, zero address leaves governor only
+     */
+    function updateRoleRegistry(address _newRoleRegistry) external onlyGovernor {
+        address _currentRoleRegistry = address(roleRegistry);
+        require(_currentRoleRegistry != _newRoleRegistry, "same-role-registry");
+        emit UpdatedRoleRegistry(_currentRoleRegistry, _newRoleRegistry);
+        roleRegistry = IRoleRegistry(_newRoleRegistry);
+    }
+
+    ///////////////////////////////////////////////////////////////////////////
+
+    /**
+     * @notice USD price of token, with 18 decimals, as per mode of token
+     * @dev Reverts with reason of invalid feed, of primary feed if neither feed is valid in Fallback mode
+     * @param _token Token to price
+     */
+    function price(address _token) external view override returns (uint256) {
+        Feeds memory _feeds = feeds[_token];
+        require(_feeds.primary != address(0), "token-has-no-feed");
+        (uint256 _primaryPrice, string memory _primaryError) = _feedPrice(_feeds.primary);
+        if (_feeds.mode == Mode.Median) {
+            (uint256 _secondaryPrice, string memory _secondaryError) = _feedPrice(_feeds.secondary);
+            require(bytes(_primaryError).length == 0, _primaryError);
+            require(bytes(_secondaryError).length == 0, _secondaryError);
+            return (_primaryPrice + _secondaryPrice) / 2;
+        }
+        if (bytes(_primaryError).length == 0) {
+            return _primaryPrice;
+        }
+        if (_feeds.secondary != address(0)) {
+            (uint256 _secondaryPrice, string memory _secondaryError) = _feedPrice(_feeds.secondary);
+            if (bytes(_secondaryError).length == 0) {
+                return _secondaryPrice;
+            }
+        }
+        revert(_primaryError);
+    }
+
+    /**
+     * @notice Latest price of feed with 18 decimals and whether it is valid.
+     * Price is invalid if it is not positive, its round is not complete or it is older than stale period.
+     * @param _feed Chainlink aggregator compatible feed
+     */
+    function feedPrice(address _feed) external view returns (uint256 _price, bool _valid) {
+        string memory _error;
+        (_price, _error) = _feedPrice(_feed);
+        _valid = bytes(_error).length == 0;
+    }
+
+    /// @dev Governor is defined in VUSD token contract only
+    function governor() public view returns (address) {
+        return vusd.governor();
+    }
+
+    /// @dev Whether caller holds given role in role registry, no role is held without registry
+    function _hasRole(bytes32 _role) internal view returns (bool) {
+        IRoleRegistry _roleRegistry = roleRegistry;
+        return address(_roleRegistry) != address(0) && _roleRegistry.hasRole(_role, _msgSender());
+    }
+
+    function _updateFeeds(
+        address _token,
+        address _primary,
+        address _secondary,
+        Mode _mode
+    ) internal {
+        require(_token != address(0), "token-address-is-zero");
+        require(_primary != address(0), "primary-feed-address-is-zero");
+        require(_primary != _secondary, "same-feed");
+        require(_mode == Mode.Fallback || _secondary != address(0), "median-needs-secondary-feed");
+        feeds[_token] = Feeds({primary: _primary, secondary: _secondary, mode: _mode});
+        emit UpdatedFeeds(_token, _primary, _secondary, _mode);
+    }
+
+    function _updateStalePeriod(address _feed, uint256 _newStalePeriod) internal {
+        require(_newStalePeriod != 0, "stale-period-is-invalid");
+        emit UpdatedStalePeriod(_feed, stalePeriod[_feed], _newStalePeriod);
+        stalePeriod[_feed] = _newStalePeriod;
+    }
+
+    /**
+     * @dev Latest price of feed with 18 decimals, or revert reason if price is invalid or feed reverts.
+     * Call to address without code reverts before try/catch can catch it, so code of feed is checked first.
+     */
+    function _feedPrice(address _feed) internal view returns (uint256 _price, string memory _error) {
+        if (_feed.code.length == 0) {
+            return (0, "oracle-feed-has-no-code");
+        }
+        uint80 _roundId;
+        int256 _answer;
+        uint256 _updatedAt;
+        uint80 _answeredInRound;
+        try IAggregatorV3(_feed).latestRoundData() returns (
+            uint80 _latestRoundId,
+            int256 _latestAnswer,
+            uint256,
+            uint256 _latestUpdatedAt,
+            uint80 _latestAnsweredInRound
+        ) {
+            (_roundId, _answer, _updatedAt, _answeredInRound) = (
+                _latestRoundId,
+                _latestAnswer,
+                _latestUpdatedAt,
+                _latestAnsweredInRound
+            );
+        } catch {
+            return (0, "oracle-feed-reverted");
+        }
+        if (_answer <= 0) {
+            return (0, "oracle-price-is-invalid");
+        }
+        if (_updatedAt == 0 || _answeredInRound < _roundId) {
+            return (0, "oracle-round-is-incomplete");
+        }
+        // Price from the future is as untrustworthy as a stale one
+        if (_updatedAt > block.timestamp || block.timestamp - _updatedAt >= stalePeriod[_feed]) {
+            return (0, "oracle-price-is-stale");
+        }
+        uint8 _decimals;
+        try IAggregatorV3(_feed).decimals() returns (uint8 _feedDecimals) {
+            _decimals = _feedDecimals;
+        } catch {
+            return (0, "oracle-feed-reverted");
+        }
+        _price = _decimals > PRICE_DECIMALS
+            ? uint256(_answer) / 10**(_decimals - PRICE_DECIMALS)
+            : uint256(_answer) * 10**(PRICE_DECIMALS - _decimals);
+    }
+}
@@ -0,0 +1,437 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "./interfaces/chainlink/IAggregatorV3.sol";
+import "./interfaces/IMinter.sol";
+import "./interfaces/IRedeemer.sol";
+import "./interfaces/ITreasury.sol";
+import "./interfaces/IVUSD.sol";
+
+/**
+ * @title VUSD Quoter, It quotes mint and redeem and explains why they would revert, if they would.
+ * @dev Views of this contract never revert. Minter, Redeemer and Treasury are read from VUSD, hence it follows
+ * upgrades of those. Amounts, fees and price tolerance come from `mintageAt`, `redeemableAt` and
+ * `isPriceWithinTolerance` of Minter and Redeemer, the same math mint and redeem run. Amounts are zero if there is
+ * no fresh price within price tolerance. A token with transfer fee mints less than quoted, as Minter mints what it
+ * received. Every read of other contracts is a static call which can fail, i.e. a getter missing in older Minter or
+ * a token without code, and it is reported as a status instead. Return data is length checked and read word by word,
+ * hence short or malformed return data is reported as Unsupported instead of reverting abi.decode. An amount too
+ * large to quote without overflow is reported as Limit.
+ */
+contract Quoter {
+    string public constant NAME = "VUSD-Quoter";
+    string public constant VERSION = "1.5.0";
+    // Minter and Redeemer both use 10_000 as 100%
+    uint256 public constant MAX_BPS = 10_000;
+
+    enum Status {
+        Ok,
+        Stale,
+        Depegged,
+        Limit,
+        InsufficientLiquidity,
+        Paused,
+        Unsupported
+    }
+
+    struct Quote {
+        address token;
+        // VUSD on mint and token on redeem, fee is in the same unit
+        uint256 amountOut;
+        uint256 fee;
+        // Oracle router price with 18 decimals, zero if it is stale
+        uint256 price;
+        // Seconds since last update of primary feed of token
+        uint256 staleness;
+        Status status;
+    }
+
+    // Same getters of Minter and Redeemer which a quote depends on
+    struct Params {
+        IOracleRouter oracleRouter;
+        ICircuitBreaker circuitBreaker;
+        IRateLimiter rateLimiter;
+    }
+
+    IVUSD public immutable vusd;
+
+    constructor(address _vusd) {
+        require(_vusd != address(0), "vusd-address-is-zero");
+        vusd = IVUSD(_vusd);
+    }
+
+    /**
+     * @notice Quote VUSD minted for given token amount
+     * @param _token Token to deposit
+     * @param _amountIn Token amount to deposit, in token decimals
+     * @param _account Account which deposits, its rate limit applies
+     */
+    function quoteMint(
+        address _token,
+        uint256 _amountIn,
+        address _account
+    ) external view returns (Quote memory) {
+        return _quoteMint(vusd.minter(), _token, _amountIn, _account);
+    }
+
+    /**
+     * @notice Quote token paid for given VUSD amount
+     * @param _token Token to redeem
+     * @param _vusdAmount VUSD amount to burn
+     * @param _account Account which burns VUSD, its rate limit applies
+     */
+    function quoteRedeem(
+        address _token,
+        uint256 _vusdAmount,
+        address _account
+    ) external view returns (Quote memory) {
+        return _quoteRedeem(vusd.treasury(), _token, _vusdAmount, _account);
+    }
+
+    /**
+     * @notice Quote mint of each whitelisted token of Minter
+     * @param _amountIn Amount of each token to deposit with 18 decimals, it is scaled to decimals of token
+     * @param _account Account which deposits, its rate limit applies
+     */
+    function quoteMintAll(uint256 _amountIn, address _account) external view returns (Quote[] memory _quotes) {
+        address _minter = vusd.minter();
+        address[] memory _tokens = _tokensOf(_minter);
+        uint256 _len = _tokens.length;
+        _quotes = new Quote[](_len);
+        for (uint256 i = 0; i < _len; i++) {
+            (bool _ok, uint8 _decimals) = _decimalsOf(_tokens[i]);
+            if (!_ok) {
+                _quotes[i].token = _tokens[i];
+                _quotes[i].status = Status.Unsupported;
+                continue;
+            }
+            // Scaling up to more than 18 decimals may overflow
+            if (_decimals > 18 && _amountIn > type(uint256).max / 10**(_decimals - 18)) {
+                _quotes[i].token = _tokens[i];
+                _quotes[i].status = Status.Limit;
+                continue;
+            }
+            _quotes[i] = _quoteMint(_minter, _tokens[i], _scale(_amountIn, 18, _decimals), _account);
+        }
+    }
+
+    /**
+     * @notice Quote redeem of given VUSD amount for each whitelisted token of Treasury
+     * @param _vusdAmount VUSD amount to burn for each token
+     * @param _account Account which burns VUSD, its rate limit applies
+     */
+    function quoteRedeemAll(uint256 _vusdAmount, address _account) external view returns (Quote[] memory _quotes) {
+        address _treasury = vusd.treasury();
+        address[] memory _tokens = _tokensOf(_treasury);
+        uint256 _len = _tokens.length;
+        _quotes = new Quote[](_len);
+        for (uint256 i = 0; i < _len; i++) {
+            _quotes[i] = _quoteRedeem(_treasury, _tokens[i], _vusdAmount, _account);
+        }
+    }
+
+    function _quoteMint(
+        address _minter,
+        address _token,
+        uint256 _amountIn,
+        address _account
+    ) internal view returns (Quote memory _quote) {
+        _quote.token = _token;
+        (bool _ok, Params memory _params) = _paramsOf(_minter);
+        if (_ok && _isWhitelisted(_minter, _token)) {
+            (_ok, ) = _decimalsOf(_token);
+        } else {
+            _ok = false;
+        }
+        bool _withinTolerance;
+        if (_ok) {
+            (_ok, _quote.price, _quote.staleness, _withinTolerance) = _priceOf(_minter, _params, _token);
+        }
+        if (!_ok) {
+            _quote.status = Status.Unsupported;
+            return _quote;
+        }
+        // Mint math overflows only on amounts no token supply can reach
+        bool _overflow;
+        if (_withinTolerance) {
+            (_ok, _overflow, _quote.amountOut, _quote.fee) = _amountsAt(
+                _minter,
+                abi.encodeWithSelector(IMinter.mintageAt.selector, _token, _amountIn, _quote.price)
+            );
+            if (!_ok) {
+                _quote.status = Status.Unsupported;
+                return _quote;
+            }
+        }
+
+        if (_isPaused(_params.circuitBreaker, _token)) {
+            _quote.status = Status.Paused;
+        } else if (_quote.price == 0) {
+            _quote.status = Status.Stale;
+        } else if (!_withinTolerance) {
+            _quote.status = Status.Depegged;
+        } else if (
+            _overflow ||
+            _quote.amountOut > _readUint(_minter, abi.encodeWithSelector(IMinter.availableMintage.selector)) ||
+            _quote.amountOut > _capacity(_params.rateLimiter, _token, _account, true)
+        ) {
+            _quote.status = Status.Limit;
+        }
+    }
+
+    function _quoteRedeem(
+        address _treasury,
+        address _token,
+        uint256 _vusdAmount,
+        address _account
+    ) internal view returns (Quote memory _quote) {
+        _quote.token = _token;
+        address _redeemer = address(uint160(_readUint(_treasury, abi.encodeWithSelector(ITreasury.redeemer.selector))));
+        (bool _ok, Params memory _params) = _paramsOf(_redeemer);
+        if (_ok && _isWhitelisted(_treasury, _token)) {
+            (_ok, ) = _decimalsOf(_token);
+        } else {
+            _ok = false;
+        }
+        bool _withinTolerance;
+        if (_ok) {
+            (_ok, _quote.price, _quote.staleness, _withinTolerance) = _priceOf(_redeemer, _params, _token);
+        }
+        if (!_ok) {
+            _quote.status = Status.Unsupported;
+            return _quote;
+        }
+        // Redeem math overflows only on amounts no VUSD supply can reach
+        bool _overflow;
+        if (_withinTolerance) {
+            (_ok, _overflow, _quote.amountOut, _quote.fee) = _amountsAt(
+                _redeemer,
+                abi.encodeWithSelector(IRedeemer.redeemableAt.selector, _token, _vusdAmount, _quote.price)
+            );
+            if (!_ok) {
+                _quote.status = Status.Unsupported;
+                return _quote;
+            }
+        }
+
+        if (_isPaused(_params.circuitBreaker, _token)) {
+            _quote.status = Status.Paused;
+        } else if (_quote.price == 0) {
+            _quote.status = Status.Stale;
+        } else if (!_withinTolerance) {
+            _quote.status = Status.Depegged;
+        } else if (_overflow || _vusdAmount > _capacity(_params.rateLimiter, _token, _account, false)) {
+            _quote.status = Status.Limit;
+        } else if (
+            _quote.amountOut > _readUint(_treasury, abi.encodeWithSelector(ITreasury.withdrawable.selector, _token))
+        ) {
+            _quote.status = Status.InsufficientLiquidity;
+        }
+    }
+
+    /**
+     * @dev Getters of Minter or Redeemer, they share the same signatures. Not ok if any getter fails, i.e. Minter or
+     * Redeemer before oracle router.
+     */
+    function _paramsOf(address _source) internal view returns (bool _ok, Params memory _params) {
+        uint256 _oracleRouter;
+        uint256 _circuitBreaker;
+        uint256 _rateLimiter;
+        bool _okRouter;
+        bool _okBreaker;
+        (_okRouter, _oracleRouter) = _read(_source, abi.encodeWithSelector(IMinter.oracleRouter.selector));
+        (_okBreaker, _circuitBreaker) = _read(_source, abi.encodeWithSelector(IMinter.circuitBreaker.selector));
+        (_ok, _rateLimiter) = _read(_source, abi.encodeWithSelector(IMinter.rateLimiter.selector));
+        _ok = _ok && _okRouter && _okBreaker;
+        _params.oracleRouter = IOracleRouter(address(uint160(_oracleRouter)));
+        _params.circuitBreaker = ICircuitBreaker(address(uint160(_circuitBreaker)));
+        _params.rateLimiter = IRateLimiter(address(uint160(_rateLimiter)));
+    }
+
+    /**
+     * @dev Price of token from oracle router, zero if router reverts, i.e. price is stale. Also returns age of
+     * primary feed and whether price is within price tolerance of Minter or Redeemer. Not ok if token has no primary
+     * feed or Minter or Redeemer has no `isPriceWithinTolerance`, i.e. release before Quoter.
+     */
+    function _priceOf(
+        address _source,
+        Params memory _params,
+        address _token
+    )
+        internal
+        view
+        returns (
+            bool _ok,
+            uint256 _price,
+            uint256 _staleness,
+            bool _withinTolerance
+        )
+    {
+        address _router = address(_params.oracleRouter);
+        address _primary = address(
+            uint160(_readUint(_router, abi.encodeWithSelector(IOracleRouter.feeds.selector, _token)))
+        );
+        if (_primary == address(0)) {
+            return (false, 0, 0, false);
+        }
+        (bool _hasRound, bytes memory _round) = _staticcall(
+            _primary,
+            abi.encodeWithSelector(IAggregatorV3.latestRoundData.selector),
+            160
+        );
+        if (_hasRound) {
+            // updatedAt is 4th of 5 words of round data
+            uint256 _updatedAt = _wordAt(_round, 96);
+            _staleness = _updatedAt < block.timestamp ? block.timestamp - _updatedAt : 0;
+        }
+        _price = _readUint(_router, abi.encodeWithSelector(IOracleRouter.price.selector, _token));
+        uint256 _within;
+        (_ok, _within) = _read(_source, abi.encodeWithSelector(IMinter.isPriceWithinTolerance.selector, _price));
+        _withinTolerance = _price != 0 && _within != 0;
+    }
+
+    /**
+     * @dev Amount out and fee of `mintageAt` or `redeemableAt` call, given as calldata. Overflow if call reverts, as
+     * caller already checked that Minter or Redeemer has those views. Not ok if it returns less than two words.
+     */
+    function _amountsAt(address _source, bytes memory _data)
+        internal
+        view
+        returns (
+            bool _ok,
+            bool _overflow,
+            uint256 _amountOut,
+            uint256 _fee
+        )
+    {
+        bytes memory _result;
+        (_ok, _result) = _source.staticcall(_data);
+        if (!_ok) {
+            return (true, true, 0, 0);
+        }
+        if (_result.length < 64) {
+            return (false, false, 0, 0);
+        }
+        _amountOut = _wordAt(_result, 0);
+        _fee = _wordAt(_result, 32);
+    }
+
+    /// @dev Whether circuit breaker, if any, paused given token. Failing circuit breaker is taken as paused.
+    function _isPaused(ICircuitBreaker _circuitBreaker, address _token) internal view returns (bool) {
+        if (address(_circuitBreaker) == address(0)) {
+            return false;
+        }
+        (bool _ok, uint256 _paused) = _read(
+            address(_circuitBreaker),
+            abi.encodeWithSelector(ICircuitBreaker.isPaused.selector, _token)
+        );
+        return !_ok || _paused != 0;
+    }
+
+    /// @dev Mint or redeem capacity of account as per rate limiter, unlimited without rate limiter
+    function _capacity(
+        IRateLimiter _rateLimiter,
+        address _token,
+        address _account,
+        bool _mint
+    ) internal view returns (uint256) {
+        if (address(_rateLimiter) == address(0)) {
+            return type(uint256).max;
+        }
+        bytes4 _selector = _mint ? IRateLimiter.mintCapacity.selector : IRateLimiter.redeemCapacity.selector;
+        return _readUint(address(_rateLimiter), abi.encodeWithSelector(_selector, _token, _account));
+    }
+
+    /// @dev Whether Minter or Treasury whitelisted given token, both have the same getter
+    function _isWhitelisted(address _source, address _token) internal view returns (bool) {
+        return _readUint(_source, abi.encodeWithSelector(IMinter.isWhitelistedToken.selector, _token)) != 0;
+    }
+
+    /**
+     * @dev Whitelisted tokens of Minter or Treasury, empty if getter fails or returns malformed data, i.e. offset or
+     * length of array beyond return data or a word which is not an address.
+     */
+    function _tokensOf(address _source) internal view returns (address[] memory _tokens) {
+        (bool _ok, bytes memory _result) = _staticcall(
+            _source,
+            abi.encodeWithSelector(IMinter.whitelistedTokens.selector),
+            64
+        );
+        if (!_ok) {
+            return _tokens;
+        }
+        uint256 _offset = _wordAt(_result, 0);
+        if (_offset > _result.length - 32) {
+            return _tokens;
+        }
+        uint256 _len = _wordAt(_result, _offset);
+        if (_len > (_result.length - 32 - _offset) / 32) {
+            return _tokens;
+        }
+        address[] memory _decoded = new address[](_len);
+        for (uint256 i = 0; i < _len; i++) {
+            uint256 _word = _wordAt(_result, _offset + 32 * (i + 1));
+            if (_word > type(uint160).max) {
+                return _tokens;
+            }
+            _decoded[i] = address(uint160(_word));
+        }
+        return _decoded;
+    }
+
+    function _decimalsOf(address _token) internal view returns (bool _ok, uint8) {
+        uint256 _decimals;
+        (_ok, _decimals) = _read(_token, abi.encodeWithSelector(IERC20Metadata.decimals.selector));
+        // Minter supports up to 24 decimals, more would overflow scaling
+        _ok = _ok && _decimals <= 24;
+        return (_ok, uint8(_decimals));
+    }
+
+    /// @dev First word returned by given static call, zero if it fails
+    function _readUint(address _target, bytes memory _data) internal view returns (uint256 _value) {
+        (, _value) = _read(_target, _data);
+    }
+
+    function _read(address _target, bytes memory _data) internal view returns (bool _ok, uint256 _value) {
+        bytes memory _result;
+        (_ok, _result) = _staticcall(_target, _data, 32);
+        if (_ok) {
+            _value = _wordAt(_result, 0);
+        }
+    }
+
+    /**
+     * @dev Static call which does not revert. Unlike try/catch it also fails on address without code, as such call
+     * returns nothing.
+     */
+    function _staticcall(
+        address _target,
+        bytes memory _data,
+        uint256 _minLength
+    ) internal view returns (bool _ok, bytes memory _result) {
+        (_ok, _result) = _target.staticcall(_data);
+        _ok = _ok && _result.length >= _minLength;
+    }
+
+    /// @dev Word of given data at given byte offset, caller checks that data has 32 bytes from offset
+    function _wordAt(bytes memory _data, uint256 _offset) internal pure returns (uint256 _word) {
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            _word := mload(add(add(_data, 32), _offset))
+        }
+    }
+
+    /// @dev Convert _amount from _fromDecimals to _toDecimals, rounding down
+    function _scale(
+        uint256 _amount,
+        uint8 _fromDecimals,
+        uint8 _toDecimals
+    ) internal pure returns (uint256) {
+        return
+            _fromDecimals > _toDecimals
+                ? _amount / 10**(_fromDecimals - _toDecimals)
+                : _amount * 10**(_toDecimals - _fromDecimals);
+    }
+}
@@ -0,0 +1,193 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+import "@openzeppelin/contracts/utils/Context.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./interfaces/IRateLimiter.sol";
+import "./interfaces/ITreasury.sol";
+import "./interfaces/IVUSD.sol";
+
+/**
+ * @title VUSD Rate Limiter, It caps mint and redeem volume per period.
+ * @dev Volume is counted in VUSD, minted VUSD on mint and burnt VUSD on redeem. Used volume decays linearly to zero
+ * over `period` since last mint or redeem, hence there is no window boundary at which limit is available twice.
+ * Limit is per token and per account, zero means no limit.
+ */
+contract RateLimiter is Context, IRateLimiter {
+    string public constant NAME = "VUSD-RateLimiter";
+    string public constant VERSION = "1.5.0";
+
+    struct Bucket {
+        uint256 used;
+        uint256 updatedAt;
+    }
+
+    IVUSD public immutable vusd;
+
+    uint256 public period = 1 days;
+    // Token => VUSD mint limit per period
+    mapping(address => uint256) public tokenMintLimit;
+    // Token => VUSD redeem limit per period
+    mapping(address => uint256) public tokenRedeemLimit;
+    // VUSD mint and redeem limit of each account per period
+    uint256 public accountMintLimit;
+    uint256 public accountRedeemLimit;
+
+    mapping(address => Bucket) private _tokenMints;
+    mapping(address => Bucket) private _tokenRedeems;
+    mapping(address => Bucket) private _accountMints;
+    mapping(address => Bucket) private _accountRedeems;
+
+    event UpdatedPeriod(uint256 previousPeriod, uint256 newPeriod);
+    event UpdatedTokenMintLimit(address indexed token, uint256 previousLimit, uint256 newLimit);
+    event UpdatedTokenRedeemLimit(address indexed token, uint256 previousLimit, uint256 newLimit);
+    event UpdatedAccountMintLimit(uint256 previousLimit, uint256 newLimit);
+    event UpdatedAccountRedeemLimit(uint256 previousLimit, uint256 newLimit);
+
+    constructor(address _vusd) {
+        require(_vusd != address(0), "vusd-address-is-zero");
+        vusd = IVUSD(_vusd);
+    }
+
+    modifier onlyGovernor() {
+        require(_msgSender() == governor(), "caller-is-not-the-governor");
+        _;
+    }
+
+    ////////////////////////////// Only Governor //////////////////////////////
+
+    /// @notice Update period over which used volume decays, it applies to volume used so far as well
+    function updatePeriod(uint256 _newPeriod) external onlyGovernor {
+        require(_newPeriod != 0, "period-is-invalid");
+        uint256 _currentPeriod = period;
+        require(_currentPeriod != _newPeriod, "same-period");
+        emit UpdatedPeriod(_currentPeriod, _newPeriod);
+        period = _newPeriod;
+    }
+
+    /// @notice Update VUSD mint limit per period of given token, zero means no limit
+    function updateTokenMintLimit(address _token, uint256 _newLimit) external onlyGovernor {
+        uint256 _currentLimit = tokenMintLimit[_token];
+        require(_currentLimit != _newLimit, "same-mint-limit");
+        emit UpdatedTokenMintLimit(_token, _currentLimit, _newLimit);
+        tokenMintLimit[_token] = _newLimit;
+    }
+
+    /// @notice Update VUSD redeem limit per period of given token, zero means no limit
+    function updateTokenRedeemLimit(address _token, uint256 _newLimit) external onlyGovernor {
+        uint256 _currentLimit = tokenRedeemLimit[_token];
+        require(_currentLimit != _newLimit, "same-redeem-limit");
+        emit UpdatedTokenRedeemLimit(_token, _currentLimit, _newLimit);
+        tokenRedeemLimit[_token] = _newLimit;
+    }
+
+    /// @notice Update VUSD mint limit per period of each account, zero means no limit
+    function updateAccountMintLimit(uint256 _newLimit) external onlyGovernor {
+        uint256 _currentLimit = accountMintLimit;
+        require(_currentLimit != _newLimit, "same-mint-limit");
+        emit UpdatedAccountMintLimit(_currentLimit, _newLimit);
+        accountMintLimit = _newLimit;
+    }
+
+    /// @notice Update VUSD redeem limit per period of each account, zero means no limit
+    function updateAccountRedeemLimit(uint256 _newLimit) external onlyGovernor {
+        uint256 _currentLimit = accountRedeemLimit;
+        require(_currentLimit != _newLimit, "same-redeem-limit");
+        emit UpdatedAccountRedeemLimit(_currentLimit, _newLimit);
+        accountRedeemLimit = _newLimit;
+    }
+
+    ///////////////////////////////////////////////////////////////////////////
+
+    /**
+     * @notice Count minted VUSD against limits of token and account
+     * @dev Only minter of VUSD is allowed to call
+     * @param _token Token deposited to mint
+     * @param _account Account which deposited token
+     * @param _vusdAmount Minted VUSD amount
+     */
+    function consumeMint(
+        address _token,
+        address _account,
+        uint256 _vusdAmount
+    ) external override {
+        require(_msgSender() == vusd.minter(), "caller-is-not-the-minter");
+        _consume(_tokenMints[_token], tokenMintLimit[_token], _vusdAmount, "token-mint-limit-reached");
+        _consume(_accountMints[_account], accountMintLimit, _vusdAmount, "account-mint-limit-reached");
+    }
+
+    /**
+     * @notice Count burnt VUSD against limits of token and account
+     * @dev Only redeemer of treasury is allowed to call
+     * @param _token Token to redeem
+     * @param _account Account which burnt VUSD
+     * @param _vusdAmount Burnt VUSD amount
+     */
+    function consumeRedeem(
+        address _token,
+        address _account,
+        uint256 _vusdAmount
+    ) external override {
+        require(_msgSender() == ITreasury(vusd.treasury()).redeemer(), "caller-is-not-the-redeemer");
+        _consume(_tokenRedeems[_token], tokenRedeemLimit[_token], _vusdAmount, "token-redeem-limit-reached");
+        _consume(_accountRedeems[_account], accountRedeemLimit, _vusdAmount, "account-redeem-limit-reached");
+    }
+
+    /**
+     * @notice VUSD amount given account can still mint with given token right now.
+     * @dev Returns max uint if neither token nor account has a limit
+     */
+    function mintCapacity(address _token, address _account) external view override returns (uint256) {
+        return
+            Math.min(
+                _capacity(_tokenMints[_token], tokenMintLimit[_token]),
+                _capacity(_accountMints[_account], accountMintLimit)
+            );
+    }
+
+    /**
+     * @notice VUSD amount given account can still redeem for given token right now.
+     * @dev Returns max uint if neither token nor account has a limit
+     */
+    function redeemCapacity(address _token, address _account) external view override returns (uint256) {
+        return
+            Math.min(
+                _capacity(_tokenRedeems[_token], tokenRedeemLimit[_token]),
+                _capacity(_accountRedeems[_account], accountRedeemLimit)
+            );
+    }
+
+    /// @dev Governor is defined in VUSD token contract only
+    function governor() public view returns (address) {
+        return vusd.governor();
+    }
+
+    /// @dev Add _amount to decayed volume of bucket
+    function _consume(
+        Bucket storage _bucket,
+        uint256 _limit,
+        uint256 _amount,
+        string memory _error
+    ) internal {
+        uint256 _used = _decayed(_bucket) + _amount;
+        require(_limit == 0 || _used <= _limit, _error);
+        _bucket.used = _used;
+        _bucket.updatedAt = block.timestamp;
+    }
+
+    function _capacity(Bucket storage _bucket, uint256 _limit) internal view returns (uint256) {
+        if (_limit == 0) {
+            return type(uint256).max;
+        }
+        uint256 _used = _decayed(_bucket);
+        return _used >= _limit ? 0 : _limit - _used;
+    }
+
+    /// @dev Used volume of bucket, it decays linearly to zero over period since last update of bucket
+    function _decayed(Bucket storage _bucket) internal view returns (uint256) {
+        uint256 _elapsed = block.timestamp - _bucket.updatedAt;
+        uint256 _period = period;
+        return _elapsed >= _period ? 0 : (_bucket.used * (_period - _elapsed)) / _period;
+    }
+}
@@ -0,0 +1,218 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/Context.sol";
+import "./interfaces/bloq/ISwapManager.sol";
+import "./interfaces/IMinter.sol";
+import "./interfaces/IOracleRouter.sol";
+import "./interfaces/IStrategy.sol";
+import "./interfaces/ITreasury.sol";
+import "./interfaces/IVUSD.sol";
+
+/**
+ * @title VUSD Rebalancer, It moves reserves of treasury back toward target weights.
+ * @dev Keeper of treasury swaps excess of one token into a short one via routers of treasury swap manager.
+ * Excess and shortfall are measured in USD, as per `reserves()` of treasury, against target weight of each token.
+ * Treasury should point to rebalancer via `updateRebalancer`, rebalancer withdraws from treasury.
+ * Min out of a swap can not be lower than oracle router value of swapped amount less max slippage.
+ */
+contract Rebalancer is Context, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
+    string public constant NAME = "VUSD-Rebalancer";
+    string public constant VERSION = "1.5.0";
+    uint256 public constant MAX_BPS = 10_000; // 10_000 = 100%
+
+    IVUSD public immutable vusd;
+
+    // Token => target share of reserves value in BPS
+    mapping(address => uint256) public targetWeight;
+    // Max value of token swapped in one rebalance, USD with VUSD decimals. Zero means rebalance is disabled.
+    uint256 public maxRebalanceAmount;
+    // Lowest accepted min out of a swap against oracle router value of swapped amount, in BPS
+    uint256 public maxSlippage = 50; // 0.5%
+
+    event UpdatedTargetWeight(address indexed token, uint256 previousWeight, uint256 newWeight);
+    event UpdatedMaxRebalanceAmount(uint256 previousMaxAmount, uint256 newMaxAmount);
+    event UpdatedMaxSlippage(uint256 previousMaxSlippage, uint256 newMaxSlippage);
+    event Rebalanced(address indexed fromToken, address indexed toToken, uint256 amountIn, uint256 amountOut);
+
+    constructor(address _vusd) {
+        require(_vusd != address(0), "vusd-address-is-zero");
+        vusd = IVUSD(_vusd);
+    }
+
+    modifier onlyGovernor() {
+        require(_msgSender() == governor(), "caller-is-not-the-governor");
+        _;
+    }
+
+    modifier onlyKeeperOrGovernor() {
+        require(_msgSender() == governor() || ITreasury(treasury()).isKeeper(_msgSender()), "caller-is-not-authorized");
+        _;
+    }
+
+    ////////////////////////////// Only Governor //////////////////////////////
+
+    /**
+     * @notice Update target weights. Weights of whitelisted tokens of treasury must add up to 100% afterwards.
+     * @param _tokens Whitelisted tokens of treasury
+     * @param _weights Target share of reserves value in BPS correspond to _tokens
+     */
+    function updateTargetWeights(address[] calldata _tokens, uint256[] calldata _weights) external onlyGovernor {
+        uint256 _len = _tokens.length;
+        require(_weights.length == _len, "input-length-mismatch");
+        ITreasury _treasury = ITreasury(treasury());
+        for (uint256 i = 0; i < _len; i++) {
+            require(_treasury.isWhitelistedToken(_tokens[i]), "token-is-not-supported");
+            emit UpdatedTargetWeight(_tokens[i], targetWeight[_tokens[i]], _weights[i]);
+            targetWeight[_tokens[i]] = _weights[i];
+        }
+        address[] memory _whitelistedTokens = _treasury.whitelistedTokens();
+        uint256 _totalWeight;
+        for (uint256 i = 0; i < _whitelistedTokens.length; i++) {
+            _totalWeight += targetWeight[_whitelistedTokens[i]];
+        }
+        require(_totalWeight == MAX_BPS, "target-weights-are-invalid");
+    }
+
+    /// @notice Update max value of token swapped in one rebalance, zero disables rebalance
+    function updateMaxRebalanceAmount(uint256 _newMaxAmount) external onlyGovernor {
+        uint256 _currentMaxAmount = maxRebalanceAmount;
+        require(_currentMaxAmount != _newMaxAmount, "same-max-rebalance-amount");
+        emit UpdatedMaxRebalanceAmount(_currentMaxAmount, _newMaxAmount);
+        maxRebalanceAmount = _newMaxAmount;
+    }
+
+    /// @notice Update lowest accepted min out against oracle router value of swapped amount, in BPS
+    function updateMaxSlippage(uint256 _newMaxSlippage) external onlyGovernor {
+        require(_newMaxSlippage <= MAX_BPS, "slippage-is-invalid");
+        uint256 _currentMaxSlippage = maxSlippage;
+        require(_currentMaxSlippage != _newMaxSlippage, "same-max-slippage");
+        emit UpdatedMaxSlippage(_currentMaxSlippage, _newMaxSlippage);
+        maxSlippage = _newMaxSlippage;
+    }
+
+    ///////////////////////////////////////////////////////////////////////////
+
+    /**
+     * @notice Swap excess token of treasury into a short token and deposit it to strategy of short token.
+     * @dev Value of _amount should not exceed excess of _fromToken, shortfall of _toToken or maxRebalanceAmount.
+     * @param _fromToken Token above its target weight
+     * @param _toToken Token below its target weight
+     * @param _amount _fromToken amount to withdraw from treasury, received amount is swapped
+     * @param _minOut Minimum _toToken expected after swap, it can not be lower than minAmountOut of received amount
+     * @return _amountOut _toToken amount deposited to its strategy
+     */
+    function rebalance(
+        address _fromToken,
+        address _toToken,
+        uint256 _amount,
+        uint256 _minOut
+    ) external nonReentrant onlyKeeperOrGovernor returns (uint256 _amountOut) {
+        require(_fromToken != _toToken, "same-token");
+        require(_amount != 0, "amount-is-zero");
+        ITreasury _treasury = ITreasury(treasury());
+        _checkImbalance(_treasury, _fromToken, _toToken, _amount);
+        // Token may charge fee on transfer, swap only what is received from treasury
+        uint256 _balanceBefore = IERC20(_fromToken).balanceOf(address(this));
+        _treasury.withdraw(_fromToken, _amount);
+        uint256 _received = IERC20(_fromToken).balanceOf(address(this)) - _balanceBefore;
+        require(_minOut >= minAmountOut(_fromToken, _toToken, _received), "min-out-is-too-low");
+        _amountOut = _swap(_treasury, _fromToken, _toToken, _received, _minOut);
+        emit Rebalanced(_fromToken, _toToken, _received, _amountOut);
+    }
+
+    /**
+     * @notice Lowest accepted min out of swapping _amount of _fromToken into _toToken.
+     * It is _amount valued with oracle router prices of both tokens, in _toToken decimals, less max slippage.
+     */
+    function minAmountOut(
+        address _fromToken,
+        address _toToken,
+        uint256 _amount
+    ) public view returns (uint256) {
+        IOracleRouter _oracleRouter = IMinter(vusd.minter()).oracleRouter();
+        uint256 _amountOut = (_amount * _oracleRouter.price(_fromToken)) / _oracleRouter.price(_toToken);
+        uint8 _fromDecimals = IERC20Metadata(_fromToken).decimals();
+        uint8 _toDecimals = IERC20Metadata(_toToken).decimals();
+        _amountOut = _fromDecimals > _toDecimals
+            ? _amountOut / 10**(_fromDecimals - _toDecimals)
+            : _amountOut * 10**(_toDecimals - _fromDecimals);
+        return (_amountOut * (MAX_BPS - maxSlippage)) / MAX_BPS;
+    }
+
+    /// @dev Governor is defined in VUSD token contract only
+    function governor() public view returns (address) {
+        return vusd.governor();
+    }
+
+    /// @dev Treasury is defined in VUSD token contract only
+    function treasury() public view returns (address) {
+        return vusd.treasury();
+    }
+
+    /// @dev Revert if value of _amount is more than excess of _fromToken, shortfall of _toToken or max amount
+    function _checkImbalance(
+        ITreasury _treasury,
+        address _fromToken,
+        address _toToken,
+        uint256 _amount
+    ) internal view {
+        (uint256 _totalValue, ITreasury.Reserve[] memory _reserves, ) = _treasury.reserves();
+        ITreasury.Reserve memory _from = _reserveOf(_reserves, _fromToken);
+        ITreasury.Reserve memory _to = _reserveOf(_reserves, _toToken);
+        uint256 _fromTarget = (_totalValue * targetWeight[_fromToken]) / MAX_BPS;
+        uint256 _toTarget = (_totalValue * targetWeight[_toToken]) / MAX_BPS;
+        require(_from.value > _fromTarget, "token-has-no-excess");
+        require(_to.value < _toTarget, "token-has-no-shortfall");
+        uint256 _value = (_amount * _from.value) / _from.amount;
+        require(_value <= maxRebalanceAmount, "rebalance-amount-exceeds-max");
+        require(
+            _value <= _from.value - _fromTarget && _value <= _toTarget - _to.value,
+            "rebalance-amount-exceeds-imbalance"
+        );
+    }
+
+    /// @dev Swap _fromToken held by rebalancer via best router and send output to strategy of _toToken
+    function _swap(
+        ITreasury _treasury,
+        address _fromToken,
+        address _toToken,
+        uint256 _amount,
+        uint256 _minOut
+    ) internal returns (uint256) {
+        ISwapManager _swapManager = ISwapManager(_treasury.swapManager());
+        (address[] memory _path, , uint256 _rIdx) = _swapManager.bestOutputFixedInput(_fromToken, _toToken, _amount);
+        IUniswap _router = _swapManager.ROUTERS(_rIdx);
+        IERC20(_fromToken).safeApprove(address(_router), _amount);
+        // Strategy counts its token balance, deposit only deploys it
+        address _strategy = _treasury.strategies(_toToken);
+        uint256[] memory _amounts = _router.swapExactTokensForTokens(
+            _amount,
+            _minOut,
+            _path,
+            _strategy,
+            block.timestamp
+        );
+        IStrategy(_strategy).deposit();
+        return _amounts[_amounts.length - 1];
+    }
+
+    function _reserveOf(ITreasury.Reserve[] memory _reserves, address _token)
+        internal
+        pure
+        returns (ITreasury.Reserve memory)
+    {
+        for (uint256 i = 0; i < _reserves.length; i++) {
+            if (_reserves[i].token == _token) {
+                return _reserves[i];
+            }
+        }
+        revert("token-is-not-supported");
+    }
+}
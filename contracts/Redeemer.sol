@@ -5,14 +5,18 @@ pragma solidity 0.8.3;
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
 import "@openzeppelin/contracts/utils/Context.sol";
-import "./interfaces/chainlink/IAggregatorV3.sol";
+import "./interfaces/ICircuitBreaker.sol";
+import "./interfaces/IFeeCollector.sol";
+import "./interfaces/IOracleRouter.sol";
+import "./interfaces/IRateLimiter.sol";
+import "./interfaces/IRoleRegistry.sol";
 import "./interfaces/IVUSD.sol";
 import "./interfaces/ITreasury.sol";
 
 /// @title VUSD Redeemer, User can redeem their VUSD with any supported tokens
 contract Redeemer is Context, ReentrancyGuard {
     string public constant NAME = "VUSD-Redeemer";
-    string public constant VERSION = "1.4.2";
+    string public constant VERSION = "1.5.0";
 
     IVUSD public immutable vusd;
     uint8 public immutable vusdDecimals;
@@ -20,27 +24,42 @@ contract Redeemer is Context, ReentrancyGuard {
     uint256 public redeemFee = 30; // Default 0.3% fee
     uint256 public constant MAX_REDEEM_FEE = 10_000; // 10_000 = 100%
     uint256 public priceTolerance = 100; // Default 1% based on BPS
-    // Oracle => stalePeriod mapping
-    mapping(address => uint256) public stalePeriod;
-
-    address private constant DAI = 0x6B175474E89094C44Da98b954EedeAC495271d0F;
-    address private constant USDC = 0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48;
-    address private constant USDT = 0xdAC17F958D2ee523a2206206994597C13D831ec7;
+    bytes32 public constant FEE_MANAGER_ROLE = keccak256("FEE_MANAGER_ROLE");
+    bytes32 public constant ORACLE_MANAGER_ROLE = keccak256("ORACLE_MANAGER_ROLE");
+    IOracleRouter public oracleRouter;
+    ICircuitBreaker public circuitBreaker;
+    IRateLimiter public rateLimiter;
+    IFeeCollector public feeCollector;
+    IRoleRegistry public roleRegistry;
 
     event UpdatedRedeemFee(uint256 previousRedeemFee, uint256 newRedeemFee);
     event UpdatedPriceTolerance(uint256 previousTolerance, uint256 newTolerance);
-    event UpdatedStalePeriod(address indexed oracle, uint256 previousStalePeriod, uint256 newStalePeriod);
+    event UpdatedCircuitBreaker(address indexed previousCircuitBreaker, address indexed newCircuitBreaker);
+    event UpdatedRateLimiter(address indexed previousRateLimiter, address indexed newRateLimiter);
+    event UpdatedOracleRouter(address indexed previousOracleRouter, address indexed newOracleRouter);
+    event UpdatedFeeCollector(address indexed previousFeeCollector, address indexed newFeeCollector);
+    event UpdatedRoleRegistry(address indexed previousRoleRegistry, address indexed newRoleRegistry);
+    // redeemFee is token amount kept by treasury, in token decimals. vusdFee is VUSD reported to fee collector.
+    event Redeem(
+        address indexed tokenOut,
+        uint256 vusdAmount,
+        uint256 amountOut,
+        uint256 redeemFee,
+        uint256 vusdFee,
+        address indexed redeemer,
+        address tokenReceiver
+    );
 
-    constructor(address _vusd) {
+    /**
+     * @param _vusd VUSD address
+     * @param _oracleRouter Oracle router address, it prices tokens of treasury
+     */
+    constructor(address _vusd, address _oracleRouter) {
         require(_vusd != address(0), "vusd-address-is-zero");
+        require(_oracleRouter != address(0), "oracle-router-address-is-zero");
         vusd = IVUSD(_vusd);
+        oracleRouter = IOracleRouter(_oracleRouter);
         vusdDecimals = IERC20Metadata(_vusd).decimals();
-
-        // set default stale periods for DAI, USDC, USDT, oracles
-        ITreasury _treasury = ITreasury(IVUSD(_vusd).treasury());
-        stalePeriod[_treasury.oracles(DAI)] = 1 hours;
-        stalePeriod[_treasury.oracles(USDC)] = 24 hours;
-        stalePeriod[_treasury.oracles(USDT)] = 24 hours;
     }
 
     modifier onlyGovernor() {
@@ -48,33 +67,87 @@ contract Redeemer is Context, ReentrancyGuard {
         _;
     }
 
+    modifier onlyGovernorOrRole(bytes32 _role) {
+        require(_msgSender() == governor() || _hasRole(_role), "caller-is-not-authorized");
+        _;
+    }
+
     ////////////////////////////// Only Governor //////////////////////////////
 
-    /// @notice Update redeem fee
-    function updateRedeemFee(uint256 _newRedeemFee) external onlyGovernor {
+    /// @notice Update redeem fee, fee manager is also allowed to call to lower it
+    function updateRedeemFee(uint256 _newRedeemFee) external onlyGovernorOrRole(FEE_MANAGER_ROLE) {
         require(_newRedeemFee <= MAX_REDEEM_FEE, "redeem-fee-limit-reached");
         uint256 _previousRedeemFee = redeemFee;
         require(_previousRedeemFee != _newRedeemFee, "same-redeem-fee");
+        require(_newRedeemFee < _previousRedeemFee || _msgSender() == governor(), "fee-increase-is-not-allowed");
         redeemFee = _newRedeemFee;
         emit UpdatedRedeemFee(_previousRedeemFee, _newRedeemFee);
     }
 
-    /// @notice Update price tolerance
-    function updatePriceTolerance(uint256 _newTolerance) external onlyGovernor {
+    /// @notice Update price tolerance, oracle manager is also allowed to call to lower it
+    function updatePriceTolerance(uint256 _newTolerance) external onlyGovernorOrRole(ORACLE_MANAGER_ROLE) {
         require(_newTolerance <= MAX_REDEEM_FEE, "price-tolerance-is-invalid");
         uint256 _previousTolerance = priceTolerance;
         require(_previousTolerance != _newTolerance, "same-tolerance");
+        require(_newTolerance < _previousTolerance || _msgSender() == governor(), "tolerance-increase-is-not-allowed");
         priceTolerance = _newTolerance;
         emit UpdatedPriceTolerance(_previousTolerance, _newTolerance);
     }
 
-    /// @notice Update stale period
-    function updateStalePeriod(address _oracle, uint256 _newStalePeriod) external onlyGovernor {
-        require(_newStalePeriod > 0, "stale-period-is-invalid");
-        uint256 _currentStalePeriod = stalePeriod[_oracle];
-        require(_currentStalePeriod != _newStalePeriod, "same-stale-period");
-        emit UpdatedStalePeriod(_oracle, _currentStalePeriod, _newStalePeriod);
-        stalePeriod[_oracle] = _newStalePeriod;
+    /**
+     * @notice Update oracle router, token price is read from it
+     * @param _newOracleRouter new oracle router address
+     */
+    function updateOracleRouter(address _newOracleRouter) external onlyGovernor {
+        require(_newOracleRouter != address(0), "oracle-router-address-is-zero");
+        address _currentOracleRouter = address(oracleRouter);
+        require(_currentOracleRouter != _newOracleRouter, "same-oracle-router");
+        emit UpdatedOracleRouter(_currentOracleRouter, _newOracleRouter);
+        oracleRouter = IOracleRouter(_newOracleRouter);
+    }
+
+    /**
+     * @notice Update circuit breaker, mint and redeem of a token paused by it are rejected
+     * @param _newCircuitBreaker new circuit breaker address, zero address disables the check
+     */
+    function updateCircuitBreaker(address _newCircuitBreaker) external onlyGovernor {
+        address _currentCircuitBreaker = address(circuitBreaker);
+        require(_currentCircuitBreaker != _newCircuitBreaker, "same-circuit-breaker");
+        emit UpdatedCircuitBreaker(_currentCircuitBreaker, _newCircuitBreaker);
+        circuitBreaker = ICircuitBreaker(_newCircuitBreaker);
+    }
+
+    /**
+     * @notice Update rate limiter, it caps redeem volume per time window
+     * @param _newRateLimiter new rate limiter address, zero address disables the limits
+     */
+    function updateRateLimiter(address _newRateLimiter) external onlyGovernor {
+        address _currentRateLimiter = address(rateLimiter);
+        require(_currentRateLimiter != _newRateLimiter, "same-rate-limiter");
+        emit UpdatedRateLimiter(_currentRateLimiter, _newRateLimiter);
+        rateLimiter = IRateLimiter(_newRateLimiter);
+    }
+
+    /**
+     * @notice Update fee collector, it counts redeem fee
+     * @param _newFeeCollector new fee collector address, zero address disables fee accounting
+     */
+    function updateFeeCollector(address _newFeeCollector) external onlyGovernor {
+        address _currentFeeCollector = address(feeCollector);
+        require(_currentFeeCollector != _newFeeCollector, "same-fee-collector");
+        emit UpdatedFeeCollector(_currentFeeCollector, _newFeeCollector);
+        feeCollector = IFeeCollector(_newFeeCollector);
+    }
+
+    /**
+     * @notice Update role registry, fee manager and oracle manager roles are read from it
+     * @param _newRoleRegistry new role registry address, zero address leaves governor only
+     */
+    function updateRoleRegistry(address _newRoleRegistry) external onlyGovernor {
+        address _currentRoleRegistry = address(roleRegistry);
+        require(_currentRoleRegistry != _newRoleRegistry, "same-role-registry");
+        emit UpdatedRoleRegistry(_currentRoleRegistry, _newRoleRegistry);
+        roleRegistry = IRoleRegistry(_newRoleRegistry);
     }
 
     ///////////////////////////////////////////////////////////////////////////
@@ -94,6 +167,63 @@ contract Redeemer is Context, ReentrancyGuard {
         _redeem(_token, _vusdAmount, _minAmountOut, _tokenReceiver);
     }
 
+    /**
+     * @notice Redeem token using VUSD permit, approve and redeem in one transaction.
+     * @dev Permit failure is ignored, it may be front-run, redeem works as long as allowance is in place.
+     * @param _token Token to redeem, it should be 1 of the supported tokens from treasury.
+     * @param _vusdAmount VUSD amount to burn, it is also the permit value
+     * @param _tokenReceiver Address of token receiver
+     * @param _deadline Permit deadline
+     */
+    function redeemWithPermit(
+        address _token,
+        uint256 _vusdAmount,
+        uint256 _minAmountOut,
+        address _tokenReceiver,
+        uint256 _deadline,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) external nonReentrant {
+        try vusd.permit(_msgSender(), address(this), _vusdAmount, _deadline, _v, _r, _s) {} catch {}
+        _redeem(_token, _vusdAmount, _minAmountOut, _tokenReceiver);
+    }
+
+    /**
+     * @notice Redeem multiple tokens and burn total VUSD amount once.
+     * Token whose redeemable amount is zero is skipped and its VUSD amount is not burnt.
+     * @param _tokens Tokens to redeem, those should be supported tokens from treasury.
+     * @param _vusdAmounts VUSD amount to redeem for each token
+     * @param _minAmountsOut Minimum token amount out for each token
+     * @param _tokenReceiver Address of token receiver
+     */
+    function redeemMulti(
+        address[] calldata _tokens,
+        uint256[] calldata _vusdAmounts,
+        uint256[] calldata _minAmountsOut,
+        address _tokenReceiver
+    ) external nonReentrant {
+        require(_tokens.length == _vusdAmounts.length, "input-length-mismatch");
+        _redeemMulti(_tokens, _vusdAmounts, _minAmountsOut, _tokenReceiver);
+    }
+
+    /**
+     * @notice Redeem all tokens of treasury in proportion to their holdings and burn VUSD amount once.
+     * Token whose redeemable amount is zero is skipped and its VUSD amount is not burnt.
+     * @dev Tokens are in order of treasury whitelisted tokens, see redeemableBasket.
+     * @param _vusdAmount VUSD amount to burn. VUSD will be burnt from caller
+     * @param _minAmountsOut Minimum token amount out for each token
+     * @param _tokenReceiver Address of token receiver
+     */
+    function redeemBasket(
+        uint256 _vusdAmount,
+        uint256[] calldata _minAmountsOut,
+        address _tokenReceiver
+    ) external nonReentrant {
+        (address[] memory _tokens, uint256[] memory _vusdAmounts) = _basket(_vusdAmount);
+        _redeemMulti(_tokens, _vusdAmounts, _minAmountsOut, _tokenReceiver);
+    }
+
     /**
      * @notice Current redeemable amount for given token and vusdAmount.
      * If token is not supported by treasury it will return 0.
@@ -102,12 +232,80 @@ contract Redeemer is Context, ReentrancyGuard {
      * @param _vusdAmount VUSD amount to burn
      */
     function redeemable(address _token, uint256 _vusdAmount) external view returns (uint256) {
+        return _redeemableOf(ITreasury(treasury()), _token, _vusdAmount);
+    }
+
+    /**
+     * @notice Current redeemable amount for each token of redeemMulti, same as redeemable(_token, _vusdAmount).
+     * @param _tokens Tokens to redeem
+     * @param _vusdAmounts VUSD amount to redeem for each token
+     */
+    function redeemableMulti(address[] calldata _tokens, uint256[] calldata _vusdAmounts)
+        external
+        view
+        returns (uint256[] memory _amountsOut)
+    {
+        uint256 _len = _tokens.length;
+        require(_vusdAmounts.length == _len, "input-length-mismatch");
         ITreasury _treasury = ITreasury(treasury());
-        if (_treasury.isWhitelistedToken(_token)) {
-            uint256 _redeemable = _calculateRedeemable(_token, _vusdAmount);
-            return _redeemable > redeemable(_token) ? 0 : _redeemable;
+        _amountsOut = new uint256[](_len);
+        for (uint256 i = 0; i < _len; i++) {
+            _amountsOut[i] = _redeemableOf(_treasury, _tokens[i], _vusdAmounts[i]);
         }
-        return 0;
+    }
+
+    /**
+     * @notice Payout of redeemBasket split by token, same as redeemable(_token, _vusdAmount) of each token.
+     * @param _vusdAmount VUSD amount to burn
+     * @return _tokens Tokens of treasury
+     * @return _amountsOut Redeemable amount of each token
+     */
+    function redeemableBasket(uint256 _vusdAmount)
+        external
+        view
+        returns (address[] memory _tokens, uint256[] memory _amountsOut)
+    {
+        uint256[] memory _vusdAmounts;
+        (_tokens, _vusdAmounts) = _basket(_vusdAmount);
+        ITreasury _treasury = ITreasury(treasury());
+        uint256 _len = _tokens.length;
+        _amountsOut = new uint256[](_len);
+        for (uint256 i = 0; i < _len; i++) {
+            _amountsOut[i] = _redeemableOf(_treasury, _tokens[i], _vusdAmounts[i]);
+        }
+    }
+
+    /**
+     * @notice Token amount paid and redeem fee kept, both in _token defined decimal, for given VUSD amount at given
+     * price. Fee is token amount without fee less redeemable, both rounded down. It checks neither price tolerance
+     * nor liquidity of treasury. Redeem and Quoter share it, so quotes follow redeem math.
+     * @param _token Token to redeem
+     * @param _vusdAmount VUSD amount to burn
+     * @param _price USD price of _token with 18 decimals
+     */
+    function redeemableAt(
+        address _token,
+        uint256 _vusdAmount,
+        uint256 _price
+    ) public view returns (uint256 _redeemable, uint256 _fee) {
+        // Token is expected to be stable coin only, 1 VUSD never pays more than 1 USD worth of token
+        uint256 _oneUSD = 1e18;
+        uint256 _beforeFee = _price <= _oneUSD ? _vusdAmount : (_vusdAmount * _oneUSD) / _price;
+        _redeemable = _beforeFee;
+        uint256 _redeemFee = redeemFee;
+        if (_redeemFee != 0) {
+            _redeemable -= (_redeemable * _redeemFee) / MAX_REDEEM_FEE;
+        }
+        // convert redeemable to _token defined decimal, token may have fewer or more decimals than VUSD
+        uint8 _decimals = IERC20Metadata(_token).decimals();
+        _redeemable = _scale(_redeemable, vusdDecimals, _decimals);
+        _fee = _scale(_beforeFee, vusdDecimals, _decimals) - _redeemable;
+    }
+
+    /// @notice Whether given price, with 18 decimals, is within price tolerance of 1 USD
+    function isPriceWithinTolerance(uint256 _price) public view returns (bool) {
+        uint256 _tolerance = (1e18 * priceTolerance) / MAX_REDEEM_FEE;
+        return _price <= 1e18 + _tolerance && _price >= 1e18 - _tolerance;
     }
 
     /// @dev Current redeemable amount for given token
@@ -125,16 +323,139 @@ contract Redeemer is Context, ReentrancyGuard {
         return vusd.treasury();
     }
 
+    /// @dev Whether caller holds given role in role registry, no role is held without registry
+    function _hasRole(bytes32 _role) internal view returns (bool) {
+        IRoleRegistry _roleRegistry = roleRegistry;
+        return address(_roleRegistry) != address(0) && _roleRegistry.hasRole(_role, _msgSender());
+    }
+
     function _redeem(
         address _token,
         uint256 _vusdAmount,
         uint256 _minAmountOut,
         address _tokenReceiver
     ) internal {
-        uint256 _redeemable = _calculateRedeemable(_token, _vusdAmount);
-        require(_redeemable >= _minAmountOut, "redeemable-amount-is-less-than-minimum");
+        _requireNotPaused(_token);
+        (uint256 _redeemable, uint256 _fee) = _calculateRedeemableAndFee(_token, _vusdAmount);
+        if (address(rateLimiter) != address(0)) {
+            rateLimiter.consumeRedeem(_token, _msgSender(), _vusdAmount);
+        }
         vusd.burnFrom(_msgSender(), _vusdAmount);
-        ITreasury(treasury()).withdraw(_token, _redeemable, _tokenReceiver);
+        uint256 _amountOut = _withdraw(ITreasury(treasury()), _token, _redeemable, _tokenReceiver);
+        require(_amountOut >= _minAmountOut, "redeemable-amount-is-less-than-minimum");
+        uint256 _vusdFee = _recordFee(_token, _vusdAmount);
+        emit Redeem(_token, _vusdAmount, _amountOut, _fee, _vusdFee, _msgSender(), _tokenReceiver);
+    }
+
+    function _redeemMulti(
+        address[] memory _tokens,
+        uint256[] memory _vusdAmounts,
+        uint256[] memory _minAmountsOut,
+        address _tokenReceiver
+    ) internal {
+        uint256 _len = _tokens.length;
+        require(_len != 0 && _minAmountsOut.length == _len, "input-length-mismatch");
+        uint256[] memory _redeemables = new uint256[](_len);
+        uint256[] memory _fees = new uint256[](_len);
+        uint256 _vusdAmount;
+        for (uint256 i = 0; i < _len; i++) {
+            if (_vusdAmounts[i] == 0) {
+                continue;
+            }
+            _requireNotPaused(_tokens[i]);
+            (_redeemables[i], _fees[i]) = _calculateRedeemableAndFee(_tokens[i], _vusdAmounts[i]);
+            if (_redeemables[i] == 0) {
+                // VUSD amount is too small to pay any token amount, skip leg and do not burn its VUSD
+                require(_minAmountsOut[i] == 0, "redeemable-amount-is-less-than-minimum");
+                _vusdAmounts[i] = 0;
+                continue;
+            }
+            if (address(rateLimiter) != address(0)) {
+                rateLimiter.consumeRedeem(_tokens[i], _msgSender(), _vusdAmounts[i]);
+            }
+            _vusdAmount += _vusdAmounts[i];
+        }
+        require(_vusdAmount != 0, "vusd-amount-is-zero");
+        vusd.burnFrom(_msgSender(), _vusdAmount);
+        ITreasury _treasury = ITreasury(treasury());
+        for (uint256 i = 0; i < _len; i++) {
+            if (_vusdAmounts[i] == 0) {
+                continue;
+            }
+            uint256 _amountOut = _withdraw(_treasury, _tokens[i], _redeemables[i], _tokenReceiver);
+            require(_amountOut >= _minAmountsOut[i], "redeemable-amount-is-less-than-minimum");
+            uint256 _vusdFee = _recordFee(_tokens[i], _vusdAmounts[i]);
+            emit Redeem(_tokens[i], _vusdAmounts[i], _amountOut, _fees[i], _vusdFee, _msgSender(), _tokenReceiver);
+        }
+    }
+
+    /**
+     * @dev Split VUSD amount across tokens of treasury in proportion to USD value of their holdings.
+     * Rounding dust goes to the token with largest holdings, so split adds up to given VUSD amount.
+     */
+    function _basket(uint256 _vusdAmount)
+        internal
+        view
+        returns (address[] memory _tokens, uint256[] memory _vusdAmounts)
+    {
+        (uint256 _totalValue, ITreasury.Reserve[] memory _reserves, ) = ITreasury(treasury()).reserves();
+        require(_totalValue != 0, "treasury-has-no-reserves");
+        uint256 _len = _reserves.length;
+        _tokens = new address[](_len);
+        _vusdAmounts = new uint256[](_len);
+        uint256 _remaining = _vusdAmount;
+        uint256 _largest;
+        for (uint256 i = 0; i < _len; i++) {
+            _tokens[i] = _reserves[i].token;
+            _vusdAmounts[i] = (_vusdAmount * _reserves[i].value) / _totalValue;
+            _remaining -= _vusdAmounts[i];
+            if (_reserves[i].value > _reserves[_largest].value) {
+                _largest = i;
+            }
+        }
+        _vusdAmounts[_largest] += _remaining;
+    }
+
+    /// @dev Redeemable amount, zero if token is not supported or treasury can not pay it
+    function _redeemableOf(
+        ITreasury _treasury,
+        address _token,
+        uint256 _vusdAmount
+    ) internal view returns (uint256) {
+        if (_vusdAmount != 0 && _treasury.isWhitelistedToken(_token)) {
+            uint256 _redeemable = _calculateRedeemable(_token, _vusdAmount);
+            return _redeemable > _treasury.withdrawable(_token) ? 0 : _redeemable;
+        }
+        return 0;
+    }
+
+    /**
+     * @dev Withdraw _amount of _token from treasury to _receiver.
+     * Returns amount _receiver actually got, it is less than _amount for a token with transfer fee.
+     */
+    function _withdraw(
+        ITreasury _treasury,
+        address _token,
+        uint256 _amount,
+        address _receiver
+    ) internal returns (uint256) {
+        uint256 _balanceBefore = IERC20(_token).balanceOf(_receiver);
+        _treasury.withdraw(_token, _amount, _receiver);
+        return IERC20(_token).balanceOf(_receiver) - _balanceBefore;
+    }
+
+    /// @dev Report VUSD kept as redeem fee of given redeem to fee collector, if any, and return it
+    function _recordFee(address _token, uint256 _vusdAmount) internal returns (uint256 _fee) {
+        _fee = (_vusdAmount * redeemFee) / MAX_REDEEM_FEE;
+        if (_fee != 0 && address(feeCollector) != address(0)) {
+            feeCollector.recordRedeemFee(_token, _fee);
+        }
+    }
+
+    /// @dev Revert if circuit breaker, if any, paused given token
+    function _requireNotPaused(address _token) internal view {
+        ICircuitBreaker _circuitBreaker = circuitBreaker;
+        require(address(_circuitBreaker) == address(0) || !_circuitBreaker.isPaused(_token), "token-is-paused");
     }
 
     /**
@@ -143,25 +464,30 @@ contract Redeemer is Context, ReentrancyGuard {
      * @return Token amount that user will get after burning vusdAmount
      */
     function _calculateRedeemable(address _token, uint256 _vusdAmount) internal view returns (uint256) {
-        IAggregatorV3 _oracle = IAggregatorV3(ITreasury(treasury()).oracles(_token));
-        (, int256 _price, , uint256 _updatedAt, ) = IAggregatorV3(_oracle).latestRoundData();
-        require(block.timestamp - _updatedAt < stalePeriod[address(_oracle)], "oracle-price-is-stale");
-        uint256 _latestPrice = uint256(_price);
-        uint8 _oracleDecimal = IAggregatorV3(_oracle).decimals();
-
-        // Token is expected to be stable coin only. Ideal price is 1 USD
-        uint256 _oneUSD = 10**_oracleDecimal;
-        uint256 _tolerance = (_oneUSD * priceTolerance) / MAX_REDEEM_FEE;
-        uint256 _priceUpperBound = _oneUSD + _tolerance;
-        uint256 _priceLowerBound = _oneUSD - _tolerance;
-
-        require(_latestPrice <= _priceUpperBound && _latestPrice >= _priceLowerBound, "price-tolerance-exceeded");
-        uint256 _redeemable = _latestPrice <= _oneUSD ? _vusdAmount : (_vusdAmount * _oneUSD) / _latestPrice;
-        uint256 _redeemFee = redeemFee;
-        if (_redeemFee != 0) {
-            _redeemable -= (_redeemable * _redeemFee) / MAX_REDEEM_FEE;
-        }
-        // convert redeemable to _token defined decimal
-        return _redeemable / 10**(vusdDecimals - IERC20Metadata(_token).decimals());
+        (uint256 _redeemable, ) = _calculateRedeemableAndFee(_token, _vusdAmount);
+        return _redeemable;
+    }
+
+    /// @dev Same as `_calculateRedeemable`, also returns redeem fee kept by treasury in _token defined decimal.
+    function _calculateRedeemableAndFee(address _token, uint256 _vusdAmount)
+        internal
+        view
+        returns (uint256 _redeemable, uint256 _fee)
+    {
+        uint256 _latestPrice = oracleRouter.price(_token);
+        require(isPriceWithinTolerance(_latestPrice), "price-tolerance-exceeded");
+        return redeemableAt(_token, _vusdAmount, _latestPrice);
+    }
+
+    /// @dev Convert _amount from _fromDecimals to _toDecimals, rounding down
+    function _scale(
+        uint256 _amount,
+        uint8 _fromDecimals,
+        uint8 _toDecimals
+    ) internal pure returns (uint256) {
+        return
+            _fromDecimals > _toDecimals
+                ? _amount / 10**(_fromDecimals - _toDecimals)
+                : _amount * 10**(_toDecimals - _fromDecimals);
     }
 }
@@ -0,0 +1,123 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+import "@openzeppelin/contracts/utils/Context.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "./interfaces/IRoleRegistry.sol";
+import "./interfaces/IVUSD.sol";
+
+/**
+ * @title VUSD Role Registry, It keeps holders of operator roles of Minter, Redeemer, Treasury, CircuitBreaker and
+ * OracleRouter.
+ * @dev Governor role is the governor of VUSD, it changes only via governorship transfer of VUSD.
+ * Governor grants and revokes other roles. Minter, Redeemer, Treasury, CircuitBreaker and OracleRouter read roles
+ * from here, governor passes every role check of those. Registry is not the only source of access of VUSD system:
+ * VUSD is deployed once and can not be upgraded, so it keeps its own governor and minter checks and never reads
+ * roles. Roles only tighten risky parameters, i.e. lower a fee, a price tolerance or a stale period, raising them
+ * stays with governor and its timelock.
+ */
+contract RoleRegistry is Context, IRoleRegistry {
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    string public constant NAME = "VUSD-RoleRegistry";
+    string public constant VERSION = "1.5.0";
+
+    bytes32 public constant GOVERNOR_ROLE = keccak256("GOVERNOR_ROLE");
+    // Pause, i.e. stop mint with a token
+    bytes32 public constant GUARDIAN_ROLE = keccak256("GUARDIAN_ROLE");
+    // Routine operations, i.e. claim COMP and rebalance
+    bytes32 public constant KEEPER_ROLE = keccak256("KEEPER_ROLE");
+    // Lower minting and redeem fee
+    bytes32 public constant FEE_MANAGER_ROLE = keccak256("FEE_MANAGER_ROLE");
+    // Lower price tolerance and stale periods of oracle router
+    bytes32 public constant ORACLE_MANAGER_ROLE = keccak256("ORACLE_MANAGER_ROLE");
+
+    IVUSD public immutable vusd;
+
+    // Role => holders of role, governor role has no entry
+    mapping(bytes32 => EnumerableSet.AddressSet) private _members;
+
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+
+    constructor(address _vusd) {
+        require(_vusd != address(0), "vusd-address-is-zero");
+        vusd = IVUSD(_vusd);
+    }
+
+    modifier onlyGovernor() {
+        require(_msgSender() == governor(), "caller-is-not-the-governor");
+        _;
+    }
+
+    ////////////////////////////// Only Governor //////////////////////////////
+
+    /**
+     * @notice Grant role to given account
+     * @param _role Role, any role but governor role
+     * @param _account Account to grant role to
+     */
+    function grantRole(bytes32 _role, address _account) external onlyGovernor {
+        require(_isGrantable(_role), "role-is-invalid");
+        require(_account != address(0), "account-address-is-zero");
+        require(_members[_role].add(_account), "role-is-already-granted");
+        emit RoleGranted(_role, _account, _msgSender());
+    }
+
+    /**
+     * @notice Revoke role from given account
+     * @param _role Role, any role but governor role
+     * @param _account Account to revoke role from
+     */
+    function revokeRole(bytes32 _role, address _account) external onlyGovernor {
+        require(_members[_role].remove(_account), "role-is-not-granted");
+        emit RoleRevoked(_role, _account, _msgSender());
+    }
+
+    ///////////////////////////////////////////////////////////////////////////
+
+    /// @notice Give up a role granted to caller
+    function renounceRole(bytes32 _role) external {
+        require(_members[_role].remove(_msgSender()), "role-is-not-granted");
+        emit RoleRevoked(_role, _msgSender(), _msgSender());
+    }
+
+    /// @notice Returns whether given account holds given role, governor holds governor role only
+    function hasRole(bytes32 _role, address _account) external view override returns (bool) {
+        if (_role == GOVERNOR_ROLE) {
+            return _account == governor();
+        }
+        return _members[_role].contains(_account);
+    }
+
+    /// @notice Return list of holders of given role
+    function members(bytes32 _role) external view returns (address[] memory _accounts) {
+        if (_role == GOVERNOR_ROLE) {
+            _accounts = new address[](1);
+            _accounts[0] = governor();
+            return _accounts;
+        }
+        return _members[_role].values();
+    }
+
+    /// @notice Return list of roles, governor role first
+    function roles() external pure returns (bytes32[] memory _roles) {
+        _roles = new bytes32[](5);
+        _roles[0] = GOVERNOR_ROLE;
+        _roles[1] = GUARDIAN_ROLE;
+        _roles[2] = KEEPER_ROLE;
+        _roles[3] = FEE_MANAGER_ROLE;
+        _roles[4] = ORACLE_MANAGER_ROLE;
+    }
+
+    /// @dev Governor is defined in VUSD token contract only
+    function governor() public view returns (address) {
+        return vusd.governor();
+    }
+
+    function _isGrantable(bytes32 _role) internal pure returns (bool) {
+        return
+            _role == GUARDIAN_ROLE || _role == KEEPER_ROLE || _role == FEE_MANAGER_ROLE || _role == ORACLE_MANAGER_ROLE;
+    }
+}
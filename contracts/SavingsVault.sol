@@ -0,0 +1,269 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./interfaces/IERC4626.sol";
+import "./interfaces/IFeeCollector.sol";
+import "./interfaces/IMinter.sol";
+import "./interfaces/ITreasury.sol";
+import "./interfaces/IVUSD.sol";
+
+/**
+ * @title VUSD Savings Vault, ERC-4626 vault of VUSD which passes yield of treasury on to its holders.
+ * @dev Interest and COMP of treasury strategies raise reserves above VUSD supply. Keeper or governor mints part of
+ * that excess as VUSD to vault, `distributeYield`, which raises share price. Yield drips in over `dripPeriod` so
+ * that deposit right before distribution does not take it. Vault counts its assets itself, VUSD sent to it
+ * directly does not change share price. Minter should point to vault via `updateSavingsVault`.
+ */
+contract SavingsVault is ERC20, ReentrancyGuard, IERC4626 {
+    using SafeERC20 for IERC20;
+
+    string public constant NAME = "VUSD-SavingsVault";
+    string public constant VERSION = "1.5.0";
+    uint256 public constant MAX_BPS = 10_000; // 10_000 = 100%
+    uint256 public constant MAX_DRIP_PERIOD = 30 days;
+
+    IVUSD public immutable vusd;
+
+    // Collateralization ratio of treasury after distribution can not go below it, in BPS
+    uint256 public minCollateralizationRatio = 10_000;
+    // Yield of a distribution vests linearly over it
+    uint256 public dripPeriod = 7 days;
+    // Yield not vested yet at last distribution and time of last distribution
+    uint256 public lockedYieldAtDistribution;
+    uint256 public lastDistribution;
+
+    // VUSD deposited and distributed less VUSD withdrawn, including locked yield
+    uint256 private _storedAssets;
+
+    event UpdatedMinCollateralizationRatio(uint256 previousRatio, uint256 newRatio);
+    event UpdatedDripPeriod(uint256 previousDripPeriod, uint256 newDripPeriod);
+    event YieldDistributed(uint256 vusdAmount, uint256 lockedYield);
+
+    constructor(address _vusd) ERC20("Savings VUSD", "sVUSD") {
+        require(_vusd != address(0), "vusd-address-is-zero");
+        vusd = IVUSD(_vusd);
+    }
+
+    modifier onlyGovernor() {
+        require(_msgSender() == governor(), "caller-is-not-the-governor");
+        _;
+    }
+
+    modifier onlyKeeperOrGovernor() {
+        require(_msgSender() == governor() || ITreasury(treasury()).isKeeper(_msgSender()), "caller-is-not-authorized");
+        _;
+    }
+
+    ////////////////////////////// Only Governor //////////////////////////////
+
+    /// @notice Update collateralization ratio floor, it can not be below 100%
+    function updateMinCollateralizationRatio(uint256 _newRatio) external onlyGovernor {
+        require(_newRatio >= MAX_BPS, "collateralization-ratio-is-invalid");
+        uint256 _currentRatio = minCollateralizationRatio;
+        require(_currentRatio != _newRatio, "same-collateralization-ratio");
+        emit UpdatedMinCollateralizationRatio(_currentRatio, _newRatio);
+        minCollateralizationRatio = _newRatio;
+    }
+
+    /// @notice Update drip period of next distribution, zero vests yield right away
+    function updateDripPeriod(uint256 _newDripPeriod) external onlyGovernor {
+        require(_newDripPeriod <= MAX_DRIP_PERIOD, "drip-period-is-invalid");
+        uint256 _currentDripPeriod = dripPeriod;
+        require(_currentDripPeriod != _newDripPeriod, "same-drip-period");
+        // Checkpoint locked yield so that yield vested so far stays vested
+        lockedYieldAtDistribution = lockedYield();
+        lastDistribution = block.timestamp;
+        emit UpdatedDripPeriod(_currentDripPeriod, _newDripPeriod);
+        dripPeriod = _newDripPeriod;
+    }
+
+    ///////////////////////////////////////////////////////////////////////////
+
+    /**
+     * @notice Mint yield of treasury as VUSD to vault. It vests over `dripPeriod`, along with yield still locked.
+     * @param _amount Amount of VUSD to mint, it can not exceed `availableYield`
+     */
+    function distributeYield(uint256 _amount) external nonReentrant onlyKeeperOrGovernor {
+        require(_amount != 0, "amount-is-zero");
+        require(totalSupply() != 0, "vault-is-empty");
+        require(_amount <= availableYield(), "yield-is-not-available");
+        uint256 _lockedYield = lockedYield() + _amount;
+        lockedYieldAtDistribution = _lockedYield;
+        lastDistribution = block.timestamp;
+        _storedAssets += _amount;
+        IMinter(vusd.minter()).mintYield(_amount);
+        emit YieldDistributed(_amount, _lockedYield);
+    }
+
+    function deposit(uint256 _assets, address _receiver) external override nonReentrant returns (uint256 _shares) {
+        _shares = previewDeposit(_assets);
+        _deposit(_assets, _shares, _receiver);
+    }
+
+    function mint(uint256 _shares, address _receiver) external override nonReentrant returns (uint256 _assets) {
+        _assets = previewMint(_shares);
+        _deposit(_assets, _shares, _receiver);
+    }
+
+    function withdraw(
+        uint256 _assets,
+        address _receiver,
+        address _owner
+    ) external override nonReentrant returns (uint256 _shares) {
+        _shares = previewWithdraw(_assets);
+        _withdraw(_assets, _shares, _receiver, _owner);
+    }
+
+    function redeem(
+        uint256 _shares,
+        address _receiver,
+        address _owner
+    ) external override nonReentrant returns (uint256 _assets) {
+        _assets = previewRedeem(_shares);
+        _withdraw(_assets, _shares, _receiver, _owner);
+    }
+
+    /**
+     * @notice Excess of treasury reserves, valued as in `cappedReservesValue` of treasury, over backed VUSD supply at
+     * `minCollateralizationRatio`. Unclaimed fee surplus of fee collector is set aside for fee recipients.
+     * It is capped by available mintage of Minter.
+     */
+    function availableYield() public view returns (uint256) {
+        IMinter _minter = IMinter(vusd.minter());
+        uint256 _maxSupply = (ITreasury(treasury()).cappedReservesValue() * MAX_BPS) / minCollateralizationRatio;
+        address _feeCollector = _minter.feeCollector();
+        uint256 _supply = _minter.backedSupply();
+        if (_feeCollector != address(0)) {
+            _supply += IFeeCollector(_feeCollector).surplus();
+        }
+        if (_maxSupply <= _supply) {
+            return 0;
+        }
+        return Math.min(_maxSupply - _supply, _minter.availableMintage());
+    }
+
+    /// @notice Yield of distributions which is not vested yet, it is not part of `totalAssets`
+    function lockedYield() public view returns (uint256) {
+        uint256 _elapsed = block.timestamp - lastDistribution;
+        uint256 _dripPeriod = dripPeriod;
+        if (_elapsed >= _dripPeriod) {
+            return 0;
+        }
+        return (lockedYieldAtDistribution * (_dripPeriod - _elapsed)) / _dripPeriod;
+    }
+
+    function asset() external view override returns (address) {
+        return address(vusd);
+    }
+
+    /// @notice VUSD deposited and vested yield less VUSD withdrawn
+    function totalAssets() public view override returns (uint256) {
+        return _storedAssets - lockedYield();
+    }
+
+    function convertToShares(uint256 _assets) public view override returns (uint256) {
+        return _convertToShares(_assets, false);
+    }
+
+    function convertToAssets(uint256 _shares) public view override returns (uint256) {
+        return _convertToAssets(_shares, false);
+    }
+
+    function maxDeposit(address) external pure override returns (uint256) {
+        return type(uint256).max;
+    }
+
+    function maxMint(address) external pure override returns (uint256) {
+        return type(uint256).max;
+    }
+
+    function maxWithdraw(address _owner) external view override returns (uint256) {
+        return convertToAssets(balanceOf(_owner));
+    }
+
+    function maxRedeem(address _owner) external view override returns (uint256) {
+        return balanceOf(_owner);
+    }
+
+    function previewDeposit(uint256 _assets) public view override returns (uint256) {
+        return _convertToShares(_assets, false);
+    }
+
+    function previewMint(uint256 _shares) public view override returns (uint256) {
+        return _convertToAssets(_shares, true);
+    }
+
+    function previewWithdraw(uint256 _assets) public view override returns (uint256) {
+        return _convertToShares(_assets, true);
+    }
+
+    function previewRedeem(uint256 _shares) public view override returns (uint256) {
+        return _convertToAssets(_shares, false);
+    }
+
+    /// @dev Governor is defined in VUSD token contract only
+    function governor() public view returns (address) {
+        return vusd.governor();
+    }
+
+    /// @dev Treasury is defined in VUSD token contract only
+    function treasury() public view returns (address) {
+        return vusd.treasury();
+    }
+
+    /// @dev Shares are 1:1 with assets while vault is empty. Rounding is always in favour of vault.
+    function _convertToShares(uint256 _assets, bool _roundUp) internal view returns (uint256) {
+        uint256 _supply = totalSupply();
+        uint256 _totalAssets = totalAssets();
+        if (_supply == 0 || _totalAssets == 0) {
+            return _assets;
+        }
+        return _roundUp ? Math.ceilDiv(_assets * _supply, _totalAssets) : (_assets * _supply) / _totalAssets;
+    }
+
+    function _convertToAssets(uint256 _shares, bool _roundUp) internal view returns (uint256) {
+        uint256 _supply = totalSupply();
+        if (_supply == 0) {
+            return _shares;
+        }
+        uint256 _totalAssets = totalAssets();
+        return _roundUp ? Math.ceilDiv(_shares * _totalAssets, _supply) : (_shares * _totalAssets) / _supply;
+    }
+
+    function _deposit(
+        uint256 _assets,
+        uint256 _shares,
+        address _receiver
+    ) internal {
+        require(_assets != 0 && _shares != 0, "amount-is-zero");
+        IERC20(address(vusd)).safeTransferFrom(_msgSender(), address(this), _assets);
+        _storedAssets += _assets;
+        _mint(_receiver, _shares);
+        emit Deposit(_msgSender(), _receiver, _assets, _shares);
+    }
+
+    function _withdraw(
+        uint256 _assets,
+        uint256 _shares,
+        address _receiver,
+        address _owner
+    ) internal {
+        require(_assets != 0 && _shares != 0, "amount-is-zero");
+        if (_msgSender() != _owner) {
+            uint256 _allowance = allowance(_owner, _msgSender());
+            if (_allowance != type(uint256).max) {
+                require(_allowance >= _shares, "insufficient-allowance");
+                _approve(_owner, _msgSender(), _allowance - _shares);
+            }
+        }
+        _burn(_owner, _shares);
+        _storedAssets -= _assets;
+        IERC20(address(vusd)).safeTransfer(_receiver, _assets);
+        emit Withdraw(_msgSender(), _receiver, _owner, _assets, _shares);
+    }
+}
@@ -0,0 +1,174 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/Address.sol";
+import "./Governed.sol";
+
+/**
+ * @title VUSD Timelock, It delays governor calls to VUSD contracts.
+ * @dev Timelock is meant to be the governor of VUSD, hence of every contract which reads governor from VUSD.
+ * Its own governor, i.e. a multisig, queues a call, waits for `delay` and executes it within `GRACE_PERIOD`.
+ * Queued call can be cancelled until it is executed. Fast path skips the delay for decrease-only updates, i.e.
+ * lowering a fee, where new value, the first argument, is below current value read via given getter. Fast path is
+ * allowed per target and function, a function of same selector on another target is queued.
+ */
+contract Timelock is Governed, ReentrancyGuard {
+    string public constant NAME = "VUSD-Timelock";
+    string public constant VERSION = "1.5.0";
+    uint256 public constant MIN_DELAY = 1 days;
+    uint256 public constant MAX_DELAY = 30 days;
+    uint256 public constant GRACE_PERIOD = 14 days;
+
+    uint256 public delay;
+    // Call id => whether call is queued, id is hash of target, data and eta
+    mapping(bytes32 => bool) public queued;
+    // Target => function selector => getter selector of current value, fast path is allowed only if it is set
+    mapping(address => mapping(bytes4 => bytes4)) public fastPathGetter;
+
+    event UpdatedDelay(uint256 previousDelay, uint256 newDelay);
+    event UpdatedFastPath(address indexed target, bytes4 indexed selector, bytes4 previousGetter, bytes4 newGetter);
+    event Queued(bytes32 indexed id, address indexed target, bytes data, uint256 eta);
+    event Cancelled(bytes32 indexed id);
+    event Executed(bytes32 indexed id, address indexed target, bytes data);
+    event ExecutedFast(address indexed target, bytes data);
+
+    /**
+     * @param _delay Delay of queued calls in seconds
+     * @param _targets Contracts of fast path functions, i.e. Minter
+     * @param _selectors Functions allowed on fast path correspond to _targets, i.e. `updateMintingFee`
+     * @param _getters Getters of current value correspond to _selectors, i.e. `mintingFee`
+     */
+    constructor(
+        uint256 _delay,
+        address[] memory _targets,
+        bytes4[] memory _selectors,
+        bytes4[] memory _getters
+    ) {
+        require(_delay >= MIN_DELAY && _delay <= MAX_DELAY, "delay-is-invalid");
+        require(_targets.length == _selectors.length && _selectors.length == _getters.length, "input-length-mismatch");
+        delay = _delay;
+        for (uint256 i = 0; i < _selectors.length; i++) {
+            _updateFastPath(_targets[i], _selectors[i], _getters[i]);
+        }
+    }
+
+    /// @dev Timelock settings change only via a queued call of timelock to itself
+    modifier onlyTimelock() {
+        require(_msgSender() == address(this), "caller-is-not-the-timelock");
+        _;
+    }
+
+    ////////////////////////////// Only Timelock //////////////////////////////
+
+    /// @notice Update delay of queued calls, calls queued before keep their eta
+    function updateDelay(uint256 _newDelay) external onlyTimelock {
+        require(_newDelay >= MIN_DELAY && _newDelay <= MAX_DELAY, "delay-is-invalid");
+        uint256 _currentDelay = delay;
+        require(_currentDelay != _newDelay, "same-delay");
+        emit UpdatedDelay(_currentDelay, _newDelay);
+        delay = _newDelay;
+    }
+
+    /// @notice Update getter of fast path function of given target, zero getter removes function from fast path
+    function updateFastPath(
+        address _target,
+        bytes4 _selector,
+        bytes4 _getter
+    ) external onlyTimelock {
+        _updateFastPath(_target, _selector, _getter);
+    }
+
+    ////////////////////////////// Only Governor //////////////////////////////
+
+    /**
+     * @notice Queue a call, it can be executed after delay
+     * @param _target Contract to call
+     * @param _data Calldata, function selector and encoded arguments
+     * @return _id Call id, hash of target, data and eta
+     */
+    function queue(address _target, bytes calldata _data) external onlyGovernor returns (bytes32 _id) {
+        uint256 _eta = block.timestamp + delay;
+        _id = callId(_target, _data, _eta);
+        require(!queued[_id], "call-is-already-queued");
+        queued[_id] = true;
+        emit Queued(_id, _target, _data, _eta);
+    }
+
+    /// @notice Cancel a queued call
+    function cancel(bytes32 _id) external onlyGovernor {
+        require(queued[_id], "call-is-not-queued");
+        delete queued[_id];
+        emit Cancelled(_id);
+    }
+
+    /**
+     * @notice Execute a queued call once its eta is passed and grace period is not over
+     * @param _target Contract to call
+     * @param _data Calldata of queued call
+     * @param _eta Eta of queued call, see `Queued` event
+     */
+    function execute(
+        address _target,
+        bytes calldata _data,
+        uint256 _eta
+    ) external nonReentrant onlyGovernor returns (bytes memory) {
+        bytes32 _id = callId(_target, _data, _eta);
+        require(queued[_id], "call-is-not-queued");
+        require(block.timestamp >= _eta, "call-is-not-ready");
+        require(block.timestamp <= _eta + GRACE_PERIOD, "call-is-expired");
+        delete queued[_id];
+        emit Executed(_id, _target, _data);
+        return Address.functionCall(_target, _data);
+    }
+
+    /**
+     * @notice Execute a decrease-only call right away, i.e. lower a fee.
+     * @dev First argument of call is the new value, it must be below current value read via getter of fast path.
+     * @param _target Contract to call
+     * @param _data Calldata, function selector and encoded arguments
+     */
+    function executeFast(address _target, bytes calldata _data)
+        external
+        nonReentrant
+        onlyGovernor
+        returns (bytes memory)
+    {
+        require(_data.length >= 36, "call-is-not-fast-path");
+        bytes4 _getter = fastPathGetter[_target][bytes4(abi.decode(_data[0:32], (bytes32)))];
+        require(_getter != bytes4(0), "call-is-not-fast-path");
+        uint256 _current = abi.decode(Address.functionStaticCall(_target, abi.encodeWithSelector(_getter)), (uint256));
+        require(abi.decode(_data[4:36], (uint256)) < _current, "call-is-not-decrease-only");
+        emit ExecutedFast(_target, _data);
+        return Address.functionCall(_target, _data);
+    }
+
+    /// @notice Accept governorship of given contract, i.e. VUSD, after its governor proposed timelock
+    function acceptGovernorshipOf(address _target) external onlyGovernor {
+        Governed(_target).acceptGovernorship();
+    }
+
+    ///////////////////////////////////////////////////////////////////////////
+
+    /// @notice Id of call, hash of target, data and eta
+    function callId(
+        address _target,
+        bytes calldata _data,
+        uint256 _eta
+    ) public pure returns (bytes32) {
+        return keccak256(abi.encode(_target, _data, _eta));
+    }
+
+    function _updateFastPath(
+        address _target,
+        bytes4 _selector,
+        bytes4 _getter
+    ) internal {
+        require(_target != address(0), "target-address-is-zero");
+        bytes4 _currentGetter = fastPathGetter[_target][_selector];
+        require(_currentGetter != _getter, "same-fast-path");
+        emit UpdatedFastPath(_target, _selector, _currentGetter, _getter);
+        fastPathGetter[_target][_selector] = _getter;
+    }
+}
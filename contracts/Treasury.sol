@@ -3,118 +3,133 @@
 pragma solidity 0.8.3;
 
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/utils/Context.sol";
 import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
 import "./interfaces/bloq/ISwapManager.sol";
-import "./interfaces/compound/ICompound.sol";
+import "./interfaces/IMinter.sol";
+import "./interfaces/IRoleRegistry.sol";
+import "./interfaces/IStrategy.sol";
 import "./interfaces/IVUSD.sol";
 import "./interfaces/ITreasury.sol";
 
-/// @title VUSD Treasury, It stores cTokens and redeem those from Compound as needed.
+/// @title VUSD Treasury, It keeps funds of each token in a strategy and withdraws from those as needed.
 contract Treasury is Context, ReentrancyGuard {
     using SafeERC20 for IERC20;
     using EnumerableSet for EnumerableSet.AddressSet;
 
     string public constant NAME = "VUSD-Treasury";
-    string public constant VERSION = "1.3.0";
+    string public constant VERSION = "1.5.0";
+    uint256 public constant MAX_BPS = 10_000; // 10_000 = 100%
+    bytes32 internal constant KEEPER_ROLE = keccak256("KEEPER_ROLE");
 
     IVUSD public immutable vusd;
     address public redeemer;
+    address public rebalancer;
+    IRoleRegistry public roleRegistry;
 
-    ISwapManager public swapManager = ISwapManager(0xC48ea9A2daA4d816e4c9333D6689C70070010174);
+    ISwapManager public swapManager;
 
-    // Token => cToken mapping
-    mapping(address => address) public cTokens;
-    // Token => oracle mapping
-    mapping(address => address) public oracles;
+    // Token => strategy mapping
+    mapping(address => address) public strategies;
 
-    address private constant COMP = 0xc00e94Cb662C3520282E6f5717214004A7f26888;
-    Comptroller private constant COMPTROLLER = Comptroller(0x3d9819210A31b4961b30EF54bE2aeD79B9c9Cd3B);
+    address public immutable comp;
 
     EnumerableSet.AddressSet private _whitelistedTokens;
-    EnumerableSet.AddressSet private _cTokenList;
-    EnumerableSet.AddressSet private _keepers;
-
-    // Default whitelist token addresses
-    address private constant DAI = 0x6B175474E89094C44Da98b954EedeAC495271d0F;
-    address private constant USDC = 0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48;
-    address private constant USDT = 0xdAC17F958D2ee523a2206206994597C13D831ec7;
-
-    // cToken addresses for default whitelisted tokens
-    // solhint-disable const-name-snakecase
-    address private constant cDAI = 0x5d3a536E4D6DbD6114cc1Ead35777bAB948E3643;
-    address private constant cUSDC = 0x39AA39c021dfbaE8faC545936693aC917d5E7563;
-    address private constant cUSDT = 0xf650C3d88D12dB855b8bf7D11Be6C55A4e07dCC9;
-    // solhint-enable
-
-    // Chainlink price oracle for default whitelisted tokens
-    address private constant DAI_USD = 0xAed0c38402a5d19df6E4c03F4E2DceD6e29c1ee9;
-    address private constant USDC_USD = 0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6;
-    address private constant USDT_USD = 0x3E7d1eAB13ad0104d2750B8863b489D65364e32D;
 
     event UpdatedRedeemer(address indexed previousRedeemer, address indexed newRedeemer);
+    event UpdatedRebalancer(address indexed previousRebalancer, address indexed newRebalancer);
+    event UpdatedRoleRegistry(address indexed previousRoleRegistry, address indexed newRoleRegistry);
     event UpdatedSwapManager(address indexed previousSwapManager, address indexed newSwapManager);
+    event UpdatedStrategy(address indexed token, address indexed previousStrategy, address indexed newStrategy);
+    event Withdrawn(address indexed token, uint256 amount, address indexed receiver);
+    event Migrated(address indexed token, uint256 amount, address indexed receiver);
+    event Swept(address indexed token, uint256 amount, address indexed receiver);
 
-    constructor(address _vusd) {
+    /**
+     * @dev Default whitelisted tokens are given as 1:1 arrays
+     * @param _vusd VUSD address
+     * @param _swapManager Swap manager address, zero if network has none
+     * @param _comp COMP address, reward token which is converted by claimCompAndConvertTo
+     * @param _tokens Default whitelisted tokens
+     * @param _strategies Strategy addresses correspond to _tokens
+     */
+    constructor(
+        address _vusd,
+        address _swapManager,
+        address _comp,
+        address[] memory _tokens,
+        address[] memory _strategies
+    ) {
         require(_vusd != address(0), "vusd-address-is-zero");
+        uint256 _len = _tokens.length;
+        require(_strategies.length == _len, "input-length-mismatch");
         vusd = IVUSD(_vusd);
+        comp = _comp;
 
-        _keepers.add(_msgSender());
-
-        // Add token into the list, add oracle and cToken into the mapping
-        _addToken(DAI, cDAI, DAI_USD);
-        _addToken(USDC, cUSDC, USDC_USD);
-        _addToken(USDT, cUSDT, USDT_USD);
+        // Add token into the list, add strategy into the mapping
+        for (uint256 i = 0; i < _len; i++) {
+            _addToken(_tokens[i], _strategies[i]);
+        }
 
-        _approveRouters(swapManager, type(uint256).max);
+        swapManager = ISwapManager(_swapManager);
+        // Immutable can not be read during construction, hence passing _comp
+        _approveRouters(_comp, swapManager, type(uint256).max);
     }
 
     modifier onlyGovernor() {
-        require(_msgSender() == governor(), "caller-is-not-the-governor");
+        _onlyGovernor();
         _;
     }
 
     modifier onlyAuthorized() {
-        require(_msgSender() == governor() || _msgSender() == redeemer, "caller-is-not-authorized");
+        _onlyAuthorized();
         _;
     }
 
     modifier onlyKeeperOrGovernor() {
-        require(_msgSender() == governor() || _keepers.contains(_msgSender()), "caller-is-not-authorized");
+        require(_msgSender() == governor() || isKeeper(_msgSender()), "caller-is-not-authorized");
         _;
     }
 
     ////////////////////////////// Only Governor //////////////////////////////
     /**
      * @notice Add token into treasury management system
-     * @dev Add token address in whitelistedTokens list and add cToken in mapping
+     * @dev Add token address in whitelistedTokens list and add strategy in mapping
      * @param _token address which we want to add in token list.
-     * @param _cToken CToken address correspond to _token
-     * @param _oracle Chainlink oracle address for token/USD feed
+     * @param _strategy Strategy address correspond to _token
      */
-    function addWhitelistedToken(
-        address _token,
-        address _cToken,
-        address _oracle
-    ) external onlyGovernor {
-        require(_token != address(0), "token-address-is-zero");
-        require(_cToken != address(0), "cToken-address-is-zero");
-        require(_oracle != address(0), "oracle-address-is-zero");
-        _addToken(_token, _cToken, _oracle);
+    function addWhitelistedToken(address _token, address _strategy) external onlyGovernor {
+        _addToken(_token, _strategy);
     }
 
     /**
      * @notice Remove token from treasury management system
-     * @dev Removing token even if treasury has some balance of that token is intended behavior.
+     * @dev Removing token even if its strategy has some balance is intended behavior.
+     * Funds stay in strategy and are back once token is added again with same strategy.
      * @param _token address which we want to remove from token list.
      */
     function removeWhitelistedToken(address _token) external onlyGovernor {
         require(_whitelistedTokens.remove(_token), "remove-from-list-failed");
-        require(_cTokenList.remove(cTokens[_token]), "remove-from-list-failed");
-        IERC20(_token).safeApprove(cTokens[_token], 0);
-        delete cTokens[_token];
-        delete cTokens[_token];
+        delete strategies[_token];
+    }
+
+    /**
+     * @notice Move all funds of token from current strategy to new strategy
+     * @param _token Whitelisted token
+     * @param _newStrategy New strategy of _token
+     */
+    function updateStrategy(address _token, address _newStrategy) external nonReentrant onlyGovernor {
+        require(_whitelistedTokens.contains(_token), "token-is-not-supported");
+        require(_newStrategy != address(0), "strategy-address-is-zero");
+        require(IStrategy(_newStrategy).token() == _token, "strategy-token-mismatch");
+        address _currentStrategy = strategies[_token];
+        require(_currentStrategy != _newStrategy, "same-strategy");
+        IStrategy(_currentStrategy).withdrawAll(_newStrategy);
+        IStrategy(_newStrategy).deposit();
+        strategies[_token] = _newStrategy;
+        emit UpdatedStrategy(_token, _currentStrategy, _newStrategy);
     }
 
     /**
@@ -129,20 +144,25 @@ contract Treasury is Context, ReentrancyGuard {
     }
 
     /**
-     * @notice Add given address in keepers list.
-     * @param _keeperAddress keeper address to add.
+     * @notice Update rebalancer address, it withdraws excess token to swap it into a short token
+     * @param _newRebalancer new rebalancer address, zero address disables rebalance
      */
-    function addKeeper(address _keeperAddress) external onlyGovernor {
-        require(_keeperAddress != address(0), "keeper-address-is-zero");
-        require(_keepers.add(_keeperAddress), "add-keeper-failed");
+    function updateRebalancer(address _newRebalancer) external onlyGovernor {
+        address _currentRebalancer = rebalancer;
+        require(_currentRebalancer != _newRebalancer, "same-rebalancer");
+        emit UpdatedRebalancer(_currentRebalancer, _newRebalancer);
+        rebalancer = _newRebalancer;
     }
 
     /**
-     * @notice Remove given address from keepers list.
-     * @param _keeperAddress keeper address to remove.
+     * @notice Update role registry, keeper role is read from it
+     * @param _newRoleRegistry new role registry address, zero address leaves governor only
      */
-    function removeKeeper(address _keeperAddress) external onlyGovernor {
-        require(_keepers.remove(_keeperAddress), "remove-keeper-failed");
+    function updateRoleRegistry(address _newRoleRegistry) external onlyGovernor {
+        address _currentRoleRegistry = address(roleRegistry);
+        require(_currentRoleRegistry != _newRoleRegistry, "same-role-registry");
+        emit UpdatedRoleRegistry(_currentRoleRegistry, _newRoleRegistry);
+        roleRegistry = IRoleRegistry(_newRoleRegistry);
     }
 
     /**
@@ -152,29 +172,38 @@ contract Treasury is Context, ReentrancyGuard {
     function updateSwapManager(address _newSwapManager) external onlyGovernor {
         require(_newSwapManager != address(0), "swap-manager-address-is-zero");
         emit UpdatedSwapManager(address(swapManager), _newSwapManager);
-        _approveRouters(swapManager, 0);
-        _approveRouters(ISwapManager(_newSwapManager), type(uint256).max);
+        _approveRouters(comp, swapManager, 0);
+        _approveRouters(comp, ISwapManager(_newSwapManager), type(uint256).max);
         swapManager = ISwapManager(_newSwapManager);
     }
 
     ///////////////////////////////////////////////////////////////////////////
 
     /**
-     * @notice Claim comp from all markets and convert to given token.
-     * Also deposit those tokens to Compound
+     * @notice Claim rewards from all strategies and convert COMP to given token.
+     * Also deposit those tokens to strategy of given token
      * @param _toToken COMP will be swapped to _toToken
      * @param _minOut Minimum _toToken expected after conversion
      */
     function claimCompAndConvertTo(address _toToken, uint256 _minOut) external onlyKeeperOrGovernor {
         require(_whitelistedTokens.contains(_toToken), "token-is-not-supported");
-        COMPTROLLER.claimComp(address(this), _cTokenList.values());
-        uint256 _compAmount = IERC20(COMP).balanceOf(address(this));
+        uint256 _len = _whitelistedTokens.length();
+        for (uint256 i = 0; i < _len; i++) {
+            IStrategy(strategies[_whitelistedTokens.at(i)]).claimRewards();
+        }
+        uint256 _compAmount = IERC20(comp).balanceOf(address(this));
+        if (_compAmount == 0) {
+            return;
+        }
         (address[] memory path, uint256 amountOut, uint256 rIdx) = swapManager.bestOutputFixedInput(
-            COMP,
+            comp,
             _toToken,
             _compAmount
         );
+        // Nothing to deposit when there is no route, COMP stays in treasury for next claim
         if (amountOut != 0) {
+            // Deposit only swap output, not other _toToken held by treasury
+            uint256 _balanceBefore = IERC20(_toToken).balanceOf(address(this));
             swapManager.ROUTERS(rIdx).swapExactTokensForTokens(
                 _compAmount,
                 _minOut,
@@ -182,31 +211,46 @@ contract Treasury is Context, ReentrancyGuard {
                 address(this),
                 block.timestamp
             );
+            _depositToStrategy(_toToken, IERC20(_toToken).balanceOf(address(this)) - _balanceBefore);
         }
-        require(CToken(cTokens[_toToken]).mint(IERC20(_toToken).balanceOf(address(this))) == 0, "cToken-mint-failed");
     }
 
     /**
-     * @notice Migrate assets to new treasury
+     * @notice Migrate assets to new treasury. Funds are moved only for tokens whose strategy differs in new treasury,
+     * those go to strategy of new treasury or to new treasury itself if it has no strategy for that token.
+     * @dev Strategies answer to treasury of VUSD, hence call this before updating treasury in VUSD.
      * @param _newTreasury Address of new treasury of VUSD system
      */
-    function migrate(address _newTreasury) external onlyGovernor {
+    function migrate(address _newTreasury) external nonReentrant onlyGovernor {
         require(_newTreasury != address(0), "new-treasury-address-is-zero");
         require(address(vusd) == ITreasury(_newTreasury).vusd(), "vusd-mismatch");
-        uint256 _len = _cTokenList.length();
+        uint256 _len = _whitelistedTokens.length();
         for (uint256 i = 0; i < _len; i++) {
-            address _cToken = _cTokenList.at(i);
-            IERC20(_cToken).safeTransfer(_newTreasury, IERC20(_cToken).balanceOf(address(this)));
+            address _token = _whitelistedTokens.at(i);
+            address _strategy = strategies[_token];
+            address _newStrategy = ITreasury(_newTreasury).strategies(_token);
+            if (_strategy == _newStrategy) {
+                continue;
+            }
+            address _receiver = _newStrategy == address(0) ? _newTreasury : _newStrategy;
+            emit Migrated(_token, IStrategy(_strategy).withdrawAll(_receiver), _receiver);
+            if (_newStrategy != address(0)) {
+                IStrategy(_newStrategy).deposit();
+            }
         }
     }
 
     /**
      * @notice Withdraw given amount of token.
-     * @dev Only Redeemer and Governor are allowed to call
+     * @dev Only Redeemer, Rebalancer and Governor are allowed to call
      * @param _token Token to withdraw, it should be 1 of the supported tokens.
      * @param _amount token amount to withdraw
      */
-    function withdraw(address _token, uint256 _amount) external nonReentrant onlyAuthorized {
+    function withdraw(address _token, uint256 _amount) external nonReentrant {
+        // Rebalancer can withdraw only to itself
+        if (_msgSender() != rebalancer) {
+            _onlyAuthorized();
+        }
         _withdraw(_token, _amount, _msgSender());
     }
 
@@ -247,51 +291,102 @@ contract Treasury is Context, ReentrancyGuard {
     function withdrawAll(address[] memory _tokens) external nonReentrant onlyGovernor {
         for (uint256 i = 0; i < _tokens.length; i++) {
             require(_whitelistedTokens.contains(_tokens[i]), "token-is-not-supported");
-            CToken _cToken = CToken(cTokens[_tokens[i]]);
-            require(_cToken.redeem(_cToken.balanceOf(address(this))) == 0, "redeem-failed");
-            IERC20(_tokens[i]).safeTransfer(_msgSender(), IERC20(_tokens[i]).balanceOf(address(this)));
+            emit Withdrawn(_tokens[i], IStrategy(strategies[_tokens[i]]).withdrawAll(_msgSender()), _msgSender());
         }
     }
 
     /**
      * @notice Sweep any ERC20 token to governor address
-     * @dev OnlyGovernor can call this and CTokens are not allowed to sweep
+     * @dev OnlyGovernor can call this. Whitelisted tokens and strategy assets, i.e. cTokens migrated from
+     * treasury before strategies, are moved to their strategy instead.
      * @param _fromToken Token address to sweep
      */
     function sweep(address _fromToken) external onlyGovernor {
-        // Do not sweep cTokens
-        require(!_cTokenList.contains(_fromToken), "cToken-is-not-allowed-to-sweep");
-
         uint256 _amount = IERC20(_fromToken).balanceOf(address(this));
-        IERC20(_fromToken).safeTransfer(_msgSender(), _amount);
+        address _receiver = _msgSender();
+        uint256 _len = _whitelistedTokens.length();
+        for (uint256 i = 0; i < _len; i++) {
+            address _token = _whitelistedTokens.at(i);
+            if (_fromToken == _token || _fromToken == IStrategy(strategies[_token]).asset()) {
+                _receiver = strategies[_token];
+                break;
+            }
+        }
+        IERC20(_fromToken).safeTransfer(_receiver, _amount);
+        if (_receiver != _msgSender()) {
+            // Strategy counts its asset balance, deposit only deploys idle token
+            IStrategy(_receiver).deposit();
+        }
+        emit Swept(_fromToken, _amount, _receiver);
     }
 
     /**
      * @notice Current withdrawable amount for given token.
-     * If token is not supported by treasury, no cTokens in mapping, it will return 0.
+     * If token is not supported by treasury, no strategy in mapping, it will return 0.
      * @param _token Token to withdraw
      */
     function withdrawable(address _token) external view returns (uint256) {
-        if (cTokens[_token] != address(0)) {
-            CToken _cToken = CToken(cTokens[_token]);
-            return (_cToken.balanceOf(address(this)) * _cToken.exchangeRateStored()) / 1e18;
+        if (strategies[_token] != address(0)) {
+            return IStrategy(strategies[_token]).totalValue();
         }
         return 0;
     }
 
+    /**
+     * @notice Proof of reserves. Holdings of every whitelisted token valued with oracle router price of Minter.
+     * @dev Reverts if price of a held token is stale or invalid, collateralization is unknown then.
+     * @return _totalValue Total value of reserves in USD, with VUSD decimals
+     * @return _reserves Holdings and value of each whitelisted token
+     * @return _collateralizationRatio _totalValue against `backedSupply` of Minter in BPS, max uint when it is zero
+     */
+    function reserves()
+        external
+        view
+        returns (
+            uint256 _totalValue,
+            ITreasury.Reserve[] memory _reserves,
+            uint256 _collateralizationRatio
+        )
+    {
+        IMinter _minter = IMinter(vusd.minter());
+        IOracleRouter _oracleRouter = _minter.oracleRouter();
+        uint256 _len = _whitelistedTokens.length();
+        _reserves = new ITreasury.Reserve[](_len);
+        for (uint256 i = 0; i < _len; i++) {
+            address _token = _whitelistedTokens.at(i);
+            uint256 _amount = IStrategy(strategies[_token]).totalValue();
+            uint256 _value = _usdValue(_oracleRouter, _token, _amount, type(uint256).max);
+            _reserves[i] = ITreasury.Reserve({token: _token, amount: _amount, value: _value});
+            _totalValue += _value;
+        }
+        uint256 _supply = _minter.backedSupply();
+        _collateralizationRatio = _supply == 0 ? type(uint256).max : (_totalValue * MAX_BPS) / _supply;
+    }
+
+    /**
+     * @notice Value of reserves in USD, with VUSD decimals, each token valued at oracle router price capped at $1.
+     * A token trading above peg does not back more VUSD than its amount. Fee collector and savings vault use it to
+     * find how much VUSD reserves can back.
+     * @dev Reverts if price of a held token is stale or invalid
+     */
+    function cappedReservesValue() external view returns (uint256 _totalValue) {
+        IOracleRouter _oracleRouter = IMinter(vusd.minter()).oracleRouter();
+        uint256 _len = _whitelistedTokens.length();
+        for (uint256 i = 0; i < _len; i++) {
+            address _token = _whitelistedTokens.at(i);
+            _totalValue += _usdValue(_oracleRouter, _token, IStrategy(strategies[_token]).totalValue(), 1e18);
+        }
+    }
+
     /// @dev Governor is defined in VUSD token contract only
     function governor() public view returns (address) {
         return vusd.governor();
     }
 
-    /// @notice Return list of cTokens
-    function cTokenList() external view returns (address[] memory) {
-        return _cTokenList.values();
-    }
-
-    /// @notice Return list of keepers
-    function keepers() external view returns (address[] memory) {
-        return _keepers.values();
+    /// @notice Returns whether given address holds keeper role in role registry
+    function isKeeper(address _address) public view returns (bool) {
+        IRoleRegistry _roleRegistry = roleRegistry;
+        return address(_roleRegistry) != address(0) && _roleRegistry.hasRole(KEEPER_ROLE, _address);
     }
 
     /// @notice Returns whether given address is whitelisted or not
@@ -304,23 +399,55 @@ contract Treasury is Context, ReentrancyGuard {
         return _whitelistedTokens.values();
     }
 
-    /// @dev Add _token into the list, add _cToken in mapping
-    function _addToken(
-        address _token,
-        address _cToken,
-        address _oracle
-    ) internal {
+    /// @dev Add _token into the list, add _strategy in mapping
+    function _addToken(address _token, address _strategy) internal {
+        require(_token != address(0), "token-address-is-zero");
+        require(_strategy != address(0), "strategy-address-is-zero");
+        require(IStrategy(_strategy).token() == _token, "strategy-token-mismatch");
         require(_whitelistedTokens.add(_token), "add-in-list-failed");
-        require(_cTokenList.add(_cToken), "add-in-list-failed");
-        oracles[_token] = _oracle;
-        cTokens[_token] = _cToken;
-        IERC20(_token).safeApprove(_cToken, type(uint256).max);
+        strategies[_token] = _strategy;
+    }
+
+    /// @dev USD value of given _token amount, with VUSD decimals, at oracle router price capped at _maxPrice
+    function _usdValue(
+        IOracleRouter _oracleRouter,
+        address _token,
+        uint256 _amount,
+        uint256 _maxPrice
+    ) internal view returns (uint256) {
+        if (_amount == 0) {
+            return 0;
+        }
+        // _amount * price has token decimals + 18 decimals of oracle router
+        uint256 _decimals = uint256(IERC20Metadata(_token).decimals()) + 18;
+        uint256 _vusdDecimals = IERC20Metadata(address(vusd)).decimals();
+        uint256 _price = _oracleRouter.price(_token);
+        uint256 _value = _amount * (_price > _maxPrice ? _maxPrice : _price);
+        return
+            _decimals > _vusdDecimals
+                ? _value / 10**(_decimals - _vusdDecimals)
+                : _value * 10**(_vusdDecimals - _decimals);
+    }
+
+    /// @dev Send given amount of _token to its strategy and deploy it
+    function _depositToStrategy(address _token, uint256 _amount) internal {
+        if (_amount > 0) {
+            IERC20(_token).safeTransfer(strategies[_token], _amount);
+            IStrategy(strategies[_token]).deposit();
+        }
     }
 
     /// @notice Approve all routers to spend COMP
-    function _approveRouters(ISwapManager _swapManager, uint256 _amount) internal {
+    function _approveRouters(
+        address _comp,
+        ISwapManager _swapManager,
+        uint256 _amount
+    ) internal {
+        if (address(_swapManager) == address(0)) {
+            return;
+        }
         for (uint256 i = 0; i < _swapManager.N_DEX(); i++) {
-            IERC20(COMP).safeApprove(address(swapManager.ROUTERS(i)), _amount);
+            IERC20(_comp).safeApprove(address(_swapManager.ROUTERS(i)), _amount);
         }
     }
 
@@ -330,7 +457,17 @@ contract Treasury is Context, ReentrancyGuard {
         address _tokenReceiver
     ) internal {
         require(_whitelistedTokens.contains(_token), "token-is-not-supported");
-        require(CToken(cTokens[_token]).redeemUnderlying(_amount) == 0, "redeem-underlying-failed");
-        IERC20(_token).safeTransfer(_tokenReceiver, _amount);
+        IStrategy(strategies[_token]).withdraw(_amount, _tokenReceiver);
+        emit Withdrawn(_token, _amount, _tokenReceiver);
+    }
+
+    /// @dev Modifier calls it, instead of inlining the check in every function, to keep contract under size limit
+    function _onlyGovernor() internal view {
+        require(_msgSender() == governor(), "caller-is-not-the-governor");
+    }
+
+    /// @dev Same as _onlyGovernor, redeemer is also authorized
+    function _onlyAuthorized() internal view {
+        require(_msgSender() == governor() || _msgSender() == redeemer, "caller-is-not-authorized");
     }
 }
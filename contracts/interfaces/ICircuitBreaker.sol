@@ -0,0 +1,11 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+interface ICircuitBreaker {
+    function isPaused(address _token) external view returns (bool);
+
+    function paused() external view returns (bool);
+
+    function tokenPaused(address _token) external view returns (bool);
+}
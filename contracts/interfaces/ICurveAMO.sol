@@ -0,0 +1,7 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+interface ICurveAMO {
+    function debt() external view returns (uint256);
+}
@@ -0,0 +1,58 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+
+/// @dev Tokenized vault standard, see https://eips.ethereum.org/EIPS/eip-4626
+interface IERC4626 is IERC20, IERC20Metadata {
+    event Deposit(address indexed sender, address indexed owner, uint256 assets, uint256 shares);
+
+    event Withdraw(
+        address indexed sender,
+        address indexed receiver,
+        address indexed owner,
+        uint256 assets,
+        uint256 shares
+    );
+
+    function asset() external view returns (address);
+
+    function totalAssets() external view returns (uint256);
+
+    function convertToShares(uint256 _assets) external view returns (uint256);
+
+    function convertToAssets(uint256 _shares) external view returns (uint256);
+
+    function maxDeposit(address _receiver) external view returns (uint256);
+
+    function previewDeposit(uint256 _assets) external view returns (uint256);
+
+    function deposit(uint256 _assets, address _receiver) external returns (uint256 _shares);
+
+    function maxMint(address _receiver) external view returns (uint256);
+
+    function previewMint(uint256 _shares) external view returns (uint256);
+
+    function mint(uint256 _shares, address _receiver) external returns (uint256 _assets);
+
+    function maxWithdraw(address _owner) external view returns (uint256);
+
+    function previewWithdraw(uint256 _assets) external view returns (uint256);
+
+    function withdraw(
+        uint256 _assets,
+        address _receiver,
+        address _owner
+    ) external returns (uint256 _shares);
+
+    function maxRedeem(address _owner) external view returns (uint256);
+
+    function previewRedeem(uint256 _shares) external view returns (uint256);
+
+    function redeem(
+        uint256 _shares,
+        address _receiver,
+        address _owner
+    ) external returns (uint256 _assets);
+}
@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+interface IFeeCollector {
+    function recordMintFee(address _token, uint256 _vusdAmount) external;
+
+    function recordRedeemFee(address _token, uint256 _vusdAmount) external;
+
+    function surplus() external view returns (uint256);
+
+    function claimableSurplus() external view returns (uint256);
+}
@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+/// @dev Generic message passing endpoint, an adapter of it is expected for each bridge protocol
+interface IMessageEndpoint {
+    function sendMessage(
+        uint256 _dstChainId,
+        address _receiver,
+        bytes calldata _payload
+    ) external payable;
+
+    function estimateFee(
+        uint256 _dstChainId,
+        address _receiver,
+        bytes calldata _payload
+    ) external view returns (uint256);
+}
@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+/// @dev Receiver of messages delivered by message endpoint
+interface IMessageReceiver {
+    function receiveMessage(
+        uint256 _srcChainId,
+        address _sender,
+        bytes calldata _payload
+    ) external;
+}
@@ -0,0 +1,45 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+import "./ICircuitBreaker.sol";
+import "./IOracleRouter.sol";
+import "./IRateLimiter.sol";
+
+interface IMinter {
+    function mintSurplus(address _receiver, uint256 _amount) external;
+
+    function mintLiquidity(uint256 _amount) external;
+
+    function mintYield(uint256 _amount) external;
+
+    function mintBridged(address _receiver, uint256 _amount) external;
+
+    function feeCollector() external view returns (address);
+
+    function availableMintage() external view returns (uint256);
+
+    function backedSupply() external view returns (uint256);
+
+    function isWhitelistedToken(address _address) external view returns (bool);
+
+    function whitelistedTokens() external view returns (address[] memory);
+
+    function mintingFee() external view returns (uint256);
+
+    function mintageAt(
+        address _token,
+        uint256 _amountIn,
+        uint256 _price
+    ) external view returns (uint256 _mintage, uint256 _fee);
+
+    function isPriceWithinTolerance(uint256 _price) external view returns (bool);
+
+    function priceTolerance() external view returns (uint256);
+
+    function oracleRouter() external view returns (IOracleRouter);
+
+    function circuitBreaker() external view returns (ICircuitBreaker);
+
+    function rateLimiter() external view returns (IRateLimiter);
+}
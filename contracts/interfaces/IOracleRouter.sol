@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+interface IOracleRouter {
+    enum Mode {
+        Fallback,
+        Median
+    }
+
+    /// @dev USD price of token with 18 decimals
+    function price(address _token) external view returns (uint256);
+
+    function feeds(address _token)
+        external
+        view
+        returns (
+            address primary,
+            address secondary,
+            Mode mode
+        );
+}
@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+interface IRateLimiter {
+    function consumeMint(
+        address _token,
+        address _account,
+        uint256 _vusdAmount
+    ) external;
+
+    function consumeRedeem(
+        address _token,
+        address _account,
+        uint256 _vusdAmount
+    ) external;
+
+    function mintCapacity(address _token, address _account) external view returns (uint256);
+
+    function redeemCapacity(address _token, address _account) external view returns (uint256);
+}
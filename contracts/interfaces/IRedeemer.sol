@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+import "./ICircuitBreaker.sol";
+import "./IOracleRouter.sol";
+import "./IRateLimiter.sol";
+
+interface IRedeemer {
+    function redeemFee() external view returns (uint256);
+
+    function redeemableAt(
+        address _token,
+        uint256 _vusdAmount,
+        uint256 _price
+    ) external view returns (uint256 _redeemable, uint256 _fee);
+
+    function isPriceWithinTolerance(uint256 _price) external view returns (bool);
+
+    function priceTolerance() external view returns (uint256);
+
+    function oracleRouter() external view returns (IOracleRouter);
+
+    function circuitBreaker() external view returns (ICircuitBreaker);
+
+    function rateLimiter() external view returns (IRateLimiter);
+}
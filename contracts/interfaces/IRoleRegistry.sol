@@ -0,0 +1,7 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+interface IRoleRegistry {
+    function hasRole(bytes32 _role, address _account) external view returns (bool);
+}
@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+interface IStrategy {
+    function deposit() external;
+
+    function withdraw(uint256 _amount, address _receiver) external;
+
+    function withdrawAll(address _receiver) external returns (uint256);
+
+    function claimRewards() external;
+
+    function token() external view returns (address);
+
+    function asset() external view returns (address);
+
+    function totalValue() external view returns (uint256);
+}
@@ -3,6 +3,13 @@
 pragma solidity 0.8.3;
 
 interface ITreasury {
+    // Holdings of a whitelisted token, value is in USD with VUSD decimals
+    struct Reserve {
+        address token;
+        uint256 amount;
+        uint256 value;
+    }
+
     function withdraw(address _token, uint256 _amount) external;
 
     function withdraw(
@@ -13,11 +20,28 @@ interface ITreasury {
 
     function isWhitelistedToken(address _address) external view returns (bool);
 
-    function oracles(address _token) external view returns (address);
+    function strategies(address _token) external view returns (address);
 
     function withdrawable(address _token) external view returns (uint256);
 
     function whitelistedTokens() external view returns (address[] memory);
 
+    function reserves()
+        external
+        view
+        returns (
+            uint256 _totalValue,
+            Reserve[] memory _reserves,
+            uint256 _collateralizationRatio
+        );
+
+    function cappedReservesValue() external view returns (uint256 _totalValue);
+
+    function redeemer() external view returns (address);
+
+    function isKeeper(address _address) external view returns (bool);
+
+    function swapManager() external view returns (address);
+
     function vusd() external view returns (address);
 }
@@ -6,6 +6,8 @@ import "@openzeppelin/contracts/token/ERC20/extensions/draft-IERC20Permit.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 
 interface IVUSD is IERC20, IERC20Permit {
+    function burn(uint256 _amount) external;
+
     function burnFrom(address _user, uint256 _amount) external;
 
     function mint(address _to, uint256 _amount) external;
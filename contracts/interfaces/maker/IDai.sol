@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+/// @dev DAI-style permit, it approves max or zero allowance based on `allowed`
+interface IDaiPermit {
+    function nonces(address _holder) external view returns (uint256);
+
+    function permit(
+        address holder,
+        address spender,
+        uint256 nonce,
+        uint256 expiry,
+        bool allowed,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external;
+}
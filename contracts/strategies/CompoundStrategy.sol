@@ -0,0 +1,74 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+import "./Strategy.sol";
+import "../interfaces/compound/ICompound.sol";
+
+/// @title Strategy which supplies token to Compound v2 and holds cToken.
+contract CompoundStrategy is Strategy {
+    using SafeERC20 for IERC20;
+
+    string public constant NAME = "VUSD-CompoundStrategy";
+    string public constant VERSION = "1.5.0";
+
+    CToken public immutable cToken;
+    address public immutable comp;
+    Comptroller public immutable comptroller;
+
+    /**
+     * @param _vusd VUSD address
+     * @param _token Token of strategy
+     * @param _cToken CToken address correspond to _token
+     * @param _comp COMP address
+     * @param _comptroller Compound comptroller address
+     */
+    constructor(
+        address _vusd,
+        address _token,
+        address _cToken,
+        address _comp,
+        address _comptroller
+    ) Strategy(_vusd, _token) {
+        require(_cToken != address(0), "cToken-address-is-zero");
+        cToken = CToken(_cToken);
+        comp = _comp;
+        comptroller = Comptroller(_comptroller);
+        IERC20(_token).safeApprove(_cToken, type(uint256).max);
+    }
+
+    /// @notice Asset held by strategy, it is cToken
+    function asset() external view override returns (address) {
+        return address(cToken);
+    }
+
+    /// @dev Claim COMP from cToken market and send it to treasury
+    function _claimRewards(address _receiver) internal override {
+        address[] memory _markets = new address[](1);
+        _markets[0] = address(cToken);
+        comptroller.claimComp(address(this), _markets);
+        uint256 _compAmount = IERC20(comp).balanceOf(address(this));
+        if (_compAmount > 0) {
+            IERC20(comp).safeTransfer(_receiver, _compAmount);
+        }
+    }
+
+    function _deposit(uint256 _amount) internal override {
+        require(cToken.mint(_amount) == 0, "cToken-mint-failed");
+    }
+
+    function _withdraw(uint256 _amount) internal override {
+        require(cToken.redeemUnderlying(_amount) == 0, "redeem-underlying-failed");
+    }
+
+    function _withdrawAll() internal override {
+        uint256 _cTokenBalance = cToken.balanceOf(address(this));
+        if (_cTokenBalance > 0) {
+            require(cToken.redeem(_cTokenBalance) == 0, "redeem-failed");
+        }
+    }
+
+    function _deployedValue() internal view override returns (uint256) {
+        return (cToken.balanceOf(address(this)) * cToken.exchangeRateStored()) / 1e18;
+    }
+}
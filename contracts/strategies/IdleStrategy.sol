@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+import "./Strategy.sol";
+
+/// @title Strategy which holds token idle, it earns nothing and never fails to withdraw.
+contract IdleStrategy is Strategy {
+    string public constant NAME = "VUSD-IdleStrategy";
+    string public constant VERSION = "1.5.0";
+
+    constructor(address _vusd, address _token) Strategy(_vusd, _token) {}
+
+    /// @notice Asset held by strategy, it is token itself
+    function asset() external view override returns (address) {
+        return token;
+    }
+
+    function _deposit(uint256) internal override {}
+
+    function _withdraw(uint256) internal override {}
+
+    function _withdrawAll() internal override {}
+
+    function _deployedValue() internal pure override returns (uint256) {
+        return 0;
+    }
+}
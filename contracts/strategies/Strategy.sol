@@ -0,0 +1,91 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/Context.sol";
+import "../interfaces/IStrategy.sol";
+import "../interfaces/IVUSD.sol";
+
+/**
+ * @title Base of treasury strategies. A strategy holds funds of one token and deploys those in a protocol.
+ * @dev Treasury is defined in VUSD token contract, so a strategy keeps working with a new treasury.
+ */
+abstract contract Strategy is IStrategy, Context {
+    using SafeERC20 for IERC20;
+
+    IVUSD public immutable vusd;
+    address public immutable override token;
+
+    constructor(address _vusd, address _token) {
+        require(_vusd != address(0), "vusd-address-is-zero");
+        require(_token != address(0), "token-address-is-zero");
+        vusd = IVUSD(_vusd);
+        token = _token;
+    }
+
+    modifier onlyTreasury() {
+        require(_msgSender() == treasury(), "caller-is-not-the-treasury");
+        _;
+    }
+
+    /**
+     * @notice Deploy idle token balance of strategy in protocol.
+     * @dev Anyone can call, it only moves funds already held by strategy. Minter sends tokens here before calling it.
+     */
+    function deposit() external override {
+        uint256 _balance = IERC20(token).balanceOf(address(this));
+        if (_balance > 0) {
+            _deposit(_balance);
+        }
+    }
+
+    /**
+     * @notice Withdraw given amount of token
+     * @param _amount Token amount to withdraw
+     * @param _receiver Address of token receiver
+     */
+    function withdraw(uint256 _amount, address _receiver) external override onlyTreasury {
+        uint256 _balance = IERC20(token).balanceOf(address(this));
+        if (_balance < _amount) {
+            _withdraw(_amount - _balance);
+        }
+        IERC20(token).safeTransfer(_receiver, _amount);
+    }
+
+    /**
+     * @notice Withdraw all funds of strategy
+     * @param _receiver Address of token receiver
+     * @return _amount Token amount withdrawn
+     */
+    function withdrawAll(address _receiver) external override onlyTreasury returns (uint256 _amount) {
+        _withdrawAll();
+        _amount = IERC20(token).balanceOf(address(this));
+        IERC20(token).safeTransfer(_receiver, _amount);
+    }
+
+    /// @notice Claim rewards earned by strategy, if any, and send those to treasury
+    function claimRewards() external override onlyTreasury {
+        _claimRewards(_msgSender());
+    }
+
+    /// @notice Token value of strategy, idle plus deployed in protocol
+    function totalValue() external view override returns (uint256) {
+        return IERC20(token).balanceOf(address(this)) + _deployedValue();
+    }
+
+    /// @dev Treasury is defined in VUSD token contract only
+    function treasury() public view returns (address) {
+        return vusd.treasury();
+    }
+
+    function _claimRewards(address _receiver) internal virtual {}
+
+    function _deposit(uint256 _amount) internal virtual;
+
+    function _withdraw(uint256 _amount) internal virtual;
+
+    function _withdrawAll() internal virtual;
+
+    function _deployedValue() internal view virtual returns (uint256);
+}
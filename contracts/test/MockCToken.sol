@@ -0,0 +1,87 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @title Mock Compound v2 cToken
+ * @dev Underlying amount is cToken amount * exchangeRateStored / 1e18, same as Compound.
+ * Non zero error code makes mint/redeem return that code instead of doing anything, same as Compound failures.
+ */
+contract MockCToken is ERC20 {
+    using SafeERC20 for IERC20;
+
+    IERC20 public immutable underlying;
+    uint256 public exchangeRateStored;
+    uint256 public mintError;
+    uint256 public redeemError;
+
+    constructor(
+        address _underlying,
+        uint256 _exchangeRate,
+        string memory _symbol
+    ) ERC20(_symbol, _symbol) {
+        underlying = IERC20(_underlying);
+        exchangeRateStored = _exchangeRate;
+    }
+
+    function decimals() public pure override returns (uint8) {
+        return 8;
+    }
+
+    /// @notice Update exchange rate, cToken should hold enough underlying to pay it
+    function updateExchangeRate(uint256 _newExchangeRate) external {
+        exchangeRateStored = _newExchangeRate;
+    }
+
+    /// @notice Force mint and redeem calls to fail with given error codes, zero means success.
+    function updateErrors(uint256 _mintError, uint256 _redeemError) external {
+        mintError = _mintError;
+        redeemError = _redeemError;
+    }
+
+    function accrueInterest() external pure returns (uint256) {
+        return 0;
+    }
+
+    function exchangeRateCurrent() external view returns (uint256) {
+        return exchangeRateStored;
+    }
+
+    function balanceOfUnderlying(address _owner) external view returns (uint256) {
+        return (balanceOf(_owner) * exchangeRateStored) / 1e18;
+    }
+
+    function mint(uint256 _mintAmount) external returns (uint256) {
+        if (mintError != 0) {
+            return mintError;
+        }
+        uint256 _balanceBefore = underlying.balanceOf(address(this));
+        underlying.safeTransferFrom(_msgSender(), address(this), _mintAmount);
+        uint256 _received = underlying.balanceOf(address(this)) - _balanceBefore;
+        _mint(_msgSender(), (_received * 1e18) / exchangeRateStored);
+        return 0;
+    }
+
+    function redeem(uint256 _redeemTokens) external returns (uint256) {
+        if (redeemError != 0) {
+            return redeemError;
+        }
+        _burn(_msgSender(), _redeemTokens);
+        underlying.safeTransfer(_msgSender(), (_redeemTokens * exchangeRateStored) / 1e18);
+        return 0;
+    }
+
+    function redeemUnderlying(uint256 _redeemAmount) external returns (uint256) {
+        if (redeemError != 0) {
+            return redeemError;
+        }
+        // Round up cTokens to burn, same as Compound
+        uint256 _redeemTokens = (_redeemAmount * 1e18 + exchangeRateStored - 1) / exchangeRateStored;
+        _burn(_msgSender(), _redeemTokens);
+        underlying.safeTransfer(_msgSender(), _redeemAmount);
+        return 0;
+    }
+}
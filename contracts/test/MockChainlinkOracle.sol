@@ -0,0 +1,86 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+import "../interfaces/chainlink/IAggregatorV3.sol";
+
+/// @title Mock Chainlink feed, only latest round is stored
+contract MockChainlinkOracle is IAggregatorV3 {
+    uint8 public immutable override decimals;
+
+    uint80 private roundId;
+    int256 private answer;
+    uint256 private updatedAt;
+    uint80 private answeredInRound;
+
+    constructor(int256 _answer, uint8 _decimals) {
+        decimals = _decimals;
+        _updateRoundData(1, _answer, block.timestamp, 1);
+    }
+
+    /// @notice Start a new round with given price at current block timestamp
+    function updatePrice(int256 _answer) external {
+        _updateRoundData(roundId + 1, _answer, block.timestamp, roundId + 1);
+    }
+
+    /// @notice Override latest round data, it allows stale and incomplete rounds
+    function updateRoundData(
+        uint80 _roundId,
+        int256 _answer,
+        uint256 _updatedAt,
+        uint80 _answeredInRound
+    ) external {
+        _updateRoundData(_roundId, _answer, _updatedAt, _answeredInRound);
+    }
+
+    function description() external pure override returns (string memory) {
+        return "Mock / USD";
+    }
+
+    function version() external pure override returns (uint256) {
+        return 4;
+    }
+
+    function getRoundData(uint80 _roundId)
+        external
+        view
+        override
+        returns (
+            uint80,
+            int256,
+            uint256,
+            uint256,
+            uint80
+        )
+    {
+        require(_roundId == roundId, "No data present");
+        return (roundId, answer, updatedAt, updatedAt, answeredInRound);
+    }
+
+    function latestRoundData()
+        external
+        view
+        override
+        returns (
+            uint80,
+            int256,
+            uint256,
+            uint256,
+            uint80
+        )
+    {
+        return (roundId, answer, updatedAt, updatedAt, answeredInRound);
+    }
+
+    function _updateRoundData(
+        uint80 _roundId,
+        int256 _answer,
+        uint256 _updatedAt,
+        uint80 _answeredInRound
+    ) internal {
+        roundId = _roundId;
+        answer = _answer;
+        updatedAt = _updatedAt;
+        answeredInRound = _answeredInRound;
+    }
+}
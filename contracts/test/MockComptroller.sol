@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+import "./MockStablecoin.sol";
+
+/// @title Mock Compound comptroller, it mints accrued COMP on claim.
+contract MockComptroller {
+    MockStablecoin public immutable comp;
+
+    // Holder => accrued COMP
+    mapping(address => uint256) public compAccrued;
+
+    constructor(address _comp) {
+        comp = MockStablecoin(_comp);
+    }
+
+    function updateCompAccrued(address _holder, uint256 _amount) external {
+        compAccrued[_holder] = _amount;
+    }
+
+    function claimComp(address _holder, address[] memory) external {
+        uint256 _amount = compAccrued[_holder];
+        compAccrued[_holder] = 0;
+        comp.mint(_holder, _amount);
+    }
+}
@@ -0,0 +1,145 @@
+// SPDX-License-Identifier: MIT
+
+//solhint-disable func-name-mixedcase
+pragma solidity 0.8.3;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @title Mock Curve metapool of VUSD and LP token of base pool, it is its own LP token.
+ * @dev Both coins are worth 1 DAI in liquidity, LP is minted and burnt 1:1 with value. VUSD price is ratio of
+ * base LP balance to VUSD balance, it has no fee and no amplification. Previous balances are balances at the end
+ * of previous block, like price oracle of metapool.
+ */
+contract MockCurveMetapool is ERC20 {
+    address[2] public coins;
+    uint256[2] public balances;
+    uint256[2] internal _previousBalances;
+    uint256 internal _lastBlock;
+
+    constructor(address _vusd, address _baseLp) ERC20("Mock VUSD metapool", "VUSD3CRV-f") {
+        coins = [_vusd, _baseLp];
+    }
+
+    function fee() external pure returns (uint256) {
+        return 0;
+    }
+
+    function get_balances() external view returns (uint256[2] memory) {
+        return balances;
+    }
+
+    function get_previous_balances() public view returns (uint256[2] memory) {
+        return block.number > _lastBlock ? balances : _previousBalances;
+    }
+
+    function calc_token_amount(uint256[2] memory _amounts, bool) public view returns (uint256) {
+        return _calcTokenAmount(_amounts, balances);
+    }
+
+    function calc_token_amount(
+        uint256[2] memory _amounts,
+        bool,
+        bool _previous
+    ) external view returns (uint256) {
+        return _calcTokenAmount(_amounts, _previous ? get_previous_balances() : balances);
+    }
+
+    function calc_withdraw_one_coin(uint256 _burnAmount, int128) public view returns (uint256) {
+        return _calcWithdrawOneCoin(_burnAmount, balances);
+    }
+
+    function calc_withdraw_one_coin(
+        uint256 _burnAmount,
+        int128,
+        bool _previous
+    ) external view returns (uint256) {
+        return _calcWithdrawOneCoin(_burnAmount, _previous ? get_previous_balances() : balances);
+    }
+
+    function get_dy_underlying(
+        int128 i,
+        int128,
+        uint256 dx
+    ) external view returns (uint256) {
+        return _dy(i, dx, balances);
+    }
+
+    function get_dy_underlying(
+        int128 i,
+        int128,
+        uint256 dx,
+        uint256[2] memory _balances
+    ) external pure returns (uint256) {
+        return _dy(i, dx, _balances);
+    }
+
+    function add_liquidity(uint256[2] memory _amounts, uint256 _minMintAmount) external returns (uint256 _lpAmount) {
+        _checkpoint();
+        _lpAmount = calc_token_amount(_amounts, true);
+        require(_lpAmount >= _minMintAmount, "Slippage screwed you");
+        for (uint256 i = 0; i < 2; i++) {
+            if (_amounts[i] > 0) {
+                IERC20(coins[i]).transferFrom(msg.sender, address(this), _amounts[i]);
+                balances[i] += _amounts[i];
+            }
+        }
+        _mint(msg.sender, _lpAmount);
+    }
+
+    function remove_liquidity_one_coin(
+        uint256 _burnAmount,
+        int128 i,
+        uint256 _minReceived
+    ) external returns (uint256 _amount) {
+        _checkpoint();
+        _amount = calc_withdraw_one_coin(_burnAmount, i);
+        require(_amount >= _minReceived, "Not enough coins removed");
+        _burn(msg.sender, _burnAmount);
+        balances[uint128(i)] -= _amount;
+        IERC20(coins[uint128(i)]).transfer(msg.sender, _amount);
+    }
+
+    /// @notice Swap coin i for coin j at balance ratio, it moves VUSD price
+    function exchange(
+        int128 i,
+        int128 j,
+        uint256 dx,
+        uint256 min_dy
+    ) external returns (uint256 _dyOut) {
+        _checkpoint();
+        _dyOut = _dy(i, dx, balances);
+        require(_dyOut >= min_dy, "Exchange resulted in fewer coins than expected");
+        IERC20(coins[uint128(i)]).transferFrom(msg.sender, address(this), dx);
+        IERC20(coins[uint128(j)]).transfer(msg.sender, _dyOut);
+        balances[uint128(i)] += dx;
+        balances[uint128(j)] -= _dyOut;
+    }
+
+    /// @dev Keep balances at the end of previous block before first change of balances in a block
+    function _checkpoint() internal {
+        if (block.number > _lastBlock) {
+            _previousBalances = balances;
+            _lastBlock = block.number;
+        }
+    }
+
+    function _calcTokenAmount(uint256[2] memory _amounts, uint256[2] memory _balances) internal view returns (uint256) {
+        uint256 _total = _balances[0] + _balances[1];
+        uint256 _value = _amounts[0] + _amounts[1];
+        return _total == 0 ? _value : (_value * totalSupply()) / _total;
+    }
+
+    function _calcWithdrawOneCoin(uint256 _burnAmount, uint256[2] memory _balances) internal view returns (uint256) {
+        return (_burnAmount * (_balances[0] + _balances[1])) / totalSupply();
+    }
+
+    function _dy(
+        int128 i,
+        uint256 dx,
+        uint256[2] memory _balances
+    ) internal pure returns (uint256) {
+        (uint256 _in, uint256 _out) = i == 0 ? (_balances[0], _balances[1]) : (_balances[1], _balances[0]);
+        return _in == 0 ? dx : (dx * _out) / _in;
+    }
+}
@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+/**
+ * @title Mock proxy which forwards static calls to target, except calls of one selector which get given raw data.
+ * @dev Used to test readers of other contracts against short or malformed return data.
+ */
+contract MockMalformedReturn {
+    address public immutable target;
+    bytes4 public selector;
+    bytes public returnData;
+
+    constructor(address _target) {
+        target = _target;
+    }
+
+    function updateReturnData(bytes4 _selector, bytes calldata _returnData) external {
+        selector = _selector;
+        returnData = _returnData;
+    }
+
+    // solhint-disable payable-fallback, no-complex-fallback, no-inline-assembly
+    fallback() external {
+        bytes memory _data = returnData;
+        if (msg.sig != selector) {
+            bool _ok;
+            (_ok, _data) = target.staticcall(msg.data);
+            if (!_ok) {
+                assembly {
+                    revert(add(_data, 32), mload(_data))
+                }
+            }
+        }
+        assembly {
+            return(add(_data, 32), mload(_data))
+        }
+    }
+}
@@ -0,0 +1,59 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+import "../interfaces/IMessageEndpoint.sol";
+import "../interfaces/IMessageReceiver.sol";
+
+/**
+ * @title Mock message endpoint of a chain, it delivers messages right away to endpoint of destination chain.
+ * @dev Deploy one endpoint per chain id on the same network and link them via `updateRemote`.
+ */
+contract MockMessageEndpoint is IMessageEndpoint {
+    uint256 public immutable chainId;
+    uint256 public fee;
+    // Chain id => endpoint of chain
+    mapping(uint256 => address) public remotes;
+
+    constructor(uint256 _chainId) {
+        chainId = _chainId;
+    }
+
+    function updateRemote(uint256 _chainId, address _endpoint) external {
+        remotes[_chainId] = _endpoint;
+    }
+
+    function updateFee(uint256 _fee) external {
+        fee = _fee;
+    }
+
+    function sendMessage(
+        uint256 _dstChainId,
+        address _receiver,
+        bytes calldata _payload
+    ) external payable override {
+        require(msg.value >= fee, "fee-is-too-low");
+        address _remote = remotes[_dstChainId];
+        require(_remote != address(0), "chain-is-not-supported");
+        MockMessageEndpoint(_remote).deliver(chainId, msg.sender, _receiver, _payload);
+    }
+
+    /// @notice Deliver message sent via endpoint of source chain
+    function deliver(
+        uint256 _srcChainId,
+        address _sender,
+        address _receiver,
+        bytes calldata _payload
+    ) external {
+        require(msg.sender == remotes[_srcChainId], "caller-is-not-a-remote");
+        IMessageReceiver(_receiver).receiveMessage(_srcChainId, _sender, _payload);
+    }
+
+    function estimateFee(
+        uint256,
+        address,
+        bytes calldata
+    ) external view override returns (uint256) {
+        return fee;
+    }
+}
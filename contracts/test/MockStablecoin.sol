@@ -0,0 +1,68 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+import "@openzeppelin/contracts/token/ERC20/extensions/draft-ERC20Permit.sol";
+
+/// @title Mock stablecoin with configurable decimals and transfer fee. It supports EIP-2612 and DAI-style permit.
+contract MockStablecoin is ERC20Permit {
+    uint256 public constant MAX_BPS = 10_000; // 10_000 = 100%
+    bytes32 public constant DAI_PERMIT_TYPEHASH =
+        keccak256("Permit(address holder,address spender,uint256 nonce,uint256 expiry,bool allowed)");
+
+    uint8 private immutable _decimals;
+    uint256 public transferFee; // Fee in BPS, burnt on each transfer
+
+    constructor(
+        string memory _name,
+        string memory _symbol,
+        uint8 decimals_
+    ) ERC20(_name, _symbol) ERC20Permit(_name) {
+        _decimals = decimals_;
+    }
+
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
+
+    /// @notice Anyone can mint mock token
+    function mint(address _to, uint256 _amount) external {
+        _mint(_to, _amount);
+    }
+
+    /// @notice DAI-style permit, it shares nonces with EIP-2612 permit
+    function permit(
+        address _holder,
+        address _spender,
+        uint256 _nonce,
+        uint256 _expiry,
+        bool _allowed,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) external {
+        require(_expiry == 0 || block.timestamp <= _expiry, "permit-expired");
+        require(_nonce == _useNonce(_holder), "invalid-nonce");
+        bytes32 _structHash = keccak256(abi.encode(DAI_PERMIT_TYPEHASH, _holder, _spender, _nonce, _expiry, _allowed));
+        require(ECDSA.recover(_hashTypedDataV4(_structHash), _v, _r, _s) == _holder, "invalid-permit");
+        _approve(_holder, _spender, _allowed ? type(uint256).max : 0);
+    }
+
+    function updateTransferFee(uint256 _newTransferFee) external {
+        require(_newTransferFee <= MAX_BPS, "transfer-fee-limit-reached");
+        transferFee = _newTransferFee;
+    }
+
+    /// @dev Burn transfer fee, if any, from sender and transfer the rest
+    function _transfer(
+        address _sender,
+        address _recipient,
+        uint256 _amount
+    ) internal override {
+        uint256 _fee = (_amount * transferFee) / MAX_BPS;
+        if (_fee > 0) {
+            _burn(_sender, _fee);
+        }
+        super._transfer(_sender, _recipient, _amount - _fee);
+    }
+}
@@ -0,0 +1,51 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+import "./MockUniswapRouter.sol";
+
+/// @title Mock swap manager, it only supports direct path between 2 tokens
+//solhint-disable func-name-mixedcase
+contract MockSwapManager {
+    MockUniswapRouter[] private routers;
+
+    constructor(address[] memory _routers) {
+        for (uint256 i = 0; i < _routers.length; i++) {
+            routers.push(MockUniswapRouter(_routers[i]));
+        }
+    }
+
+    function N_DEX() external view returns (uint256) {
+        return routers.length;
+    }
+
+    function ROUTERS(uint256 i) external view returns (address) {
+        return address(routers[i]);
+    }
+
+    /// @notice Best router and output for given input
+    function bestOutputFixedInput(
+        address _from,
+        address _to,
+        uint256 _amountIn
+    )
+        external
+        view
+        returns (
+            address[] memory path,
+            uint256 amountOut,
+            uint256 rIdx
+        )
+    {
+        path = new address[](2);
+        path[0] = _from;
+        path[1] = _to;
+        for (uint256 i = 0; i < routers.length; i++) {
+            uint256[] memory _amounts = routers[i].getAmountsOut(_amountIn, path);
+            if (_amounts[1] > amountOut) {
+                amountOut = _amounts[1];
+                rIdx = i;
+            }
+        }
+    }
+}
@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.3;
+
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @title Mock Uniswap v2 like router with fixed rates.
+ * @dev Output is paid from router balance, hence router should be funded with output tokens.
+ */
+contract MockUniswapRouter {
+    using SafeERC20 for IERC20;
+
+    // From token => to token => rate, amountOut = amountIn * rate / 1e18
+    mapping(address => mapping(address => uint256)) public rates;
+
+    function updateRate(
+        address _from,
+        address _to,
+        uint256 _rate
+    ) external {
+        rates[_from][_to] = _rate;
+    }
+
+    function getAmountsOut(uint256 _amountIn, address[] memory _path) public view returns (uint256[] memory _amounts) {
+        _amounts = new uint256[](_path.length);
+        _amounts[0] = _amountIn;
+        for (uint256 i = 1; i < _path.length; i++) {
+            _amounts[i] = (_amounts[i - 1] * rates[_path[i - 1]][_path[i]]) / 1e18;
+        }
+    }
+
+    function swapExactTokensForTokens(
+        uint256 _amountIn,
+        uint256 _amountOutMin,
+        address[] calldata _path,
+        address _to,
+        uint256 _deadline
+    ) external returns (uint256[] memory _amounts) {
+        require(_deadline >= block.timestamp, "UniswapV2Router: EXPIRED");
+        _amounts = getAmountsOut(_amountIn, _path);
+        uint256 _amountOut = _amounts[_amounts.length - 1];
+        require(_amountOut >= _amountOutMin, "UniswapV2Router: INSUFFICIENT_OUTPUT_AMOUNT");
+        IERC20(_path[0]).safeTransferFrom(msg.sender, address(this), _amountIn);
+        IERC20(_path[_path.length - 1]).safeTransfer(_to, _amountOut);
+    }
+}
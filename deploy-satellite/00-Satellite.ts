@@ -0,0 +1,19 @@
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {DeployFunction} from "hardhat-deploy/types";
+import {getSatelliteConfig} from "../scripts/networks";
+import {deploySatellite} from "../scripts/satellite";
+
+const name = "Satellite";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const config = getSatelliteConfig(await hre.getChainId());
+  const {homeSteps} = await deploySatellite(hre, config);
+  if (homeSteps.length > 0) {
+    console.log(`Pending steps on home chain ${config.homeChainId}, via governor:`);
+    homeSteps.forEach((step) => console.log(`  ${step}`));
+  }
+};
+
+export default func;
+func.id = name;
+func.tags = [name];
@@ -1,5 +1,6 @@
 import {HardhatRuntimeEnvironment} from "hardhat/types";
 import {DeployFunction} from "hardhat-deploy/types";
+import {loadNetworkConfig, tokenArgs} from "../scripts/networks";
 
 const name = "Minter";
 const vusd = "VUSD";
@@ -12,10 +13,12 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
 
   const {deployer} = await getNamedAccounts();
   const vusdDeployment = await deployments.get(vusd);
+  const oracleRouter = await deployments.get("OracleRouter");
+  const {tokens} = tokenArgs((await loadNetworkConfig(hre)).tokens);
 
   const deployed = await deploy(name, {
     from: deployer,
-    args: [vusdDeployment.address, maxMintLimit],
+    args: [vusdDeployment.address, oracleRouter.address, maxMintLimit, tokens],
     log: true,
   });
 
@@ -27,3 +30,4 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
 export default func;
 func.id = `${name}-${version}`;
 func.tags = [name];
+func.dependencies = ["Mocks", "OracleRouter"];
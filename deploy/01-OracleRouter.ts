@@ -0,0 +1,30 @@
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {DeployFunction} from "hardhat-deploy/types";
+import {loadNetworkConfig, tokenArgs} from "../scripts/networks";
+
+const name = "OracleRouter";
+const vusd = "VUSD";
+let version;
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const {deployments, getNamedAccounts} = hre;
+  const {deploy} = deployments;
+
+  const {deployer} = await getNamedAccounts();
+  const vusdDeployment = await deployments.get(vusd);
+  const {tokens, oracles, secondaryOracles, stalePeriods} = tokenArgs((await loadNetworkConfig(hre)).tokens);
+
+  const deployed = await deploy(name, {
+    from: deployer,
+    args: [vusdDeployment.address, tokens, oracles, secondaryOracles, stalePeriods],
+    log: true,
+  });
+
+  const oracleRouter = await hre.ethers.getContractAt(name, deployed.address);
+  version = await oracleRouter.VERSION();
+};
+
+export default func;
+func.id = `${name}-${version}`;
+func.tags = [name];
+func.dependencies = ["Mocks"];
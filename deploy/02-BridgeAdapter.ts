@@ -0,0 +1,32 @@
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {DeployFunction} from "hardhat-deploy/types";
+import {loadNetworkConfig} from "../scripts/networks";
+
+const name = "BridgeAdapter";
+const vusd = "VUSD";
+let version;
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const {deployments, getNamedAccounts} = hre;
+  const {deploy} = deployments;
+
+  const {deployer} = await getNamedAccounts();
+  const vusdDeployment = await deployments.get(vusd);
+  const {messageEndpoint} = await loadNetworkConfig(hre);
+
+  const deployed = await deploy(name, {
+    from: deployer,
+    args: [vusdDeployment.address, messageEndpoint],
+    log: true,
+  });
+
+  const bridgeAdapter = await hre.ethers.getContractAt(name, deployed.address);
+  version = await bridgeAdapter.VERSION();
+};
+
+export default func;
+func.id = `${name}-${version}`;
+func.tags = [name];
+func.dependencies = ["Mocks"];
+// Bridge is deployed once network has a message endpoint, see scripts/networks
+func.skip = async (hre: HardhatRuntimeEnvironment) => !(await loadNetworkConfig(hre)).messageEndpoint;
@@ -0,0 +1,30 @@
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {DeployFunction} from "hardhat-deploy/types";
+
+const name = "CurveAMO";
+const vusd = "VUSD";
+const metapool = "CurveMetapool";
+let version;
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const {deployments, getNamedAccounts} = hre;
+  const {deploy} = deployments;
+
+  const {deployer} = await getNamedAccounts();
+  const vusdDeployment = await deployments.get(vusd);
+  const metapoolDeployment = await deployments.get(metapool);
+
+  const deployed = await deploy(name, {
+    from: deployer,
+    args: [vusdDeployment.address, metapoolDeployment.address],
+    log: true,
+  });
+
+  const curveAMO = await hre.ethers.getContractAt(name, deployed.address);
+  version = await curveAMO.VERSION();
+};
+
+export default func;
+func.id = `${name}-${version}`;
+func.tags = [name];
+func.dependencies = [metapool];
@@ -11,10 +11,11 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
 
   const {deployer} = await getNamedAccounts();
   const vusdDeployment = await deployments.get(vusd);
+  const oracleRouter = await deployments.get("OracleRouter");
 
   const deployed = await deploy(name, {
     from: deployer,
-    args: [vusdDeployment.address],
+    args: [vusdDeployment.address, oracleRouter.address],
     log: true,
   });
 
@@ -25,3 +26,4 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
 export default func;
 func.id = `${name}-${version}`;
 func.tags = [name];
+func.dependencies = ["OracleRouter"];
@@ -0,0 +1,40 @@
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {DeployFunction} from "hardhat-deploy/types";
+import {fastPaths, timelockDelay} from "../scripts/timelock";
+
+const name = "Timelock";
+let version;
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const {deployments, getNamedAccounts, ethers} = hre;
+  const {deploy} = deployments;
+
+  const {deployer} = await getNamedAccounts();
+  const selectorOf = (signature: string) => ethers.utils.id(signature).slice(0, 10);
+
+  const targets: string[] = [];
+  const selectors: string[] = [];
+  const getters: string[] = [];
+  for (const [deployment, functions] of Object.entries(fastPaths)) {
+    const target = (await deployments.get(deployment)).address;
+    for (const [fn, getter] of Object.entries(functions)) {
+      targets.push(target);
+      selectors.push(selectorOf(fn));
+      getters.push(selectorOf(getter));
+    }
+  }
+
+  const deployed = await deploy(name, {
+    from: deployer,
+    args: [timelockDelay, targets, selectors, getters],
+    log: true,
+  });
+
+  const timelock = await ethers.getContractAt(name, deployed.address);
+  version = await timelock.VERSION();
+};
+
+export default func;
+func.id = `${name}-${version}`;
+func.tags = [name];
+func.dependencies = Object.keys(fastPaths);
@@ -0,0 +1,27 @@
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {DeployFunction} from "hardhat-deploy/types";
+import {loadNetworkConfig, strategyDeployment} from "../scripts/networks";
+
+const vusd = "VUSD";
+
+// Deploy strategy of each default token, deployment is named as <SYMBOL>Strategy i.e. DAIStrategy
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const {deployments, getNamedAccounts} = hre;
+  const {deploy} = deployments;
+
+  const {deployer} = await getNamedAccounts();
+  const vusdDeployment = await deployments.get(vusd);
+  const {comp, comptroller, tokens} = await loadNetworkConfig(hre);
+
+  for (const token of tokens) {
+    const deployOptions =
+      token.strategy === "compound"
+        ? {contract: "CompoundStrategy", args: [vusdDeployment.address, token.address, token.cToken, comp, comptroller]}
+        : {contract: "IdleStrategy", args: [vusdDeployment.address, token.address]};
+    await deploy(strategyDeployment(token), {from: deployer, ...deployOptions, log: true});
+  }
+};
+
+export default func;
+func.tags = ["Strategies"];
+func.dependencies = ["Mocks"];
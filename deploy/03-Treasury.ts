@@ -1,5 +1,6 @@
 import {HardhatRuntimeEnvironment} from "hardhat/types";
 import {DeployFunction} from "hardhat-deploy/types";
+import {loadNetworkConfig, strategyDeployment, tokenArgs} from "../scripts/networks";
 
 const name = "Treasury";
 const vusd = "VUSD";
@@ -11,10 +12,16 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
 
   const {deployer} = await getNamedAccounts();
   const vusdDeployment = await deployments.get(vusd);
+  const {comp, swapManager, tokens: tokenConfigs} = await loadNetworkConfig(hre);
+  const {tokens} = tokenArgs(tokenConfigs);
+  const strategies: string[] = [];
+  for (const token of tokenConfigs) {
+    strategies.push((await deployments.get(strategyDeployment(token))).address);
+  }
 
   const deployed = await deploy(name, {
     from: deployer,
-    args: [vusdDeployment.address],
+    args: [vusdDeployment.address, swapManager, comp, tokens, strategies],
     log: true,
   });
 
@@ -26,3 +33,4 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
 export default func;
 func.id = `${name}-${version}`;
 func.tags = [name];
+func.dependencies = ["Mocks", "Strategies"];
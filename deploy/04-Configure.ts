@@ -0,0 +1,27 @@
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {DeployFunction} from "hardhat-deploy/types";
+import {configureRelease} from "../scripts/configure";
+
+const name = "Configure";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  await configureRelease(hre, {release: process.env.RELEASE, verbose: hre.hardhatArguments.verbose});
+};
+
+export default func;
+func.id = name;
+func.tags = [name];
+func.dependencies = [
+  "Minter",
+  "Redeemer",
+  "Treasury",
+  "CircuitBreaker",
+  "RateLimiter",
+  "Rebalancer",
+  "FeeCollector",
+  "RoleRegistry",
+  "CurveAMO",
+  "SavingsVault",
+  "BridgeAdapter",
+  "Quoter",
+];
@@ -0,0 +1,79 @@
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {DeployFunction} from "hardhat-deploy/types";
+import {BigNumber} from "ethers";
+import {getNetworkConfig} from "../../scripts/networks";
+
+const name = "Mocks";
+const COMP_PRICE = 50; // in USD
+const ROUTER_LIQUIDITY = 1_000_000; // of each token
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const {deployments, getNamedAccounts} = hre;
+  const {deploy, execute} = deployments;
+  const {deployer} = await getNamedAccounts();
+  const {mockTokens = []} = getNetworkConfig(await hre.getChainId());
+  const ten = BigNumber.from(10);
+
+  const comp = await deploy("COMP", {from: deployer, contract: "MockStablecoin", args: ["Compound", "COMP", 18]});
+  await deploy("Comptroller", {from: deployer, contract: "MockComptroller", args: [comp.address], log: true});
+  const router = await deploy("UniswapRouter", {from: deployer, contract: "MockUniswapRouter", log: true});
+  await deploy("SwapManager", {from: deployer, contract: "MockSwapManager", args: [[router.address]], log: true});
+  // Message endpoint of this chain, endpoints of other chains are deployed and linked by tests
+  const chainId = await hre.getChainId();
+  await deploy("MessageEndpoint", {from: deployer, contract: "MockMessageEndpoint", args: [chainId], log: true});
+
+  for (const {symbol, decimals} of mockTokens) {
+    const token = await deploy(symbol, {
+      from: deployer,
+      contract: "MockStablecoin",
+      args: [`Mock ${symbol}`, symbol, decimals],
+      log: true,
+    });
+    // Compound starts cToken at 0.02 underlying, scaled by 1e18 and decimal difference with 8 decimal cToken
+    await deploy(`c${symbol}`, {
+      from: deployer,
+      contract: "MockCToken",
+      args: [token.address, ten.pow(16 + decimals - 8).mul(2), `c${symbol}`],
+      log: true,
+    });
+    await deploy(`${symbol}_USD`, {from: deployer, contract: "MockChainlinkOracle", args: [ten.pow(8), 8], log: true});
+
+    await execute(symbol, {from: deployer}, "mint", router.address, ten.pow(decimals).mul(ROUTER_LIQUIDITY));
+    await execute(
+      "UniswapRouter",
+      {from: deployer},
+      "updateRate",
+      comp.address,
+      token.address,
+      ten.pow(decimals).mul(COMP_PRICE)
+    );
+    // Stablecoins swap 1:1 with each other
+    for (const other of mockTokens.filter((other) => other.symbol !== symbol)) {
+      const otherToken = await deployments.get(other.symbol).catch(() => undefined);
+      if (otherToken) {
+        await execute(
+          "UniswapRouter",
+          {from: deployer},
+          "updateRate",
+          token.address,
+          otherToken.address,
+          ten.pow(18 + other.decimals - decimals)
+        );
+        await execute(
+          "UniswapRouter",
+          {from: deployer},
+          "updateRate",
+          otherToken.address,
+          token.address,
+          ten.pow(18 + decimals - other.decimals)
+        );
+      }
+    }
+  }
+};
+
+export default func;
+func.id = name;
+func.tags = [name];
+// Only networks without real protocol, i.e. hardhat network with MOCKS env, use mocks
+func.skip = async (hre: HardhatRuntimeEnvironment) => !getNetworkConfig(await hre.getChainId()).mockTokens;
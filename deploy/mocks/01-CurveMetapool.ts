@@ -0,0 +1,27 @@
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {DeployFunction} from "hardhat-deploy/types";
+import {getNetworkConfig} from "../../scripts/networks";
+
+const name = "CurveMetapool";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const {deployments, getNamedAccounts} = hre;
+  const {deploy} = deployments;
+  const {deployer} = await getNamedAccounts();
+
+  // Mock LP token of base pool, i.e. 3CRV, it is the other coin of VUSD metapool
+  const baseLp = await deploy("3CRV", {from: deployer, contract: "MockStablecoin", args: ["Mock 3CRV", "3CRV", 18]});
+  await deploy(name, {
+    from: deployer,
+    contract: "MockCurveMetapool",
+    args: [(await deployments.get("VUSD")).address, baseLp.address],
+    log: true,
+  });
+};
+
+export default func;
+func.id = name;
+func.tags = [name];
+func.dependencies = ["VUSD"];
+// Mainnet has VUSD metapool deployed via Curve factory, see deployments/mainnet
+func.skip = async (hre: HardhatRuntimeEnvironment) => !getNetworkConfig(await hre.getChainId()).mockTokens;
@@ -8,9 +8,27 @@ import "hardhat-log-remover";
 import "hardhat-gas-reporter";
 import "hardhat-contract-sizer";
 import dotenv from "dotenv";
+import "./tasks/configure";
+import "./tasks/release";
+import "./tasks/harvest";
+import "./tasks/ledger";
+import "./tasks/rebalance";
+import "./tasks/reserves";
+import "./tasks/roles";
+import "./tasks/simulate";
+import "./tasks/differential";
+import "./tasks/amo";
+import "./tasks/yield";
+import {networks} from "./scripts/networks";
 dotenv.config();
 
 const junk = "test test test test test test test test test test test junk";
+// ChainId => keeper of VUSD system
+const keepers = Object.fromEntries(
+  Object.entries(networks)
+    .filter(([, network]) => network.keeper)
+    .map(([chainId, network]) => [chainId, network.keeper])
+);
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
@@ -18,15 +36,21 @@ const config: HardhatUserConfig = {
     localhost: {
       saveDeployments: true,
     },
-    hardhat: {
-      saveDeployments: true,
-      forking: {
-        url: process.env.NODE_URL || "https://localhost:8545",
-        blockNumber: process.env.BLOCK_NUMBER ? parseInt(process.env.BLOCK_NUMBER) : undefined,
-      },
-    },
+    // MOCKS env runs hardhat network without fork, against mocks from deploy/mocks
+    hardhat: process.env.MOCKS
+      ? {
+          chainId: 1337,
+          saveDeployments: false,
+        }
+      : {
+          saveDeployments: true,
+          forking: {
+            url: process.env.NODE_URL || "https://localhost:8545",
+            blockNumber: process.env.BLOCK_NUMBER ? parseInt(process.env.BLOCK_NUMBER) : undefined,
+          },
+        },
     mainnet: {
-      url: process.env.NODE_URL,
+      url: process.env.NODE_URL || "https://localhost:8545",
       chainId: 1,
       gas: 6700000,
       accounts: {mnemonic: process.env.MNEMONIC || junk},
@@ -37,6 +61,7 @@ const config: HardhatUserConfig = {
   },
   namedAccounts: {
     deployer: process.env.DEPLOYER || 0,
+    keeper: process.env.KEEPER || {default: 0, ...keepers},
   },
   solidity: {
     version: "0.8.3",
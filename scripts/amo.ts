@@ -0,0 +1,172 @@
+import type {BigNumber} from "ethers";
+import type {HardhatRuntimeEnvironment} from "hardhat/types";
+import type {CurveAMO, ICurveMetapool, Minter} from "../typechain";
+
+export interface AmoOptions {
+  // CurveAMO address, defaults to `CurveAMO` deployment
+  amo?: string;
+  // Accepted slippage from quoted output, in BPS
+  slippage?: number;
+  // Deviation of VUSD price from peg to act on, in BPS
+  threshold?: number;
+  // Keeper which sends the operation, defaults to keeper named account
+  keeper?: string;
+}
+
+export interface AmoPlan {
+  amo: string;
+  keeper: string;
+  // mint: mint VUSD and add it to metapool, burn: remove VUSD from metapool and burn it
+  action: "mint" | "burn";
+  // DAI per VUSD in metapool, with 18 decimals
+  price: BigNumber;
+  // Metapool balances of VUSD and LP token of base pool
+  balances: [BigNumber, BigNumber];
+  // VUSD to mint for mint, metapool LP to remove for burn
+  amount: BigNumber;
+  // Metapool LP quoted for mint, VUSD quoted for burn, at previous balances of metapool as AMO checks slippage
+  expectedOut: BigNumber;
+  // expectedOut less slippage, used as min out
+  minOut: BigNumber;
+  debt: BigNumber;
+  debtCeiling: BigNumber;
+}
+
+export interface AmoResult {
+  // Metapool LP received for mint, VUSD burnt for burn
+  amountOut: BigNumber;
+  gasUsed: BigNumber;
+  txHash?: string;
+}
+
+const MAX_BPS = 10_000;
+// Default slippage, 0.5% based on BPS
+const DEFAULT_SLIPPAGE = 50;
+// Default peg deviation, 0.1% based on BPS
+const DEFAULT_THRESHOLD = 10;
+
+async function curveAMOAt(hre: HardhatRuntimeEnvironment, address?: string): Promise<CurveAMO> {
+  const {deployments, ethers} = hre;
+  return (await ethers.getContractAt("CurveAMO", address || (await deployments.get("CurveAMO")).address)) as CurveAMO;
+}
+
+/**
+ * Operation of AMO which moves metapool halfway to balance, based on VUSD price and pool balances.
+ * Above peg, VUSD to mint is half of the excess of base LP balance, capped by debt ceiling and mint limit.
+ * Below peg, LP to remove is what half of the excess of VUSD balance takes, capped by LP held by AMO.
+ *
+ * @param hre Hardhat runtime environment
+ * @param options AMO options
+ * @returns AMO plan, undefined if VUSD is within threshold of peg or there is nothing to operate with
+ */
+export async function planAmo(hre: HardhatRuntimeEnvironment, options: AmoOptions = {}): Promise<AmoPlan | undefined> {
+  const {ethers, getNamedAccounts} = hre;
+  const {Zero, WeiPerEther} = ethers.constants;
+  const slippage = options.slippage ?? DEFAULT_SLIPPAGE;
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  if (slippage < 0 || slippage > MAX_BPS) {
+    throw new Error(`Invalid slippage ${slippage}`);
+  }
+  const amo = await curveAMOAt(hre, options.amo);
+  const metapool = (await ethers.getContractAt("ICurveMetapool", await amo.metapool())) as ICurveMetapool;
+  const [price, [vusdBalance, baseBalance], debt, debtCeiling, maxSlippage] = await Promise.all([
+    amo.vusdPrice(),
+    metapool.get_balances(),
+    amo.debt(),
+    amo.debtCeiling(),
+    amo.maxSlippage(),
+  ]);
+  if (maxSlippage.lt(slippage)) {
+    throw new Error(`Slippage ${slippage} is above max slippage ${maxSlippage} of AMO`);
+  }
+  const keeper = ethers.utils.getAddress(options.keeper || (await getNamedAccounts()).keeper);
+  const band = WeiPerEther.mul(threshold).div(MAX_BPS);
+  const plan = {amo: amo.address, keeper, price, balances: [vusdBalance, baseBalance] as [BigNumber, BigNumber]};
+  const lessSlippage = (amount: BigNumber) => amount.mul(MAX_BPS - slippage).div(MAX_BPS);
+
+  if (price.gt(WeiPerEther.add(band)) && baseBalance.gt(vusdBalance)) {
+    const vusd = await ethers.getContractAt("VUSD", await amo.vusd());
+    const minter = (await ethers.getContractAt("Minter", await vusd.minter())) as Minter;
+    const available = await minter.availableMintage();
+    const room = debtCeiling.gt(debt) ? debtCeiling.sub(debt) : Zero;
+    let amount = baseBalance.sub(vusdBalance).div(2);
+    amount = amount.lt(room) ? amount : room;
+    amount = amount.lt(available) ? amount : available;
+    if (amount.isZero()) {
+      return undefined;
+    }
+    const expectedOut = await metapool["calc_token_amount(uint256[2],bool,bool)"]([amount, 0], true, true);
+    return {...plan, action: "mint", amount, expectedOut, minOut: lessSlippage(expectedOut), debt, debtCeiling};
+  }
+  if (price.lt(WeiPerEther.sub(band)) && vusdBalance.gt(baseBalance)) {
+    const excess = vusdBalance.sub(baseBalance).div(2);
+    const lpBalance = await amo.lpBalance();
+    let amount = await metapool["calc_token_amount(uint256[2],bool)"]([excess, 0], false);
+    amount = amount.lt(lpBalance) ? amount : lpBalance;
+    if (amount.isZero()) {
+      return undefined;
+    }
+    const expectedOut = await metapool["calc_withdraw_one_coin(uint256,int128,bool)"](amount, 0, true);
+    return {...plan, action: "burn", amount, expectedOut, minOut: lessSlippage(expectedOut), debt, debtCeiling};
+  }
+  return undefined;
+}
+
+/**
+ * Send operation of plan as keeper. Dry run sends it on hardhat network, i.e. a mainnet fork, and rolls it back.
+ *
+ * @param hre Hardhat runtime environment
+ * @param plan AMO plan
+ * @param dryRun Whether to roll back the operation
+ */
+export async function runAmo(hre: HardhatRuntimeEnvironment, plan: AmoPlan, dryRun = false): Promise<AmoResult> {
+  const {ethers, network} = hre;
+  if (dryRun && network.name !== "hardhat") {
+    throw new Error(`Dry run is done on hardhat network, not on ${network.name}`);
+  }
+  const snapshot = dryRun ? await network.provider.send("evm_snapshot", []) : undefined;
+  try {
+    if (dryRun) {
+      await network.provider.send("hardhat_impersonateAccount", [plan.keeper]);
+      await network.provider.send("hardhat_setBalance", [plan.keeper, ethers.utils.parseEther("10").toHexString()]);
+    }
+    const amo = (await curveAMOAt(hre, plan.amo)).connect(await ethers.getSigner(plan.keeper));
+    const tx =
+      plan.action === "mint"
+        ? await amo.mintAndAddLiquidity(plan.amount, plan.minOut)
+        : await amo.removeLiquidityAndBurn(plan.amount, plan.minOut);
+    const receipt = await tx.wait();
+    const event = receipt.events?.find((e) => e.event === "LiquidityAdded" || e.event === "LiquidityRemoved");
+    if (!event?.args) {
+      throw new Error("Liquidity event is missing");
+    }
+    const amountOut = plan.action === "mint" ? event.args.lpAmount : event.args.vusdAmount;
+    return {amountOut, gasUsed: receipt.gasUsed, txHash: dryRun ? undefined : tx.hash};
+  } finally {
+    if (snapshot) {
+      await network.provider.send("evm_revert", [snapshot]);
+    }
+  }
+}
+
+/**
+ * Human readable AMO plan, amounts are in 18 decimals.
+ *
+ * @param hre Hardhat runtime environment
+ * @param plan AMO plan
+ */
+export function formatAmoPlan(hre: HardhatRuntimeEnvironment, plan: AmoPlan): string {
+  const {formatEther} = hre.ethers.utils;
+  const [vusdBalance, baseBalance] = plan.balances;
+  const operation =
+    plan.action === "mint"
+      ? `Mint ${formatEther(plan.amount)} VUSD into metapool, expected LP ${formatEther(plan.expectedOut)}`
+      : `Remove ${formatEther(plan.amount)} LP and burn VUSD, expected VUSD ${formatEther(plan.expectedOut)}`;
+  return [
+    `AMO ${plan.amo}, keeper ${plan.keeper}`,
+    `VUSD price: ${formatEther(plan.price)} DAI`,
+    `Metapool balances: ${formatEther(vusdBalance)} VUSD, ${formatEther(baseBalance)} base LP`,
+    `Debt: ${formatEther(plan.debt)} of ${formatEther(plan.debtCeiling)} VUSD`,
+    `${operation}, min out ${formatEther(plan.minOut)}`,
+  ].join("\n");
+}
@@ -0,0 +1,260 @@
+import fs from "fs";
+import type {Contract} from "ethers";
+import type {HardhatRuntimeEnvironment} from "hardhat/types";
+import {latestRelease, readRelease, releaseNetwork} from "./releases";
+
+export interface ConfigureOptions {
+  // Previous release, defaults to latest release in releases directory
+  release?: string;
+  // Keeper to grant keeper role to, defaults to `keeper` named account
+  keeper?: string;
+  // Governor batch file, used when deployer is not the governor
+  output?: string;
+  // Print each step as it is sent
+  verbose?: boolean;
+}
+
+export interface ConfigureStep {
+  id: string;
+  to: string;
+  args: string[];
+  data: string;
+  dependsOn: string[];
+}
+
+/**
+ * Build list of governor calls which are still needed to wire new release.
+ * Each call is added only if on-chain state does not already reflect it, calls are ordered by their dependencies.
+ *
+ * @param hre Hardhat runtime environment
+ * @param options Configure options
+ * @returns Pending steps, in execution order
+ */
+export async function planConfiguration(
+  hre: HardhatRuntimeEnvironment,
+  options: ConfigureOptions = {}
+): Promise<ConfigureStep[]> {
+  const {deployments, ethers, getNamedAccounts} = hre;
+  const release = readRelease(options.release || latestRelease());
+  // Previous release may not exist on a new network, then there is no treasury to migrate from
+  const previous = release.networks[await releaseNetwork(hre)] || {};
+  const keeper = ethers.utils.getAddress(options.keeper || (await getNamedAccounts()).keeper);
+
+  const vusd = await ethers.getContractAt("VUSD", (await deployments.get("VUSD")).address);
+  const minter = (await deployments.get("Minter")).address;
+  const redeemer = (await deployments.get("Redeemer")).address;
+  const circuitBreaker = (await deployments.get("CircuitBreaker")).address;
+  const rateLimiter = (await deployments.get("RateLimiter")).address;
+  const rebalancer = (await deployments.get("Rebalancer")).address;
+  const feeCollector = (await deployments.get("FeeCollector")).address;
+  const curveAMO = (await deployments.get("CurveAMO")).address;
+  const savingsVault = (await deployments.get("SavingsVault")).address;
+  // Bridge is deployed only on networks with a message endpoint
+  const bridgeAdapter = await deployments.getOrNull("BridgeAdapter");
+  const roleRegistry = await ethers.getContractAt("RoleRegistry", (await deployments.get("RoleRegistry")).address);
+  const treasury = await ethers.getContractAt("Treasury", (await deployments.get("Treasury")).address);
+
+  const steps: ConfigureStep[] = [];
+  const addStep = (id: string, contract: Contract, args: string[], dependsOn: string[] = []) => {
+    steps.push({
+      id,
+      to: contract.address,
+      args,
+      data: contract.interface.encodeFunctionData(id, args),
+      dependsOn,
+    });
+  };
+
+  if ((await vusd.minter()) !== minter) {
+    addStep("updateMinter", vusd, [minter]);
+  }
+  const migrating =
+    previous.Treasury &&
+    previous.Treasury !== treasury.address &&
+    (await needsMigration(hre, previous.Treasury, treasury));
+  // Treasury before strategies only sends its cTokens on migrate, it migrates after VUSD points to new treasury.
+  // Old treasury with strategies migrates before that instead: migrate calls `withdrawAll` of its strategies and
+  // those answer only to treasury of VUSD, so migrate reverts once VUSD points to new treasury.
+  const migrateFirst = migrating && !(await isLegacyTreasury(hre, previous.Treasury));
+  if (migrating) {
+    const migrateDependsOn = migrateFirst ? [] : ["updateTreasury"];
+    addStep("migrate", await ethers.getContractAt("Treasury", previous.Treasury), [treasury.address], migrateDependsOn);
+  }
+  // Treasury before strategies sends its cTokens on migrate, sweep moves those to strategies
+  for (const asset of await strategyAssets(hre, treasury)) {
+    const erc20 = await ethers.getContractAt("ERC20", asset);
+    const holder = migrating ? previous.Treasury : treasury.address;
+    if ((await erc20.balanceOf(holder)).gt(0)) {
+      addStep("sweep", treasury, [asset], migrating ? ["migrate"] : []);
+    }
+  }
+  if ((await vusd.treasury()) !== treasury.address) {
+    addStep("updateTreasury", vusd, [treasury.address], migrateFirst ? ["migrate"] : []);
+  }
+  if ((await treasury.redeemer()) !== redeemer) {
+    addStep("updateRedeemer", treasury, [redeemer]);
+  }
+  const keeperRole = await roleRegistry.KEEPER_ROLE();
+  if (!(await roleRegistry.hasRole(keeperRole, keeper))) {
+    addStep("grantRole", roleRegistry, [keeperRole, keeper]);
+  }
+  for (const name of ["Minter", "Redeemer"]) {
+    const contract = await ethers.getContractAt(name, name === "Minter" ? minter : redeemer);
+    if ((await contract.circuitBreaker()) !== circuitBreaker) {
+      addStep("updateCircuitBreaker", contract, [circuitBreaker]);
+    }
+    if ((await contract.rateLimiter()) !== rateLimiter) {
+      addStep("updateRateLimiter", contract, [rateLimiter]);
+    }
+    if ((await contract.feeCollector()) !== feeCollector) {
+      addStep("updateFeeCollector", contract, [feeCollector]);
+    }
+    if ((await contract.roleRegistry()) !== roleRegistry.address) {
+      addStep("updateRoleRegistry", contract, [roleRegistry.address]);
+    }
+    if (name === "Minter" && (await contract.amo()) !== curveAMO) {
+      addStep("updateAmo", contract, [curveAMO]);
+    }
+    if (name === "Minter" && (await contract.savingsVault()) !== savingsVault) {
+      addStep("updateSavingsVault", contract, [savingsVault]);
+    }
+    if (name === "Minter" && bridgeAdapter && (await contract.bridge()) !== bridgeAdapter.address) {
+      addStep("updateBridge", contract, [bridgeAdapter.address]);
+    }
+  }
+  if ((await treasury.rebalancer()) !== rebalancer) {
+    addStep("updateRebalancer", treasury, [rebalancer]);
+  }
+  if ((await treasury.roleRegistry()) !== roleRegistry.address) {
+    addStep("updateRoleRegistry", treasury, [roleRegistry.address]);
+  }
+  for (const name of ["CircuitBreaker", "OracleRouter"]) {
+    const contract = await ethers.getContractAt(name, (await deployments.get(name)).address);
+    if ((await contract.roleRegistry()) !== roleRegistry.address) {
+      addStep("updateRoleRegistry", contract, [roleRegistry.address]);
+    }
+  }
+  return orderSteps(steps);
+}
+
+/**
+ * Whether old treasury holds funds which are not already in strategies of new treasury.
+ * Treasury before strategies has no `strategies`, all its funds need migration.
+ */
+async function needsMigration(
+  hre: HardhatRuntimeEnvironment,
+  oldTreasury: string,
+  treasury: Contract
+): Promise<boolean> {
+  const old = await hre.ethers.getContractAt("Treasury", oldTreasury);
+  for (const token of await old.whitelistedTokens()) {
+    if ((await old.withdrawable(token)).eq(0)) {
+      continue;
+    }
+    const oldStrategy = await old.strategies(token).catch(() => undefined);
+    if (oldStrategy !== (await treasury.strategies(token))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Whether treasury is from before strategies, it holds cTokens itself and has no `strategies`
+ */
+async function isLegacyTreasury(hre: HardhatRuntimeEnvironment, treasury: string): Promise<boolean> {
+  const old = await hre.ethers.getContractAt("Treasury", treasury);
+  return old.strategies(hre.ethers.constants.AddressZero).then(
+    () => false,
+    () => true
+  );
+}
+
+/**
+ * Assets held by strategies of treasury, i.e. cTokens
+ */
+async function strategyAssets(hre: HardhatRuntimeEnvironment, treasury: Contract): Promise<string[]> {
+  const assets = new Set<string>();
+  for (const token of await treasury.whitelistedTokens()) {
+    const strategy = await hre.ethers.getContractAt("IStrategy", await treasury.strategies(token));
+    assets.add(await strategy.asset());
+  }
+  return [...assets];
+}
+
+/**
+ * Order steps so that no step runs before a pending step it depends on, otherwise steps keep their order.
+ * A dependency which is not pending is already done on-chain.
+ *
+ * @param steps Pending steps
+ * @returns Pending steps, in execution order
+ */
+export function orderSteps(steps: ConfigureStep[]): ConfigureStep[] {
+  const ordered: ConfigureStep[] = [];
+  const remaining = [...steps];
+  while (remaining.length > 0) {
+    const next = remaining.findIndex(step =>
+      step.dependsOn.every(dependency => !remaining.some(other => other !== step && other.id === dependency))
+    );
+    if (next === -1) {
+      throw new Error(`Circular dependency between ${remaining.map(step => step.id).join(", ")}`);
+    }
+    ordered.push(...remaining.splice(next, 1));
+  }
+  return ordered;
+}
+
+/**
+ * Write steps as a transaction batch, in Safe transaction builder format, for governor to sign.
+ *
+ * @param file Output file path
+ * @param chainId Chain id of network
+ * @param steps Pending steps, in execution order
+ */
+export function writeGovernorBatch(file: string, chainId: string, steps: ConfigureStep[]): void {
+  const batch = {
+    version: "1.0",
+    chainId,
+    createdAt: Date.now(),
+    meta: {
+      name: "VUSD release configuration",
+      description: steps.map(step => `${step.id}(${step.args.join(",")}) on ${step.to}`).join("\n"),
+    },
+    transactions: steps.map(step => ({to: step.to, value: "0", data: step.data})),
+  };
+  fs.writeFileSync(file, JSON.stringify(batch, null, 2));
+}
+
+/**
+ * Wire new release with VUSD system.
+ * Send pending steps if deployer is the governor, otherwise write them as governor batch.
+ *
+ * @param hre Hardhat runtime environment
+ * @param options Configure options
+ */
+export async function configureRelease(hre: HardhatRuntimeEnvironment, options: ConfigureOptions = {}): Promise<void> {
+  const {deployments, ethers, getNamedAccounts} = hre;
+  const log = (message: string) => options.verbose && console.log(message);
+  const steps = await planConfiguration(hre, options);
+  if (steps.length === 0) {
+    log("Release is already configured");
+    return;
+  }
+
+  const {deployer} = await getNamedAccounts();
+  const vusd = await ethers.getContractAt("VUSD", (await deployments.get("VUSD")).address);
+  const governor = await vusd.governor();
+  if (governor.toLowerCase() !== deployer.toLowerCase()) {
+    const output = options.output || `governor-batch-${hre.network.name}.json`;
+    writeGovernorBatch(output, await hre.getChainId(), steps);
+    log(`Deployer is not the governor, ${steps.length} step(s) written to ${output} for ${governor}`);
+    return;
+  }
+
+  const signer = await ethers.getSigner(deployer);
+  for (const step of steps) {
+    const tx = await signer.sendTransaction({to: step.to, data: step.data});
+    await tx.wait();
+    log(`${step.id}(${step.args.join(",")}) on ${step.to}: ${tx.hash}`);
+  }
+}
@@ -0,0 +1,475 @@
+import type {BigNumber, Contract, ContractReceipt} from "ethers";
+import type {HardhatRuntimeEnvironment} from "hardhat/types";
+import {loadNetworkConfig, tokenArgs} from "./networks";
+import {readRelease, releaseNetwork} from "./releases";
+import {fund, impersonate, revertReason} from "./simulate";
+
+/** Minter, Redeemer and Treasury of a VUSD system, with its VUSD */
+export interface SystemAddresses {
+  VUSD: string;
+  Minter: string;
+  Redeemer: string;
+  Treasury: string;
+}
+
+export type Operation =
+  // Mint with token amount, in token units i.e. "1000"
+  | {action: "mint"; token: string; amount: string}
+  // Redeem VUSD amount, in VUSD units
+  | {action: "redeem"; token: string; amount: string}
+  // Governor call on Minter, Redeemer or Treasury
+  | {action: "update"; contract: "Minter" | "Redeemer" | "Treasury"; method: string; args: string[]}
+  // Governor withdraws token amount from treasury, in token units
+  | {action: "withdraw"; token: string; amount: string};
+
+export interface OperationResult {
+  index: number;
+  action: Operation["action"];
+  // Token amount received by account, or by governor on withdraw, in token units. Undefined on update.
+  amountOut?: string;
+  // VUSD supply after operation, in VUSD units
+  supply: string;
+  // Revert reason, undefined when operation succeeded
+  reason?: string;
+  // Emitted events as `Emitter.Event(args)`, addresses of the system are replaced with their names
+  events: string[];
+  // Gas used by the operation, undefined when it reverted
+  gasUsed?: number;
+}
+
+export type DifferenceKind = "output" | "revert" | "events" | "gas";
+
+export interface Difference {
+  index: number;
+  action: Operation["action"];
+  kind: DifferenceKind;
+  baseline: string;
+  candidate: string;
+}
+
+export interface DifferentialReport {
+  release: string;
+  block: number;
+  seed: number;
+  account: string;
+  baseline: SystemAddresses;
+  candidate: SystemAddresses;
+  operations: Operation[];
+  baselineResults: OperationResult[];
+  candidateResults: OperationResult[];
+  // Gas differences within tolerance are left out
+  differences: Difference[];
+}
+
+export interface DifferentialOptions {
+  // Release of baseline, it is recorded in report
+  release: string;
+  baseline: SystemAddresses;
+  // Seed of randomized operations, ignored when operations are given
+  seed?: number;
+  count?: number;
+  // Operations to replay, i.e. operations of a previous report
+  operations?: Operation[];
+  // Account which mints and redeems, default is first signer
+  account?: string;
+  // Gas change, in BPS, which is not reported. Default is 0, every change is reported.
+  gasTolerance?: number;
+}
+
+// Parameter updates of governor, those are picked randomly with a random value in range
+const parameterUpdates: {contract: "Minter" | "Redeemer"; method: string; max: number}[] = [
+  {contract: "Minter", method: "updateMintingFee", max: 100},
+  {contract: "Minter", method: "updatePriceTolerance", max: 200},
+  {contract: "Redeemer", method: "updateRedeemFee", max: 100},
+  {contract: "Redeemer", method: "updatePriceTolerance", max: 200},
+];
+
+/**
+ * Deterministic pseudo random numbers in [0, 1), mulberry32. Same seed gives same sequence.
+ */
+function random(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Randomized list of mints, redeems, parameter updates and withdrawals. Same seed gives same list.
+ *
+ * @param seed Seed of random numbers
+ * @param count Number of operations
+ * @param tokens Symbols of treasury tokens
+ */
+export function generateOperations(seed: number, count: number, tokens: string[]): Operation[] {
+  const next = random(seed);
+  const between = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+  const pick = <T>(items: T[]) => items[between(0, items.length - 1)];
+  const operations: Operation[] = [];
+  for (let i = 0; i < count; i++) {
+    const roll = next();
+    if (roll < 0.4) {
+      operations.push({action: "mint", token: pick(tokens), amount: `${between(1, 10_000)}`});
+    } else if (roll < 0.7) {
+      operations.push({action: "redeem", token: pick(tokens), amount: `${between(1, 5_000)}`});
+    } else if (roll < 0.85) {
+      const {contract, method, max} = pick(parameterUpdates);
+      operations.push({action: "update", contract, method, args: [`${between(0, max)}`]});
+    } else {
+      operations.push({action: "withdraw", token: pick(tokens), amount: `${between(1, 1_000)}`});
+    }
+  }
+  return operations;
+}
+
+/**
+ * Addresses of Minter, Redeemer and Treasury, with VUSD, of given release on current network.
+ *
+ * @param hre Hardhat runtime environment
+ * @param version Release version i.e. 1.4.2
+ */
+export async function releaseSystem(hre: HardhatRuntimeEnvironment, version: string): Promise<SystemAddresses> {
+  const network = await releaseNetwork(hre);
+  const contracts = readRelease(version).networks[network] || {};
+  const missing = ["VUSD", "Minter", "Redeemer", "Treasury"].filter((name) => !contracts[name]);
+  if (missing.length > 0) {
+    throw new Error(`Release ${version} on ${network} is missing ${missing.join(", ")}`);
+  }
+  const {VUSD, Minter, Redeemer, Treasury} = contracts;
+  return {VUSD, Minter, Redeemer, Treasury};
+}
+
+/**
+ * Deploy Minter, Redeemer and Treasury of this build, with oracle router and strategies, next to given system and
+ * wire those with its VUSD as impersonated governor. Reserves migrate to new treasury, the same as on configure.
+ * Parameters and hooks, i.e. fees and circuit breaker, are copied from given system when it has those.
+ *
+ * @param hre Hardhat runtime environment, network should be hardhat network
+ * @param baseline System to deploy next to
+ * @returns Addresses of new system, with VUSD of baseline
+ */
+export async function deployCandidate(
+  hre: HardhatRuntimeEnvironment,
+  baseline: SystemAddresses
+): Promise<SystemAddresses> {
+  const {ethers} = hre;
+  const {comp, comptroller, swapManager, tokens: tokenConfigs} = await loadNetworkConfig(hre);
+  const {tokens, oracles, secondaryOracles, stalePeriods} = tokenArgs(tokenConfigs);
+  const [deployer] = await ethers.getSigners();
+  const deploy = async (name: string, ...args: unknown[]) =>
+    (await ethers.getContractFactory(name, deployer)).deploy(...args);
+
+  const vusd = await ethers.getContractAt("VUSD", baseline.VUSD);
+  const governor = await impersonate(hre, await vusd.governor());
+  const [oldMinter, oldRedeemer, oldTreasury] = await Promise.all([
+    ethers.getContractAt("Minter", baseline.Minter, governor),
+    ethers.getContractAt("Redeemer", baseline.Redeemer, governor),
+    ethers.getContractAt("Treasury", baseline.Treasury, governor),
+  ]);
+
+  const oracleRouter = await deploy("OracleRouter", vusd.address, tokens, oracles, secondaryOracles, stalePeriods);
+  const minter = await deploy("Minter", vusd.address, oracleRouter.address, await oldMinter.maxMintLimit(), tokens);
+  const redeemer = await deploy("Redeemer", vusd.address, oracleRouter.address);
+  const strategies: string[] = [];
+  for (const token of tokenConfigs) {
+    const strategy =
+      token.strategy === "compound"
+        ? await deploy("CompoundStrategy", vusd.address, token.address, token.cToken, comp, comptroller)
+        : await deploy("IdleStrategy", vusd.address, token.address);
+    strategies.push(strategy.address);
+  }
+  const treasury = await deploy("Treasury", vusd.address, swapManager, comp, tokens, strategies);
+
+  const send = async (contract: Contract, method: string, ...args: unknown[]) =>
+    (await contract.connect(governor)[method](...args)).wait();
+  // Copy value of baseline when it differs, a baseline without the getter has nothing to copy
+  const copy = async (from: Contract, to: Contract, getter: string, method: string) => {
+    const value = await from[getter]().catch(() => undefined);
+    if (value !== undefined && value.toString() !== (await to[getter]()).toString()) {
+      await send(to, method, value);
+    }
+  };
+  for (const [from, to] of [
+    [oldMinter, minter],
+    [oldRedeemer, redeemer],
+  ]) {
+    await copy(from, to, "priceTolerance", "updatePriceTolerance");
+    for (const hook of ["circuitBreaker", "rateLimiter", "feeCollector", "roleRegistry"]) {
+      await copy(from, to, hook, `update${hook[0].toUpperCase()}${hook.slice(1)}`);
+    }
+  }
+  await copy(oldMinter, minter, "mintingFee", "updateMintingFee");
+  await copy(oldRedeemer, redeemer, "redeemFee", "updateRedeemFee");
+  await copy(oldTreasury, treasury, "rebalancer", "updateRebalancer");
+  await copy(oldTreasury, treasury, "roleRegistry", "updateRoleRegistry");
+
+  // Strategies answer to treasury of VUSD, hence old treasury migrates before VUSD points to new one
+  await send(vusd, "updateMinter", minter.address);
+  await send(oldTreasury, "migrate", treasury.address);
+  await send(vusd, "updateTreasury", treasury.address);
+  await send(treasury, "updateRedeemer", redeemer.address);
+  // Treasury before strategies sends tokens and cTokens on migrate, sweep moves those to strategies
+  for (const asset of new Set([...tokens, ...tokenConfigs.map((token) => token.cToken)])) {
+    const erc20 = await ethers.getContractAt("ERC20", asset);
+    if ((await erc20.balanceOf(treasury.address)).gt(0)) {
+      await send(treasury, "sweep", asset);
+    }
+  }
+  return {VUSD: vusd.address, Minter: minter.address, Redeemer: redeemer.address, Treasury: treasury.address};
+}
+
+/**
+ * Run operations against given system, in order. Operations which revert are recorded and run goes on.
+ * Collateral tokens for mint are credited to account by writing token balance storage.
+ *
+ * @param hre Hardhat runtime environment, network should be hardhat network
+ * @param system System to run operations against
+ * @param operations Operations to run
+ * @param account Account which mints and redeems
+ */
+export async function runOperations(
+  hre: HardhatRuntimeEnvironment,
+  system: SystemAddresses,
+  operations: Operation[],
+  account: string
+): Promise<OperationResult[]> {
+  const {artifacts, ethers} = hre;
+  const vusd = await ethers.getContractAt("VUSD", system.VUSD);
+  const governor = await impersonate(hre, await vusd.governor());
+  const signer = await impersonate(hre, account);
+  const contracts: {[name: string]: Contract} = {
+    Minter: await ethers.getContractAt("Minter", system.Minter, signer),
+    Redeemer: await ethers.getContractAt("Redeemer", system.Redeemer, signer),
+    Treasury: await ethers.getContractAt("Treasury", system.Treasury, governor),
+  };
+
+  // Address => name, so that events of two systems compare equal
+  const names: {[address: string]: string} = {
+    [system.VUSD]: "VUSD",
+    [system.Minter]: "Minter",
+    [system.Redeemer]: "Redeemer",
+    [system.Treasury]: "Treasury",
+    [governor.address]: "Governor",
+    [account]: "Account",
+  };
+  const tokens = await contracts.Treasury.whitelistedTokens();
+  const symbols: {[symbol: string]: Contract} = {};
+  for (const token of tokens) {
+    const erc20 = await ethers.getContractAt("ERC20", token);
+    const symbol = await erc20.symbol();
+    symbols[symbol] = erc20;
+    names[token] = symbol;
+    // Treasury before strategies has no strategies
+    const strategy = await contracts.Treasury.strategies(token).catch(() => undefined);
+    if (strategy) {
+      names[strategy] = `${symbol}Strategy`;
+    }
+  }
+  const interfaces = await Promise.all(
+    ["VUSD", "Minter", "Redeemer", "Treasury", "Strategy", "FeeCollector"].map(
+      async (name) => new ethers.utils.Interface((await artifacts.readArtifact(name)).abi)
+    )
+  );
+  const nameOf = (address: string) => names[ethers.utils.getAddress(address)] || address;
+  const formatArg = (value: unknown): string => {
+    if (Array.isArray(value)) {
+      return `[${value.map(formatArg).join(", ")}]`;
+    }
+    if (typeof value === "string" && ethers.utils.isAddress(value)) {
+      return nameOf(value);
+    }
+    return `${value}`;
+  };
+  const formatEvents = (receipt: ContractReceipt) =>
+    receipt.logs.map((log) => {
+      for (const contractInterface of interfaces) {
+        try {
+          const {name, args} = contractInterface.parseLog(log);
+          return `${nameOf(log.address)}.${name}(${args.map(formatArg).join(", ")})`;
+        } catch (error) {
+          // Not an event of this interface
+        }
+      }
+      return `${nameOf(log.address)}.${log.topics[0]}`;
+    });
+
+  const results: OperationResult[] = [];
+  for (const [index, operation] of operations.entries()) {
+    const result: Partial<OperationResult> = {index, action: operation.action, events: []};
+    try {
+      let receipt: ContractReceipt;
+      if (operation.action === "update") {
+        const contract = contracts[operation.contract].connect(governor);
+        receipt = await (await contract[operation.method](...operation.args)).wait();
+      } else {
+        const token = symbols[operation.token];
+        if (!token) {
+          throw new Error(`Token ${operation.token} is not in treasury`);
+        }
+        const decimals = await token.decimals();
+        const receiver = operation.action === "withdraw" ? governor.address : account;
+        const before: BigNumber = await (operation.action === "mint" ? vusd : token).balanceOf(receiver);
+        if (operation.action === "mint") {
+          const amountIn = ethers.utils.parseUnits(operation.amount, decimals);
+          await fund(hre, token.address, account, amountIn);
+          await (await token.connect(signer).approve(system.Minter, amountIn)).wait();
+          const mint = contracts.Minter["mint(address,uint256,uint256,address)"];
+          receipt = await (await mint(token.address, amountIn, 0, account)).wait();
+        } else if (operation.action === "redeem") {
+          const vusdAmount = ethers.utils.parseEther(operation.amount);
+          await (await vusd.connect(signer).approve(system.Redeemer, vusdAmount)).wait();
+          receipt = await (await contracts.Redeemer.redeem(token.address, vusdAmount, 0, account)).wait();
+        } else {
+          const amount = ethers.utils.parseUnits(operation.amount, decimals);
+          receipt = await (await contracts.Treasury["withdraw(address,uint256)"](token.address, amount)).wait();
+        }
+        const after: BigNumber = await (operation.action === "mint" ? vusd : token).balanceOf(receiver);
+        result.amountOut = ethers.utils.formatUnits(after.sub(before), operation.action === "mint" ? 18 : decimals);
+      }
+      result.events = formatEvents(receipt);
+      result.gasUsed = receipt.gasUsed.toNumber();
+    } catch (error) {
+      result.reason = revertReason(error);
+    }
+    result.supply = ethers.utils.formatEther(await vusd.totalSupply());
+    results.push(result as OperationResult);
+  }
+  return results;
+}
+
+/**
+ * Differences of candidate results from baseline results of the same operations.
+ *
+ * @param baseline Results of baseline
+ * @param candidate Results of candidate
+ * @param gasTolerance Gas change, in BPS, which is not reported
+ */
+export function diffResults(baseline: OperationResult[], candidate: OperationResult[], gasTolerance = 0): Difference[] {
+  const differences: Difference[] = [];
+  for (const [i, left] of baseline.entries()) {
+    const right = candidate[i];
+    const add = (kind: DifferenceKind, a: string, b: string) => {
+      if (a !== b) {
+        differences.push({index: left.index, action: left.action, kind, baseline: a, candidate: b});
+      }
+    };
+    add("revert", left.reason || "ok", right.reason || "ok");
+    add(
+      "output",
+      `${left.amountOut || "-"}, supply ${left.supply}`,
+      `${right.amountOut || "-"}, supply ${right.supply}`
+    );
+    add("events", left.events.join("; "), right.events.join("; "));
+    if (left.gasUsed !== undefined && right.gasUsed !== undefined) {
+      const change = Math.abs(right.gasUsed - left.gasUsed) * 10_000;
+      if (change > left.gasUsed * gasTolerance) {
+        add("gas", `${left.gasUsed}`, `${right.gasUsed}`);
+      }
+    }
+  }
+  return differences;
+}
+
+/**
+ * Run the same operations against baseline and against this build deployed next to it, see `deployCandidate`,
+ * and compare outputs, revert reasons, events and gas. Both runs start at the same state and are rolled back.
+ *
+ * @param hre Hardhat runtime environment, network should be hardhat network, i.e. a mainnet fork
+ * @param options Differential options
+ */
+export async function runDifferential(
+  hre: HardhatRuntimeEnvironment,
+  options: DifferentialOptions
+): Promise<DifferentialReport> {
+  const {ethers, network} = hre;
+  if (network.name !== "hardhat") {
+    throw new Error(`Differential test runs on hardhat network, not on ${network.name}`);
+  }
+  const {baseline, seed = 1, count = 50, gasTolerance = 0} = options;
+  const account = ethers.utils.getAddress(options.account || (await ethers.getSigners())[0].address);
+  const block = await ethers.provider.getBlockNumber();
+  const treasury = await ethers.getContractAt("Treasury", baseline.Treasury);
+  const tokens: string[] = await treasury.whitelistedTokens();
+  const symbols: string[] = await Promise.all(
+    tokens.map(async (token) => (await ethers.getContractAt("ERC20", token)).symbol())
+  );
+  const operations = options.operations || generateOperations(seed, count, symbols);
+
+  const inSnapshot = async <T>(run: () => Promise<T>): Promise<T> => {
+    const snapshot = await network.provider.send("evm_snapshot", []);
+    try {
+      return await run();
+    } finally {
+      await network.provider.send("evm_revert", [snapshot]);
+    }
+  };
+  const baselineResults = await inSnapshot(() => runOperations(hre, baseline, operations, account));
+  const [candidate, candidateResults] = await inSnapshot(async () => {
+    const system = await deployCandidate(hre, baseline);
+    return [system, await runOperations(hre, system, operations, account)] as const;
+  });
+  return {
+    release: options.release,
+    block,
+    seed,
+    account,
+    baseline,
+    candidate,
+    operations,
+    baselineResults,
+    candidateResults,
+    differences: diffResults(baselineResults, candidateResults, gasTolerance),
+  };
+}
+
+/**
+ * Human readable differential report, differences first and gas per action after.
+ *
+ * @param report Differential report
+ */
+export function formatDifferentialReport(report: DifferentialReport): string {
+  const behaviour = report.differences.filter((difference) => difference.kind !== "gas");
+  const gas = report.differences.filter((difference) => difference.kind === "gas");
+  const describe = (operation: Operation) =>
+    operation.action === "update"
+      ? `${operation.contract}.${operation.method}(${operation.args.join(", ")})`
+      : `${operation.action} ${operation.amount} ${operation.token}`;
+  const lines = [
+    `Release ${report.release} vs this build, block ${report.block}, seed ${report.seed}, ` +
+      `${report.operations.length} operations, account ${report.account}`,
+    behaviour.length === 0 ? "No behaviour differences" : `${behaviour.length} behaviour difference(s):`,
+    ...behaviour.map(
+      (difference) =>
+        `  #${difference.index} ${describe(report.operations[difference.index])} ${difference.kind}\n` +
+        `    release: ${difference.baseline}\n    build:   ${difference.candidate}`
+    ),
+    `${gas.length} gas difference(s)`,
+  ];
+
+  // Total gas per action, only operations which succeeded on both
+  const header = ["action", "count", "release avg gas", "build avg gas", "change"];
+  const totals: {[action: string]: {count: number; baseline: number; candidate: number}} = {};
+  for (const [i, left] of report.baselineResults.entries()) {
+    const right = report.candidateResults[i];
+    if (left.gasUsed !== undefined && right.gasUsed !== undefined) {
+      const total = (totals[left.action] = totals[left.action] || {count: 0, baseline: 0, candidate: 0});
+      total.count++;
+      total.baseline += left.gasUsed;
+      total.candidate += right.gasUsed;
+    }
+  }
+  const rows = Object.entries(totals).map(([action, total]) => [
+    action,
+    `${total.count}`,
+    `${Math.round(total.baseline / total.count)}`,
+    `${Math.round(total.candidate / total.count)}`,
+    `${(((total.candidate - total.baseline) * 100) / total.baseline).toFixed(2)}%`,
+  ]);
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map((row) => row[i].length)));
+  const line = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i])).join(" | ");
+  return [...lines, line(header), ...rows.map(line)].join("\n");
+}
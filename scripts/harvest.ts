@@ -0,0 +1,276 @@
+import type {BigNumber, Contract} from "ethers";
+import type {HardhatRuntimeEnvironment} from "hardhat/types";
+import {loadNetworkConfig} from "./networks";
+import {reservesReport} from "./reserves";
+
+export interface HarvestOptions {
+  // Treasury address, defaults to treasury of VUSD
+  treasury?: string;
+  // Accepted slippage from quoted output, in BPS
+  slippage?: number;
+  // ETH price in USD with 18 decimals, defaults to Chainlink ETH/USD feed of network
+  ethPrice?: BigNumber;
+  // Gas price in wei, defaults to gas price reported by network
+  gasPrice?: BigNumber;
+  // Keeper which sends the claim, defaults to keeper named account
+  keeper?: string;
+}
+
+export interface HarvestCandidate {
+  token: string;
+  // Token amount quoted for claimable COMP, in token decimals
+  expectedOut: BigNumber;
+  // Target value less current value of token in reserves, USD with 18 decimals. Negative when above target.
+  shortfall: BigNumber;
+}
+
+export interface HarvestPlan {
+  treasury: string;
+  keeper: string;
+  // COMP held by treasury plus COMP accrued to its cTokens
+  compAmount: BigNumber;
+  toToken: string;
+  expectedOut: BigNumber;
+  // expectedOut less slippage, used as `_minOut`
+  minOut: BigNumber;
+  // Value of expectedOut and gas cost of claim, USD with 18 decimals
+  yieldValue: BigNumber;
+  gasCost: BigNumber;
+  profitable: boolean;
+  candidates: HarvestCandidate[];
+}
+
+export interface HarvestResult {
+  // Token amount deposited to strategy of target token
+  amountOut: BigNumber;
+  gasUsed: BigNumber;
+  txHash?: string;
+}
+
+const MAX_BPS = 10_000;
+// Default slippage, 0.5% based on BPS
+const DEFAULT_SLIPPAGE = 50;
+
+/**
+ * Holders of cTokens of treasury, those accrue COMP. Strategies hold cTokens, treasury before strategies holds
+ * those itself and lists them in `cTokenList`.
+ */
+async function compHolders(hre: HardhatRuntimeEnvironment, treasury: Contract): Promise<string[]> {
+  const {ethers} = hre;
+  const legacy = await ethers.getContractAt(["function cTokenList() view returns (address[])"], treasury.address);
+  const cTokenList: string[] = await legacy.cTokenList().catch(() => []);
+  if (cTokenList.length > 0) {
+    return [treasury.address];
+  }
+  const holders: string[] = [];
+  for (const token of await treasury.whitelistedTokens()) {
+    const strategy = await ethers.getContractAt("IStrategy", await treasury.strategies(token));
+    // Strategy which holds the token itself earns no COMP
+    if ((await strategy.asset()) !== token) {
+      holders.push(strategy.address);
+    }
+  }
+  return holders;
+}
+
+/**
+ * Scale amount of given decimals to 18 decimals, token may have more or less than 18 decimals
+ */
+function to18(hre: HardhatRuntimeEnvironment, amount: BigNumber, decimals: number): BigNumber {
+  const ten = hre.ethers.BigNumber.from(10);
+  return decimals > 18 ? amount.div(ten.pow(decimals - 18)) : amount.mul(ten.pow(18 - decimals));
+}
+
+/**
+ * Shortfall of each token against its target weight in Rebalancer. Weights are equal if there is no Rebalancer.
+ * Reserves are read via reserves report, legacy treasury has no `reserves()`.
+ */
+async function shortfalls(hre: HardhatRuntimeEnvironment, treasury: Contract): Promise<Map<string, BigNumber>> {
+  const {deployments, ethers} = hre;
+  const {totalValue, reserves} = await reservesReport(hre, treasury.address);
+  const rebalancerDeployment = await deployments.getOrNull("Rebalancer");
+  const rebalancer = rebalancerDeployment && (await ethers.getContractAt("Rebalancer", rebalancerDeployment.address));
+  const result = new Map<string, BigNumber>();
+  for (const {token, value} of reserves) {
+    const weight = rebalancer ? await rebalancer.targetWeight(token) : ethers.BigNumber.from(MAX_BPS / reserves.length);
+    result.set(token, totalValue.mul(weight).div(MAX_BPS).sub(value));
+  }
+  return result;
+}
+
+async function ethPriceOf(hre: HardhatRuntimeEnvironment, options: HarvestOptions): Promise<BigNumber> {
+  if (options.ethPrice) {
+    return options.ethPrice;
+  }
+  const {ethUsdOracle} = await loadNetworkConfig(hre);
+  if (!ethUsdOracle) {
+    throw new Error("No ETH/USD feed for network, set ETH price");
+  }
+  const oracle = await hre.ethers.getContractAt("IAggregatorV3", ethUsdOracle);
+  const [{answer}, decimals] = await Promise.all([oracle.latestRoundData(), oracle.decimals()]);
+  return to18(hre, answer, decimals);
+}
+
+/**
+ * Plan COMP harvest of treasury. Target token is the one furthest below its target weight among tokens which
+ * have a swap route for claimable COMP. Claimable COMP is a lower bound, COMP accrued since last Compound
+ * interaction of a holder is not counted.
+ *
+ * @param hre Hardhat runtime environment
+ * @param options Harvest options
+ * @returns Harvest plan, undefined if there is no COMP to claim or no route to any whitelisted token
+ */
+export async function planHarvest(
+  hre: HardhatRuntimeEnvironment,
+  options: HarvestOptions = {}
+): Promise<HarvestPlan | undefined> {
+  const {deployments, ethers, getNamedAccounts} = hre;
+  const slippage = options.slippage ?? DEFAULT_SLIPPAGE;
+  if (slippage < 0 || slippage > MAX_BPS) {
+    throw new Error(`Invalid slippage ${slippage}`);
+  }
+  const vusd = await ethers.getContractAt("VUSD", (await deployments.get("VUSD")).address);
+  const treasury = await ethers.getContractAt("Treasury", options.treasury || (await vusd.treasury()));
+  const keeper = options.keeper || (await getNamedAccounts()).keeper;
+  const {comptroller: comptrollerAddress} = await loadNetworkConfig(hre);
+  const comptroller = await ethers.getContractAt("Comptroller", comptrollerAddress);
+  const comp = await ethers.getContractAt("ERC20", await treasury.comp());
+
+  let compAmount = await comp.balanceOf(treasury.address);
+  for (const holder of await compHolders(hre, treasury)) {
+    compAmount = compAmount.add(await comptroller.compAccrued(holder));
+  }
+  if (compAmount.isZero()) {
+    return undefined;
+  }
+
+  const swapManager = await ethers.getContractAt("ISwapManager", await treasury.swapManager());
+  const candidates: HarvestCandidate[] = [];
+  for (const [token, shortfall] of await shortfalls(hre, treasury)) {
+    const {amountOut} = await swapManager.bestOutputFixedInput(comp.address, token, compAmount);
+    if (!amountOut.isZero()) {
+      candidates.push({token, expectedOut: amountOut, shortfall});
+    }
+  }
+  if (candidates.length === 0) {
+    return undefined;
+  }
+  const target = candidates.reduce((best, candidate) => (candidate.shortfall.gt(best.shortfall) ? candidate : best));
+  const minOut = target.expectedOut.mul(MAX_BPS - slippage).div(MAX_BPS);
+
+  // Token is a stablecoin, its value is its amount in 18 decimals
+  const decimals = await (await ethers.getContractAt("ERC20", target.token)).decimals();
+  const yieldValue = to18(hre, target.expectedOut, decimals);
+  const claim = await treasury.populateTransaction.claimCompAndConvertTo(target.token, minOut);
+  const gas = await ethers.provider.estimateGas({...claim, from: keeper});
+  const gasPrice = options.gasPrice || (await ethers.provider.getGasPrice());
+  const gasCost = gas
+    .mul(gasPrice)
+    .mul(await ethPriceOf(hre, options))
+    .div(ethers.constants.WeiPerEther);
+  return {
+    treasury: treasury.address,
+    keeper,
+    compAmount,
+    toToken: target.token,
+    expectedOut: target.expectedOut,
+    minOut,
+    yieldValue,
+    gasCost,
+    profitable: yieldValue.gt(gasCost),
+    candidates,
+  };
+}
+
+/**
+ * Claim COMP and convert it to target token of plan. Dry run sends it as keeper on hardhat network, i.e. a
+ * mainnet fork, and rolls it back.
+ *
+ * @param hre Hardhat runtime environment
+ * @param plan Harvest plan
+ * @param dryRun Whether to roll back the claim
+ */
+export async function runHarvest(
+  hre: HardhatRuntimeEnvironment,
+  plan: HarvestPlan,
+  dryRun = false
+): Promise<HarvestResult> {
+  const {ethers, network} = hre;
+  if (dryRun && network.name !== "hardhat") {
+    throw new Error(`Dry run is done on hardhat network, not on ${network.name}`);
+  }
+  const snapshot = dryRun ? await network.provider.send("evm_snapshot", []) : undefined;
+  try {
+    if (dryRun) {
+      await network.provider.send("hardhat_impersonateAccount", [plan.keeper]);
+      await network.provider.send("hardhat_setBalance", [plan.keeper, ethers.utils.parseEther("10").toHexString()]);
+    }
+    const treasury = await ethers.getContractAt("Treasury", plan.treasury, await ethers.getSigner(plan.keeper));
+    // Holding of token, legacy treasury has no strategies
+    const before = await treasury.withdrawable(plan.toToken);
+    const tx = await treasury.claimCompAndConvertTo(plan.toToken, plan.minOut);
+    const receipt = await tx.wait();
+    const amountOut = (await treasury.withdrawable(plan.toToken)).sub(before);
+    return {amountOut, gasUsed: receipt.gasUsed, txHash: dryRun ? undefined : tx.hash};
+  } finally {
+    if (snapshot) {
+      await network.provider.send("evm_revert", [snapshot]);
+    }
+  }
+}
+
+/**
+ * Human readable harvest plan, USD values are rounded down to cents.
+ *
+ * @param hre Hardhat runtime environment
+ * @param plan Harvest plan
+ */
+export function formatHarvestPlan(hre: HardhatRuntimeEnvironment, plan: HarvestPlan): string {
+  const {ethers} = hre;
+  const usd = (value: BigNumber) => Number(ethers.utils.formatEther(value)).toFixed(2);
+  return [
+    `Treasury ${plan.treasury}, keeper ${plan.keeper}`,
+    `Claimable COMP: ${ethers.utils.formatEther(plan.compAmount)}`,
+    ...plan.candidates.map(
+      (candidate) => `  ${candidate.token}: out ${candidate.expectedOut}, shortfall $${usd(candidate.shortfall)}`
+    ),
+    `Target ${plan.toToken}: expected out ${plan.expectedOut}, min out ${plan.minOut}`,
+    `Yield $${usd(plan.yieldValue)}, gas cost $${usd(plan.gasCost)}`,
+  ].join("\n");
+}
+
+/**
+ * Standalone keeper run, i.e. `npx hardhat run scripts/harvest.ts --network mainnet`.
+ * Options are read from env: DRY_RUN, SLIPPAGE, ETH_PRICE in USD and GAS_PRICE in gwei.
+ */
+async function main(): Promise<void> {
+  const hre = (await import("hardhat")).default;
+  const {ethers} = hre;
+  const plan = await planHarvest(hre, {
+    slippage: process.env.SLIPPAGE ? parseInt(process.env.SLIPPAGE) : undefined,
+    ethPrice: process.env.ETH_PRICE ? ethers.utils.parseEther(process.env.ETH_PRICE) : undefined,
+    gasPrice: process.env.GAS_PRICE ? ethers.utils.parseUnits(process.env.GAS_PRICE, "gwei") : undefined,
+  });
+  if (!plan) {
+    console.log("Nothing to harvest");
+    return;
+  }
+  console.log(formatHarvestPlan(hre, plan));
+  if (!plan.profitable) {
+    console.log("Skip, gas would cost more than the yield");
+    return;
+  }
+  const result = await runHarvest(hre, plan, process.env.DRY_RUN === "true");
+  console.log(
+    `Deposited ${result.amountOut}, gas used ${result.gasUsed}${result.txHash ? `, tx ${result.txHash}` : ""}`
+  );
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,276 @@
+import fs from "fs";
+import path from "path";
+import type {BigNumber, Event} from "ethers";
+import type {HardhatRuntimeEnvironment} from "hardhat/types";
+
+// mint and redeem move VUSD of account, claim mints surplus VUSD to fee recipient, others move treasury tokens
+export type LedgerEntryKind = "mint" | "redeem" | "claim" | "withdraw" | "migrate" | "sweep";
+
+// Amounts are decimal strings, so ledger is stored as JSON as is
+export interface LedgerEntry {
+  block: number;
+  txHash: string;
+  logIndex: number;
+  kind: LedgerEntryKind;
+  // VUSD receiver of mint and claim, VUSD burner of redeem, token receiver of treasury movement
+  account: string;
+  token: string;
+  // Token amount in or out, in token decimals
+  tokenAmount: string;
+  // VUSD minted or burnt, zero for treasury movement
+  vusdAmount: string;
+  // Minting or redeem fee kept by treasury, in token decimals
+  fee: string;
+  // Change of treasury holdings of token, in token decimals. Redeem changes it via its withdraw entry.
+  reserveChange: string;
+}
+
+export interface Ledger {
+  network: string;
+  minter: string;
+  redeemer: string;
+  treasury: string;
+  // Surplus claims are indexed when there is a fee collector
+  feeCollector?: string;
+  // Checkpoint, first block which is not indexed yet
+  nextBlock: number;
+  entries: LedgerEntry[];
+}
+
+export interface AccountSummary {
+  minted: string;
+  redeemed: string;
+  mints: number;
+  redeems: number;
+}
+
+export interface LedgerSummary {
+  accounts: Record<string, AccountSummary>;
+  // Fees by token, in token decimals
+  fees: Record<string, string>;
+  // Net change of treasury holdings by token, in token decimals
+  reserveChanges: Record<string, string>;
+  // Surplus claimed by fee recipient, in VUSD
+  claims: Record<string, string>;
+}
+
+export interface IndexOptions {
+  // Last block to index, defaults to latest block
+  toBlock?: number;
+  // Blocks per log query
+  batchSize?: number;
+  // Called after each batch, i.e. to write checkpoint
+  onBatch?: (ledger: Ledger) => void;
+}
+
+const MAX_BPS = 10_000;
+const DEFAULT_BATCH_SIZE = 2_000;
+const CSV_COLUMNS: (keyof LedgerEntry)[] = [
+  "block",
+  "txHash",
+  "logIndex",
+  "kind",
+  "account",
+  "token",
+  "tokenAmount",
+  "vusdAmount",
+  "fee",
+  "reserveChange",
+];
+
+/**
+ * New ledger of VUSD deployment on network, it starts at block of Minter deployment.
+ *
+ * @param hre Hardhat runtime environment
+ * @param fromBlock First block to index, defaults to block of Minter deployment
+ */
+export async function createLedger(hre: HardhatRuntimeEnvironment, fromBlock?: number): Promise<Ledger> {
+  const {deployments, ethers, network} = hre;
+  const minter = await deployments.get("Minter");
+  const vusd = await ethers.getContractAt("VUSD", (await deployments.get("VUSD")).address);
+  return {
+    network: network.name,
+    minter: minter.address,
+    redeemer: (await deployments.get("Redeemer")).address,
+    treasury: await vusd.treasury(),
+    feeCollector: (await deployments.getOrNull("FeeCollector"))?.address,
+    nextBlock: fromBlock ?? minter.receipt?.blockNumber ?? 0,
+    entries: [],
+  };
+}
+
+/**
+ * Index Mint and Redeem events and treasury movements from checkpoint of ledger up to given block, in batches
+ * of blocks. Entries are appended in chain order and checkpoint moves after each batch.
+ *
+ * @param hre Hardhat runtime environment
+ * @param ledger Ledger to append to, it is updated in place
+ * @param options Index options
+ */
+export async function indexLedger(
+  hre: HardhatRuntimeEnvironment,
+  ledger: Ledger,
+  options: IndexOptions = {}
+): Promise<Ledger> {
+  const {ethers} = hre;
+  const {Zero} = ethers.constants;
+  const minter = await ethers.getContractAt("Minter", ledger.minter);
+  const redeemer = await ethers.getContractAt("Redeemer", ledger.redeemer);
+  const treasury = await ethers.getContractAt("Treasury", ledger.treasury);
+  // Number of latest block, cached block number of provider does not go back after fork reset or snapshot revert
+  const toBlock = options.toBlock ?? (await ethers.provider.getBlock("latest")).number;
+  const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+  const feeCollector = ledger.feeCollector && (await ethers.getContractAt("FeeCollector", ledger.feeCollector));
+  const [governor, vusd] = await Promise.all([treasury.governor(), minter.vusd()]);
+
+  const mintEntry = async (event: Event): Promise<LedgerEntry> => {
+    const {tokenIn, amountInAfterTransferFee: amountIn, mintage, receiver} = argsOf(event);
+    // Fee at block of mint, Minter rounds amount after fee down
+    const mintingFee = await minter.mintingFee({blockTag: event.blockNumber});
+    const fee = amountIn.sub(amountIn.mul(MAX_BPS - mintingFee.toNumber()).div(MAX_BPS));
+    return entryOf(event, "mint", receiver, tokenIn, amountIn, mintage, fee, amountIn);
+  };
+  const redeemEntry = (event: Event): LedgerEntry => {
+    const {tokenOut, vusdAmount, amountOut, redeemFee, redeemer: account} = argsOf(event);
+    return entryOf(event, "redeem", account, tokenOut, amountOut, vusdAmount, redeemFee, Zero);
+  };
+  const claimEntry = (event: Event): LedgerEntry => {
+    const {recipient, vusdAmount} = argsOf(event);
+    return entryOf(event, "claim", recipient, vusd, vusdAmount, vusdAmount, Zero, Zero);
+  };
+  const treasuryEntry = (kind: LedgerEntryKind) => (event: Event) => {
+    const {token, amount, receiver} = argsOf(event);
+    // Sweep to governor moves a token which is not in reserves, sweep to strategy adds to reserves
+    const change = kind === "sweep" ? (receiver === governor ? Zero : amount) : amount.mul(-1);
+    return entryOf(event, kind, receiver, token, amount, Zero, Zero, change);
+  };
+
+  while (ledger.nextBlock <= toBlock) {
+    const from = ledger.nextBlock;
+    const to = Math.min(from + batchSize - 1, toBlock);
+    const [mints, redeems, claims, withdrawals, migrations, sweeps] = await Promise.all([
+      minter.queryFilter(minter.filters.Mint(), from, to),
+      redeemer.queryFilter(redeemer.filters.Redeem(), from, to),
+      feeCollector ? feeCollector.queryFilter(feeCollector.filters.SurplusClaimed(), from, to) : [],
+      treasury.queryFilter(treasury.filters.Withdrawn(), from, to),
+      treasury.queryFilter(treasury.filters.Migrated(), from, to),
+      treasury.queryFilter(treasury.filters.Swept(), from, to),
+    ]);
+    const entries = [
+      ...(await Promise.all(mints.map(mintEntry))),
+      ...redeems.map(redeemEntry),
+      ...claims.map(claimEntry),
+      ...withdrawals.map(treasuryEntry("withdraw")),
+      ...migrations.map(treasuryEntry("migrate")),
+      ...sweeps.map(treasuryEntry("sweep")),
+    ];
+    entries.sort((a, b) => a.block - b.block || a.logIndex - b.logIndex);
+    ledger.entries.push(...entries);
+    ledger.nextBlock = to + 1;
+    if (options.onBatch) {
+      options.onBatch(ledger);
+    }
+  }
+  return ledger;
+}
+
+function argsOf(event: Event) {
+  if (!event.args) {
+    throw new Error(`No args in ${event.event} event of tx ${event.transactionHash}`);
+  }
+  return event.args;
+}
+
+function entryOf(
+  event: Event,
+  kind: LedgerEntryKind,
+  account: string,
+  token: string,
+  tokenAmount: BigNumber,
+  vusdAmount: BigNumber,
+  fee: BigNumber,
+  reserveChange: BigNumber
+): LedgerEntry {
+  return {
+    block: event.blockNumber,
+    txHash: event.transactionHash,
+    logIndex: event.logIndex,
+    kind,
+    account,
+    token,
+    tokenAmount: tokenAmount.toString(),
+    vusdAmount: vusdAmount.toString(),
+    fee: fee.toString(),
+    reserveChange: reserveChange.toString(),
+  };
+}
+
+/**
+ * Per account mint and redeem volume, fees and net reserve change by token.
+ *
+ * @param hre Hardhat runtime environment
+ * @param ledger Ledger to summarize
+ */
+export function summarizeLedger(hre: HardhatRuntimeEnvironment, ledger: Ledger): LedgerSummary {
+  const {BigNumber} = hre.ethers;
+  const summary: LedgerSummary = {accounts: {}, fees: {}, reserveChanges: {}, claims: {}};
+  const add = (a = "0", b: string) => BigNumber.from(a).add(b).toString();
+  for (const entry of ledger.entries) {
+    if (entry.kind === "claim") {
+      summary.claims[entry.account] = add(summary.claims[entry.account], entry.vusdAmount);
+      continue;
+    }
+    summary.fees[entry.token] = add(summary.fees[entry.token], entry.fee);
+    summary.reserveChanges[entry.token] = add(summary.reserveChanges[entry.token], entry.reserveChange);
+    if (entry.kind !== "mint" && entry.kind !== "redeem") {
+      continue;
+    }
+    const account = summary.accounts[entry.account] || {minted: "0", redeemed: "0", mints: 0, redeems: 0};
+    if (entry.kind === "mint") {
+      account.minted = add(account.minted, entry.vusdAmount);
+      account.mints++;
+    } else {
+      account.redeemed = add(account.redeemed, entry.vusdAmount);
+      account.redeems++;
+    }
+    summary.accounts[entry.account] = account;
+  }
+  return summary;
+}
+
+/**
+ * Ledger entries as CSV, one row per entry with header row.
+ */
+export function ledgerToCsv(ledger: Ledger): string {
+  const rows = ledger.entries.map((entry) => CSV_COLUMNS.map((column) => entry[column]).join(","));
+  return `${[CSV_COLUMNS.join(","), ...rows].join("\n")}\n`;
+}
+
+/**
+ * Read ledger checkpoint, undefined if there is none.
+ *
+ * @param file JSON file written by `writeLedger`
+ */
+export function readLedger(file: string): Ledger | undefined {
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+  const ledger = JSON.parse(fs.readFileSync(file, "utf8"));
+  // Summary is derived from entries
+  delete ledger.summary;
+  return ledger;
+}
+
+/**
+ * Write ledger with its summary as JSON, it is also the checkpoint to resume from, and entries as CSV next to it.
+ *
+ * @param hre Hardhat runtime environment
+ * @param ledger Ledger to write
+ * @param file JSON file, CSV file has same name with .csv extension
+ */
+export function writeLedger(hre: HardhatRuntimeEnvironment, ledger: Ledger, file: string): void {
+  fs.mkdirSync(path.dirname(file), {recursive: true});
+  const json = {...ledger, summary: summarizeLedger(hre, ledger)};
+  fs.writeFileSync(file, `${JSON.stringify(json, null, 2)}\n`);
+  fs.writeFileSync(file.replace(/\.json$/, "") + ".csv", ledgerToCsv(ledger));
+}
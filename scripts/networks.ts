@@ -0,0 +1,203 @@
+import type {HardhatRuntimeEnvironment} from "hardhat/types";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// Treasury strategy which holds funds of a token, see contracts/strategies
+export type StrategyType = "compound" | "idle";
+
+export interface TokenConfig {
+  symbol: string;
+  address: string;
+  strategy: StrategyType;
+  // Compound v2 market, used by compound strategy
+  cToken: string;
+  // Chainlink token/USD feed, primary feed of oracle router
+  oracle: string;
+  // Secondary token/USD feed of oracle router, Chainlink aggregator compatible i.e. TWAP adapter
+  secondaryOracle?: string;
+  // Seconds after which oracle price is considered stale
+  stalePeriod: number;
+}
+
+export interface MockTokenConfig {
+  symbol: string;
+  decimals: number;
+  strategy: StrategyType;
+  stalePeriod: number;
+}
+
+export interface NetworkConfig {
+  name: string;
+  // Default whitelisted tokens
+  tokens: TokenConfig[];
+  comp: string;
+  comptroller: string;
+  swapManager: string;
+  keeper?: string;
+  // Chainlink ETH/USD feed, harvest keeper values gas cost with it
+  ethUsdOracle?: string;
+  // Generic message endpoint which bridge adapter sends and receives VUSD via, bridge is not deployed without it
+  messageEndpoint?: string;
+  // Tokens to deploy with mock cToken and oracle, `Mocks` deploy tag. Addresses are then read from deployments.
+  mockTokens?: MockTokenConfig[];
+}
+
+const mainnet: NetworkConfig = {
+  name: "mainnet",
+  tokens: [
+    {
+      symbol: "DAI",
+      address: "0x6B175474E89094C44Da98b954EedeAC495271d0F",
+      strategy: "compound",
+      cToken: "0x5d3a536E4D6DbD6114cc1Ead35777bAB948E3643",
+      oracle: "0xAed0c38402a5d19df6E4c03F4E2DceD6e29c1ee9",
+      stalePeriod: 60 * 60,
+    },
+    {
+      symbol: "USDC",
+      address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+      strategy: "compound",
+      cToken: "0x39AA39c021dfbaE8faC545936693aC917d5E7563",
+      oracle: "0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6",
+      stalePeriod: 24 * 60 * 60,
+    },
+    {
+      symbol: "USDT",
+      address: "0xdAC17F958D2ee523a2206206994597C13D831ec7",
+      strategy: "compound",
+      cToken: "0xf650C3d88D12dB855b8bf7D11Be6C55A4e07dCC9",
+      oracle: "0x3E7d1eAB13ad0104d2750B8863b489D65364e32D",
+      stalePeriod: 24 * 60 * 60,
+    },
+  ],
+  comp: "0xc00e94Cb662C3520282E6f5717214004A7f26888",
+  comptroller: "0x3d9819210A31b4961b30EF54bE2aeD79B9c9Cd3B",
+  swapManager: "0xC48ea9A2daA4d816e4c9333D6689C70070010174",
+  keeper: "0x76d266DFD3754f090488ae12F6Bd115cD7E77eBD",
+  ethUsdOracle: "0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419",
+};
+
+// Local network with mock Compound, Chainlink and DEX, see deploy/mocks
+const local: NetworkConfig = {
+  name: "local",
+  tokens: [],
+  comp: "",
+  comptroller: "",
+  swapManager: "",
+  mockTokens: [
+    {symbol: "DAI", decimals: 18, strategy: "compound", stalePeriod: 60 * 60},
+    {symbol: "USDC", decimals: 6, strategy: "compound", stalePeriod: 24 * 60 * 60},
+    {symbol: "USDT", decimals: 6, strategy: "idle", stalePeriod: 24 * 60 * 60},
+  ],
+};
+
+// ChainId => network config
+export const networks: {[chainId: number]: NetworkConfig} = {
+  1: mainnet,
+  // Hardhat network with MOCKS env
+  1337: local,
+  // Hardhat network is a mainnet fork by default
+  31337: mainnet,
+};
+
+export interface SatelliteConfig {
+  name: string;
+  // Chain id of home chain, VUSD there is backed by treasury
+  homeChainId: number;
+  // Bridge adapter on home chain, see `BridgeAdapter` deployment of home network
+  homeBridgeAdapter: string;
+  messageEndpoint: string;
+  // Max VUSD supply on satellite chain, in VUSD i.e. 1000000
+  mintCeiling: string;
+}
+
+// ChainId => config of satellite VUSD, see deploy-satellite. Add an entry there to deploy on a new chain.
+export const satellites: {[chainId: number]: SatelliteConfig} = {};
+
+/**
+ * Get config of given chain.
+ *
+ * @param chainId Chain id of network
+ */
+export function getNetworkConfig(chainId: number | string): NetworkConfig {
+  const config = networks[Number(chainId)];
+  if (!config) {
+    throw new Error(`No network config for chainId ${chainId}`);
+  }
+  return config;
+}
+
+/**
+ * Get satellite config of given chain.
+ *
+ * @param chainId Chain id of satellite network
+ */
+export function getSatelliteConfig(chainId: number | string): SatelliteConfig {
+  const config = satellites[Number(chainId)];
+  if (!config) {
+    throw new Error(`No satellite config for chainId ${chainId}`);
+  }
+  return config;
+}
+
+/**
+ * Get config of current network. On mock network, addresses are read from `Mocks` deployments.
+ *
+ * @param hre Hardhat runtime environment
+ */
+export async function loadNetworkConfig(hre: HardhatRuntimeEnvironment): Promise<NetworkConfig> {
+  const config = getNetworkConfig(await hre.getChainId());
+  if (!config.mockTokens) {
+    return config;
+  }
+  const address = async (name: string) => (await hre.deployments.get(name)).address;
+  const tokens: TokenConfig[] = [];
+  for (const {symbol, strategy, stalePeriod} of config.mockTokens) {
+    tokens.push({
+      symbol,
+      address: await address(symbol),
+      strategy,
+      cToken: await address(`c${symbol}`),
+      oracle: await address(`${symbol}_USD`),
+      stalePeriod,
+    });
+  }
+  return {
+    ...config,
+    tokens,
+    comp: await address("COMP"),
+    comptroller: await address("Comptroller"),
+    swapManager: await address("SwapManager"),
+    messageEndpoint: await address("MessageEndpoint"),
+  };
+}
+
+/**
+ * Split token configs into constructor argument arrays, all arrays are 1:1 and in order.
+ *
+ * @param tokens Token configs
+ */
+export function tokenArgs(tokens: TokenConfig[]): {
+  tokens: string[];
+  cTokens: string[];
+  oracles: string[];
+  secondaryOracles: string[];
+  stalePeriods: number[];
+} {
+  return {
+    tokens: tokens.map((token) => token.address),
+    cTokens: tokens.map((token) => token.cToken),
+    oracles: tokens.map((token) => token.oracle),
+    secondaryOracles: tokens.map((token) => token.secondaryOracle || ZERO_ADDRESS),
+    stalePeriods: tokens.map((token) => token.stalePeriod),
+  };
+}
+
+/**
+ * Deployment name of strategy which holds funds of given token, see deploy/03-Strategies
+ *
+ * @param token Token config
+ */
+export function strategyDeployment(token: TokenConfig): string {
+  return `${token.symbol}Strategy`;
+}
@@ -0,0 +1,168 @@
+import type {BigNumber, Signer} from "ethers";
+import type {HardhatRuntimeEnvironment, HttpNetworkConfig} from "hardhat/types";
+import type {Rebalancer} from "../typechain";
+
+export interface RebalancePlan {
+  rebalancer: string;
+  fromToken: string;
+  toToken: string;
+  // fromToken amount to swap, in token decimals
+  amount: BigNumber;
+  // USD value of amount, in VUSD decimals
+  value: BigNumber;
+  // toToken amount quoted by best router of swap manager
+  expectedOut: BigNumber;
+  // expectedOut less slippage, used as `_minOut`. Never lower than `minAmountOut` of rebalancer.
+  minOut: BigNumber;
+}
+
+export interface RebalanceOptions {
+  // Rebalancer address, defaults to `Rebalancer` deployment
+  rebalancer?: string;
+  // Accepted slippage from quoted output, in BPS
+  slippage?: number;
+}
+
+export interface SimulationResult {
+  amountOut: BigNumber;
+  gasUsed: BigNumber;
+}
+
+const MAX_BPS = 10_000;
+// Default slippage, 0.5% based on BPS
+const DEFAULT_SLIPPAGE = 50;
+
+async function rebalancerAt(hre: HardhatRuntimeEnvironment, address?: string): Promise<Rebalancer> {
+  const {deployments, ethers} = hre;
+  return (await ethers.getContractAt(
+    "Rebalancer",
+    address || (await deployments.get("Rebalancer")).address
+  )) as Rebalancer;
+}
+
+/**
+ * Best rebalance of treasury at current block, token with largest excess into token with largest shortfall.
+ * Amount is the smallest of excess, shortfall and max rebalance amount, same limits as `rebalance` checks.
+ *
+ * @param hre Hardhat runtime environment
+ * @param options Rebalance options
+ * @returns Rebalance plan, undefined if treasury is at target weights, rebalance is disabled or there is no route
+ * which pays at least `minAmountOut` of rebalancer
+ */
+export async function planRebalance(
+  hre: HardhatRuntimeEnvironment,
+  options: RebalanceOptions = {}
+): Promise<RebalancePlan | undefined> {
+  const {ethers} = hre;
+  const {Zero} = ethers.constants;
+  const slippage = options.slippage ?? DEFAULT_SLIPPAGE;
+  if (slippage < 0 || slippage > MAX_BPS) {
+    throw new Error(`Invalid slippage ${slippage}`);
+  }
+  const rebalancer = await rebalancerAt(hre, options.rebalancer);
+  const treasury = await ethers.getContractAt("Treasury", await rebalancer.treasury());
+  const [[totalValue, reserves], maxAmount] = await Promise.all([treasury.reserves(), rebalancer.maxRebalanceAmount()]);
+  if (maxAmount.isZero() || totalValue.isZero()) {
+    return undefined;
+  }
+
+  let from, to;
+  let excess = Zero;
+  let shortfall = Zero;
+  for (const reserve of reserves) {
+    const target = totalValue.mul(await rebalancer.targetWeight(reserve.token)).div(MAX_BPS);
+    if (reserve.value.sub(target).gt(excess)) {
+      from = reserve;
+      excess = reserve.value.sub(target);
+    } else if (target.sub(reserve.value).gt(shortfall)) {
+      to = reserve;
+      shortfall = target.sub(reserve.value);
+    }
+  }
+  if (!from || !to) {
+    return undefined;
+  }
+  let value = excess.lt(shortfall) ? excess : shortfall;
+  value = value.lt(maxAmount) ? value : maxAmount;
+  // Rebalancer values amount the same way, value of amount never exceeds the limits
+  const amount = value.mul(from.amount).div(from.value);
+  if (amount.isZero()) {
+    return undefined;
+  }
+  const swapManager = await ethers.getContractAt("ISwapManager", await treasury.swapManager());
+  const {amountOut} = await swapManager.bestOutputFixedInput(from.token, to.token, amount);
+  // Rebalancer rejects swap which pays less than oracle value of amount less its max slippage
+  const floor = await rebalancer.minAmountOut(from.token, to.token, amount);
+  if (amountOut.isZero() || amountOut.lt(floor)) {
+    return undefined;
+  }
+  const minOut = amountOut.mul(MAX_BPS - slippage).div(MAX_BPS);
+  return {
+    rebalancer: rebalancer.address,
+    fromToken: from.token,
+    toToken: to.token,
+    amount,
+    value,
+    expectedOut: amountOut,
+    minOut: minOut.lt(floor) ? floor : minOut,
+  };
+}
+
+/**
+ * Run rebalance of given plan as keeper and roll it back. Network should be hardhat network, i.e. a mainnet fork.
+ *
+ * @param hre Hardhat runtime environment
+ * @param plan Rebalance plan
+ * @param keeper Keeper of treasury which sends the rebalance
+ */
+export async function simulateRebalance(
+  hre: HardhatRuntimeEnvironment,
+  plan: RebalancePlan,
+  keeper: string
+): Promise<SimulationResult> {
+  const {ethers, network} = hre;
+  if (network.name !== "hardhat") {
+    throw new Error(`Rebalance is simulated on hardhat network, not on ${network.name}`);
+  }
+  const snapshot = await network.provider.send("evm_snapshot", []);
+  try {
+    await network.provider.send("hardhat_impersonateAccount", [keeper]);
+    await network.provider.send("hardhat_setBalance", [keeper, ethers.utils.parseEther("10").toHexString()]);
+    const rebalancer = await rebalancerAt(hre, plan.rebalancer);
+    const tx = await rebalancer
+      .connect(await ethers.getSigner(keeper))
+      .rebalance(plan.fromToken, plan.toToken, plan.amount, plan.minOut);
+    const receipt = await tx.wait();
+    const event = receipt.events?.find((e) => e.event === "Rebalanced");
+    if (!event?.args) {
+      throw new Error("Rebalanced event is missing");
+    }
+    return {amountOut: event.args.amountOut, gasUsed: receipt.gasUsed};
+  } finally {
+    await network.provider.send("evm_revert", [snapshot]);
+  }
+}
+
+/**
+ * Signer of first account of given network, as configured in hardhat config.
+ *
+ * @param hre Hardhat runtime environment
+ * @param networkName Network to send transaction to, i.e. mainnet
+ */
+export function networkSigner(hre: HardhatRuntimeEnvironment, networkName: string): Signer {
+  const {ethers} = hre;
+  const config = hre.config.networks[networkName] as HttpNetworkConfig | undefined;
+  if (!config || !config.url) {
+    throw new Error(`No url for network ${networkName}`);
+  }
+  const provider = new ethers.providers.JsonRpcProvider(config.url);
+  const {accounts} = config;
+  if (Array.isArray(accounts) && accounts.length > 0) {
+    return new ethers.Wallet(accounts[0], provider);
+  }
+  if (typeof accounts === "object" && "mnemonic" in accounts) {
+    const path = `${accounts.path}/${accounts.initialIndex}`;
+    return ethers.Wallet.fromMnemonic(accounts.mnemonic, path).connect(provider);
+  }
+  throw new Error(`No account for network ${networkName}`);
+}
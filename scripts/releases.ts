@@ -0,0 +1,194 @@
+import fs from "fs";
+import path from "path";
+import type {HardhatRuntimeEnvironment} from "hardhat/types";
+import {compareVersions} from "../sdk/releases";
+import type {ReleaseManifest} from "../sdk/releases";
+import {networks} from "./networks";
+
+export {compareVersions};
+export type {ReleaseManifest};
+
+export const releasesDir = path.join(__dirname, "..", "releases");
+
+/**
+ * List all released versions, oldest first
+ */
+export function listReleases(): string[] {
+  return fs
+    .readdirSync(releasesDir)
+    .filter((version) => fs.existsSync(path.join(releasesDir, version, "contracts.json")))
+    .sort(compareVersions);
+}
+
+/**
+ * Latest released version
+ */
+export function latestRelease(): string {
+  const releases = listReleases();
+  if (releases.length === 0) {
+    throw new Error(`No release found in ${releasesDir}`);
+  }
+  return releases[releases.length - 1];
+}
+
+/**
+ * Read contracts.json of given release
+ *
+ * @param version Release version i.e. 1.4.2
+ */
+export function readRelease(version: string): ReleaseManifest {
+  const file = path.join(releasesDir, version, "contracts.json");
+  if (!fs.existsSync(file)) {
+    throw new Error(`Release ${version} not found at ${file}`);
+  }
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+/**
+ * Network key to use in release manifests, it is the name in network config of current chain.
+ * Hardhat network is a mainnet fork by default hence it maps to mainnet.
+ *
+ * @param hre Hardhat runtime environment
+ */
+export async function releaseNetwork(hre: HardhatRuntimeEnvironment): Promise<string> {
+  const config = networks[Number(await hre.getChainId())];
+  return config ? config.name : hre.network.name;
+}
+
+/**
+ * Write contracts.json of given release. Released version is never overwritten.
+ *
+ * @param manifest Release manifest
+ * @param baseDir Releases directory, default is releases directory of repo
+ */
+export function writeRelease(manifest: ReleaseManifest, baseDir = releasesDir): string {
+  const dir = path.join(baseDir, manifest.version);
+  const file = path.join(dir, "contracts.json");
+  if (fs.existsSync(file)) {
+    throw new Error(`Release ${manifest.version} already exists at ${file}`);
+  }
+  fs.mkdirSync(dir, {recursive: true});
+  fs.writeFileSync(file, `${JSON.stringify(manifest, null, 2)}\n`);
+  return file;
+}
+
+const versionAbi = ["function NAME() view returns (string)", "function VERSION() view returns (string)"];
+
+// Contract => NAME reported by contract
+const expectedNames = {
+  CircuitBreaker: "VUSD-CircuitBreaker",
+  CurveAMO: "VUSD-CurveAMO",
+  SavingsVault: "VUSD-SavingsVault",
+  BridgeAdapter: "VUSD-BridgeAdapter",
+  Quoter: "VUSD-Quoter",
+  FeeCollector: "VUSD-FeeCollector",
+  OracleRouter: "VUSD-OracleRouter",
+  RateLimiter: "VUSD-RateLimiter",
+  RoleRegistry: "VUSD-RoleRegistry",
+  Rebalancer: "VUSD-Rebalancer",
+  Timelock: "VUSD-Timelock",
+  Minter: "VUSD-Minter",
+  Redeemer: "VUSD-Redeemer",
+  Treasury: "VUSD-Treasury",
+};
+
+/**
+ * Read VERSION of given contract, if it has one.
+ */
+async function contractVersion(hre: HardhatRuntimeEnvironment, address: string): Promise<string | undefined> {
+  const contract = await hre.ethers.getContractAt(versionAbi, address);
+  try {
+    return await contract.VERSION();
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Build release manifest from hardhat-deploy deployments of current network.
+ * Release version is the highest VERSION reported by deployed contracts, unless given.
+ *
+ * @param hre Hardhat runtime environment
+ * @param version Optional release version
+ */
+export async function buildRelease(hre: HardhatRuntimeEnvironment, version?: string): Promise<ReleaseManifest> {
+  const network = await releaseNetwork(hre);
+  const dir = path.join(hre.config.paths.deployments, network);
+  const contracts: {[contract: string]: string} = {};
+  let latestVersion = "0.0.0";
+  for (const file of fs.readdirSync(dir).filter((file) => file.endsWith(".json"))) {
+    const name = path.basename(file, ".json");
+    const {address} = JSON.parse(fs.readFileSync(path.join(dir, file), "utf8"));
+    contracts[name] = address;
+    const contractVer = await contractVersion(hre, address);
+    if (contractVer && compareVersions(contractVer, latestVersion) > 0) {
+      latestVersion = contractVer;
+    }
+  }
+  return {version: version || latestVersion, networks: {[network]: contracts}};
+}
+
+/**
+ * Verify release manifest against chain state of current network.
+ *
+ * @param hre Hardhat runtime environment
+ * @param manifest Release manifest to verify
+ * @returns List of failures, empty if manifest matches chain
+ */
+export async function verifyRelease(hre: HardhatRuntimeEnvironment, manifest: ReleaseManifest): Promise<string[]> {
+  const {ethers} = hre;
+  const network = await releaseNetwork(hre);
+  const contracts = manifest.networks[network];
+  if (!contracts) {
+    return [`Release ${manifest.version} has no contracts for network ${network}`];
+  }
+  const releases = listReleases();
+  const index = releases.indexOf(manifest.version);
+  const previous = index > 0 ? readRelease(releases[index - 1]).networks[network] || {} : {};
+
+  const failures: string[] = [];
+  for (const [name, address] of Object.entries(contracts)) {
+    if ((await ethers.provider.getCode(address)) === "0x") {
+      failures.push(`${name} ${address} has no code`);
+      continue;
+    }
+    const expectedName = expectedNames[name];
+    if (!expectedName) {
+      continue;
+    }
+    const contract = await ethers.getContractAt(versionAbi, address);
+    const [actualName, actualVersion] = await Promise.all([contract.NAME(), contract.VERSION()]);
+    if (actualName !== expectedName) {
+      failures.push(`${name} ${address} reports NAME ${actualName}, expected ${expectedName}`);
+    }
+    // Contract deployed in this release must report release version, a carried over contract may report older one.
+    if (previous[name] !== address && actualVersion !== manifest.version) {
+      failures.push(`${name} ${address} reports VERSION ${actualVersion}, expected ${manifest.version}`);
+    } else if (compareVersions(actualVersion, manifest.version) > 0) {
+      failures.push(`${name} ${address} reports VERSION ${actualVersion}, newer than ${manifest.version}`);
+    }
+  }
+  if (failures.length > 0) {
+    return failures;
+  }
+
+  const vusd = await ethers.getContractAt("VUSD", contracts.VUSD);
+  const wiring: [string, string, string][] = [
+    ["vusd.minter()", await vusd.minter(), contracts.Minter],
+    ["vusd.treasury()", await vusd.treasury(), contracts.Treasury],
+  ];
+  if (contracts.Treasury && contracts.Redeemer) {
+    const treasury = await ethers.getContractAt("Treasury", contracts.Treasury);
+    wiring.push(["treasury.redeemer()", await treasury.redeemer(), contracts.Redeemer]);
+  }
+  for (const name of ["Minter", "Redeemer", "Treasury"].filter((name) => contracts[name])) {
+    const contract = await ethers.getContractAt(name, contracts[name]);
+    wiring.push([`${name.toLowerCase()}.vusd()`, await contract.vusd(), contracts.VUSD]);
+  }
+  for (const [call, actual, expected] of wiring) {
+    if (expected && actual.toLowerCase() !== expected.toLowerCase()) {
+      failures.push(`${call} is ${actual}, expected ${expected}`);
+    }
+  }
+  return failures;
+}
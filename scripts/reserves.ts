@@ -0,0 +1,120 @@
+import type {BigNumber} from "ethers";
+import type {HardhatRuntimeEnvironment} from "hardhat/types";
+import {revertReason} from "../sdk/errors";
+
+export interface TokenReserve {
+  token: string;
+  symbol: string;
+  // Token amount held by treasury, in token decimals
+  amount: BigNumber;
+  // USD value, in VUSD decimals
+  value: BigNumber;
+}
+
+export interface ReservesReport {
+  block: number;
+  treasury: string;
+  // VUSD supply backed by treasury, i.e. total supply less debt of AMO
+  supply: BigNumber;
+  totalValue: BigNumber;
+  // BPS, 10_000 = 100%. Max uint when there is no VUSD supply.
+  collateralizationRatio: BigNumber;
+  reserves: TokenReserve[];
+}
+
+type Holding = Omit<TokenReserve, "symbol">;
+
+const MAX_BPS = 10_000;
+
+const legacyAbi = [
+  "function whitelistedTokens() view returns (address[])",
+  "function withdrawable(address) view returns (uint256)",
+  "function oracles(address) view returns (address)",
+];
+
+/**
+ * Reserves of treasury which has no `reserves()`, i.e. treasury before 1.5.0. Valued same as `reserves()`.
+ */
+async function legacyReserves(hre: HardhatRuntimeEnvironment, treasury: string): Promise<Holding[]> {
+  const {ethers} = hre;
+  const legacy = await ethers.getContractAt(legacyAbi, treasury);
+  const reserves: Holding[] = [];
+  for (const token of await legacy.whitelistedTokens()) {
+    const amount: BigNumber = await legacy.withdrawable(token);
+    const oracle = await ethers.getContractAt("IAggregatorV3", await legacy.oracles(token));
+    const [{answer}, oracleDecimals, tokenDecimals] = await Promise.all([
+      oracle.latestRoundData(),
+      oracle.decimals(),
+      (await ethers.getContractAt("ERC20", token)).decimals(),
+    ]);
+    const decimals = tokenDecimals + oracleDecimals;
+    let value = answer.gt(0) ? amount.mul(answer) : ethers.constants.Zero;
+    value =
+      decimals > 18
+        ? value.div(ethers.BigNumber.from(10).pow(decimals - 18))
+        : value.mul(ethers.BigNumber.from(10).pow(18 - decimals));
+    reserves.push({token, amount, value});
+  }
+  return reserves;
+}
+
+/**
+ * Proof of reserves of VUSD treasury at current block of network.
+ *
+ * @param hre Hardhat runtime environment
+ * @param treasury Treasury address, defaults to treasury of VUSD
+ */
+export async function reservesReport(hre: HardhatRuntimeEnvironment, treasury?: string): Promise<ReservesReport> {
+  const {deployments, ethers} = hre;
+  const vusd = await ethers.getContractAt("VUSD", (await deployments.get("VUSD")).address);
+  const treasuryAddress = treasury || (await vusd.treasury());
+  const minter = await ethers.getContractAt("Minter", await vusd.minter());
+  // Minter before 1.5.0 has no backedSupply() and there is no AMO then
+  const supply = await minter.backedSupply().catch(() => vusd.totalSupply());
+
+  let reserves: Holding[];
+  try {
+    const [, current] = await (await ethers.getContractAt("Treasury", treasuryAddress)).reserves();
+    reserves = current;
+  } catch (error) {
+    // Legacy treasury has no reserves() and reverts without reason, e.g. current one reverts on stale price
+    if (revertReason(error)) {
+      throw error;
+    }
+    reserves = await legacyReserves(hre, treasuryAddress);
+  }
+  const totalValue = reserves.reduce((total, reserve) => total.add(reserve.value), ethers.constants.Zero);
+  const collateralizationRatio = supply.eq(0) ? ethers.constants.MaxUint256 : totalValue.mul(MAX_BPS).div(supply);
+  const symbols = await Promise.all(
+    reserves.map(async ({token}) => (await ethers.getContractAt("ERC20", token)).symbol())
+  );
+  return {
+    block: await ethers.provider.getBlockNumber(),
+    treasury: treasuryAddress,
+    supply,
+    totalValue,
+    collateralizationRatio,
+    reserves: reserves.map(({token, amount, value}, i) => ({token, symbol: symbols[i], amount, value})),
+  };
+}
+
+/**
+ * Human readable reserves report, USD values are rounded down to cents.
+ *
+ * @param hre Hardhat runtime environment
+ * @param report Reserves report
+ */
+export function formatReport(hre: HardhatRuntimeEnvironment, report: ReservesReport): string {
+  const {ethers} = hre;
+  const usd = (value: BigNumber) => Number(ethers.utils.formatEther(value)).toFixed(2);
+  const ratio = report.collateralizationRatio.eq(ethers.constants.MaxUint256)
+    ? "n/a, no VUSD supply"
+    : `${(report.collateralizationRatio.toNumber() / 100).toFixed(2)}%`;
+  return [
+    `Block ${report.block}, treasury ${report.treasury}`,
+    ...report.reserves.map((reserve) => `  ${reserve.symbol} ${reserve.token}: $${usd(reserve.value)}`),
+    `Total reserves: $${usd(report.totalValue)}`,
+    `VUSD supply: ${usd(report.supply)}`,
+    `Collateralization ratio: ${ratio}`,
+  ].join("\n");
+}
@@ -0,0 +1,54 @@
+import type {HardhatRuntimeEnvironment} from "hardhat/types";
+
+export const roleNames = ["GOVERNOR_ROLE", "GUARDIAN_ROLE", "KEEPER_ROLE", "FEE_MANAGER_ROLE", "ORACLE_MANAGER_ROLE"];
+
+export interface RolesReport {
+  block: number;
+  // Zero address when network has no role registry
+  roleRegistry: string;
+  // Role name => holders of role
+  roles: {[role: string]: string[]};
+  // Minter of VUSD, VUSD keeps it and does not read role registry
+  vusdMinter: string;
+}
+
+const legacyAbi = ["function keepers() view returns (address[])"];
+
+/**
+ * Holders of each role of VUSD system at current block of network, and minter of VUSD kept by VUSD itself.
+ * Without role registry, i.e. release before 1.5.0, governor is read from VUSD and keepers from treasury.
+ *
+ * @param hre Hardhat runtime environment
+ * @param registry Role registry address, defaults to RoleRegistry deployment
+ */
+export async function rolesReport(hre: HardhatRuntimeEnvironment, registry?: string): Promise<RolesReport> {
+  const {deployments, ethers} = hre;
+  const registryAddress = registry || (await deployments.getOrNull("RoleRegistry"))?.address;
+  const roles: RolesReport["roles"] = {};
+  const vusd = await ethers.getContractAt("VUSD", (await deployments.get("VUSD")).address);
+  if (registryAddress) {
+    const roleRegistry = await ethers.getContractAt("RoleRegistry", registryAddress);
+    for (const role of await roleRegistry.roles()) {
+      const name = roleNames.find((roleName) => ethers.utils.id(roleName) === role) || role;
+      roles[name] = await roleRegistry.members(role);
+    }
+  } else {
+    const treasury = await ethers.getContractAt(legacyAbi, await vusd.treasury());
+    roles.GOVERNOR_ROLE = [await vusd.governor()];
+    roles.KEEPER_ROLE = await treasury.keepers().catch(() => []);
+  }
+  return {
+    block: await ethers.provider.getBlockNumber(),
+    roleRegistry: registryAddress || ethers.constants.AddressZero,
+    roles,
+    vusdMinter: await vusd.minter(),
+  };
+}
+
+export function formatRolesReport(report: RolesReport): string {
+  return [
+    `Block ${report.block}, role registry ${report.roleRegistry}`,
+    ...Object.entries(report.roles).map(([role, holders]) => `  ${role}: ${holders.join(", ") || "none"}`),
+    `  Minter of VUSD, not in registry: ${report.vusdMinter}`,
+  ].join("\n");
+}
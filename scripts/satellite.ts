@@ -0,0 +1,55 @@
+import type {HardhatRuntimeEnvironment} from "hardhat/types";
+import type {SatelliteConfig} from "./networks";
+
+export interface SatelliteDeployment {
+  vusd: string;
+  bridgeAdapter: string;
+  // Steps for governor of home chain, human readable. Home chain is not read, run those unless already done.
+  homeSteps: string[];
+}
+
+// Deployment names on satellite chain, those do not clash with deployments of home chain
+export const SATELLITE_VUSD = "SatelliteVUSD";
+export const SATELLITE_BRIDGE_ADAPTER = "SatelliteBridgeAdapter";
+
+/**
+ * Deploy satellite VUSD and its bridge adapter, make adapter the minter of VUSD and link it with adapter of home
+ * chain. Deployer is governor of satellite VUSD. Steps are skipped when already done, hence it can run again.
+ *
+ * @param hre Hardhat runtime environment of satellite network
+ * @param config Satellite config
+ */
+export async function deploySatellite(
+  hre: HardhatRuntimeEnvironment,
+  config: SatelliteConfig
+): Promise<SatelliteDeployment> {
+  const {deployments, ethers, getNamedAccounts} = hre;
+  const {deploy, execute, read} = deployments;
+  const {deployer} = await getNamedAccounts();
+  const mintCeiling = ethers.utils.parseEther(config.mintCeiling);
+
+  // Satellite VUSD has no treasury, deployer is a placeholder as it is for VUSD of home chain
+  const vusd = await deploy(SATELLITE_VUSD, {from: deployer, contract: "VUSD", args: [deployer], log: true});
+  const bridgeAdapter = await deploy(SATELLITE_BRIDGE_ADAPTER, {
+    from: deployer,
+    contract: "BridgeAdapter",
+    args: [vusd.address, config.messageEndpoint],
+    log: true,
+  });
+
+  if ((await read(SATELLITE_VUSD, "minter")) !== bridgeAdapter.address) {
+    await execute(SATELLITE_VUSD, {from: deployer, log: true}, "updateMinter", bridgeAdapter.address);
+  }
+  if ((await read(SATELLITE_BRIDGE_ADAPTER, "peers", config.homeChainId)) !== config.homeBridgeAdapter) {
+    const args = [config.homeChainId, config.homeBridgeAdapter];
+    await execute(SATELLITE_BRIDGE_ADAPTER, {from: deployer, log: true}, "updatePeer", ...args);
+  }
+  if (!(await read(SATELLITE_BRIDGE_ADAPTER, "mintCeiling", config.homeChainId)).eq(mintCeiling)) {
+    const args = [config.homeChainId, mintCeiling];
+    await execute(SATELLITE_BRIDGE_ADAPTER, {from: deployer, log: true}, "updateMintCeiling", ...args);
+  }
+
+  const chainId = await hre.getChainId();
+  const homeSteps = [`call updatePeer(${chainId}, ${bridgeAdapter.address}) on BridgeAdapter`];
+  return {vusd: vusd.address, bridgeAdapter: bridgeAdapter.address, homeSteps};
+}
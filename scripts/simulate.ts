@@ -0,0 +1,297 @@
+import type {BigNumber, Contract} from "ethers";
+import type {SignerWithAddress} from "@nomiclabs/hardhat-ethers/signers";
+import type {HardhatRuntimeEnvironment} from "hardhat/types";
+import type {Minter, OracleRouter, Redeemer, Treasury, VUSD} from "../typechain";
+import {reservesReport} from "./reserves";
+
+/** Governor call on a deployed contract, i.e. `{contract: "Redeemer", method: "updateRedeemFee", args: [50]}` */
+export interface ParameterChange {
+  // Deployment name, i.e. Minter, Redeemer or OracleRouter
+  contract: string;
+  // Method name or signature
+  method: string;
+  args?: unknown[];
+}
+
+/** Chainlink answer of a token, it overrides primary feed of router and feed of legacy treasury unless feed is given */
+export interface PriceOverride {
+  // Symbol or address of token
+  token: string;
+  // USD price, i.e. "0.995"
+  answer: string;
+  // Seconds since price update, default is 0, i.e. fresh price
+  age?: number;
+  feed?: string;
+}
+
+export type SimulationStep =
+  // Mint with token amount, in token units i.e. "1000.5", minimum VUSD out is in VUSD units
+  | {action: "mint"; token: string; amount: string; minAmountOut?: string}
+  // Redeem VUSD amount, in VUSD units, minimum token out is in token units
+  | {action: "redeem"; token: string; amount: string; minAmountOut?: string}
+  | ({action: "price"} & PriceOverride)
+  // Move time forward, i.e. to make a price stale
+  | {action: "warp"; seconds: number};
+
+export interface Scenario {
+  // Account which mints and redeems, default is first signer. Collateral token balance is topped up as needed.
+  account?: string;
+  // Applied in order as governor, before prices
+  changes?: ParameterChange[];
+  prices?: PriceOverride[];
+  steps: SimulationStep[];
+}
+
+export interface ChangeResult extends ParameterChange {
+  // Revert reason, undefined when change is applied
+  reason?: string;
+}
+
+export interface StepResult {
+  step: number;
+  action: SimulationStep["action"];
+  token?: string;
+  // Amounts are in units of token, i.e. "999.7"
+  amountIn?: string;
+  amountOut?: string;
+  // Revert reason, undefined when step succeeded
+  reason?: string;
+  supply: BigNumber;
+  // Undefined when reserves can not be valued, i.e. price is stale
+  totalValue?: BigNumber;
+  // BPS, 10_000 = 100%. Max uint when there is no VUSD supply.
+  collateralizationRatio?: BigNumber;
+}
+
+export interface SimulationReport {
+  block: number;
+  governor: string;
+  account: string;
+  changes: ChangeResult[];
+  steps: StepResult[];
+}
+
+// Storage slots probed to find balance mapping of a token
+const MAX_BALANCE_SLOT = 100;
+
+/** Revert reason of failed call, message of error when there is no reason */
+export function revertReason(error: unknown): string {
+  const {reason, message} = error as {reason?: string; message?: string};
+  const match = message?.match(/reverted with reason string '(.*)'/);
+  return match ? match[1] : reason || message || String(error);
+}
+
+/** Impersonate account and give it ETH for gas */
+export async function impersonate(hre: HardhatRuntimeEnvironment, account: string): Promise<SignerWithAddress> {
+  const {ethers, network} = hre;
+  await network.provider.send("hardhat_impersonateAccount", [account]);
+  await network.provider.send("hardhat_setBalance", [account, ethers.utils.parseEther("10").toHexString()]);
+  return ethers.getSigner(account);
+}
+
+/**
+ * Top up token balance of account to given amount by writing balance mapping of token.
+ * Slot of mapping is found by probing, it works for tokens with Solidity `mapping(address => uint256)` balances.
+ */
+export async function fund(
+  hre: HardhatRuntimeEnvironment,
+  token: string,
+  account: string,
+  amount: BigNumber
+): Promise<void> {
+  const {ethers, network} = hre;
+  const erc20 = await ethers.getContractAt("ERC20", token);
+  if ((await erc20.balanceOf(account)).gte(amount)) {
+    return;
+  }
+  const value = ethers.utils.hexZeroPad(amount.toHexString(), 32);
+  for (let slot = 0; slot < MAX_BALANCE_SLOT; slot++) {
+    const key = ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(["address", "uint256"], [account, slot]));
+    const position = ethers.utils.hexStripZeros(key);
+    const previous = await ethers.provider.getStorageAt(token, key);
+    await network.provider.send("hardhat_setStorageAt", [token, position, value]);
+    if ((await erc20.balanceOf(account)).eq(amount)) {
+      return;
+    }
+    await network.provider.send("hardhat_setStorageAt", [token, position, previous]);
+  }
+  throw new Error(`Balance slot of ${token} is not found`);
+}
+
+/**
+ * Replace code of given Chainlink feeds with mock feed and set latest round of those.
+ * Round id is kept, so round stays complete for the router.
+ */
+async function overridePrice(hre: HardhatRuntimeEnvironment, feeds: string[], answer: string, age = 0): Promise<void> {
+  const {ethers, network} = hre;
+  const {timestamp} = await ethers.provider.getBlock("latest");
+  for (const feed of feeds) {
+    const aggregator = await ethers.getContractAt("IAggregatorV3", feed);
+    const [decimals, {roundId}] = await Promise.all([aggregator.decimals(), aggregator.latestRoundData()]);
+    // Decimals is immutable in mock, so code of a mock with same decimals fits the feed
+    const mock = await (await ethers.getContractFactory("MockChainlinkOracle")).deploy(0, decimals);
+    await network.provider.send("hardhat_setCode", [feed, await ethers.provider.getCode(mock.address)]);
+    const mockFeed = await ethers.getContractAt("MockChainlinkOracle", feed);
+    await mockFeed.updateRoundData(roundId, ethers.utils.parseUnits(answer, decimals), timestamp - age, roundId);
+  }
+}
+
+/**
+ * Run scenario of parameter changes, price overrides, mints and redeems and roll it back.
+ * Network should be hardhat network, i.e. a mainnet fork. Changes are sent by impersonated governor of VUSD,
+ * when governor is timelock this is the same as executing queued calls.
+ *
+ * @param hre Hardhat runtime environment
+ * @param scenario Scenario to run
+ * @returns Outcome of each change and step, with collateralization after each step
+ */
+export async function simulate(hre: HardhatRuntimeEnvironment, scenario: Scenario): Promise<SimulationReport> {
+  const {deployments, ethers, network} = hre;
+  if (network.name !== "hardhat") {
+    throw new Error(`Scenario is simulated on hardhat network, not on ${network.name}`);
+  }
+  const snapshot = await network.provider.send("evm_snapshot", []);
+  try {
+    const contractAt = async <T>(name: string, address?: string) =>
+      (await ethers.getContractAt(name, address || (await deployments.get(name)).address)) as unknown as T;
+    const vusd = await contractAt<VUSD>("VUSD");
+    const [minter, redeemer, oracleRouter, treasury] = await Promise.all([
+      contractAt<Minter>("Minter"),
+      contractAt<Redeemer>("Redeemer"),
+      contractAt<OracleRouter>("OracleRouter"),
+      contractAt<Treasury>("Treasury", await vusd.treasury()),
+    ]);
+    const governor = await vusd.governor();
+    const account = scenario.account || (await ethers.getSigners())[0].address;
+    const signer = await impersonate(hre, account);
+
+    const tokens = await treasury.whitelistedTokens();
+    const symbols = await Promise.all(
+      tokens.map(async (token) => (await ethers.getContractAt("ERC20", token)).symbol())
+    );
+    const tokenOf = (symbolOrAddress: string) => {
+      if (ethers.utils.isAddress(symbolOrAddress)) {
+        return ethers.utils.getAddress(symbolOrAddress);
+      }
+      const index = symbols.findIndex((symbol) => symbol.toLowerCase() === symbolOrAddress.toLowerCase());
+      if (index === -1) {
+        throw new Error(`Token ${symbolOrAddress} is not in treasury`);
+      }
+      return tokens[index];
+    };
+    // Treasury before 1.5.0 values reserves with its own feed of token
+    const legacyTreasury = await ethers.getContractAt(
+      ["function oracles(address) view returns (address)"],
+      treasury.address
+    );
+    const applyPrice = async (price: PriceOverride) => {
+      const token = tokenOf(price.token);
+      const treasuryFeed: string | undefined = await legacyTreasury.oracles(token).catch(() => undefined);
+      const feeds = price.feed ? [price.feed] : [(await oracleRouter.feeds(token)).primary, treasuryFeed];
+      await overridePrice(hre, [...new Set(feeds.filter((feed): feed is string => !!feed))], price.answer, price.age);
+    };
+
+    const changes: ChangeResult[] = [];
+    const governorSigner = await impersonate(hre, governor);
+    for (const change of scenario.changes || []) {
+      const {address, abi} = await deployments.get(change.contract);
+      const contract: Contract = new ethers.Contract(address, abi, governorSigner);
+      try {
+        await (await contract[change.method](...(change.args || []))).wait();
+        changes.push(change);
+      } catch (error) {
+        changes.push({...change, reason: revertReason(error)});
+      }
+    }
+    for (const price of scenario.prices || []) {
+      await applyPrice(price);
+    }
+
+    const steps: StepResult[] = [];
+    for (const [i, step] of scenario.steps.entries()) {
+      const result: Partial<StepResult> = {step: i + 1, action: step.action};
+      try {
+        if (step.action === "mint" || step.action === "redeem") {
+          const token = await ethers.getContractAt("ERC20", tokenOf(step.token));
+          const tokenDecimals = await token.decimals();
+          result.token = step.token;
+          result.amountIn = step.amount;
+          if (step.action === "mint") {
+            const amountIn = ethers.utils.parseUnits(step.amount, tokenDecimals);
+            const minAmountOut = ethers.utils.parseEther(step.minAmountOut || "0");
+            await fund(hre, token.address, account, amountIn);
+            await (await token.connect(signer).approve(minter.address, amountIn)).wait();
+            const before = await vusd.balanceOf(account);
+            const userMinter = minter.connect(signer);
+            await (
+              await userMinter["mint(address,uint256,uint256,address)"](token.address, amountIn, minAmountOut, account)
+            ).wait();
+            result.amountOut = ethers.utils.formatEther((await vusd.balanceOf(account)).sub(before));
+          } else {
+            const vusdAmount = ethers.utils.parseEther(step.amount);
+            const minAmountOut = ethers.utils.parseUnits(step.minAmountOut || "0", tokenDecimals);
+            await (await vusd.connect(signer).approve(redeemer.address, vusdAmount)).wait();
+            const before = await token.balanceOf(account);
+            await (await redeemer.connect(signer).redeem(token.address, vusdAmount, minAmountOut, account)).wait();
+            const amountOut = (await token.balanceOf(account)).sub(before);
+            result.amountOut = ethers.utils.formatUnits(amountOut, tokenDecimals);
+          }
+        } else if (step.action === "price") {
+          result.token = step.token;
+          await applyPrice(step);
+        } else {
+          await network.provider.send("evm_increaseTime", [step.seconds]);
+          await network.provider.send("evm_mine", []);
+        }
+      } catch (error) {
+        result.reason = revertReason(error);
+      }
+      try {
+        const {supply, totalValue, collateralizationRatio} = await reservesReport(hre, treasury.address);
+        steps.push({...result, supply, totalValue, collateralizationRatio} as StepResult);
+      } catch (error) {
+        steps.push({...result, supply: await vusd.totalSupply()} as StepResult);
+      }
+    }
+    return {block: await ethers.provider.getBlockNumber(), governor, account, changes, steps};
+  } finally {
+    await network.provider.send("evm_revert", [snapshot]);
+  }
+}
+
+/**
+ * Human readable simulation report, one row per step. USD values are rounded down to cents.
+ *
+ * @param hre Hardhat runtime environment
+ * @param report Simulation report
+ */
+export function formatSimulationReport(hre: HardhatRuntimeEnvironment, report: SimulationReport): string {
+  const {ethers} = hre;
+  const usd = (value: BigNumber) => Number(ethers.utils.formatEther(value)).toFixed(2);
+  const ratio = (value?: BigNumber) =>
+    !value || value.eq(ethers.constants.MaxUint256) ? "n/a" : `${(value.toNumber() / 100).toFixed(2)}%`;
+  const header = ["#", "action", "token", "amount in", "amount out", "result", "supply", "reserves", "ratio"];
+  const rows = report.steps.map((step) => [
+    `${step.step}`,
+    step.action,
+    step.token || "",
+    step.amountIn || "",
+    step.amountOut || "",
+    step.reason ? `reverted: ${step.reason}` : "ok",
+    usd(step.supply),
+    step.totalValue ? `$${usd(step.totalValue)}` : "n/a",
+    ratio(step.collateralizationRatio),
+  ]);
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map((row) => row[i].length)));
+  const line = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i])).join(" | ");
+  return [
+    `Block ${report.block}, governor ${report.governor}, account ${report.account}`,
+    ...report.changes.map(
+      (change) =>
+        `  ${change.contract}.${change.method}(${(change.args || []).join(", ")}): ` +
+        (change.reason ? `reverted: ${change.reason}` : "applied")
+    ),
+    line(header),
+    ...rows.map(line),
+  ].join("\n");
+}
@@ -0,0 +1,92 @@
+import type {BigNumberish, BytesLike} from "ethers";
+import type {HardhatRuntimeEnvironment} from "hardhat/types";
+import type {Minter, Redeemer, Timelock, Treasury, VUSD} from "../typechain";
+
+// Default delay of queued calls, in seconds
+export const timelockDelay = 2 * 24 * 60 * 60;
+
+// Decrease-only functions allowed on fast path of timelock, deployment of target => function => getter of current value
+export const fastPaths: {[deployment: string]: {[fn: string]: string}} = {
+  Minter: {"updateMintingFee(uint256)": "mintingFee()"},
+  Redeemer: {"updateRedeemFee(uint256)": "redeemFee()"},
+};
+
+// Call which timelock makes to target
+export interface TimelockCall {
+  target: string;
+  data: string;
+}
+
+/**
+ * Encoders of governor calls of VUSD contracts, one per function, built from ABIs of typechain types.
+ * Fee updates are queued when fee goes up and can be sent via fast path when it goes down.
+ */
+export interface TimelockCalls {
+  updateMinter: (vusd: string, newMinter: string) => TimelockCall;
+  updateTreasury: (vusd: string, newTreasury: string) => TimelockCall;
+  updateRedeemer: (treasury: string, newRedeemer: string) => TimelockCall;
+  updateSwapManager: (treasury: string, newSwapManager: string) => TimelockCall;
+  migrate: (treasury: string, newTreasury: string) => TimelockCall;
+  updateMintingFee: (minter: string, newMintingFee: BigNumberish) => TimelockCall;
+  updateRedeemFee: (redeemer: string, newRedeemFee: BigNumberish) => TimelockCall;
+}
+
+async function interfaceOf<T>(hre: HardhatRuntimeEnvironment, name: string): Promise<T> {
+  return new hre.ethers.utils.Interface((await hre.artifacts.readArtifact(name)).abi) as unknown as T;
+}
+
+export async function timelockCalls(hre: HardhatRuntimeEnvironment): Promise<TimelockCalls> {
+  const vusd = await interfaceOf<VUSD["interface"]>(hre, "VUSD");
+  const treasury = await interfaceOf<Treasury["interface"]>(hre, "Treasury");
+  const minter = await interfaceOf<Minter["interface"]>(hre, "Minter");
+  const redeemer = await interfaceOf<Redeemer["interface"]>(hre, "Redeemer");
+  return {
+    updateMinter: (target, newMinter) => ({target, data: vusd.encodeFunctionData("updateMinter", [newMinter])}),
+    updateTreasury: (target, newTreasury) => ({
+      target,
+      data: vusd.encodeFunctionData("updateTreasury", [newTreasury]),
+    }),
+    updateRedeemer: (target, newRedeemer) => ({
+      target,
+      data: treasury.encodeFunctionData("updateRedeemer", [newRedeemer]),
+    }),
+    updateSwapManager: (target, newSwapManager) => ({
+      target,
+      data: treasury.encodeFunctionData("updateSwapManager", [newSwapManager]),
+    }),
+    migrate: (target, newTreasury) => ({target, data: treasury.encodeFunctionData("migrate", [newTreasury])}),
+    updateMintingFee: (target, newMintingFee) => ({
+      target,
+      data: minter.encodeFunctionData("updateMintingFee", [newMintingFee]),
+    }),
+    updateRedeemFee: (target, newRedeemFee) => ({
+      target,
+      data: redeemer.encodeFunctionData("updateRedeemFee", [newRedeemFee]),
+    }),
+  };
+}
+
+/**
+ * Id of a queued call, same as `callId` of timelock
+ */
+export function timelockCallId(hre: HardhatRuntimeEnvironment, call: TimelockCall, eta: BigNumberish): string {
+  const {utils} = hre.ethers;
+  return utils.keccak256(utils.defaultAbiCoder.encode(["address", "bytes", "uint256"], [call.target, call.data, eta]));
+}
+
+// Calldata of timelock, to be sent by governor of timelock, i.e. via multisig
+export function encodeQueue(timelock: Timelock, call: TimelockCall): string {
+  return timelock.interface.encodeFunctionData("queue", [call.target, call.data]);
+}
+
+export function encodeExecute(timelock: Timelock, call: TimelockCall, eta: BigNumberish): string {
+  return timelock.interface.encodeFunctionData("execute", [call.target, call.data, eta]);
+}
+
+export function encodeExecuteFast(timelock: Timelock, call: TimelockCall): string {
+  return timelock.interface.encodeFunctionData("executeFast", [call.target, call.data]);
+}
+
+export function encodeCancel(timelock: Timelock, id: BytesLike): string {
+  return timelock.interface.encodeFunctionData("cancel", [id]);
+}
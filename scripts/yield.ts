@@ -0,0 +1,125 @@
+import type {BigNumber} from "ethers";
+import type {HardhatRuntimeEnvironment} from "hardhat/types";
+import type {SavingsVault} from "../typechain";
+
+export interface YieldOptions {
+  // SavingsVault address, defaults to `SavingsVault` deployment
+  vault?: string;
+  // Part of available yield to distribute, in BPS
+  share?: number;
+  // Smallest amount worth a distribution, VUSD with 18 decimals
+  minAmount?: BigNumber;
+  // Keeper which sends the distribution, defaults to keeper named account
+  keeper?: string;
+}
+
+export interface YieldPlan {
+  vault: string;
+  keeper: string;
+  // Excess of treasury reserves over VUSD supply at collateralization floor of vault
+  availableYield: BigNumber;
+  // VUSD to distribute
+  amount: BigNumber;
+  totalAssets: BigNumber;
+  totalSupply: BigNumber;
+  // Yield of earlier distributions which is not vested yet
+  lockedYield: BigNumber;
+  // VUSD per share, with 18 decimals
+  sharePrice: BigNumber;
+}
+
+export interface YieldResult {
+  // Yield locked after distribution, it vests over drip period of vault
+  lockedYield: BigNumber;
+  gasUsed: BigNumber;
+  txHash?: string;
+}
+
+const MAX_BPS = 10_000;
+
+async function savingsVaultAt(hre: HardhatRuntimeEnvironment, address?: string): Promise<SavingsVault> {
+  const {deployments, ethers} = hre;
+  const vault = address || (await deployments.get("SavingsVault")).address;
+  return (await ethers.getContractAt("SavingsVault", vault)) as SavingsVault;
+}
+
+/**
+ * Plan yield distribution of savings vault. Amount is given share of available yield.
+ *
+ * @param hre Hardhat runtime environment
+ * @param options Yield options
+ * @returns Yield plan, undefined if vault is empty or amount is below min amount
+ */
+export async function planYield(
+  hre: HardhatRuntimeEnvironment,
+  options: YieldOptions = {}
+): Promise<YieldPlan | undefined> {
+  const {ethers, getNamedAccounts} = hre;
+  const share = options.share ?? MAX_BPS;
+  if (share <= 0 || share > MAX_BPS) {
+    throw new Error(`Invalid share ${share}`);
+  }
+  const vault = await savingsVaultAt(hre, options.vault);
+  const [availableYield, totalAssets, totalSupply, lockedYield, sharePrice] = await Promise.all([
+    vault.availableYield(),
+    vault.totalAssets(),
+    vault.totalSupply(),
+    vault.lockedYield(),
+    vault.convertToAssets(ethers.constants.WeiPerEther),
+  ]);
+  const amount = availableYield.mul(share).div(MAX_BPS);
+  if (totalSupply.isZero() || amount.isZero() || amount.lt(options.minAmount || 0)) {
+    return undefined;
+  }
+  const keeper = ethers.utils.getAddress(options.keeper || (await getNamedAccounts()).keeper);
+  return {vault: vault.address, keeper, availableYield, amount, totalAssets, totalSupply, lockedYield, sharePrice};
+}
+
+/**
+ * Distribute yield of plan as keeper. Dry run sends it on hardhat network, i.e. a mainnet fork, and rolls it back.
+ *
+ * @param hre Hardhat runtime environment
+ * @param plan Yield plan
+ * @param dryRun Whether to roll back the distribution
+ */
+export async function runYield(hre: HardhatRuntimeEnvironment, plan: YieldPlan, dryRun = false): Promise<YieldResult> {
+  const {ethers, network} = hre;
+  if (dryRun && network.name !== "hardhat") {
+    throw new Error(`Dry run is done on hardhat network, not on ${network.name}`);
+  }
+  const snapshot = dryRun ? await network.provider.send("evm_snapshot", []) : undefined;
+  try {
+    if (dryRun) {
+      await network.provider.send("hardhat_impersonateAccount", [plan.keeper]);
+      await network.provider.send("hardhat_setBalance", [plan.keeper, ethers.utils.parseEther("10").toHexString()]);
+    }
+    const vault = (await savingsVaultAt(hre, plan.vault)).connect(await ethers.getSigner(plan.keeper));
+    const tx = await vault.distributeYield(plan.amount);
+    const receipt = await tx.wait();
+    const event = receipt.events?.find((e) => e.event === "YieldDistributed");
+    if (!event?.args) {
+      throw new Error("YieldDistributed event is missing");
+    }
+    return {lockedYield: event.args.lockedYield, gasUsed: receipt.gasUsed, txHash: dryRun ? undefined : tx.hash};
+  } finally {
+    if (snapshot) {
+      await network.provider.send("evm_revert", [snapshot]);
+    }
+  }
+}
+
+/**
+ * Human readable yield plan, amounts are in 18 decimals.
+ *
+ * @param hre Hardhat runtime environment
+ * @param plan Yield plan
+ */
+export function formatYieldPlan(hre: HardhatRuntimeEnvironment, plan: YieldPlan): string {
+  const {formatEther} = hre.ethers.utils;
+  return [
+    `Vault ${plan.vault}, keeper ${plan.keeper}`,
+    `Total assets: ${formatEther(plan.totalAssets)} VUSD, shares ${formatEther(plan.totalSupply)}`,
+    `Share price: ${formatEther(plan.sharePrice)} VUSD, locked yield ${formatEther(plan.lockedYield)} VUSD`,
+    `Distribute ${formatEther(plan.amount)} of available ${formatEther(plan.availableYield)} VUSD`,
+  ].join("\n");
+}
@@ -0,0 +1,132 @@
+import {BigNumber, BigNumberish, ContractTransaction, Signer} from "ethers";
+import {ERC20__factory} from "../typechain";
+import type {VusdContracts} from "./addresses";
+import {signDaiPermit, signPermit} from "./permit";
+import {Quote, quoteMint, quoteRedeem} from "./quotes";
+
+export const MAX_BPS = 10_000;
+// Default slippage, 0.5% based on BPS
+export const DEFAULT_SLIPPAGE = 50;
+// Default permit validity, in seconds
+export const DEFAULT_PERMIT_DURATION = 60 * 60;
+
+export interface ActionOptions {
+  // Accepted slippage from quoted amount, in BPS
+  slippage?: number;
+  // Receiver of minted VUSD or redeemed token, default is signer
+  receiver?: string;
+  // Permit deadline, unix timestamp in seconds. Default is an hour after latest block
+  deadline?: number;
+  // Permit style of token to mint with, token is approved when not set
+  permit?: "eip-2612" | "dai";
+  // EIP-712 domain version of token to mint with, i.e. "2" for USDC
+  permitVersion?: string;
+}
+
+/**
+ * Minimum accepted output amount, used as `_minAmountOut`
+ *
+ * @param amountOut Quoted output amount
+ * @param slippage Accepted slippage in BPS
+ */
+export function minAmountOut(amountOut: BigNumber, slippage = DEFAULT_SLIPPAGE): BigNumber {
+  if (slippage < 0 || slippage > MAX_BPS) {
+    throw new Error(`Invalid slippage ${slippage}`);
+  }
+  return amountOut.mul(MAX_BPS - slippage).div(MAX_BPS);
+}
+
+function signerOf(contracts: VusdContracts): Signer {
+  const {signer} = contracts.minter;
+  if (!signer) {
+    throw new Error("Contracts are not connected with a signer");
+  }
+  return signer;
+}
+
+async function permitDeadline(signer: Signer, options: ActionOptions): Promise<number> {
+  if (options.deadline) {
+    return options.deadline;
+  }
+  const provider = signer.provider;
+  if (!provider) {
+    throw new Error("Signer is not connected with a provider");
+  }
+  return (await provider.getBlock("latest")).timestamp + DEFAULT_PERMIT_DURATION;
+}
+
+function checkQuote(action: string, quote: Quote): void {
+  if (quote.status !== "ok") {
+    throw new Error(`${action} would revert: ${quote.status}${quote.reason ? ` (${quote.reason})` : ""}`);
+  }
+}
+
+/**
+ * Mint VUSD with given token. Token is approved to Minter, by permit if set, else by approve if needed.
+ *
+ * @param contracts VUSD system contracts, connected with a signer
+ * @param token Token to deposit
+ * @param amountIn Token amount to deposit, in token decimals
+ * @param options Slippage, receiver and permit options
+ */
+export async function mint(
+  contracts: VusdContracts,
+  token: string,
+  amountIn: BigNumberish,
+  options: ActionOptions = {}
+): Promise<ContractTransaction> {
+  const {minter} = contracts;
+  const signer = signerOf(contracts);
+  const owner = await signer.getAddress();
+  const quote = await quoteMint(contracts, token, amountIn, owner);
+  checkQuote("Mint", quote);
+  const minOut = minAmountOut(quote.amountOut, options.slippage);
+  const receiver = options.receiver || owner;
+
+  const erc20 = ERC20__factory.connect(token, signer);
+  if ((await erc20.allowance(owner, minter.address)).gte(amountIn)) {
+    return minter["mint(address,uint256,uint256,address)"](token, amountIn, minOut, receiver);
+  }
+  if (options.permit === "eip-2612") {
+    const deadline = await permitDeadline(signer, options);
+    const {v, r, s} = await signPermit(signer, token, minter.address, amountIn, deadline, options.permitVersion);
+    return minter.mintWithPermit(token, amountIn, minOut, receiver, deadline, v, r, s);
+  }
+  if (options.permit === "dai") {
+    const expiry = await permitDeadline(signer, options);
+    const {nonce, v, r, s} = await signDaiPermit(signer, token, minter.address, expiry, options.permitVersion);
+    return minter.mintWithDaiPermit(token, amountIn, minOut, receiver, nonce, expiry, v, r, s);
+  }
+  await (await erc20.approve(minter.address, amountIn)).wait();
+  return minter["mint(address,uint256,uint256,address)"](token, amountIn, minOut, receiver);
+}
+
+/**
+ * Redeem VUSD for given token. VUSD allowance to Redeemer is given by permit signature in the same transaction.
+ *
+ * @param contracts VUSD system contracts, connected with a signer
+ * @param token Token to redeem
+ * @param vusdAmount VUSD amount to burn
+ * @param options Slippage, receiver and permit deadline
+ */
+export async function redeem(
+  contracts: VusdContracts,
+  token: string,
+  vusdAmount: BigNumberish,
+  options: ActionOptions = {}
+): Promise<ContractTransaction> {
+  const {redeemer, vusd} = contracts;
+  const signer = signerOf(contracts);
+  const owner = await signer.getAddress();
+  const quote = await quoteRedeem(contracts, token, vusdAmount, owner);
+  checkQuote("Redeem", quote);
+  const minOut = minAmountOut(quote.amountOut, options.slippage);
+  const receiver = options.receiver || owner;
+
+  if ((await vusd.allowance(owner, redeemer.address)).gte(vusdAmount)) {
+    return redeemer.redeem(token, vusdAmount, minOut, receiver);
+  }
+  const deadline = await permitDeadline(signer, options);
+  const {v, r, s} = await signPermit(signer, vusd.address, redeemer.address, vusdAmount, deadline);
+  return redeemer.redeemWithPermit(token, vusdAmount, minOut, receiver, deadline, v, r, s);
+}
@@ -0,0 +1,63 @@
+import type {providers, Signer} from "ethers";
+import {Minter__factory, Redeemer__factory, Treasury__factory, VUSD__factory} from "../typechain";
+import type {Minter, Redeemer, Treasury, VUSD} from "../typechain";
+import {latestShippedRelease, releases} from "./releases";
+
+export interface VusdAddresses {
+  VUSD: string;
+  Minter: string;
+  Redeemer: string;
+  Treasury: string;
+}
+
+export interface VusdContracts {
+  vusd: VUSD;
+  minter: Minter;
+  redeemer: Redeemer;
+  treasury: Treasury;
+}
+
+/**
+ * Load VUSD system addresses from release manifest shipped with SDK, see releases/<version>/contracts.json
+ *
+ * @param network Network name in release manifest, default is mainnet
+ * @param version Release version, default is latest shipped release
+ */
+export function loadAddresses(network = "mainnet", version = latestShippedRelease()): VusdAddresses {
+  const release = releases[version];
+  if (!release) {
+    throw new Error(`Release ${version} is not shipped with SDK`);
+  }
+  const contracts = release.networks[network];
+  if (!contracts) {
+    throw new Error(`Release ${version} has no contracts for network ${network}`);
+  }
+  const missing = ["VUSD", "Minter", "Redeemer", "Treasury"].filter((name) => !contracts[name]);
+  if (missing.length > 0) {
+    throw new Error(`Release ${version} on ${network} is missing ${missing.join(", ")}`);
+  }
+  return {
+    VUSD: contracts.VUSD,
+    Minter: contracts.Minter,
+    Redeemer: contracts.Redeemer,
+    Treasury: contracts.Treasury,
+  };
+}
+
+/**
+ * Connect typed contracts of VUSD system. Use a signer to mint and redeem, a provider is enough to quote.
+ *
+ * @param addresses VUSD system addresses
+ * @param signerOrProvider Signer or provider to connect with
+ */
+export function connectContracts(
+  addresses: VusdAddresses,
+  signerOrProvider: Signer | providers.Provider
+): VusdContracts {
+  return {
+    vusd: VUSD__factory.connect(addresses.VUSD, signerOrProvider),
+    minter: Minter__factory.connect(addresses.Minter, signerOrProvider),
+    redeemer: Redeemer__factory.connect(addresses.Redeemer, signerOrProvider),
+    treasury: Treasury__factory.connect(addresses.Treasury, signerOrProvider),
+  };
+}
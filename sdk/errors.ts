@@ -0,0 +1,28 @@
+// Error thrown by ethers or hardhat, it may wrap error of the call
+interface CallError {
+  reason?: unknown;
+  error?: unknown;
+  message?: unknown;
+}
+
+function isCallError(error: unknown): error is CallError {
+  return typeof error === "object" && error !== null;
+}
+
+/**
+ * Extract revert reason string from error thrown by a contract call, if any.
+ */
+export function revertReason(error: unknown): string | undefined {
+  if (!isCallError(error)) {
+    return undefined;
+  }
+  const {reason, error: inner, message} = error;
+  if (typeof reason === "string" && reason) {
+    return reason.replace(/^execution reverted: /, "");
+  }
+  if (inner) {
+    return revertReason(inner);
+  }
+  const match = /reverted with reason string '([^']*)'/.exec(typeof message === "string" ? message : "");
+  return match ? match[1] : undefined;
+}
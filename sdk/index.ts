@@ -0,0 +1,7 @@
+export * from "./addresses";
+export {revertReason} from "./errors";
+export * from "./releases";
+export * from "./quotes";
+export * from "./actions";
+export * from "./permit";
+export * from "./quoter";
@@ -0,0 +1,101 @@
+import {BigNumber, BigNumberish, Signature, Signer, utils} from "ethers";
+import {IERC20Metadata__factory, IERC20Permit__factory} from "../typechain";
+
+// Signer which can sign EIP-712 typed data, i.e. Wallet or JsonRpcSigner
+type TypedDataSigner = Signer & {
+  _signTypedData(
+    domain: {[key: string]: unknown},
+    types: {[type: string]: {name: string; type: string}[]},
+    value: {[key: string]: unknown}
+  ): Promise<string>;
+};
+
+export interface DaiPermit extends Signature {
+  nonce: BigNumber;
+  expiry: number;
+}
+
+async function signTypedData(
+  signer: Signer,
+  token: string,
+  version: string,
+  types: {[type: string]: {name: string; type: string}[]},
+  message: {[key: string]: unknown}
+): Promise<Signature> {
+  const domain = {
+    name: await IERC20Metadata__factory.connect(token, signer).name(),
+    version,
+    chainId: await signer.getChainId(),
+    verifyingContract: token,
+  };
+  return utils.splitSignature(await (signer as TypedDataSigner)._signTypedData(domain, types, message));
+}
+
+/**
+ * Sign EIP-2612 permit of given token, i.e. VUSD
+ *
+ * @param signer Token owner
+ * @param token Token address
+ * @param spender Address allowed to spend token
+ * @param value Token amount to permit
+ * @param deadline Permit deadline, unix timestamp in seconds
+ * @param version EIP-712 domain version of token, i.e. "2" for USDC
+ */
+export async function signPermit(
+  signer: Signer,
+  token: string,
+  spender: string,
+  value: BigNumberish,
+  deadline: number,
+  version = "1"
+): Promise<Signature> {
+  const owner = await signer.getAddress();
+  const nonce = await IERC20Permit__factory.connect(token, signer).nonces(owner);
+  const types = {
+    Permit: [
+      {name: "owner", type: "address"},
+      {name: "spender", type: "address"},
+      {name: "value", type: "uint256"},
+      {name: "nonce", type: "uint256"},
+      {name: "deadline", type: "uint256"},
+    ],
+  };
+  return signTypedData(signer, token, version, types, {owner, spender, value, nonce, deadline});
+}
+
+/**
+ * Sign DAI-style permit of given token, it allows max amount to spender.
+ *
+ * @param signer Token holder
+ * @param token Token address
+ * @param spender Address allowed to spend token
+ * @param expiry Permit expiry, unix timestamp in seconds
+ * @param version EIP-712 domain version of token
+ */
+export async function signDaiPermit(
+  signer: Signer,
+  token: string,
+  spender: string,
+  expiry: number,
+  version = "1"
+): Promise<DaiPermit> {
+  const holder = await signer.getAddress();
+  const nonce = await IERC20Permit__factory.connect(token, signer).nonces(holder);
+  const types = {
+    Permit: [
+      {name: "holder", type: "address"},
+      {name: "spender", type: "address"},
+      {name: "nonce", type: "uint256"},
+      {name: "expiry", type: "uint256"},
+      {name: "allowed", type: "bool"},
+    ],
+  };
+  const signature = await signTypedData(signer, token, version, types, {
+    holder,
+    spender,
+    nonce,
+    expiry,
+    allowed: true,
+  });
+  return {...signature, nonce, expiry};
+}
@@ -0,0 +1,92 @@
+import {BigNumber, BigNumberish, constants} from "ethers";
+import type {Quoter} from "../typechain";
+
+// Status of Quoter quote, index is the status code of Quoter contract
+export const quoterStatuses = [
+  "ok",
+  "stale",
+  "depegged",
+  "limit",
+  "insufficient-liquidity",
+  "paused",
+  "unsupported-token",
+] as const;
+
+export type QuoterStatus = typeof quoterStatuses[number];
+
+export interface QuoterQuote {
+  token: string;
+  // VUSD on mint and token on redeem, fee is in the same unit. Both are zero without fresh price within tolerance.
+  amountOut: BigNumber;
+  fee: BigNumber;
+  // Oracle router price with 18 decimals, zero if it is stale
+  price: BigNumber;
+  // Seconds since last update of primary feed of token
+  staleness: number;
+  status: QuoterStatus;
+}
+
+// Quote as returned by Quoter contract
+interface RawQuote {
+  token: string;
+  amountOut: BigNumber;
+  fee: BigNumber;
+  price: BigNumber;
+  staleness: BigNumber;
+  status: number;
+}
+
+/**
+ * Decode status code of Quoter contract.
+ */
+export function decodeQuoterStatus(code: number): QuoterStatus {
+  const status = quoterStatuses[code];
+  if (!status) {
+    throw new Error(`Unknown quoter status ${code}`);
+  }
+  return status;
+}
+
+/**
+ * Decode quote returned by Quoter contract.
+ */
+export function decodeQuoterQuote(quote: RawQuote): QuoterQuote {
+  return {
+    token: quote.token,
+    amountOut: quote.amountOut,
+    fee: quote.fee,
+    price: quote.price,
+    staleness: quote.staleness.toNumber(),
+    status: decodeQuoterStatus(quote.status),
+  };
+}
+
+/**
+ * Quote mint of each whitelisted token of Minter in one call.
+ *
+ * @param quoter Quoter contract
+ * @param amountIn Amount of each token to deposit with 18 decimals, Quoter scales it to decimals of token
+ * @param account Account which deposits, used for its rate limit. Default is a fresh account.
+ */
+export async function quoteMintAll(
+  quoter: Quoter,
+  amountIn: BigNumberish,
+  account = constants.AddressZero
+): Promise<QuoterQuote[]> {
+  return (await quoter.quoteMintAll(amountIn, account)).map(decodeQuoterQuote);
+}
+
+/**
+ * Quote redeem of given VUSD amount for each whitelisted token of Treasury in one call.
+ *
+ * @param quoter Quoter contract
+ * @param vusdAmount VUSD amount to burn for each token
+ * @param account Account which burns VUSD, used for its rate limit. Default is a fresh account.
+ */
+export async function quoteRedeemAll(
+  quoter: Quoter,
+  vusdAmount: BigNumberish,
+  account = constants.AddressZero
+): Promise<QuoterQuote[]> {
+  return (await quoter.quoteRedeemAll(vusdAmount, account)).map(decodeQuoterQuote);
+}
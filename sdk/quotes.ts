@@ -0,0 +1,154 @@
+import {BigNumber, BigNumberish, constants} from "ethers";
+import {ICircuitBreaker__factory, IERC20Metadata__factory, IRateLimiter__factory} from "../typechain";
+import type {IRateLimiter, Minter, Redeemer} from "../typechain";
+import type {VusdContracts} from "./addresses";
+import {revertReason} from "./errors";
+
+export type QuoteStatus =
+  | "ok"
+  | "unsupported-token"
+  | "paused"
+  | "stale-oracle"
+  | "invalid-oracle"
+  | "price-tolerance"
+  | "mint-limit"
+  | "rate-limit"
+  | "treasury-liquidity"
+  | "unknown";
+
+export interface Quote {
+  // Output amount, VUSD on mint and token on redeem. It is zero if status is not ok.
+  amountOut: BigNumber;
+  status: QuoteStatus;
+  // Revert reason reported by contract, if any
+  reason?: string;
+}
+
+// Revert reason => quote status
+const revertStatus: {[reason: string]: QuoteStatus} = {
+  "token-is-not-supported": "unsupported-token",
+  "token-has-no-feed": "unsupported-token",
+  "token-is-paused": "paused",
+  "oracle-price-is-stale": "stale-oracle",
+  "oracle-price-is-invalid": "invalid-oracle",
+  "oracle-round-is-incomplete": "invalid-oracle",
+  "oracle-feed-reverted": "invalid-oracle",
+  "oracle-feed-has-no-code": "invalid-oracle",
+  "oracle-price-exceed-tolerance": "price-tolerance",
+  "price-tolerance-exceeded": "price-tolerance",
+  "mint-limit-reached": "mint-limit",
+  "token-mint-limit-reached": "rate-limit",
+  "account-mint-limit-reached": "rate-limit",
+  "token-redeem-limit-reached": "rate-limit",
+  "account-redeem-limit-reached": "rate-limit",
+};
+
+function failedQuote(error: unknown): Quote {
+  const reason = revertReason(error);
+  if (!reason) {
+    throw error;
+  }
+  return {amountOut: BigNumber.from(0), status: revertStatus[reason] || "unknown", reason};
+}
+
+/**
+ * Whether circuit breaker of Minter or Redeemer paused given token. Release before circuit breaker is never paused.
+ */
+async function isPaused(contract: Minter | Redeemer, token: string): Promise<boolean> {
+  const circuitBreaker = await contract.circuitBreaker().catch(() => constants.AddressZero);
+  if (circuitBreaker === constants.AddressZero) {
+    return false;
+  }
+  return ICircuitBreaker__factory.connect(circuitBreaker, contract.provider).isPaused(token);
+}
+
+/**
+ * Rate limiter of Minter or Redeemer, if any. Release before rate limiter has none.
+ */
+async function rateLimiterOf(contract: Minter | Redeemer): Promise<IRateLimiter | undefined> {
+  const rateLimiter = await contract.rateLimiter().catch(() => constants.AddressZero);
+  if (rateLimiter === constants.AddressZero) {
+    return undefined;
+  }
+  return IRateLimiter__factory.connect(rateLimiter, contract.provider);
+}
+
+/**
+ * Quote VUSD mintage for given token amount and explain why mint would revert, if it would.
+ *
+ * @param contracts VUSD system contracts
+ * @param token Token to deposit
+ * @param amountIn Token amount to deposit, in token decimals
+ * @param account Account which deposits, used for its rate limit. Default is a fresh account.
+ */
+export async function quoteMint(
+  contracts: VusdContracts,
+  token: string,
+  amountIn: BigNumberish,
+  account = constants.AddressZero
+): Promise<Quote> {
+  const {minter} = contracts;
+  if (!(await minter.isWhitelistedToken(token))) {
+    return {amountOut: BigNumber.from(0), status: "unsupported-token"};
+  }
+  if (await isPaused(minter, token)) {
+    return {amountOut: BigNumber.from(0), status: "paused"};
+  }
+  let amountOut: BigNumber;
+  try {
+    amountOut = await minter.calculateMintage(token, amountIn);
+  } catch (error) {
+    return failedQuote(error);
+  }
+  const rateLimiter = await rateLimiterOf(minter);
+  if (rateLimiter && amountOut.gt(await rateLimiter.mintCapacity(token, account))) {
+    return {amountOut: BigNumber.from(0), status: "rate-limit"};
+  }
+  return {amountOut, status: "ok"};
+}
+
+/**
+ * Quote token amount for given VUSD amount and explain why redeem would revert, if it would.
+ *
+ * @param contracts VUSD system contracts
+ * @param token Token to redeem
+ * @param vusdAmount VUSD amount to burn
+ * @param account Account which burns VUSD, used for its rate limit. Default is a fresh account.
+ */
+export async function quoteRedeem(
+  contracts: VusdContracts,
+  token: string,
+  vusdAmount: BigNumberish,
+  account = constants.AddressZero
+): Promise<Quote> {
+  const {redeemer, treasury} = contracts;
+  if (!(await treasury.isWhitelistedToken(token))) {
+    return {amountOut: BigNumber.from(0), status: "unsupported-token"};
+  }
+  if (await isPaused(redeemer, token)) {
+    return {amountOut: BigNumber.from(0), status: "paused"};
+  }
+  const rateLimiter = await rateLimiterOf(redeemer);
+  if (rateLimiter && BigNumber.from(vusdAmount).gt(await rateLimiter.redeemCapacity(token, account))) {
+    return {amountOut: BigNumber.from(0), status: "rate-limit"};
+  }
+  let amountOut: BigNumber;
+  try {
+    amountOut = await redeemer["redeemable(address,uint256)"](token, vusdAmount);
+  } catch (error) {
+    return failedQuote(error);
+  }
+  // Redeemer reports zero, without revert, when treasury can not pay. Dust amount also rounds down to zero.
+  if (amountOut.isZero()) {
+    const decimals = await IERC20Metadata__factory.connect(token, redeemer.provider).decimals();
+    // Token may have fewer or more decimals than VUSD
+    const tokenAmount =
+      decimals > 18
+        ? BigNumber.from(vusdAmount).mul(BigNumber.from(10).pow(decimals - 18))
+        : BigNumber.from(vusdAmount).div(BigNumber.from(10).pow(18 - decimals));
+    if ((await redeemer["redeemable(address)"](token)).lt(tokenAmount)) {
+      return {amountOut, status: "treasury-liquidity"};
+    }
+  }
+  return {amountOut, status: "ok"};
+}
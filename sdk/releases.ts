@@ -0,0 +1,53 @@
+import release100 from "../releases/1.0.0/contracts.json";
+import release110 from "../releases/1.1.0/contracts.json";
+import release120 from "../releases/1.2.0/contracts.json";
+import release121 from "../releases/1.2.1/contracts.json";
+import release130 from "../releases/1.3.0/contracts.json";
+import release140 from "../releases/1.4.0/contracts.json";
+import release141 from "../releases/1.4.1/contracts.json";
+import release142 from "../releases/1.4.2/contracts.json";
+
+export interface ReleaseManifest {
+  version: string;
+  networks: {[network: string]: {[contract: string]: string}};
+}
+
+/**
+ * Release manifests shipped with SDK as JSON, see releases/<version>/contracts.json.
+ * Add manifest of a new release here, test/sdk.spec.ts fails otherwise.
+ */
+export const releases: {[version: string]: ReleaseManifest} = {
+  "1.0.0": release100,
+  "1.1.0": release110,
+  "1.2.0": release120,
+  "1.2.1": release121,
+  "1.3.0": release130,
+  "1.4.0": release140,
+  "1.4.1": release141,
+  "1.4.2": release142,
+};
+
+/**
+ * Compare two semver like versions i.e. 1.4.2
+ *
+ * @returns negative if a < b, positive if a > b and zero if both are same
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split(".").map(Number);
+  const right = b.split(".").map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Latest release shipped with SDK
+ */
+export function latestShippedRelease(): string {
+  const versions = Object.keys(releases).sort(compareVersions);
+  return versions[versions.length - 1];
+}
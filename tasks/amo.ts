@@ -0,0 +1,29 @@
+import {task, types} from "hardhat/config";
+import {formatAmoPlan, planAmo, runAmo} from "../scripts/amo";
+
+task("amo", "Mint VUSD into Curve metapool above peg or remove and burn it below peg, via CurveAMO")
+  .addOptionalParam("slippage", "Accepted slippage from quoted output, in BPS", 50, types.int)
+  .addOptionalParam("threshold", "Deviation of VUSD price from peg to act on, in BPS", 10, types.int)
+  .addOptionalParam("amo", "CurveAMO address, default is CurveAMO deployment", undefined, types.string)
+  .addOptionalParam("keeper", "Keeper address, default is keeper named account", undefined, types.string)
+  .addOptionalParam("block", "Fork block number of dry run, default is latest block", undefined, types.int)
+  .addFlag("dryRun", "Send operation on hardhat network fork as keeper and roll it back")
+  .setAction(async function ({slippage, threshold, amo, keeper, block, dryRun}, hre) {
+    const {ethers, network} = hre;
+    const forking = hre.config.networks.hardhat.forking;
+    if (dryRun && network.name === "hardhat" && forking) {
+      await network.provider.request({
+        method: "hardhat_reset",
+        params: [{forking: {jsonRpcUrl: forking.url, blockNumber: block}}],
+      });
+    }
+    const plan = await planAmo(hre, {slippage, threshold, amo, keeper});
+    if (!plan) {
+      console.log("VUSD is at peg, nothing to do");
+      return;
+    }
+    console.log(formatAmoPlan(hre, plan));
+    const result = await runAmo(hre, plan, dryRun);
+    const tx = result.txHash ? `, tx ${result.txHash}` : " (dry run)";
+    console.log(`Amount out ${ethers.utils.formatEther(result.amountOut)}, gas used ${result.gasUsed}${tx}`);
+  });
@@ -0,0 +1,16 @@
+import {task, types} from "hardhat/config";
+import {configureRelease, planConfiguration} from "../scripts/configure";
+
+task("configure", "Wire newly deployed Minter, Redeemer and Treasury with VUSD system")
+  .addOptionalParam("release", "Previous release version, default is latest release", undefined, types.string)
+  .addOptionalParam("keeper", "Keeper address to add in new treasury", undefined, types.string)
+  .addOptionalParam("output", "Governor batch file, used when deployer is not the governor", undefined, types.string)
+  .addFlag("dryRun", "Only print pending steps")
+  .setAction(async function ({release, keeper, output, dryRun}, hre) {
+    if (dryRun) {
+      const steps = await planConfiguration(hre, {release, keeper});
+      steps.forEach(step => console.log(`${step.id}(${step.args.join(",")}) on ${step.to}`));
+      return;
+    }
+    await configureRelease(hre, {release, keeper, output, verbose: hre.hardhatArguments.verbose});
+  });
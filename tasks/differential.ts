@@ -0,0 +1,46 @@
+import fs from "fs";
+import {task, types} from "hardhat/config";
+import {formatDifferentialReport, releaseSystem, runDifferential} from "../scripts/differential";
+import {latestRelease} from "../scripts/releases";
+
+task("differential", "Compare Minter, Redeemer and Treasury of this build with a release on fork")
+  .addOptionalParam("release", "Release to compare with, default is latest release", undefined, types.string)
+  .addOptionalParam("seed", "Seed of randomized operations", 1, types.int)
+  .addOptionalParam("count", "Number of randomized operations", 50, types.int)
+  .addOptionalParam(
+    "operations",
+    "Path of JSON file with operations to replay, i.e. a report",
+    undefined,
+    types.inputFile
+  )
+  .addOptionalParam("block", "Fork block number to compare at, default is latest block", undefined, types.int)
+  .addOptionalParam("gasTolerance", "Gas change to leave out of report, in BPS", 0, types.int)
+  .addOptionalParam("out", "Write report as JSON to this file, i.e. as CI artifact", undefined, types.string)
+  .addFlag("strict", "Fail if behaviour differs, gas differences do not fail")
+  .setAction(async function ({release, seed, count, operations, block, gasTolerance, out, strict}, hre) {
+    const {network} = hre;
+    const forking = hre.config.networks.hardhat.forking;
+    if (network.name !== "hardhat" || !forking) {
+      throw new Error("Run on forked hardhat network, release is compared on fork");
+    }
+    await network.provider.request({
+      method: "hardhat_reset",
+      params: [{forking: {jsonRpcUrl: forking.url, blockNumber: block}}],
+    });
+    const version = release || latestRelease();
+    const report = await runDifferential(hre, {
+      release: version,
+      baseline: await releaseSystem(hre, version),
+      seed,
+      count,
+      operations: operations ? JSON.parse(fs.readFileSync(operations, "utf8")).operations : undefined,
+      gasTolerance,
+    });
+    if (out) {
+      fs.writeFileSync(out, `${JSON.stringify(report, null, 2)}\n`);
+    }
+    console.log(formatDifferentialReport(report));
+    if (strict && report.differences.some((difference) => difference.kind !== "gas")) {
+      throw new Error(`Build behaves differently from release ${version}`);
+    }
+  });
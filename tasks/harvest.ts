@@ -0,0 +1,38 @@
+import {task, types} from "hardhat/config";
+import {formatHarvestPlan, planHarvest, runHarvest} from "../scripts/harvest";
+
+task("harvest", "Claim COMP of VUSD treasury and convert it to the token furthest below its target weight")
+  .addOptionalParam("slippage", "Accepted slippage from quoted output, in BPS", 50, types.int)
+  .addOptionalParam("ethPrice", "ETH price in USD, default is Chainlink ETH/USD feed", undefined, types.string)
+  .addOptionalParam("gasPrice", "Gas price in gwei, default is network gas price", undefined, types.string)
+  .addOptionalParam("keeper", "Keeper address, default is keeper named account", undefined, types.string)
+  .addOptionalParam("block", "Fork block number of dry run, default is latest block", undefined, types.int)
+  .addFlag("dryRun", "Claim on hardhat network fork as keeper and roll it back")
+  .setAction(async function ({slippage, ethPrice, gasPrice, keeper, block, dryRun}, hre) {
+    const {ethers, network} = hre;
+    const forking = hre.config.networks.hardhat.forking;
+    if (dryRun && network.name === "hardhat" && forking) {
+      await network.provider.request({
+        method: "hardhat_reset",
+        params: [{forking: {jsonRpcUrl: forking.url, blockNumber: block}}],
+      });
+    }
+    const plan = await planHarvest(hre, {
+      slippage,
+      keeper,
+      ethPrice: ethPrice ? ethers.utils.parseEther(ethPrice) : undefined,
+      gasPrice: gasPrice ? ethers.utils.parseUnits(gasPrice, "gwei") : undefined,
+    });
+    if (!plan) {
+      console.log("Nothing to harvest");
+      return;
+    }
+    console.log(formatHarvestPlan(hre, plan));
+    if (!plan.profitable) {
+      console.log("Skip, gas would cost more than the yield");
+      return;
+    }
+    const result = await runHarvest(hre, plan, dryRun);
+    const tx = result.txHash ? `, tx ${result.txHash}` : " (dry run)";
+    console.log(`Deposited ${result.amountOut}, gas used ${result.gasUsed}${tx}`);
+  });
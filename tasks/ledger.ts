@@ -0,0 +1,24 @@
+import {task, types} from "hardhat/config";
+import {createLedger, indexLedger, readLedger, writeLedger} from "../scripts/ledger";
+
+task("ledger", "Index mint, redeem and treasury events of VUSD into a ledger, resume from its checkpoint")
+  .addOptionalParam("out", "Ledger JSON file, CSV is written next to it", "ledger/ledger.json", types.string)
+  .addOptionalParam("fromBlock", "First block of new ledger, default is Minter deployment", undefined, types.int)
+  .addOptionalParam("toBlock", "Last block to index, default is latest block", undefined, types.int)
+  .addOptionalParam("batchSize", "Blocks per log query", 2000, types.int)
+  .setAction(async function ({out, fromBlock, toBlock, batchSize}, hre) {
+    const checkpoint = readLedger(out);
+    if (checkpoint && checkpoint.network !== hre.network.name) {
+      throw new Error(`Ledger ${out} is of ${checkpoint.network}, not of ${hre.network.name}`);
+    }
+    const ledger = checkpoint || (await createLedger(hre, fromBlock));
+    const indexed = ledger.entries.length;
+    console.log(`Indexing from block ${ledger.nextBlock}`);
+    await indexLedger(hre, ledger, {
+      toBlock,
+      batchSize,
+      onBatch: () => writeLedger(hre, ledger, out),
+    });
+    writeLedger(hre, ledger, out);
+    console.log(`Indexed ${ledger.entries.length - indexed} entries up to block ${ledger.nextBlock - 1}, see ${out}`);
+  });
@@ -0,0 +1,44 @@
+import {task, types} from "hardhat/config";
+import {networkSigner, planRebalance, simulateRebalance} from "../scripts/rebalance";
+
+task("rebalance", "Plan best rebalance of VUSD treasury, simulate it on fork and send it if asked")
+  .addOptionalParam("block", "Fork block number to plan at, default is latest block", undefined, types.int)
+  .addOptionalParam("rebalancer", "Rebalancer address, default is Rebalancer deployment", undefined, types.string)
+  .addOptionalParam("slippage", "Accepted slippage from quoted output, in BPS", 50, types.int)
+  .addOptionalParam("keeper", "Keeper to simulate with, default is keeper named account", undefined, types.string)
+  .addOptionalParam("send", "Network to send rebalance to after simulation, i.e. mainnet", undefined, types.string)
+  .setAction(async function ({block, rebalancer, slippage, keeper, send}, hre) {
+    const {ethers, network} = hre;
+    const forking = hre.config.networks.hardhat.forking;
+    if (network.name !== "hardhat" || !forking) {
+      throw new Error("Run on forked hardhat network, rebalance is simulated on fork before it is sent");
+    }
+    await network.provider.request({
+      method: "hardhat_reset",
+      params: [{forking: {jsonRpcUrl: forking.url, blockNumber: block}}],
+    });
+
+    const plan = await planRebalance(hre, {rebalancer, slippage});
+    if (!plan) {
+      console.log("Nothing to rebalance");
+      return;
+    }
+    const signer = send ? networkSigner(hre, send) : undefined;
+    const sender = signer ? await signer.getAddress() : keeper || (await hre.getNamedAccounts()).keeper;
+    const result = await simulateRebalance(hre, plan, sender);
+    console.log(
+      [
+        `Rebalance ${plan.fromToken} => ${plan.toToken}`,
+        `  amount: ${plan.amount}, value: $${ethers.utils.formatEther(plan.value)}`,
+        `  expected out: ${plan.expectedOut}, min out: ${plan.minOut}`,
+        `  simulated out: ${result.amountOut}, gas used: ${result.gasUsed}`,
+      ].join("\n")
+    );
+    if (!signer) {
+      return;
+    }
+    const rebalancerContract = await ethers.getContractAt("Rebalancer", plan.rebalancer, signer);
+    const tx = await rebalancerContract.rebalance(plan.fromToken, plan.toToken, plan.amount, plan.minOut);
+    console.log(`Sent rebalance to ${send}, tx ${tx.hash}`);
+    await tx.wait();
+  });
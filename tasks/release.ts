@@ -0,0 +1,29 @@
+import {task, types} from "hardhat/config";
+import {buildRelease, latestRelease, readRelease, verifyRelease, writeRelease} from "../scripts/releases";
+
+task("release", "Generate releases/<version>/contracts.json from deployments")
+  .addOptionalParam("release", "Release version, default is highest contract VERSION", undefined, types.string)
+  .addFlag("verify", "Verify release manifest against chain instead of generating it")
+  .addOptionalParam("block", "Fork block number to verify at, hardhat network only", undefined, types.int)
+  .setAction(async function ({release, verify, block}, hre) {
+    if (!verify) {
+      const manifest = await buildRelease(hre, release);
+      console.log(`Release ${manifest.version} written to ${writeRelease(manifest)}`);
+      return;
+    }
+
+    const forking = hre.config.networks.hardhat.forking;
+    if (hre.network.name === "hardhat" && forking) {
+      await hre.network.provider.request({
+        method: "hardhat_reset",
+        params: [{forking: {jsonRpcUrl: forking.url, blockNumber: block || forking.blockNumber}}],
+      });
+    }
+    const manifest = readRelease(release || latestRelease());
+    const failures = await verifyRelease(hre, manifest);
+    if (failures.length > 0) {
+      failures.forEach((failure) => console.log(failure));
+      throw new Error(`Release ${manifest.version} does not match chain state`);
+    }
+    console.log(`Release ${manifest.version} matches chain state`);
+  });
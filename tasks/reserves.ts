@@ -0,0 +1,21 @@
+import {task, types} from "hardhat/config";
+import {formatReport, reservesReport} from "../scripts/reserves";
+
+task("reserves", "Print proof of reserves of VUSD treasury")
+  .addOptionalParam("block", "Fork block number to report at, hardhat network only", undefined, types.int)
+  .addOptionalParam("treasury", "Treasury address, default is treasury of VUSD", undefined, types.string)
+  .addFlag("json", "Print report as JSON")
+  .setAction(async function ({block, treasury, json}, hre) {
+    const forking = hre.config.networks.hardhat.forking;
+    if (hre.network.name === "hardhat" && forking) {
+      await hre.network.provider.request({
+        method: "hardhat_reset",
+        params: [{forking: {jsonRpcUrl: forking.url, blockNumber: block || forking.blockNumber}}],
+      });
+    }
+    const report = await reservesReport(hre, treasury);
+    // BigNumber serializes as {type, hex}, print it as decimal string
+    const replacer = (key: string, value: {type?: string; hex?: string}) =>
+      value && value.type === "BigNumber" ? hre.ethers.BigNumber.from(value.hex).toString() : value;
+    console.log(json ? JSON.stringify(report, replacer, 2) : formatReport(hre, report));
+  });
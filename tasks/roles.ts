@@ -0,0 +1,10 @@
+import {task, types} from "hardhat/config";
+import {formatRolesReport, rolesReport} from "../scripts/roles";
+
+task("roles", "Print holders of each role of VUSD system")
+  .addOptionalParam("registry", "Role registry address, default is RoleRegistry deployment", undefined, types.string)
+  .addFlag("json", "Print report as JSON")
+  .setAction(async function ({registry, json}, hre) {
+    const report = await rolesReport(hre, registry);
+    console.log(json ? JSON.stringify(report, null, 2) : formatRolesReport(report));
+  });
@@ -0,0 +1,24 @@
+import fs from "fs";
+import {task, types} from "hardhat/config";
+import {formatSimulationReport, simulate} from "../scripts/simulate";
+
+task("simulate", "Simulate parameter changes, price overrides, mints and redeems of VUSD on fork")
+  .addParam("scenario", "Path of scenario JSON file, see Scenario in scripts/simulate", undefined, types.inputFile)
+  .addOptionalParam("block", "Fork block number to simulate at, default is latest block", undefined, types.int)
+  .addFlag("json", "Print report as JSON")
+  .setAction(async function ({scenario, block, json}, hre) {
+    const {network} = hre;
+    const forking = hre.config.networks.hardhat.forking;
+    if (network.name !== "hardhat" || !forking) {
+      throw new Error("Run on forked hardhat network, scenario is simulated on fork");
+    }
+    await network.provider.request({
+      method: "hardhat_reset",
+      params: [{forking: {jsonRpcUrl: forking.url, blockNumber: block}}],
+    });
+    const report = await simulate(hre, JSON.parse(fs.readFileSync(scenario, "utf8")));
+    // BigNumber serializes as {type, hex}, print it as decimal string
+    const replacer = (key: string, value: {type?: string; hex?: string}) =>
+      value && value.type === "BigNumber" ? hre.ethers.BigNumber.from(value.hex).toString() : value;
+    console.log(json ? JSON.stringify(report, replacer, 2) : formatSimulationReport(hre, report));
+  });
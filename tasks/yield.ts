@@ -0,0 +1,29 @@
+import {task, types} from "hardhat/config";
+import {formatYieldPlan, planYield, runYield} from "../scripts/yield";
+
+task("harvest-yield", "Distribute yield of VUSD treasury to savings vault holders, within collateralization floor")
+  .addOptionalParam("share", "Part of available yield to distribute, in BPS", 10_000, types.int)
+  .addOptionalParam("minAmount", "Skip distribution below this VUSD amount", "0", types.string)
+  .addOptionalParam("vault", "SavingsVault address, default is SavingsVault deployment", undefined, types.string)
+  .addOptionalParam("keeper", "Keeper address, default is keeper named account", undefined, types.string)
+  .addOptionalParam("block", "Fork block number of dry run, default is latest block", undefined, types.int)
+  .addFlag("dryRun", "Distribute on hardhat network fork as keeper and roll it back")
+  .setAction(async function ({share, minAmount, vault, keeper, block, dryRun}, hre) {
+    const {ethers, network} = hre;
+    const forking = hre.config.networks.hardhat.forking;
+    if (dryRun && network.name === "hardhat" && forking) {
+      await network.provider.request({
+        method: "hardhat_reset",
+        params: [{forking: {jsonRpcUrl: forking.url, blockNumber: block}}],
+      });
+    }
+    const plan = await planYield(hre, {share, vault, keeper, minAmount: ethers.utils.parseEther(minAmount)});
+    if (!plan) {
+      console.log("No yield to distribute");
+      return;
+    }
+    console.log(formatYieldPlan(hre, plan));
+    const result = await runYield(hre, plan, dryRun);
+    const tx = result.txHash ? `, tx ${result.txHash}` : " (dry run)";
+    console.log(`Locked yield ${ethers.utils.formatEther(result.lockedYield)}, gas used ${result.gasUsed}${tx}`);
+  });
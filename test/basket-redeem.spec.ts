@@ -0,0 +1,167 @@
+import hre from "hardhat";
+import {expect} from "chai";
+import {BigNumber} from "ethers";
+import {SignerWithAddress} from "@nomiclabs/hardhat-ethers/signers";
+import {
+  CircuitBreaker__factory,
+  MockStablecoin,
+  MockStablecoin__factory,
+  Redeemer,
+  Redeemer__factory,
+  Treasury,
+  Treasury__factory,
+  VUSD,
+  VUSD__factory,
+} from "../typechain";
+import {contractAt, isMockNetwork, mintVUSD, setupNetwork} from "./utils/setup";
+
+const {deployments, ethers} = hre;
+
+describe("Basket redeem", async function () {
+  let redeemer: Redeemer, treasury: Treasury, vusd: VUSD;
+  let dai: MockStablecoin, usdc: MockStablecoin, usdt: MockStablecoin;
+  let user: SignerWithAddress;
+
+  async function balancesOf(tokens: MockStablecoin[]): Promise<BigNumber[]> {
+    return Promise.all(tokens.map((token) => token.balanceOf(user.address)));
+  }
+
+  before(async function () {
+    // Whole stack is deployed only on network with mocks
+    await setupNetwork();
+    if (!isMockNetwork()) {
+      this.skip();
+    }
+  });
+
+  beforeEach(async function () {
+    await deployments.fixture();
+    [, , , user] = await ethers.getSigners();
+    redeemer = await contractAt(Redeemer__factory, "Redeemer");
+    treasury = await contractAt(Treasury__factory, "Treasury");
+    vusd = await contractAt(VUSD__factory, "VUSD");
+    dai = await contractAt(MockStablecoin__factory, "DAI");
+    usdc = await contractAt(MockStablecoin__factory, "USDC");
+    usdt = await contractAt(MockStablecoin__factory, "USDT");
+    await mintVUSD(dai, user, "100");
+    await mintVUSD(usdc, user, "200");
+    await mintVUSD(usdt, user, "300");
+    await vusd.connect(user).approve(redeemer.address, ethers.constants.MaxUint256);
+  });
+
+  context("Redeem multi", function () {
+    const vusdAmounts = [ethers.utils.parseEther("50"), ethers.utils.parseEther("100")];
+
+    it("Should redeem given tokens with one burn", async function () {
+      const tokens = [dai.address, usdc.address];
+      const amountsOut = await redeemer.redeemableMulti(tokens, vusdAmounts);
+      expect(amountsOut[0]).to.gt(0, "DAI payout should be quoted");
+      expect(amountsOut[1]).to.gt(0, "USDC payout should be quoted");
+      const vusdBefore = await vusd.balanceOf(user.address);
+
+      const tx = await redeemer.connect(user).redeemMulti(tokens, vusdAmounts, amountsOut, user.address);
+      const burns = (await tx.wait()).events?.filter(
+        (event) => event.address === vusd.address && event.topics[2] === ethers.constants.HashZero
+      );
+      expect(burns?.length).to.eq(1, "VUSD should be burnt once");
+      expect(await vusd.balanceOf(user.address)).to.eq(vusdBefore.sub(ethers.utils.parseEther("150")));
+      expect(await balancesOf([dai, usdc])).to.deep.eq(amountsOut, "Wrong payout");
+    });
+
+    it("Should revert if any payout is less than minimum", async function () {
+      const tokens = [dai.address, usdc.address];
+      const amountsOut = await redeemer.redeemableMulti(tokens, vusdAmounts);
+      const tx = redeemer
+        .connect(user)
+        .redeemMulti(tokens, vusdAmounts, [amountsOut[0], amountsOut[1].add(1)], user.address);
+      await expect(tx).to.be.revertedWith("redeemable-amount-is-less-than-minimum");
+    });
+
+    it("Should revert if input length mismatch", async function () {
+      const tx = redeemer.connect(user).redeemMulti([dai.address], vusdAmounts, [0, 0], user.address);
+      await expect(tx).to.be.revertedWith("input-length-mismatch");
+      const minMismatch = redeemer
+        .connect(user)
+        .redeemMulti([dai.address, usdc.address], vusdAmounts, [0], user.address);
+      await expect(minMismatch).to.be.revertedWith("input-length-mismatch");
+    });
+
+    it("Should skip token with zero payout without burning its VUSD", async function () {
+      // 0.1 micro VUSD is less than 1 unit of USDC
+      const amounts = [ethers.utils.parseEther("50"), 100_000_000_000];
+      const tokens = [dai.address, usdc.address];
+      const vusdBefore = await vusd.balanceOf(user.address);
+      const tx = redeemer.connect(user).redeemMulti(tokens, amounts, [0, 1], user.address);
+      await expect(tx).to.be.revertedWith("redeemable-amount-is-less-than-minimum");
+
+      const receipt = await (await redeemer.connect(user).redeemMulti(tokens, amounts, [0, 0], user.address)).wait();
+      const redeems = receipt.events?.filter((event) => event.event === "Redeem");
+      expect(redeems?.map((event) => event.args?.tokenOut)).to.deep.eq([dai.address], "Only DAI should be redeemed");
+      expect(await vusd.balanceOf(user.address)).to.eq(vusdBefore.sub(amounts[0]), "Only DAI VUSD should be burnt");
+      expect(await usdc.balanceOf(user.address)).to.eq(0, "USDC should not be paid");
+      const dust = redeemer.connect(user).redeemMulti([usdc.address], [amounts[1]], [0], user.address);
+      await expect(dust).to.be.revertedWith("vusd-amount-is-zero");
+    });
+
+    it("Should quote zero for token treasury can not pay", async function () {
+      const amounts = [ethers.utils.parseEther("50"), ethers.utils.parseEther("1000")];
+      const amountsOut = await redeemer.redeemableMulti([dai.address, usdc.address], amounts);
+      expect(amountsOut[0]).to.gt(0, "DAI payout should be quoted");
+      expect(amountsOut[1]).to.eq(0, "USDC payout should be zero");
+    });
+  });
+
+  context("Redeem basket", function () {
+    const vusdAmount = ethers.utils.parseEther("300");
+
+    it("Should quote payout in proportion to treasury holdings", async function () {
+      const [tokens, amountsOut] = await redeemer.redeemableBasket(vusdAmount);
+      expect(tokens).to.deep.eq(await treasury.whitelistedTokens(), "Wrong tokens");
+      // Treasury holds 100 DAI, 200 USDC and 300 USDT, fee is charged on each payout
+      const fee = await redeemer.redeemFee();
+      const expected = ["50", "100", "150"].map((amount) => ethers.utils.parseEther(amount));
+      for (let i = 0; i < tokens.length; i++) {
+        const decimals = await (await ethers.getContractAt("ERC20", tokens[i])).decimals();
+        const expectedOut = expected[i]
+          .sub(expected[i].mul(fee).div(10_000))
+          .div(BigNumber.from(10).pow(18 - decimals));
+        const diff = amountsOut[i].sub(expectedOut).abs();
+        expect(diff).to.lte(expectedOut.div(1000), "Wrong payout");
+      }
+    });
+
+    it("Should redeem all tokens and burn exact VUSD amount", async function () {
+      const [, amountsOut] = await redeemer.redeemableBasket(vusdAmount);
+      const vusdBefore = await vusd.balanceOf(user.address);
+      await redeemer.connect(user).redeemBasket(vusdAmount, amountsOut, user.address);
+      expect(await vusd.balanceOf(user.address)).to.eq(vusdBefore.sub(vusdAmount), "Wrong VUSD burnt");
+      expect(await balancesOf([dai, usdc, usdt])).to.deep.eq(amountsOut, "Wrong payout");
+    });
+
+    it("Should skip tokens with zero payout without burning their VUSD", async function () {
+      // 1 micro VUSD pays some DAI but less than 1 unit of USDC and USDT
+      const dust = BigNumber.from(1_000_000_000_000);
+      const [, amountsOut] = await redeemer.redeemableBasket(dust);
+      expect(amountsOut[0]).to.gt(0, "DAI payout should be quoted");
+      expect(amountsOut.slice(1)).to.deep.eq([BigNumber.from(0), BigNumber.from(0)], "Wrong payout");
+      const vusdBefore = await vusd.balanceOf(user.address);
+      await redeemer.connect(user).redeemBasket(dust, amountsOut, user.address);
+      // Treasury holds 100 of 600 USD in DAI
+      const burnt = vusdBefore.sub(await vusd.balanceOf(user.address));
+      expect(burnt).to.eq(dust.mul(100).div(600), "Only VUSD of DAI should be burnt");
+      expect(await balancesOf([dai, usdc, usdt])).to.deep.eq(amountsOut, "Wrong payout");
+    });
+
+    it("Should revert if minimum amounts do not match tokens", async function () {
+      const tx = redeemer.connect(user).redeemBasket(vusdAmount, [0, 0], user.address);
+      await expect(tx).to.be.revertedWith("input-length-mismatch");
+    });
+
+    it("Should revert if any token of basket is paused", async function () {
+      const circuitBreaker = await contractAt(CircuitBreaker__factory, "CircuitBreaker");
+      await circuitBreaker["pause(address)"](usdt.address);
+      const tx = redeemer.connect(user).redeemBasket(vusdAmount, [0, 0, 0], user.address);
+      await expect(tx).to.be.revertedWith("token-is-paused");
+    });
+  });
+});
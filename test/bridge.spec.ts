@@ -0,0 +1,217 @@
+import hre from "hardhat";
+import {expect} from "chai";
+import {SignerWithAddress} from "@nomiclabs/hardhat-ethers/signers";
+import {
+  BridgeAdapter,
+  BridgeAdapter__factory,
+  Minter,
+  Minter__factory,
+  MockMessageEndpoint,
+  MockMessageEndpoint__factory,
+  MockStablecoin,
+  MockStablecoin__factory,
+  Treasury__factory,
+  VUSD,
+  VUSD__factory,
+} from "../typechain";
+import {deploySatellite} from "../scripts/satellite";
+import {contractAt, isMockNetwork, mintVUSD, setupNetwork} from "./utils/setup";
+
+const {deployments, ethers} = hre;
+const {parseEther} = ethers.utils;
+const SATELLITE_CHAIN_ID = 10;
+
+describe("Bridge adapter", async function () {
+  let homeAdapter: BridgeAdapter, satelliteAdapter: BridgeAdapter, homeEndpoint: MockMessageEndpoint;
+  let minter: Minter, vusd: VUSD, satelliteVUSD: VUSD, usdc: MockStablecoin;
+  let governor: SignerWithAddress, user: SignerWithAddress, alice: SignerWithAddress, bob: SignerWithAddress;
+  let homeChainId: number;
+
+  // Bridge VUSD of user from home chain to alice on satellite chain
+  async function bridgeOut(amount: string) {
+    await vusd.connect(user).approve(homeAdapter.address, parseEther(amount));
+    return homeAdapter.connect(user).bridge(SATELLITE_CHAIN_ID, alice.address, parseEther(amount));
+  }
+
+  before(async function () {
+    // Whole stack is deployed only on network with mocks
+    await setupNetwork();
+    if (!isMockNetwork()) {
+      this.skip();
+    }
+  });
+
+  beforeEach(async function () {
+    await deployments.fixture();
+    [governor, , , user, alice, bob] = await ethers.getSigners();
+    homeChainId = Number(await hre.getChainId());
+    homeAdapter = await contractAt(BridgeAdapter__factory, "BridgeAdapter");
+    homeEndpoint = await contractAt(MockMessageEndpoint__factory, "MessageEndpoint");
+    minter = await contractAt(Minter__factory, "Minter");
+    vusd = await contractAt(VUSD__factory, "VUSD");
+    usdc = await contractAt(MockStablecoin__factory, "USDC");
+
+    // Satellite chain lives on the same network, with its own endpoint
+    const endpointFactory = await ethers.getContractFactory("MockMessageEndpoint");
+    const satelliteEndpoint = (await endpointFactory.deploy(SATELLITE_CHAIN_ID)) as MockMessageEndpoint;
+    await homeEndpoint.updateRemote(SATELLITE_CHAIN_ID, satelliteEndpoint.address);
+    await satelliteEndpoint.updateRemote(homeChainId, homeEndpoint.address);
+    const satellite = await deploySatellite(hre, {
+      name: "satellite",
+      homeChainId,
+      homeBridgeAdapter: homeAdapter.address,
+      messageEndpoint: satelliteEndpoint.address,
+      mintCeiling: "1000",
+    });
+    satelliteAdapter = (await ethers.getContractAt("BridgeAdapter", satellite.bridgeAdapter)) as BridgeAdapter;
+    satelliteVUSD = (await ethers.getContractAt("VUSD", satellite.vusd)) as VUSD;
+    await homeAdapter.updatePeer(SATELLITE_CHAIN_ID, satelliteAdapter.address);
+  });
+
+  context("Deployment", function () {
+    it("Should be wired with Minter of home chain", async function () {
+      expect(await minter.bridge()).to.eq(homeAdapter.address, "Wrong bridge in minter");
+      expect(await homeAdapter.mintCeiling(SATELLITE_CHAIN_ID)).to.eq(0, "Home should only mint what it burnt");
+      await expect(minter.mintBridged(alice.address, 1)).to.be.revertedWith("caller-is-not-the-bridge");
+    });
+
+    it("Should deploy satellite VUSD minted by its adapter", async function () {
+      expect(await satelliteVUSD.minter()).to.eq(satelliteAdapter.address, "Wrong minter of satellite VUSD");
+      expect(await satelliteAdapter.peers(homeChainId)).to.eq(homeAdapter.address, "Wrong peer of satellite");
+      expect(await satelliteAdapter.mintCeiling(homeChainId)).to.eq(parseEther("1000"), "Wrong mint ceiling");
+      const satelliteEndpoint = await satelliteAdapter.endpoint();
+      const again = await deploySatellite(hre, {
+        name: "satellite",
+        homeChainId,
+        homeBridgeAdapter: homeAdapter.address,
+        messageEndpoint: satelliteEndpoint,
+        mintCeiling: "1000",
+      });
+      expect(again.bridgeAdapter).to.eq(satelliteAdapter.address, "Deploy should be idempotent");
+      // Satellite chain id is the id of test network, hence only adapter is checked
+      expect(again.homeSteps[0]).to.contain(`${satelliteAdapter.address}) on BridgeAdapter`, "Wrong home step");
+    });
+
+    it("Should revert if caller is not governor or value is same", async function () {
+      const tx = homeAdapter.connect(alice).updatePeer(SATELLITE_CHAIN_ID, alice.address);
+      await expect(tx).to.be.revertedWith("caller-is-not-the-governor");
+      const ceilingTx = homeAdapter.connect(alice).updateMintCeiling(SATELLITE_CHAIN_ID, 1);
+      await expect(ceilingTx).to.be.revertedWith("caller-is-not-the-governor");
+      const samePeer = homeAdapter.updatePeer(SATELLITE_CHAIN_ID, satelliteAdapter.address);
+      await expect(samePeer).to.be.revertedWith("same-peer");
+      await expect(homeAdapter.updateMintCeiling(SATELLITE_CHAIN_ID, 0)).to.be.revertedWith("same-mint-ceiling");
+    });
+  });
+
+  context("Bridge", function () {
+    it("Should burn on home chain and mint on satellite chain", async function () {
+      await mintVUSD(usdc, user, "500");
+      const supply = await vusd.totalSupply();
+      const tx = await bridgeOut("300");
+      await expect(tx)
+        .to.emit(homeAdapter, "BridgeSent")
+        .withArgs(SATELLITE_CHAIN_ID, user.address, alice.address, parseEther("300"));
+      await expect(tx)
+        .to.emit(satelliteAdapter, "BridgeReceived")
+        .withArgs(homeChainId, alice.address, parseEther("300"));
+      expect(await vusd.totalSupply()).to.eq(supply.sub(parseEther("300")), "VUSD should be burnt on home");
+      expect(await satelliteVUSD.balanceOf(alice.address)).to.eq(parseEther("300"), "Wrong VUSD on satellite");
+      expect(await homeAdapter.outbound(SATELLITE_CHAIN_ID)).to.eq(parseEther("300"), "Wrong outbound");
+      expect(await satelliteAdapter.inbound(homeChainId)).to.eq(parseEther("300"), "Wrong inbound");
+      expect(await satelliteAdapter.availableToMint(homeChainId)).to.eq(parseEther("700"), "Wrong available");
+    });
+
+    it("Should burn on satellite chain and mint on home chain via Minter", async function () {
+      await mintVUSD(usdc, user, "500");
+      await bridgeOut("300");
+      await satelliteVUSD.connect(alice).approve(satelliteAdapter.address, parseEther("100"));
+      await satelliteAdapter.connect(alice).bridge(homeChainId, bob.address, parseEther("100"));
+      expect(await vusd.balanceOf(bob.address)).to.eq(parseEther("100"), "Wrong VUSD on home");
+      expect(await satelliteVUSD.totalSupply()).to.eq(parseEther("200"), "Wrong supply on satellite");
+      expect(await homeAdapter.inbound(SATELLITE_CHAIN_ID)).to.eq(parseEther("100"), "Wrong inbound of home");
+      expect(await satelliteAdapter.outbound(homeChainId)).to.eq(parseEther("100"), "Wrong outbound of satellite");
+      expect(await homeAdapter.availableToMint(SATELLITE_CHAIN_ID)).to.eq(parseEther("200"), "Wrong home available");
+      expect(await satelliteAdapter.availableToMint(homeChainId)).to.eq(parseEther("800"), "Wrong available");
+    });
+
+    it("Should cap satellite supply by its mint ceiling", async function () {
+      await mintVUSD(usdc, user, "1500");
+      await expect(bridgeOut("1001")).to.be.revertedWith("mint-ceiling-reached");
+      await bridgeOut("1000");
+      await expect(bridgeOut("1")).to.be.revertedWith("mint-ceiling-reached");
+    });
+
+    it("Should not mint on home chain more than it burnt toward satellite", async function () {
+      await mintVUSD(usdc, user, "500");
+      await bridgeOut("300");
+      // Satellite VUSD minted outside of bridge, i.e. by a compromised satellite
+      await satelliteVUSD.updateMinter(governor.address);
+      await satelliteVUSD.mint(alice.address, parseEther("1000"));
+      await satelliteVUSD.connect(alice).approve(satelliteAdapter.address, parseEther("1300"));
+      const tx = satelliteAdapter.connect(alice).bridge(homeChainId, bob.address, parseEther("301"));
+      await expect(tx).to.be.revertedWith("mint-ceiling-reached");
+      await satelliteAdapter.connect(alice).bridge(homeChainId, bob.address, parseEther("300"));
+      expect(await vusd.balanceOf(bob.address)).to.eq(parseEther("300"), "Wrong VUSD on home");
+    });
+
+    it("Should count VUSD bridged to other chains in supply of Minter", async function () {
+      const treasury = await contractAt(Treasury__factory, "Treasury");
+      await mintVUSD(usdc, user, "500");
+      const [, , ratio] = await treasury.reserves();
+      const available = await minter.availableMintage();
+      await bridgeOut("300");
+      expect(await homeAdapter.netOutbound()).to.eq(parseEther("300"), "Wrong net outbound");
+      expect(await minter.backedSupply()).to.eq(parseEther("500"), "Bridged VUSD should be backed supply");
+      expect(await minter.availableMintage()).to.eq(available, "Bridge should not free up mintage");
+      expect((await treasury.reserves())._collateralizationRatio).to.eq(ratio, "Ratio should not change");
+
+      // VUSD returning from satellite does not add to VUSD of all chains, it is capped only above mint limit
+      await minter.updateMaxMintAmount(parseEther("500"));
+      await satelliteVUSD.connect(alice).approve(satelliteAdapter.address, parseEther("300"));
+      await satelliteAdapter.connect(alice).bridge(homeChainId, bob.address, parseEther("100"));
+      expect(await homeAdapter.netOutbound()).to.eq(parseEther("200"), "Wrong net outbound");
+      await minter.updateMaxMintAmount(parseEther("499"));
+      const tx = satelliteAdapter.connect(alice).bridge(homeChainId, bob.address, parseEther("100"));
+      await expect(tx).to.be.revertedWith("mint-limit-reached");
+    });
+
+    it("Should accept messages only from endpoint and peer", async function () {
+      const payload = ethers.utils.defaultAbiCoder.encode(["address", "uint256"], [alice.address, 1]);
+      const tx = homeAdapter.receiveMessage(SATELLITE_CHAIN_ID, satelliteAdapter.address, payload);
+      await expect(tx).to.be.revertedWith("caller-is-not-the-endpoint");
+
+      // Adapter on satellite chain which home chain does not trust
+      const adapterFactory = await ethers.getContractFactory("BridgeAdapter");
+      const satelliteEndpoint = await satelliteAdapter.endpoint();
+      const rogue = (await adapterFactory.deploy(satelliteVUSD.address, satelliteEndpoint)) as BridgeAdapter;
+      await rogue.updatePeer(homeChainId, homeAdapter.address);
+      await mintVUSD(usdc, user, "500");
+      await bridgeOut("300");
+      await satelliteVUSD.connect(alice).approve(rogue.address, parseEther("100"));
+      const rogueTx = rogue.connect(alice).bridge(homeChainId, bob.address, parseEther("100"));
+      await expect(rogueTx).to.be.revertedWith("sender-is-not-a-peer");
+    });
+
+    it("Should revert if chain is not supported or amount is zero", async function () {
+      await mintVUSD(usdc, user, "500");
+      await vusd.connect(user).approve(homeAdapter.address, parseEther("500"));
+      const unsupported = homeAdapter.connect(user).bridge(5, alice.address, parseEther("1"));
+      await expect(unsupported).to.be.revertedWith("chain-is-not-supported");
+      const zero = homeAdapter.connect(user).bridge(SATELLITE_CHAIN_ID, alice.address, 0);
+      await expect(zero).to.be.revertedWith("amount-is-zero");
+    });
+
+    it("Should pay message fee of endpoint", async function () {
+      await homeEndpoint.updateFee(parseEther("0.01"));
+      await mintVUSD(usdc, user, "500");
+      expect(await homeAdapter.bridgeFee(SATELLITE_CHAIN_ID, alice.address, parseEther("100"))).to.eq(
+        parseEther("0.01"),
+        "Wrong bridge fee"
+      );
+      await expect(bridgeOut("100")).to.be.revertedWith("fee-is-too-low");
+      const value = parseEther("0.01");
+      await homeAdapter.connect(user).bridge(SATELLITE_CHAIN_ID, alice.address, parseEther("100"), {value});
+      expect(await satelliteVUSD.balanceOf(alice.address)).to.eq(parseEther("100"), "Wrong VUSD on satellite");
+    });
+  });
+});
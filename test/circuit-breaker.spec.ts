@@ -0,0 +1,216 @@
+import hre from "hardhat";
+import {expect} from "chai";
+import {SignerWithAddress} from "@nomiclabs/hardhat-ethers/signers";
+import {
+  CircuitBreaker,
+  CircuitBreaker__factory,
+  Minter,
+  Minter__factory,
+  MockChainlinkOracle,
+  MockChainlinkOracle__factory,
+  MockStablecoin,
+  MockStablecoin__factory,
+  Redeemer,
+  Redeemer__factory,
+  RoleRegistry__factory,
+  VUSD,
+  VUSD__factory,
+} from "../typechain";
+import {contractAt, isMockNetwork, mintVUSD, setupNetwork} from "./utils/setup";
+
+const {deployments, ethers} = hre;
+const ZERO_ADDRESS = ethers.constants.AddressZero;
+
+describe("Circuit breaker", async function () {
+  let circuitBreaker: CircuitBreaker, minter: Minter, redeemer: Redeemer, vusd: VUSD;
+  let usdc: MockStablecoin, dai: MockStablecoin, usdcOracle: MockChainlinkOracle;
+  let governor: SignerWithAddress, guardian: SignerWithAddress, user: SignerWithAddress;
+
+  before(async function () {
+    // Oracle price can be changed only on network with mocks
+    await setupNetwork();
+    if (!isMockNetwork()) {
+      this.skip();
+    }
+  });
+
+  beforeEach(async function () {
+    await deployments.fixture();
+    [governor, , , user, guardian] = await ethers.getSigners();
+    circuitBreaker = await contractAt(CircuitBreaker__factory, "CircuitBreaker");
+    minter = await contractAt(Minter__factory, "Minter");
+    redeemer = await contractAt(Redeemer__factory, "Redeemer");
+    vusd = await contractAt(VUSD__factory, "VUSD");
+    usdc = await contractAt(MockStablecoin__factory, "USDC");
+    dai = await contractAt(MockStablecoin__factory, "DAI");
+    usdcOracle = await contractAt(MockChainlinkOracle__factory, "USDC_USD");
+    const roleRegistry = await contractAt(RoleRegistry__factory, "RoleRegistry");
+    await roleRegistry.grantRole(await roleRegistry.GUARDIAN_ROLE(), guardian.address);
+  });
+
+  it("Should be wired with Minter and Redeemer", async function () {
+    expect(await minter.circuitBreaker()).to.eq(circuitBreaker.address, "Wrong circuit breaker in minter");
+    expect(await redeemer.circuitBreaker()).to.eq(circuitBreaker.address, "Wrong circuit breaker in redeemer");
+  });
+
+  context("Role registry", function () {
+    it("Should revert if caller is not governor", async function () {
+      const tx = circuitBreaker.connect(user).updateRoleRegistry(user.address);
+      await expect(tx).to.be.revertedWith("caller-is-not-the-governor");
+    });
+
+    it("Should leave pause to governor only without registry", async function () {
+      const roleRegistry = await circuitBreaker.roleRegistry();
+      await expect(circuitBreaker.updateRoleRegistry(ZERO_ADDRESS))
+        .to.emit(circuitBreaker, "UpdatedRoleRegistry")
+        .withArgs(roleRegistry, ZERO_ADDRESS);
+      await expect(circuitBreaker.connect(guardian)["pause()"]()).to.be.revertedWith("caller-is-not-authorized");
+      await expect(circuitBreaker.updateRoleRegistry(ZERO_ADDRESS)).to.be.revertedWith("same-role-registry");
+    });
+  });
+
+  context("Pause", function () {
+    it("Should revert if caller is not guardian or governor", async function () {
+      await expect(circuitBreaker.connect(user)["pause()"]()).to.be.revertedWith("caller-is-not-authorized");
+      const tx = circuitBreaker.connect(user)["pause(address)"](usdc.address);
+      await expect(tx).to.be.revertedWith("caller-is-not-authorized");
+    });
+
+    it("Should pause mint and redeem of all tokens", async function () {
+      await mintVUSD(usdc, user, "100");
+      const guardianCircuitBreaker = circuitBreaker.connect(guardian);
+      const tx = guardianCircuitBreaker["pause()"]();
+      await expect(tx).to.emit(circuitBreaker, "Paused").withArgs(ZERO_ADDRESS, guardian.address);
+      expect(await circuitBreaker.isPaused(dai.address)).to.eq(true, "DAI should be paused");
+      await expect(mintVUSD(dai, user, "100")).to.be.revertedWith("token-is-paused");
+      await vusd.connect(user).approve(redeemer.address, ethers.constants.MaxUint256);
+      const redeem = redeemer.connect(user).redeem(usdc.address, 1, 0, user.address);
+      await expect(redeem).to.be.revertedWith("token-is-paused");
+    });
+
+    it("Should pause mint and redeem of one token", async function () {
+      const tx = circuitBreaker.connect(guardian)["pause(address)"](usdc.address);
+      await expect(tx).to.emit(circuitBreaker, "Paused").withArgs(usdc.address, guardian.address);
+      await expect(mintVUSD(usdc, user, "100")).to.be.revertedWith("token-is-paused");
+      await mintVUSD(dai, user, "100");
+      expect(await vusd.balanceOf(user.address)).to.gt(0, "DAI mint should work");
+    });
+
+    it("Should revert if already paused", async function () {
+      await circuitBreaker["pause()"]();
+      await expect(circuitBreaker["pause()"]()).to.be.revertedWith("already-paused");
+    });
+  });
+
+  context("Unpause", function () {
+    beforeEach(async function () {
+      await circuitBreaker.connect(guardian)["pause()"]();
+      await circuitBreaker.connect(guardian)["pause(address)"](usdc.address);
+    });
+
+    it("Should revert if caller is not governor", async function () {
+      await expect(circuitBreaker.connect(guardian)["unpause()"]()).to.be.revertedWith("caller-is-not-the-governor");
+      const tx = circuitBreaker.connect(guardian)["unpause(address)"](usdc.address);
+      await expect(tx).to.be.revertedWith("caller-is-not-the-governor");
+    });
+
+    it("Should keep token paused after global unpause", async function () {
+      const tx = circuitBreaker["unpause()"]();
+      await expect(tx).to.emit(circuitBreaker, "Unpaused").withArgs(ZERO_ADDRESS, governor.address);
+      expect(await circuitBreaker.isPaused(dai.address)).to.eq(false, "DAI should not be paused");
+      expect(await circuitBreaker.isPaused(usdc.address)).to.eq(true, "USDC should be paused");
+      await expect(circuitBreaker["unpause(address)"](usdc.address))
+        .to.emit(circuitBreaker, "Unpaused")
+        .withArgs(usdc.address, governor.address);
+      await mintVUSD(usdc, user, "100");
+    });
+
+    it("Should revert if not paused", async function () {
+      await circuitBreaker["unpause(address)"](usdc.address);
+      await expect(circuitBreaker["unpause(address)"](usdc.address)).to.be.revertedWith("not-paused");
+    });
+  });
+
+  context("Pause if under-collateralized", function () {
+    beforeEach(async function () {
+      await mintVUSD(usdc, user, "100");
+    });
+
+    it("Should revert if treasury is healthy", async function () {
+      const tx = circuitBreaker.connect(user).pauseIfUnderCollateralized();
+      await expect(tx).to.be.revertedWith("collateralization-is-healthy");
+    });
+
+    it("Should pause all tokens when collateralization drops below minimum", async function () {
+      // Unbacked supply halves collateralization ratio
+      await minter["mint(uint256)"](await vusd.totalSupply());
+      const tx = circuitBreaker.connect(user).pauseIfUnderCollateralized();
+      await expect(tx).to.emit(circuitBreaker, "UnderCollateralized");
+      await expect(tx).to.emit(circuitBreaker, "Paused").withArgs(ZERO_ADDRESS, user.address);
+      expect(await circuitBreaker.paused()).to.eq(true, "Should be paused");
+    });
+
+    it("Should update minimum collateralization ratio", async function () {
+      const tx = circuitBreaker.updateMinCollateralizationRatio(20_000);
+      await expect(tx).to.emit(circuitBreaker, "UpdatedMinCollateralizationRatio").withArgs(9_900, 20_000);
+      await circuitBreaker.connect(user).pauseIfUnderCollateralized();
+      expect(await circuitBreaker.paused()).to.eq(true, "Should be paused");
+    });
+  });
+
+  context("Pause if depegged", function () {
+    it("Should revert if token is pegged", async function () {
+      const tx = circuitBreaker.connect(user).pauseIfDepegged(usdc.address);
+      await expect(tx).to.be.revertedWith("token-is-pegged");
+    });
+
+    it("Should revert if token is not supported", async function () {
+      const tx = circuitBreaker.connect(user).pauseIfDepegged(vusd.address);
+      await expect(tx).to.be.revertedWith("token-is-not-supported");
+    });
+
+    it("Should pause token when oracle router price is depegged", async function () {
+      await usdcOracle.updatePrice(ethers.utils.parseUnits("0.95", await usdcOracle.decimals()));
+      const tx = circuitBreaker.connect(user).pauseIfDepegged(usdc.address);
+      const price = ethers.utils.parseEther("0.95");
+      await expect(tx)
+        .to.emit(circuitBreaker, "Depegged")
+        .withArgs(usdc.address, await minter.oracleRouter(), price);
+      await expect(tx).to.emit(circuitBreaker, "Paused").withArgs(usdc.address, user.address);
+      expect(await circuitBreaker.isPaused(usdc.address)).to.eq(true, "USDC should be paused");
+      expect(await circuitBreaker.isPaused(dai.address)).to.eq(false, "DAI should not be paused");
+    });
+
+    it("Should revert if price is stale", async function () {
+      await usdcOracle.updatePrice(ethers.utils.parseUnits("0.95", await usdcOracle.decimals()));
+      // Stale period of USDC feed is 24 hours
+      await ethers.provider.send("evm_increaseTime", [25 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+      const tx = circuitBreaker.connect(user).pauseIfDepegged(usdc.address);
+      await expect(tx).to.be.revertedWith("oracle-price-is-stale");
+    });
+
+    it("Should revert if depeg tolerance is invalid", async function () {
+      await expect(circuitBreaker.updateDepegTolerance(10_001)).to.be.revertedWith("depeg-tolerance-is-invalid");
+    });
+  });
+
+  context("Update circuit breaker", function () {
+    it("Should revert if caller is not governor", async function () {
+      const tx = minter.connect(user).updateCircuitBreaker(ZERO_ADDRESS);
+      await expect(tx).to.be.revertedWith("caller-is-not-the-governor");
+    });
+
+    it("Should disable pause check with zero address", async function () {
+      await circuitBreaker["pause()"]();
+      const tx = minter.updateCircuitBreaker(ZERO_ADDRESS);
+      await expect(tx).to.emit(minter, "UpdatedCircuitBreaker").withArgs(circuitBreaker.address, ZERO_ADDRESS);
+      await mintVUSD(usdc, user, "100");
+    });
+
+    it("Should revert if setting same circuit breaker", async function () {
+      const tx = redeemer.updateCircuitBreaker(circuitBreaker.address);
+      await expect(tx).to.be.revertedWith("same-circuit-breaker");
+    });
+  });
+});
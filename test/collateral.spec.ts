@@ -0,0 +1,136 @@
+import hre from "hardhat";
+import {expect} from "chai";
+import {BigNumber} from "ethers";
+import {SignerWithAddress} from "@nomiclabs/hardhat-ethers/signers";
+import {
+  Minter,
+  Minter__factory,
+  MockStablecoin,
+  OracleRouter,
+  OracleRouter__factory,
+  Redeemer,
+  Redeemer__factory,
+  Treasury,
+  Treasury__factory,
+  VUSD,
+  VUSD__factory,
+} from "../typechain";
+import {contractAt, isMockNetwork, setupNetwork} from "./utils/setup";
+
+const {deployments, ethers} = hre;
+const MAX_BPS = 10_000;
+const DAY = 24 * 60 * 60;
+
+// Token decimals to cover, fewer, equal and more than VUSD decimals
+const DECIMALS = [0, 2, 6, 8, 12, 18, 20, 24];
+// Runs per decimals, each with pseudo random transfer fee and amount
+const RUNS = 2;
+
+/** Deterministic pseudo random generator, a failing run is reproduced by its seed */
+function random(seed: number): (max: number) => number {
+  let state = seed;
+  return (max: number) => {
+    state = (state * 1103515245 + 12345) % 2 ** 31;
+    return state % max;
+  };
+}
+
+function scale(amount: BigNumber, fromDecimals: number, toDecimals: number): BigNumber {
+  const ten = BigNumber.from(10);
+  return fromDecimals > toDecimals
+    ? amount.div(ten.pow(fromDecimals - toDecimals))
+    : amount.mul(ten.pow(toDecimals - fromDecimals));
+}
+
+function lessFee(amount: BigNumber, fee: BigNumber | number): BigNumber {
+  return amount.sub(amount.mul(fee).div(MAX_BPS));
+}
+
+describe("Collateral decimals and transfer fee", async function () {
+  let minter: Minter, redeemer: Redeemer, treasury: Treasury, oracleRouter: OracleRouter, vusd: VUSD;
+  let user: SignerWithAddress;
+
+  async function addToken(decimals: number, transferFee: number): Promise<MockStablecoin> {
+    const tokenFactory = await ethers.getContractFactory("MockStablecoin");
+    const token = (await tokenFactory.deploy(`Mock ${decimals}`, `M${decimals}`, decimals)) as MockStablecoin;
+    await token.updateTransferFee(transferFee);
+    const feed = await (await ethers.getContractFactory("MockChainlinkOracle")).deploy(1e8, 8);
+    await oracleRouter.updateFeeds(token.address, feed.address, ethers.constants.AddressZero, 0);
+    await oracleRouter.updateStalePeriod(feed.address, DAY);
+    const strategy = await (await ethers.getContractFactory("IdleStrategy")).deploy(vusd.address, token.address);
+    await treasury.addWhitelistedToken(token.address, strategy.address);
+    await minter.addWhitelistedToken(token.address);
+    return token;
+  }
+
+  before(async function () {
+    // Whole stack is deployed only on network with mocks
+    await setupNetwork();
+    if (!isMockNetwork()) {
+      this.skip();
+    }
+  });
+
+  beforeEach(async function () {
+    await deployments.fixture();
+    [, , , user] = await ethers.getSigners();
+    minter = await contractAt(Minter__factory, "Minter");
+    redeemer = await contractAt(Redeemer__factory, "Redeemer");
+    treasury = await contractAt(Treasury__factory, "Treasury");
+    oracleRouter = await contractAt(OracleRouter__factory, "OracleRouter");
+    vusd = await contractAt(VUSD__factory, "VUSD");
+    await vusd.connect(user).approve(redeemer.address, ethers.constants.MaxUint256);
+  });
+
+  for (const decimals of DECIMALS) {
+    it(`Should mint and redeem with ${decimals} decimals token`, async function () {
+      const next = random(decimals + 1);
+      const [mintingFee, redeemFee] = await Promise.all([minter.mintingFee(), redeemer.redeemFee()]);
+      for (let run = 0; run < RUNS; run++) {
+        const transferFee = next(301);
+        const token = await addToken(decimals, transferFee);
+        const amountIn = BigNumber.from(10)
+          .pow(decimals)
+          .mul(1 + next(10_000))
+          .add(next(1_000_000) % 10 ** Math.min(decimals, 6));
+        await token.mint(user.address, amountIn);
+        await token.connect(user).approve(minter.address, amountIn);
+        const vusdBefore = await vusd.balanceOf(user.address);
+
+        // Mint, VUSD is minted against amount treasury received
+        const received = lessFee(amountIn, transferFee);
+        const mintage = scale(lessFee(received, mintingFee), decimals, 18);
+        await expect(
+          minter.connect(user)["mint(address,uint256,uint256,address)"](token.address, amountIn, 0, user.address)
+        )
+          .to.emit(minter, "Mint")
+          .withArgs(token.address, amountIn, received, mintage, user.address);
+        expect(await vusd.balanceOf(user.address)).to.eq(vusdBefore.add(mintage), `Wrong mintage, run ${run}`);
+
+        // Redeem, minimum amount out is checked against amount receiver got
+        const vusdAmount = mintage.div(2);
+        const redeemable = scale(lessFee(vusdAmount, redeemFee), 18, decimals);
+        expect(await redeemer["redeemable(address,uint256)"](token.address, vusdAmount)).to.eq(
+          redeemable,
+          `Wrong redeemable, run ${run}`
+        );
+        const amountOut = lessFee(redeemable, transferFee);
+        const userRedeemer = redeemer.connect(user);
+        if (!amountOut.eq(redeemable)) {
+          const tx = userRedeemer.redeem(token.address, vusdAmount, redeemable, user.address);
+          await expect(tx).to.be.revertedWith("redeemable-amount-is-less-than-minimum");
+        }
+        const fee = scale(vusdAmount, 18, decimals).sub(redeemable);
+        const vusdFee = vusdAmount.mul(redeemFee).div(MAX_BPS);
+        await expect(userRedeemer.redeem(token.address, vusdAmount, amountOut, user.address))
+          .to.emit(redeemer, "Redeem")
+          .withArgs(token.address, vusdAmount, amountOut, fee, vusdFee, user.address, user.address);
+        expect(await token.balanceOf(user.address)).to.eq(amountOut, `Wrong amount out, run ${run}`);
+        expect(await vusd.balanceOf(user.address)).to.eq(
+          vusdBefore.add(mintage).sub(vusdAmount),
+          `Wrong VUSD balance, run ${run}`
+        );
+      }
+    });
+  }
+});
@@ -0,0 +1,91 @@
+import hre from "hardhat";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {expect} from "chai";
+import {SignerWithAddress} from "@nomiclabs/hardhat-ethers/signers";
+import {Treasury, VUSD} from "../typechain";
+import {ConfigureStep, configureRelease, orderSteps, planConfiguration} from "../scripts/configure";
+import {isMockNetwork, setupNetwork} from "./utils/setup";
+
+const {deployments, ethers} = hre;
+
+describe("Configure", async function () {
+  const step = (id: string, dependsOn: string[] = []): ConfigureStep => ({id, to: "", args: [], data: "", dependsOn});
+  const ids = (steps: ConfigureStep[]) => steps.map(({id}) => id);
+
+  it("Should order steps by their dependencies", async function () {
+    const steps = [
+      step("updateTreasury", ["migrate"]),
+      step("sweep", ["migrate"]),
+      step("updateMinter"),
+      step("migrate"),
+    ];
+    expect(ids(orderSteps(steps))).to.deep.eq(["updateMinter", "migrate", "updateTreasury", "sweep"], "Wrong order");
+    // Treasury before strategies migrates after VUSD points to new treasury
+    const legacySteps = [step("migrate", ["updateTreasury"]), step("sweep", ["migrate"]), step("updateTreasury")];
+    expect(ids(orderSteps(legacySteps))).to.deep.eq(["updateTreasury", "migrate", "sweep"], "Wrong legacy order");
+    // Dependency which is not pending is already done
+    expect(ids(orderSteps([step("updateTreasury", ["migrate"])]))).to.deep.eq(["updateTreasury"], "Wrong order");
+    expect(() => orderSteps([step("a", ["b"]), step("b", ["a"])])).to.throw("Circular dependency between a, b");
+  });
+
+  describe("Against mocks", async function () {
+    let vusd: VUSD, treasury: Treasury;
+    let alice: SignerWithAddress, bob: SignerWithAddress;
+    let minter: string, redeemer: string;
+
+    before(async function () {
+      // Whole stack is deployed only on network with mocks
+      await setupNetwork();
+      if (!isMockNetwork()) {
+        this.skip();
+      }
+    });
+
+    beforeEach(async function () {
+      await deployments.fixture();
+      [, , , , alice, bob] = await ethers.getSigners();
+      vusd = (await ethers.getContractAt("VUSD", (await deployments.get("VUSD")).address)) as VUSD;
+      treasury = (await ethers.getContractAt("Treasury", (await deployments.get("Treasury")).address)) as Treasury;
+      minter = (await deployments.get("Minter")).address;
+      redeemer = (await deployments.get("Redeemer")).address;
+    });
+
+    it("Should plan only pending steps and send them when deployer is the governor", async function () {
+      expect(await planConfiguration(hre)).to.deep.eq([], "Fixture should be configured");
+      await vusd.updateMinter(bob.address);
+      await treasury.updateRedeemer(bob.address);
+      const steps = await planConfiguration(hre);
+      expect(ids(steps)).to.deep.eq(["updateMinter", "updateRedeemer"], "Wrong steps");
+      expect(steps[0].to).to.eq(vusd.address, "Wrong target");
+      expect(steps[0].data).to.eq(vusd.interface.encodeFunctionData("updateMinter", [minter]), "Wrong data");
+
+      await configureRelease(hre);
+      expect(await vusd.minter()).to.eq(minter, "Minter should be updated");
+      expect(await treasury.redeemer()).to.eq(redeemer, "Redeemer should be updated");
+      expect(await planConfiguration(hre)).to.deep.eq([], "Nothing should be pending");
+    });
+
+    it("Should write Safe batch when deployer is not the governor", async function () {
+      await vusd.transferGovernorship(alice.address);
+      await vusd.connect(alice).acceptGovernorship();
+      await vusd.connect(alice).updateMinter(bob.address);
+      const output = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "configure-")), "batch.json");
+
+      await configureRelease(hre, {output});
+      expect(await vusd.minter()).to.eq(bob.address, "Deployer should not send steps");
+      const batch = JSON.parse(fs.readFileSync(output, "utf8"));
+      expect(batch.chainId).to.eq(await hre.getChainId(), "Wrong chain id");
+      expect(batch.meta.description).to.eq(`updateMinter(${minter}) on ${vusd.address}`, "Wrong description");
+      const data = vusd.interface.encodeFunctionData("updateMinter", [minter]);
+      expect(batch.transactions).to.deep.eq([{to: vusd.address, value: "0", data}], "Wrong transactions");
+
+      // Governor executes batch
+      for (const transaction of batch.transactions) {
+        await alice.sendTransaction({to: transaction.to, data: transaction.data});
+      }
+      expect(await vusd.minter()).to.eq(minter, "Batch should update minter");
+    });
+  });
+});
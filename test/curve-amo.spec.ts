@@ -0,0 +1,213 @@
+import hre from "hardhat";
+import {expect} from "chai";
+import {SignerWithAddress} from "@nomiclabs/hardhat-ethers/signers";
+import {BigNumber} from "ethers";
+import {
+  CircuitBreaker__factory,
+  CurveAMO,
+  CurveAMO__factory,
+  Minter,
+  Minter__factory,
+  MockCurveMetapool,
+  MockCurveMetapool__factory,
+  MockStablecoin,
+  MockStablecoin__factory,
+  RoleRegistry__factory,
+  Treasury__factory,
+  VUSD,
+  VUSD__factory,
+} from "../typechain";
+import {planAmo, runAmo} from "../scripts/amo";
+import {contractAt, isMockNetwork, setupNetwork} from "./utils/setup";
+
+const {deployments, ethers} = hre;
+const {parseEther} = ethers.utils;
+
+describe("Curve AMO", async function () {
+  let amo: CurveAMO, minter: Minter, vusd: VUSD, metapool: MockCurveMetapool, baseLp: MockStablecoin;
+  let user: SignerWithAddress, keeper: SignerWithAddress;
+
+  // Quotes at previous balances of metapool, same as AMO checks slippage against
+  const quoteLpOut = (amount: BigNumber) =>
+    metapool["calc_token_amount(uint256[2],bool,bool)"]([amount, 0], true, true);
+  const quoteVusdOut = (lpAmount: BigNumber) =>
+    metapool["calc_withdraw_one_coin(uint256,int128,bool)"](lpAmount, 0, true);
+
+  // Swap VUSD for base LP, or base LP for VUSD, to move VUSD price. AMO sees it from next block.
+  async function swap(fromVUSD: boolean, amount: string) {
+    const [i, j] = fromVUSD ? [0, 1] : [1, 0];
+    await metapool.connect(user).exchange(i, j, parseEther(amount), 0);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  before(async function () {
+    // Whole stack is deployed only on network with mocks
+    await setupNetwork();
+    if (!isMockNetwork()) {
+      this.skip();
+    }
+  });
+
+  beforeEach(async function () {
+    await deployments.fixture();
+    [, , , user, keeper] = await ethers.getSigners();
+    amo = await contractAt(CurveAMO__factory, "CurveAMO");
+    minter = await contractAt(Minter__factory, "Minter");
+    vusd = await contractAt(VUSD__factory, "VUSD");
+    metapool = await contractAt(MockCurveMetapool__factory, "CurveMetapool");
+    baseLp = await contractAt(MockStablecoin__factory, "3CRV");
+    const roleRegistry = await contractAt(RoleRegistry__factory, "RoleRegistry");
+    await roleRegistry.grantRole(await roleRegistry.KEEPER_ROLE(), keeper.address);
+
+    // Seed metapool with 1000 VUSD, minted with DAI, and 1000 base LP
+    const dai = await contractAt(MockStablecoin__factory, "DAI");
+    await dai.mint(user.address, parseEther("2000"));
+    await dai.connect(user).approve(minter.address, parseEther("2000"));
+    const userMinter = minter.connect(user);
+    await userMinter["mint(address,uint256,uint256,address)"](dai.address, parseEther("2000"), 0, user.address);
+    await baseLp.mint(user.address, parseEther("2000"));
+    await vusd.connect(user).approve(metapool.address, ethers.constants.MaxUint256);
+    await baseLp.connect(user).approve(metapool.address, ethers.constants.MaxUint256);
+    await metapool.connect(user).add_liquidity([parseEther("1000"), parseEther("1000")], 0);
+    await amo.updateDebtCeiling(parseEther("500"));
+  });
+
+  it("Should be wired with Minter", async function () {
+    expect(await minter.amo()).to.eq(amo.address, "Wrong AMO in minter");
+    expect(await amo.metapool()).to.eq(metapool.address, "Wrong metapool");
+    await expect(minter.mintLiquidity(1)).to.be.revertedWith("caller-is-not-the-amo");
+  });
+
+  context("Mint and add liquidity", function () {
+    it("Should revert if VUSD is not above peg", async function () {
+      const tx = amo.connect(keeper).mintAndAddLiquidity(parseEther("100"), 0);
+      await expect(tx).to.be.revertedWith("vusd-is-not-above-peg");
+    });
+
+    it("Should revert if caller is not keeper", async function () {
+      await swap(false, "200");
+      const tx = amo.connect(user).mintAndAddLiquidity(parseEther("100"), 0);
+      await expect(tx).to.be.revertedWith("caller-is-not-authorized");
+    });
+
+    it("Should revert if debt ceiling is reached or min out is too low", async function () {
+      await swap(false, "200");
+      const amo1 = amo.connect(keeper);
+      await expect(amo1.mintAndAddLiquidity(parseEther("501"), 0)).to.be.revertedWith("debt-ceiling-reached");
+      await expect(amo1.mintAndAddLiquidity(parseEther("100"), 0)).to.be.revertedWith("min-out-is-too-low");
+    });
+
+    it("Should mint VUSD into metapool", async function () {
+      await swap(false, "200");
+      const supply = await vusd.totalSupply();
+      const amount = parseEther("100");
+      const lpOut = await quoteLpOut(amount);
+      await expect(amo.connect(keeper).mintAndAddLiquidity(amount, lpOut))
+        .to.emit(amo, "LiquidityAdded")
+        .withArgs(amount, lpOut);
+      expect(await amo.debt()).to.eq(amount, "Wrong debt");
+      expect(await amo.lpBalance()).to.eq(lpOut, "Wrong LP balance");
+      expect(await vusd.totalSupply()).to.eq(supply.add(amount), "Wrong VUSD supply");
+    });
+
+    it("Should check peg against previous balances, not swap in same block", async function () {
+      // Swap and mint are in one block, swap moves price above peg only for the next block
+      const amount = parseEther("100");
+      const lpOut = await quoteLpOut(amount);
+      await ethers.provider.send("evm_setAutomine", [false]);
+      try {
+        await metapool.connect(user).exchange(1, 0, parseEther("200"), 0, {gasLimit: 500_000});
+        const tx = await amo.connect(keeper).mintAndAddLiquidity(amount, lpOut, {gasLimit: 1_000_000});
+        await ethers.provider.send("evm_mine", []);
+        const receipt = await ethers.provider.getTransactionReceipt(tx.hash);
+        expect(receipt.status).to.eq(0, "Mint should revert");
+      } finally {
+        await ethers.provider.send("evm_setAutomine", [true]);
+      }
+      expect(await amo.debt()).to.eq(0, "Debt should not change");
+      await ethers.provider.send("evm_mine", []);
+      expect(await amo.vusdPrice()).to.gt(parseEther("1"), "Swap should move price in next block");
+    });
+
+    it("Should leave debt out of collateralization of treasury", async function () {
+      const treasury = await contractAt(Treasury__factory, "Treasury");
+      const circuitBreaker = await contractAt(CircuitBreaker__factory, "CircuitBreaker");
+      const [, , ratio] = await treasury.reserves();
+      await swap(false, "200");
+      const amount = parseEther("200");
+      await amo.connect(keeper).mintAndAddLiquidity(amount, await quoteLpOut(amount));
+      expect(await minter.backedSupply()).to.eq((await vusd.totalSupply()).sub(amount), "Wrong backed supply");
+      expect((await treasury.reserves())._collateralizationRatio).to.eq(ratio, "Ratio should not change");
+      await expect(circuitBreaker.pauseIfUnderCollateralized()).to.be.revertedWith("collateralization-is-healthy");
+    });
+  });
+
+  context("Remove liquidity and burn", function () {
+    beforeEach(async function () {
+      await swap(false, "200");
+      const amount = parseEther("200");
+      await amo.connect(keeper).mintAndAddLiquidity(amount, await quoteLpOut(amount));
+    });
+
+    it("Should revert if VUSD is not below peg", async function () {
+      const tx = amo.connect(keeper).removeLiquidityAndBurn(await amo.lpBalance(), 0);
+      await expect(tx).to.be.revertedWith("vusd-is-not-below-peg");
+    });
+
+    it("Should remove VUSD from metapool and burn it", async function () {
+      await swap(true, "400");
+      const supply = await vusd.totalSupply();
+      const lpAmount = (await amo.lpBalance()).div(2);
+      const vusdOut = await quoteVusdOut(lpAmount);
+      await expect(amo.connect(keeper).removeLiquidityAndBurn(lpAmount, vusdOut))
+        .to.emit(amo, "LiquidityRemoved")
+        .withArgs(lpAmount, vusdOut);
+      expect(await vusd.totalSupply()).to.eq(supply.sub(vusdOut), "VUSD should be burnt");
+      expect(await amo.debt()).to.eq(parseEther("200").sub(vusdOut), "Wrong debt");
+    });
+  });
+
+  context("Keeper plan", function () {
+    it("Should do nothing at peg", async function () {
+      expect(await planAmo(hre, {keeper: keeper.address})).to.eq(undefined, "There should be no plan");
+    });
+
+    it("Should mint half of imbalance above peg within debt ceiling", async function () {
+      await swap(false, "200");
+      const plan = await planAmo(hre, {keeper: keeper.address});
+      expect(plan?.action).to.eq("mint", "Wrong action");
+      expect(plan?.amount).to.eq(parseEther("200"), "Wrong amount");
+      await amo.updateDebtCeiling(parseEther("150"));
+      const capped = await planAmo(hre, {keeper: keeper.address});
+      expect(capped?.amount).to.eq(parseEther("150"), "Amount should be capped by debt ceiling");
+      if (!capped) {
+        return;
+      }
+      const result = await runAmo(hre, capped);
+      expect(result.amountOut).to.eq(capped.expectedOut, "Wrong LP out");
+      expect(await amo.debt()).to.eq(parseEther("150"), "Wrong debt");
+    });
+
+    it("Should remove and burn below peg", async function () {
+      await swap(false, "200");
+      const mint = await planAmo(hre, {keeper: keeper.address});
+      if (!mint) {
+        throw new Error("Mint plan is missing");
+      }
+      await runAmo(hre, mint);
+      await swap(true, "600");
+      const plan = await planAmo(hre, {keeper: keeper.address});
+      expect(plan?.action).to.eq("burn", "Wrong action");
+      expect(plan?.amount).to.lte(await amo.lpBalance(), "LP to remove should be held by AMO");
+      if (!plan) {
+        return;
+      }
+      const supply = await vusd.totalSupply();
+      const result = await runAmo(hre, plan);
+      expect(result.amountOut).to.eq(plan.expectedOut, "Wrong VUSD out");
+      expect(await vusd.totalSupply()).to.eq(supply.sub(result.amountOut), "VUSD should be burnt");
+      const error = await planAmo(hre, {keeper: keeper.address, slippage: 100}).catch((e: Error) => e);
+      expect((error as Error).message).to.eq("Slippage 100 is above max slippage 50 of AMO", "Wrong error");
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import hre from "hardhat";
+import {expect} from "chai";
+import {VUSD} from "../typechain";
+import {
+  diffResults,
+  formatDifferentialReport,
+  generateOperations,
+  OperationResult,
+  runDifferential,
+  SystemAddresses,
+} from "../scripts/differential";
+import {isMockNetwork, setupNetwork} from "./utils/setup";
+
+const {deployments, ethers} = hre;
+
+describe("Differential", async function () {
+  const result = (overrides: Partial<OperationResult> = {}): OperationResult => ({
+    index: 0,
+    action: "mint",
+    amountOut: "100.0",
+    supply: "100.0",
+    events: ["VUSD.Transfer(0x0000000000000000000000000000000000000000, Account, 100)"],
+    gasUsed: 100_000,
+    ...overrides,
+  });
+
+  it("Should generate same operations for same seed", async function () {
+    const operations = generateOperations(7, 200, ["DAI", "USDC"]);
+    expect(operations).to.deep.eq(generateOperations(7, 200, ["DAI", "USDC"]), "Operations should be repeatable");
+    expect(operations).to.not.deep.eq(generateOperations(8, 200, ["DAI", "USDC"]), "Seed should change operations");
+    const actions = new Set(operations.map((operation) => operation.action));
+    expect([...actions].sort()).to.deep.eq(["mint", "redeem", "update", "withdraw"], "Missing action");
+  });
+
+  it("Should report output, revert, event and gas differences", async function () {
+    const baseline = [result(), result({index: 1, action: "redeem", reason: "price-tolerance-exceeded"})];
+    const candidate = [
+      result({amountOut: "99.5", gasUsed: 100_500, events: []}),
+      result({index: 1, action: "redeem", reason: "token-is-paused"}),
+    ];
+    const kinds = diffResults(baseline, candidate).map(({index, kind}) => `${index}:${kind}`);
+    expect(kinds).to.deep.eq(["0:output", "0:events", "0:gas", "1:revert"], "Wrong differences");
+    // 0.5% gas change is within 1% tolerance
+    const withinTolerance = diffResults(baseline, candidate, 100).map(({kind}) => kind);
+    expect(withinTolerance).to.not.include("gas", "Gas change within tolerance should be left out");
+    expect(diffResults(baseline, baseline)).to.deep.eq([], "Same results should not differ");
+  });
+
+  describe("Against mocks", async function () {
+    let baseline: SystemAddresses;
+
+    before(async function () {
+      // Whole stack is deployed only on network with mocks
+      await setupNetwork();
+      if (!isMockNetwork()) {
+        this.skip();
+      }
+    });
+
+    beforeEach(async function () {
+      await deployments.fixture();
+      const address = async (name: string) => (await deployments.get(name)).address;
+      baseline = {
+        VUSD: await address("VUSD"),
+        Minter: await address("Minter"),
+        Redeemer: await address("Redeemer"),
+        Treasury: await address("Treasury"),
+      };
+    });
+
+    it("Should find no behaviour difference between same builds and roll back", async function () {
+      const report = await runDifferential(hre, {release: "fixture", baseline, seed: 3, count: 20});
+      expect(report.baselineResults.length).to.eq(20, "Wrong number of results");
+      expect(report.candidate.Minter).to.not.eq(baseline.Minter, "Candidate should be deployed next to baseline");
+      expect(report.candidate.VUSD).to.eq(baseline.VUSD, "Candidate should share VUSD");
+      const mints = report.baselineResults.filter((r) => r.action === "mint" && !r.reason);
+      expect(mints.length).to.be.gt(0, "Some mints should succeed");
+      expect(mints[0].gasUsed).to.be.gt(0, "Gas should be reported");
+      const behaviour = report.differences.filter((difference) => difference.kind !== "gas");
+      expect(behaviour).to.deep.eq([], "Same build should behave the same");
+      expect(formatDifferentialReport(report)).to.contain("No behaviour differences");
+
+      const vusd = (await ethers.getContractAt("VUSD", baseline.VUSD)) as VUSD;
+      expect(await vusd.minter()).to.eq(baseline.Minter, "Candidate wiring should be rolled back");
+      expect(await vusd.totalSupply()).to.eq(0, "Operations should be rolled back");
+    });
+
+    it("Should report behaviour difference of candidate", async function () {
+      // Oracle router of baseline prices USDC with a feed which has no stale period, candidate router has its own
+      const feed = await (await ethers.getContractFactory("MockChainlinkOracle")).deploy(100_000_000, 8);
+      const oracleRouter = await ethers.getContractAt("OracleRouter", (await deployments.get("OracleRouter")).address);
+      const usdc = (await deployments.get("USDC")).address;
+      await oracleRouter.updateFeeds(usdc, feed.address, ethers.constants.AddressZero, 0);
+      const operations = [
+        {action: "mint" as const, token: "USDC", amount: "1000"},
+        {action: "mint" as const, token: "DAI", amount: "1000"},
+      ];
+      const report = await runDifferential(hre, {release: "fixture", baseline, operations});
+      const behaviour = report.differences.filter((difference) => difference.kind !== "gas");
+      expect(behaviour.map(({index, kind}) => `${index}:${kind}`)).to.deep.eq(
+        ["0:revert", "0:output", "0:events", "1:output"],
+        "Wrong differences"
+      );
+      expect(behaviour[0].baseline).to.eq("oracle-price-is-stale", "Wrong revert of baseline");
+      expect(behaviour[0].candidate).to.eq("ok", "Candidate should mint");
+      const formatted = formatDifferentialReport(report);
+      expect(formatted).to.contain("4 behaviour difference(s)");
+      expect(formatted).to.contain("#0 mint 1000 USDC revert");
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import hre from "hardhat";
+import {expect} from "chai";
+import {SignerWithAddress} from "@nomiclabs/hardhat-ethers/signers";
+import {
+  FeeCollector,
+  FeeCollector__factory,
+  Minter,
+  Minter__factory,
+  MockChainlinkOracle__factory,
+  MockStablecoin,
+  MockStablecoin__factory,
+  Redeemer,
+  Redeemer__factory,
+  Treasury,
+  Treasury__factory,
+  VUSD,
+  VUSD__factory,
+} from "../typechain";
+import {contractAt, isMockNetwork, mintVUSD, setupNetwork} from "./utils/setup";
+
+const {deployments, ethers} = hre;
+
+describe("Fee collector", async function () {
+  let feeCollector: FeeCollector, minter: Minter, redeemer: Redeemer, treasury: Treasury, vusd: VUSD;
+  let usdc: MockStablecoin;
+  let user: SignerWithAddress, alice: SignerWithAddress, bob: SignerWithAddress;
+
+  async function redeemVUSD(amount: string) {
+    const vusdAmount = ethers.utils.parseEther(amount);
+    await vusd.connect(user).approve(redeemer.address, vusdAmount);
+    return redeemer.connect(user).redeem(usdc.address, vusdAmount, 0, user.address);
+  }
+
+  before(async function () {
+    // Whole stack is deployed only on network with mocks
+    await setupNetwork();
+    if (!isMockNetwork()) {
+      this.skip();
+    }
+  });
+
+  beforeEach(async function () {
+    await deployments.fixture();
+    [, , , user, alice, bob] = await ethers.getSigners();
+    feeCollector = await contractAt(FeeCollector__factory, "FeeCollector");
+    minter = await contractAt(Minter__factory, "Minter");
+    redeemer = await contractAt(Redeemer__factory, "Redeemer");
+    treasury = await contractAt(Treasury__factory, "Treasury");
+    vusd = await contractAt(VUSD__factory, "VUSD");
+    usdc = await contractAt(MockStablecoin__factory, "USDC");
+    // 1% minting fee and default 0.3% redeem fee
+    await minter.updateMintingFee(100);
+  });
+
+  it("Should be wired with Minter and Redeemer", async function () {
+    expect(await minter.feeCollector()).to.eq(feeCollector.address, "Wrong fee collector in minter");
+    expect(await redeemer.feeCollector()).to.eq(feeCollector.address, "Wrong fee collector in redeemer");
+  });
+
+  context("Governance", function () {
+    it("Should revert if caller is not governor", async function () {
+      const tx = feeCollector.connect(alice).updateFeeRecipients([alice.address], [10_000]);
+      await expect(tx).to.be.revertedWith("caller-is-not-the-governor");
+      const ratioTx = feeCollector.connect(alice).updateMinCollateralizationRatio(10_100);
+      await expect(ratioTx).to.be.revertedWith("caller-is-not-the-governor");
+      await expect(minter.connect(alice).updateFeeCollector(alice.address)).to.be.revertedWith(
+        "caller-is-not-the-governor"
+      );
+    });
+
+    it("Should replace fee recipients", async function () {
+      await feeCollector.updateFeeRecipients([alice.address], [10_000]);
+      const tx = feeCollector.updateFeeRecipients([bob.address, alice.address], [2500, 7500]);
+      await expect(tx).to.emit(feeCollector, "UpdatedFeeRecipient").withArgs(alice.address, 10_000, 0);
+      await expect(tx).to.emit(feeCollector, "UpdatedFeeRecipient").withArgs(alice.address, 0, 7500);
+      const [recipients, shares] = await feeCollector.feeRecipients();
+      expect(recipients).to.deep.eq([bob.address, alice.address], "Wrong recipients");
+      expect(shares.map((share) => share.toNumber())).to.deep.eq([2500, 7500], "Wrong shares");
+    });
+
+    it("Should revert if shares are invalid", async function () {
+      const partial = feeCollector.updateFeeRecipients([alice.address], [5000]);
+      await expect(partial).to.be.revertedWith("fee-shares-are-invalid");
+      const duplicate = feeCollector.updateFeeRecipients([alice.address, alice.address], [5000, 5000]);
+      await expect(duplicate).to.be.revertedWith("share-is-invalid");
+      const zero = feeCollector.updateFeeRecipients([ethers.constants.AddressZero], [10_000]);
+      await expect(zero).to.be.revertedWith("recipient-address-is-zero");
+    });
+
+    it("Should update collateralization ratio floor", async function () {
+      const tx = feeCollector.updateMinCollateralizationRatio(10_100);
+      await expect(tx).to.emit(feeCollector, "UpdatedMinCollateralizationRatio").withArgs(10_000, 10_100);
+      const same = feeCollector.updateMinCollateralizationRatio(10_100);
+      await expect(same).to.be.revertedWith("same-collateralization-ratio");
+      const below = feeCollector.updateMinCollateralizationRatio(9999);
+      await expect(below).to.be.revertedWith("collateralization-ratio-is-invalid");
+    });
+  });
+
+  context("Fee accounting", function () {
+    it("Should revert if caller is not minter, redeemer or fee collector", async function () {
+      const mintTx = feeCollector.recordMintFee(usdc.address, 1);
+      await expect(mintTx).to.be.revertedWith("caller-is-not-the-minter");
+      const redeemTx = feeCollector.recordRedeemFee(usdc.address, 1);
+      await expect(redeemTx).to.be.revertedWith("caller-is-not-the-redeemer");
+      await expect(minter.mintSurplus(alice.address, 1)).to.be.revertedWith("caller-is-not-the-fee-collector");
+    });
+
+    it("Should count minting and redeem fee in VUSD", async function () {
+      await expect(mintVUSD(usdc, user, "100"))
+        .to.emit(feeCollector, "MintFeeRecorded")
+        .withArgs(usdc.address, ethers.utils.parseEther("1"));
+      await expect(redeemVUSD("50"))
+        .to.emit(feeCollector, "RedeemFeeRecorded")
+        .withArgs(usdc.address, ethers.utils.parseEther("0.15"));
+      expect(await feeCollector.mintFees(usdc.address)).to.eq(ethers.utils.parseEther("1"), "Wrong mint fees");
+      expect(await feeCollector.redeemFees(usdc.address)).to.eq(ethers.utils.parseEther("0.15"), "Wrong redeem fees");
+      expect(await feeCollector.totalFees()).to.eq(ethers.utils.parseEther("1.15"), "Wrong total fees");
+      expect(await feeCollector.surplus()).to.eq(ethers.utils.parseEther("1.15"), "Wrong surplus");
+    });
+
+    it("Should not count fees without fee collector", async function () {
+      await minter.updateFeeCollector(ethers.constants.AddressZero);
+      await expect(mintVUSD(usdc, user, "100")).to.not.emit(feeCollector, "MintFeeRecorded");
+      expect(await feeCollector.totalFees()).to.eq(0, "Fees should not be counted");
+    });
+  });
+
+  context("Claim", function () {
+    beforeEach(async function () {
+      await mintVUSD(usdc, user, "100");
+      await redeemVUSD("50");
+    });
+
+    it("Should revert if caller is not recipient or governor", async function () {
+      await feeCollector.updateFeeRecipients([alice.address], [10_000]);
+      await expect(feeCollector.connect(bob).claim()).to.be.revertedWith("caller-is-not-authorized");
+    });
+
+    it("Should have nothing to claim without recipients", async function () {
+      expect(await feeCollector.claimableSurplus()).to.eq(0, "Nothing should be claimable");
+      await expect(feeCollector.claim()).to.be.revertedWith("nothing-to-claim");
+    });
+
+    it("Should split surplus between recipients", async function () {
+      await feeCollector.updateFeeRecipients([alice.address, bob.address], [7000, 3000]);
+      const claimable = await feeCollector.claimableSurplus();
+      expect(claimable).to.gt(0, "Surplus should be claimable");
+      const bobShare = claimable.mul(3000).div(10_000);
+      const tx = feeCollector.connect(alice).claim();
+      await expect(tx).to.emit(feeCollector, "SurplusClaimed").withArgs(bob.address, bobShare);
+      await expect(tx).to.emit(feeCollector, "SurplusClaimed").withArgs(alice.address, claimable.sub(bobShare));
+      expect(await vusd.balanceOf(alice.address)).to.eq(claimable.sub(bobShare), "Wrong VUSD of alice");
+      expect(await vusd.balanceOf(bob.address)).to.eq(bobShare, "Wrong VUSD of bob");
+      expect(await feeCollector.claimedBy(alice.address)).to.eq(claimable.sub(bobShare), "Wrong claimed by alice");
+      expect(await feeCollector.claimedFees()).to.eq(claimable, "Wrong claimed fees");
+      const [, , ratio] = await treasury.reserves();
+      expect(ratio).to.gte(10_000, "Treasury should stay fully backed");
+    });
+
+    it("Should value reserves at most $1 per token", async function () {
+      await feeCollector.updateFeeRecipients([alice.address], [10_000]);
+      // Floor above 100% caps claim below surplus
+      await feeCollector.updateMinCollateralizationRatio(10_100);
+      const claimable = await feeCollector.claimableSurplus();
+      expect(claimable).to.gt(0, "Surplus should be claimable");
+      expect(claimable).to.lt(await feeCollector.surplus(), "Claim should be capped by floor");
+      const usdcOracle = await contractAt(MockChainlinkOracle__factory, "USDC_USD");
+      await usdcOracle.updatePrice(101_000_000);
+      expect(await feeCollector.claimableSurplus()).to.eq(claimable, "Price above peg should not add to claim");
+      await usdcOracle.updatePrice(99_900_000);
+      expect(await feeCollector.claimableSurplus()).to.lt(claimable, "Price below peg should reduce claim");
+    });
+
+    it("Should cap claim by collateralization ratio floor", async function () {
+      await feeCollector.updateFeeRecipients([alice.address], [10_000]);
+      const [totalValue] = await treasury.reserves();
+      const supply = await vusd.totalSupply();
+      // Floor just above current ratio leaves nothing to claim
+      await feeCollector.updateMinCollateralizationRatio(totalValue.mul(10_000).div(supply).add(1));
+      expect(await feeCollector.claimableSurplus()).to.eq(0, "Nothing should be claimable");
+      await expect(feeCollector.claim()).to.be.revertedWith("nothing-to-claim");
+    });
+  });
+});
@@ -0,0 +1,113 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.3;
+
+import "../../lib/forge-std/src/Test.sol";
+import "../../contracts/Minter.sol";
+import "../../contracts/OracleRouter.sol";
+import "../../contracts/Redeemer.sol";
+import "../../contracts/VUSD.sol";
+import "../../contracts/strategies/IdleStrategy.sol";
+import "../../contracts/test/MockStablecoin.sol";
+import "./mock/MockChainlinkOracle.sol";
+import "./mock/MockTreasury.sol";
+
+/// @dev Mint and redeem with tokens of any decimals from 0 to 24 and any transfer fee up to 10%, no fork needed
+contract CollateralTest is Test {
+    VUSD vusd;
+    MockTreasury treasury;
+    address alice = address(0x111);
+
+    function setUp() public {
+        treasury = new MockTreasury();
+        vusd = new VUSD(address(treasury));
+    }
+
+    function _deploy(uint8 _decimals, uint256 _transferFee)
+        internal
+        returns (
+            MockStablecoin _token,
+            Minter _minter,
+            Redeemer _redeemer
+        )
+    {
+        _token = new MockStablecoin("Mock", "MOCK", _decimals);
+        _token.updateTransferFee(_transferFee);
+        treasury.setStrategy(address(_token), address(new IdleStrategy(address(vusd), address(_token))));
+        address[] memory tokens = new address[](1);
+        address[] memory oracles = new address[](1);
+        address[] memory secondaries = new address[](1);
+        uint256[] memory stalePeriods = new uint256[](1);
+        (tokens[0], oracles[0], stalePeriods[0]) = (address(_token), address(new MockChainlinkOracle(1e8)), 1 hours);
+        OracleRouter oracleRouter = new OracleRouter(address(vusd), tokens, oracles, secondaries, stalePeriods);
+        _minter = new Minter(address(vusd), address(oracleRouter), type(uint256).max, tokens);
+        _redeemer = new Redeemer(address(vusd), address(oracleRouter));
+        vusd.updateMinter(address(_minter));
+    }
+
+    function _scale(
+        uint256 _amount,
+        uint8 _fromDecimals,
+        uint8 _toDecimals
+    ) internal pure returns (uint256) {
+        return
+            _fromDecimals > _toDecimals
+                ? _amount / 10**(_fromDecimals - _toDecimals)
+                : _amount * 10**(_toDecimals - _fromDecimals);
+    }
+
+    function testFuzzMintWithAnyDecimalsAndTransferFee(
+        uint8 _decimals,
+        uint256 _transferFee,
+        uint256 _amount
+    ) public {
+        _decimals = uint8(bound(_decimals, 0, 24));
+        _transferFee = bound(_transferFee, 0, 1000);
+        _amount = bound(_amount, 1, 1e12 * 10**_decimals);
+        (MockStablecoin _token, Minter _minter, ) = _deploy(_decimals, _transferFee);
+        _token.mint(alice, _amount);
+
+        uint256 _received = _amount - (_amount * _transferFee) / 10_000;
+        uint256 _expectedMintage = _scale(_received, _decimals, 18);
+        vm.startPrank(alice);
+        _token.approve(address(_minter), _amount);
+        if (_expectedMintage == 0) {
+            vm.expectRevert("mint-amount-is-less-than-minimum");
+            _minter.mint(address(_token), _amount, 1, alice);
+        } else {
+            _minter.mint(address(_token), _amount, _expectedMintage, alice);
+        }
+        vm.stopPrank();
+
+        assertEq(vusd.balanceOf(alice), _expectedMintage, "Mintage should be based on amount received");
+    }
+
+    function testFuzzRedeemWithAnyDecimalsAndTransferFee(
+        uint8 _decimals,
+        uint256 _transferFee,
+        uint256 _vusdAmount
+    ) public {
+        _decimals = uint8(bound(_decimals, 0, 24));
+        _transferFee = bound(_transferFee, 0, 1000);
+        _vusdAmount = bound(_vusdAmount, 1, 1e12 ether);
+        (MockStablecoin _token, , Redeemer _redeemer) = _deploy(_decimals, _transferFee);
+        vusd.updateMinter(address(this));
+        vusd.mint(alice, _vusdAmount);
+
+        uint256 _redeemable = _scale(_vusdAmount - (_vusdAmount * _redeemer.redeemFee()) / 10_000, 18, _decimals);
+        assertEq(_redeemer.redeemable(address(_token), _vusdAmount), _redeemable, "Wrong redeemable");
+        _token.mint(address(treasury), _redeemable);
+        uint256 _amountOut = _redeemable - (_redeemable * _transferFee) / 10_000;
+
+        vm.startPrank(alice);
+        vusd.approve(address(_redeemer), _vusdAmount);
+        if (_amountOut < _redeemable) {
+            vm.expectRevert("redeemable-amount-is-less-than-minimum");
+            _redeemer.redeem(address(_token), _vusdAmount, _redeemable, alice);
+        }
+        _redeemer.redeem(address(_token), _vusdAmount, _amountOut, alice);
+        vm.stopPrank();
+
+        assertEq(_token.balanceOf(alice), _amountOut, "Minimum amount out should be checked against amount received");
+        assertEq(vusd.balanceOf(alice), 0, "VUSD should be burnt");
+    }
+}
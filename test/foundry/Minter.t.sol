@@ -3,35 +3,44 @@ pragma solidity ^0.8.3;
 
 import "../../lib/forge-std/src/Test.sol";
 import "../../contracts/Minter.sol";
+import "../../contracts/OracleRouter.sol";
 import "../../contracts/VUSD.sol";
 import "../../contracts/interfaces/chainlink/IAggregatorV3.sol";
+import "../../contracts/strategies/IdleStrategy.sol";
 import "./mock/MockChainlinkOracle.sol";
+import "./mock/MockTreasury.sol";
 
 contract MinterTest is Test {
     VUSD vusd;
     Minter minter;
+    OracleRouter oracleRouter;
     address governor;
     address alice = address(0x111);
     address constant DAI = 0x6B175474E89094C44Da98b954EedeAC495271d0F;
-    address constant cDAI = 0x5d3a536E4D6DbD6114cc1Ead35777bAB948E3643;
     MockChainlinkOracle mockOracle;
 
     function setUp() public {
         vm.createSelectFork(vm.envString("NODE_URL"), vm.envUint("FORK_BLOCK_NUMBER"));
         governor = address(this);
-        vusd = new VUSD(address(0x222));
-        minter = new Minter(address(vusd), type(uint256).max);
+        MockTreasury treasury = new MockTreasury();
+        vusd = new VUSD(address(treasury));
+        treasury.setStrategy(DAI, address(new IdleStrategy(address(vusd), DAI)));
         mockOracle = new MockChainlinkOracle(0.999e8);
+        address[] memory tokens = new address[](1);
+        address[] memory oracles = new address[](1);
+        address[] memory secondaries = new address[](1);
+        uint256[] memory stalePeriods = new uint256[](1);
+        (tokens[0], oracles[0], stalePeriods[0]) = (DAI, address(mockOracle), 6 hours);
+        oracleRouter = new OracleRouter(address(vusd), tokens, oracles, secondaries, stalePeriods);
+        minter = new Minter(address(vusd), address(oracleRouter), type(uint256).max, tokens);
         vusd.updateMinter(address(minter));
-        minter.removeWhitelistedToken(DAI);
-        minter.addWhitelistedToken(DAI, cDAI, address(mockOracle), 6 hours);
     }
 
     function testAddAndRemoveWhitelistedToken() public {
         minter.removeWhitelistedToken(DAI);
         assertFalse(minter.isWhitelistedToken(DAI), "Token should not be whitelisted");
 
-        minter.addWhitelistedToken(DAI, cDAI, address(mockOracle), 6 hours);
+        minter.addWhitelistedToken(DAI);
         assertTrue(minter.isWhitelistedToken(DAI), "Token should be whitelisted");
     }
 
@@ -43,8 +52,8 @@ contract MinterTest is Test {
 
     function testStalePeriod() public {
         uint256 newStalePeriod = 3600;
-        minter.updateStalePeriod(address(mockOracle), newStalePeriod);
-        assertEq(minter.stalePeriod(address(mockOracle)), newStalePeriod, "Stale period should be updated");
+        oracleRouter.updateStalePeriod(address(mockOracle), newStalePeriod);
+        assertEq(oracleRouter.stalePeriod(address(mockOracle)), newStalePeriod, "Stale period should be updated");
 
         // Test for stale price
         vm.warp(block.timestamp + newStalePeriod + 1);
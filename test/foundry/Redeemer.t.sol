@@ -2,6 +2,7 @@
 pragma solidity ^0.8.3;
 
 import "../../lib/forge-std/src/Test.sol";
+import "../../contracts/OracleRouter.sol";
 import "../../contracts/Redeemer.sol";
 import "../../contracts/VUSD.sol";
 import "../../contracts/interfaces/chainlink/IAggregatorV3.sol";
@@ -11,6 +12,7 @@ import "./mock/MockTreasury.sol";
 contract RedeemerTest is Test {
     VUSD vusd;
     Redeemer redeemer;
+    OracleRouter oracleRouter;
     MockTreasury treasury;
     address alice = address(0x111);
     address constant DAI = 0x6B175474E89094C44Da98b954EedeAC495271d0F;
@@ -26,13 +28,18 @@ contract RedeemerTest is Test {
         mockOracle = new MockChainlinkOracle(1.01e8);
         console.log("VUSD balance: %s", vusd.balanceOf(alice));
         deal(DAI, address(treasury), 1000 ether);
-        treasury.setOracle(DAI, address(mockOracle));
-        redeemer = new Redeemer(address(vusd));
+        address[] memory tokens = new address[](1);
+        address[] memory oracles = new address[](1);
+        address[] memory secondaries = new address[](1);
+        uint256[] memory stalePeriods = new uint256[](1);
+        (tokens[0], oracles[0], stalePeriods[0]) = (DAI, address(mockOracle), 1 hours);
+        oracleRouter = new OracleRouter(address(vusd), tokens, oracles, secondaries, stalePeriods);
+        redeemer = new Redeemer(address(vusd), address(oracleRouter));
     }
 
     function testDefaultStalePeriods() public view {
         // default is set in constructor
-        assertEq(redeemer.stalePeriod(address(mockOracle)), 1 hours, "Default stale period should be 1 hour");
+        assertEq(oracleRouter.stalePeriod(address(mockOracle)), 1 hours, "Default stale period should be 1 hour");
     }
 
     function testUpdatePriceTolerance() public {
@@ -90,8 +97,8 @@ contract RedeemerTest is Test {
 
     function testStalePeriod() public {
         uint256 newStalePeriod = 2 hours;
-        redeemer.updateStalePeriod(address(mockOracle), newStalePeriod);
-        assertEq(redeemer.stalePeriod(address(mockOracle)), newStalePeriod, "Stale period should be updated");
+        oracleRouter.updateStalePeriod(address(mockOracle), newStalePeriod);
+        assertEq(oracleRouter.stalePeriod(address(mockOracle)), newStalePeriod, "Stale period should be updated");
 
         // Test for stale price
         vm.warp(block.timestamp + newStalePeriod + 1);
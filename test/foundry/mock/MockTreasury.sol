@@ -5,14 +5,14 @@ import "../../../contracts//interfaces/ITreasury.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 
 contract MockTreasury is ITreasury {
-    mapping(address => address) private tokenOracles;
+    mapping(address => address) private tokenStrategies;
 
     function isWhitelistedToken(address) external pure override returns (bool) {
         return true;
     }
 
-    function oracles(address _token) external view override returns (address) {
-        return tokenOracles[_token];
+    function strategies(address _token) external view override returns (address) {
+        return tokenStrategies[_token];
     }
 
     function withdrawable(address) external pure override returns (uint256) {
@@ -21,8 +21,8 @@ contract MockTreasury is ITreasury {
 
     function setWhitelistedToken(address _token, bool _whitelisted) external {}
 
-    function setOracle(address _token, address _oracle) external {
-        tokenOracles[_token] = _oracle;
+    function setStrategy(address _token, address _strategy) external {
+        tokenStrategies[_token] = _strategy;
     }
 
     function withdraw(address _token, uint256 _amount, address _receiver) external override {
@@ -33,6 +33,25 @@ contract MockTreasury is ITreasury {
         IERC20(_token).transfer(msg.sender, _amount);
     }
 
+    function reserves()
+        external
+        pure
+        override
+        returns (
+            uint256 _totalValue,
+            Reserve[] memory _reserves,
+            uint256 _collateralizationRatio
+        )
+    {
+        return (0, _reserves, type(uint256).max);
+    }
+
+    function redeemer() external view override returns (address) {}
+
+    function isKeeper(address) external view override returns (bool) {}
+
+    function swapManager() external view override returns (address) {}
+
     function vusd() external view override returns (address) {}
 
     function whitelistedTokens() external view override returns (address[] memory) {}
@@ -0,0 +1,149 @@
+import hre from "hardhat";
+import {expect} from "chai";
+import {SignerWithAddress} from "@nomiclabs/hardhat-ethers/signers";
+import {
+  IStrategy,
+  MockComptroller,
+  MockComptroller__factory,
+  MockStablecoin,
+  MockStablecoin__factory,
+  MockUniswapRouter,
+  MockUniswapRouter__factory,
+  OracleRouter__factory,
+  RoleRegistry__factory,
+  Treasury,
+  Treasury__factory,
+} from "../typechain";
+import {formatHarvestPlan, planHarvest, runHarvest} from "../scripts/harvest";
+import {contractAt, isMockNetwork, mintVUSD, setupNetwork} from "./utils/setup";
+
+const {deployments, ethers} = hre;
+
+describe("Harvest keeper", async function () {
+  let treasury: Treasury, router: MockUniswapRouter, comptroller: MockComptroller;
+  let comp: MockStablecoin, dai: MockStablecoin, usdc: MockStablecoin;
+  let daiStrategy: IStrategy, usdcStrategy: IStrategy;
+  let keeper: SignerWithAddress, user: SignerWithAddress;
+  const compAmount = ethers.utils.parseEther("10");
+  const ethPrice = ethers.utils.parseEther("2000");
+  const gasPrice = ethers.utils.parseUnits("1", "gwei");
+
+  before(async function () {
+    // Whole stack is deployed only on network with mocks
+    await setupNetwork();
+    if (!isMockNetwork()) {
+      this.skip();
+    }
+  });
+
+  beforeEach(async function () {
+    await deployments.fixture();
+    [, , , user, keeper] = await ethers.getSigners();
+    treasury = await contractAt(Treasury__factory, "Treasury");
+    router = await contractAt(MockUniswapRouter__factory, "UniswapRouter");
+    comptroller = await contractAt(MockComptroller__factory, "Comptroller");
+    comp = await contractAt(MockStablecoin__factory, "COMP");
+    dai = await contractAt(MockStablecoin__factory, "DAI");
+    usdc = await contractAt(MockStablecoin__factory, "USDC");
+    daiStrategy = (await ethers.getContractAt("IStrategy", await treasury.strategies(dai.address))) as IStrategy;
+    usdcStrategy = (await ethers.getContractAt("IStrategy", await treasury.strategies(usdc.address))) as IStrategy;
+    const roleRegistry = await contractAt(RoleRegistry__factory, "RoleRegistry");
+    await roleRegistry.grantRole(await roleRegistry.KEEPER_ROLE(), keeper.address);
+    // Treasury holds $300 DAI, $100 USDC and $200 USDT, USDC is furthest below a third of $600
+    await mintVUSD(dai, user, "300");
+    await mintVUSD(usdc, user, "100");
+    await mintVUSD(await contractAt(MockStablecoin__factory, "USDT"), user, "200");
+    // Mock router swaps 1 COMP for 50 of each token
+    await comptroller.updateCompAccrued(daiStrategy.address, compAmount);
+  });
+
+  context("Claim", function () {
+    it("Should not deposit when there is no COMP", async function () {
+      await comptroller.updateCompAccrued(daiStrategy.address, 0);
+      const before = await usdcStrategy.totalValue();
+      await treasury.connect(keeper).claimCompAndConvertTo(usdc.address, 0);
+      expect(await usdcStrategy.totalValue()).to.eq(before, "Strategy should not change");
+    });
+
+    it("Should keep COMP in treasury when there is no route", async function () {
+      await router.updateRate(comp.address, usdc.address, 0);
+      const before = await usdcStrategy.totalValue();
+      await treasury.connect(keeper).claimCompAndConvertTo(usdc.address, 0);
+      expect(await usdcStrategy.totalValue()).to.eq(before, "Strategy should not change");
+      expect(await comp.balanceOf(treasury.address)).to.eq(compAmount, "COMP should stay in treasury");
+    });
+    it("Should deposit only swap output, not other token held by treasury", async function () {
+      const stray = ethers.utils.parseUnits("7", 6);
+      await usdc.mint(treasury.address, stray);
+      const before = await usdcStrategy.totalValue();
+      await treasury.connect(keeper).claimCompAndConvertTo(usdc.address, 0);
+      // Mock router swaps 10 COMP for 500 USDC
+      const amountOut = ethers.utils.parseUnits("500", 6);
+      expect(await usdcStrategy.totalValue()).to.eq(before.add(amountOut), "Only swap output should be deposited");
+      expect(await usdc.balanceOf(treasury.address)).to.eq(stray, "Stray USDC should stay in treasury");
+    });
+  });
+
+  context("Keeper script", function () {
+    it("Should plan nothing when there is no COMP", async function () {
+      await comptroller.updateCompAccrued(daiStrategy.address, 0);
+      expect(await planHarvest(hre, {ethPrice, gasPrice})).to.eq(undefined, "Plan should be empty");
+    });
+
+    it("Should target token furthest below its weight", async function () {
+      const plan = await planHarvest(hre, {slippage: 100, ethPrice, gasPrice, keeper: keeper.address});
+      if (!plan) {
+        throw new Error("Plan is empty");
+      }
+      expect(plan.compAmount).to.eq(compAmount, "Wrong COMP amount");
+      expect(plan.candidates.length).to.eq(3, "Wrong candidates");
+      expect(plan.toToken).to.eq(usdc.address, "Wrong target token");
+      expect(plan.expectedOut).to.eq(ethers.utils.parseUnits("500", 6), "Wrong expected out");
+      expect(plan.minOut).to.eq(ethers.utils.parseUnits("495", 6), "Wrong min out");
+      expect(plan.yieldValue).to.eq(ethers.utils.parseEther("500"), "Wrong yield value");
+      expect(plan.profitable).to.eq(true, "Plan should be profitable");
+      expect(formatHarvestPlan(hre, plan)).to.contain("Yield $500.00", "Wrong formatted plan");
+    });
+
+    it("Should value output of token with more than 18 decimals", async function () {
+      const token = await (await ethers.getContractFactory("MockStablecoin")).deploy("Mock 24", "M24", 24);
+      const feed = await (await ethers.getContractFactory("MockChainlinkOracle")).deploy(1e8, 8);
+      const oracleRouter = await contractAt(OracleRouter__factory, "OracleRouter");
+      await oracleRouter.updateFeeds(token.address, feed.address, ethers.constants.AddressZero, 0);
+      await oracleRouter.updateStalePeriod(feed.address, 24 * 60 * 60);
+      const strategy = await (
+        await ethers.getContractFactory("IdleStrategy")
+      ).deploy(await treasury.vusd(), token.address);
+      await treasury.addWhitelistedToken(token.address, strategy.address);
+      // 1 COMP for 50 of token, treasury holds none of it hence it is furthest below its weight
+      await router.updateRate(comp.address, token.address, ethers.utils.parseUnits("50", 24));
+      await token.mint(router.address, ethers.utils.parseUnits("1000", 24));
+      const plan = await planHarvest(hre, {ethPrice, gasPrice, keeper: keeper.address});
+      expect(plan?.toToken).to.eq(token.address, "Wrong target token");
+      expect(plan?.expectedOut).to.eq(ethers.utils.parseUnits("500", 24), "Wrong expected out");
+      expect(plan?.yieldValue).to.eq(ethers.utils.parseEther("500"), "Wrong yield value");
+    });
+
+    it("Should skip when gas costs more than yield", async function () {
+      const plan = await planHarvest(hre, {ethPrice, gasPrice: ethers.utils.parseUnits("10000", "gwei")});
+      expect(plan?.profitable).to.eq(false, "Plan should not be profitable");
+    });
+
+    it("Should roll back dry run and deposit on real run", async function () {
+      const plan = await planHarvest(hre, {ethPrice, gasPrice, keeper: keeper.address});
+      if (!plan) {
+        throw new Error("Plan is empty");
+      }
+      const before = await usdcStrategy.totalValue();
+      const dryRun = await runHarvest(hre, plan, true);
+      expect(dryRun.amountOut).to.eq(plan.expectedOut, "Wrong dry run output");
+      expect(dryRun.txHash).to.eq(undefined, "Dry run should not report tx");
+      expect(await usdcStrategy.totalValue()).to.eq(before, "Dry run should be rolled back");
+
+      const result = await runHarvest(hre, plan);
+      expect(result.amountOut).to.eq(plan.expectedOut, "Wrong output");
+      expect(await usdcStrategy.totalValue()).to.eq(before.add(plan.expectedOut), "Output should be deposited");
+      expect(await comptroller.compAccrued(daiStrategy.address)).to.eq(0, "COMP should be claimed");
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre from "hardhat";
+import {expect} from "chai";
+import {SignerWithAddress} from "@nomiclabs/hardhat-ethers/signers";
+import {
+  Minter,
+  Minter__factory,
+  MockStablecoin,
+  MockStablecoin__factory,
+  Redeemer,
+  Redeemer__factory,
+  Treasury,
+  Treasury__factory,
+  VUSD,
+  VUSD__factory,
+} from "../typechain";
+import {createLedger, indexLedger, ledgerToCsv, readLedger, summarizeLedger, writeLedger} from "../scripts/ledger";
+import {contractAt, isMockNetwork, setupNetwork} from "./utils/setup";
+
+const {deployments, ethers} = hre;
+
+describe("Ledger", async function () {
+  let minter: Minter, redeemer: Redeemer, treasury: Treasury, vusd: VUSD;
+  let comp: MockStablecoin, usdc: MockStablecoin;
+  let governor: SignerWithAddress, user: SignerWithAddress;
+  let fromBlock: number;
+  const usdcAmount = ethers.utils.parseUnits("100", 6);
+  const vusdAmount = ethers.utils.parseEther("50");
+
+  before(async function () {
+    // Whole stack is deployed only on network with mocks
+    await setupNetwork();
+    if (!isMockNetwork()) {
+      this.skip();
+    }
+  });
+
+  beforeEach(async function () {
+    await deployments.fixture();
+    [governor, , , user] = await ethers.getSigners();
+    minter = await contractAt(Minter__factory, "Minter");
+    redeemer = await contractAt(Redeemer__factory, "Redeemer");
+    treasury = await contractAt(Treasury__factory, "Treasury");
+    vusd = await contractAt(VUSD__factory, "VUSD");
+    comp = await contractAt(MockStablecoin__factory, "COMP");
+    usdc = await contractAt(MockStablecoin__factory, "USDC");
+    fromBlock = (await ethers.provider.getBlock("latest")).number + 1;
+    // 1% minting fee and default 0.3% redeem fee
+    await minter.updateMintingFee(100);
+    await usdc.mint(user.address, usdcAmount);
+    await usdc.connect(user).approve(minter.address, usdcAmount);
+    const userMinter = minter.connect(user);
+    await userMinter["mint(address,uint256,uint256,address)"](usdc.address, usdcAmount, 0, user.address);
+    await vusd.connect(user).approve(redeemer.address, vusdAmount);
+  });
+
+  context("Events", function () {
+    const vusdFee = ethers.utils.parseEther("0.15");
+
+    it("Should emit Redeem with redeem fee in token decimals and in VUSD", async function () {
+      const tx = redeemer.connect(user).redeem(usdc.address, vusdAmount, 0, governor.address);
+      await expect(tx)
+        .to.emit(redeemer, "Redeem")
+        .withArgs(usdc.address, vusdAmount, 49_850_000, 150_000, vusdFee, user.address, governor.address);
+      await expect(tx).to.emit(treasury, "Withdrawn").withArgs(usdc.address, 49_850_000, governor.address);
+    });
+
+    it("Should emit Redeem for each token of multi redeem", async function () {
+      const tx = redeemer.connect(user).redeemMulti([usdc.address], [vusdAmount], [0], user.address);
+      await expect(tx)
+        .to.emit(redeemer, "Redeem")
+        .withArgs(usdc.address, vusdAmount, 49_850_000, 150_000, vusdFee, user.address, user.address);
+    });
+
+    it("Should emit Withdrawn on withdraw of governor", async function () {
+      await expect(treasury["withdraw(address,uint256)"](usdc.address, 1000))
+        .to.emit(treasury, "Withdrawn")
+        .withArgs(usdc.address, 1000, governor.address);
+      const total = await (
+        await ethers.getContractAt("IStrategy", await treasury.strategies(usdc.address))
+      ).totalValue();
+      await expect(treasury.withdrawAll([usdc.address]))
+        .to.emit(treasury, "Withdrawn")
+        .withArgs(usdc.address, total, governor.address);
+    });
+
+    it("Should emit Swept with receiver", async function () {
+      await comp.mint(treasury.address, 10);
+      await expect(treasury.sweep(comp.address))
+        .to.emit(treasury, "Swept")
+        .withArgs(comp.address, 10, governor.address);
+      const strategy = await treasury.strategies(usdc.address);
+      await usdc.mint(treasury.address, 20);
+      await expect(treasury.sweep(usdc.address)).to.emit(treasury, "Swept").withArgs(usdc.address, 20, strategy);
+    });
+  });
+
+  context("Indexer", function () {
+    beforeEach(async function () {
+      await redeemer.connect(user).redeem(usdc.address, vusdAmount, 0, user.address);
+      await comp.mint(treasury.address, 10);
+      await treasury.sweep(comp.address);
+    });
+
+    it("Should build ledger of mints, redeems and treasury movements", async function () {
+      const ledger = await indexLedger(hre, await createLedger(hre, fromBlock));
+      expect(ledger.entries.map((entry) => entry.kind)).to.deep.eq(
+        ["mint", "withdraw", "redeem", "sweep"],
+        "Wrong entries"
+      );
+      const [mint, withdraw, redeem, sweep] = ledger.entries;
+      expect(mint.account).to.eq(user.address, "Wrong mint account");
+      expect(mint.vusdAmount).to.eq(ethers.utils.parseEther("99").toString(), "Wrong mintage");
+      expect(mint.fee).to.eq("1000000", "Wrong minting fee");
+      expect(redeem.fee).to.eq("150000", "Wrong redeem fee");
+      expect(withdraw.reserveChange).to.eq("-49850000", "Wrong withdraw reserve change");
+      expect(sweep.reserveChange).to.eq("0", "Sweep to governor should not change reserves");
+
+      const summary = summarizeLedger(hre, ledger);
+      expect(summary.accounts[user.address]).to.deep.eq(
+        {minted: ethers.utils.parseEther("99").toString(), redeemed: vusdAmount.toString(), mints: 1, redeems: 1},
+        "Wrong account summary"
+      );
+      expect(summary.fees[usdc.address]).to.eq("1150000", "Wrong fees");
+      expect(summary.reserveChanges[usdc.address]).to.eq("50150000", "Wrong reserve change");
+      const csv = ledgerToCsv(ledger).trim().split("\n");
+      expect(csv.length).to.eq(5, "CSV should have header and a row per entry");
+      expect(csv[0]).to.eq("block,txHash,logIndex,kind,account,token,tokenAmount,vusdAmount,fee,reserveChange");
+    });
+
+    it("Should resume from checkpoint", async function () {
+      const latest = (await ethers.provider.getBlock("latest")).number;
+      const full = await indexLedger(hre, await createLedger(hre, fromBlock), {batchSize: 1});
+      const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "ledger-")), "ledger.json");
+      const partial = await indexLedger(hre, await createLedger(hre, fromBlock), {toBlock: latest - 2});
+      writeLedger(hre, partial, file);
+      expect(fs.existsSync(file.replace(".json", ".csv"))).to.eq(true, "CSV should be written");
+
+      const checkpoint = readLedger(file);
+      if (!checkpoint) {
+        throw new Error("Checkpoint is missing");
+      }
+      expect(checkpoint.nextBlock).to.eq(latest - 1, "Wrong checkpoint");
+      expect(await indexLedger(hre, checkpoint)).to.deep.eq(full, "Resumed ledger should match full ledger");
+    });
+  });
+});
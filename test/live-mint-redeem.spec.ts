@@ -3,10 +3,12 @@ const ethers = hre.ethers;
 import {expect} from "chai";
 import {VUSD, Minter, Redeemer, ERC20} from "../typechain";
 import address from "./utils/address";
-import releases from "../releases/1.4.1/contracts.json";
+import {isMockNetwork, setupNetwork} from "./utils/setup";
+import {latestRelease, readRelease} from "../scripts/releases";
 import {SignerWithAddress} from "@nomiclabs/hardhat-ethers/signers";
 
 const USDC_WHALE = "0xE78388b4CE79068e89Bf8aA7f218eF6b9AB0e9d0";
+const releases = readRelease(latestRelease());
 
 describe("Live mint and redeem test", async function () {
   let minter: Minter, redeemer: Redeemer, vusd: VUSD, usdc: ERC20;
@@ -26,6 +28,14 @@ describe("Live mint and redeem test", async function () {
     return ethers.getSigner(account);
   }
 
+  before(async function () {
+    // Live contracts exist only on mainnet fork
+    await setupNetwork();
+    if (isMockNetwork()) {
+      this.skip();
+    }
+  });
+
   beforeEach(async function () {
     minter = (await ethers.getContractAt("Minter", releases.networks.mainnet.Minter)) as Minter;
     redeemer = (await ethers.getContractAt("Redeemer", releases.networks.mainnet.Redeemer)) as Redeemer;
@@ -34,7 +44,7 @@ describe("Live mint and redeem test", async function () {
   });
 
   it("Should verify mint and redeem", async function () {
-    expect(await minter.VERSION()).to.eq("1.4.1", "Wrong contract version");
+    expect(await minter.VERSION()).to.eq(releases.version, "Wrong contract version");
 
     const signer = await impersonateAccount(USDC_WHALE);
 
@@ -44,14 +54,16 @@ describe("Live mint and redeem test", async function () {
     const vUSDMintage = await minter.calculateMintage(address.USDC, usdcAmount);
 
     await usdc.connect(signer).approve(minter.address, usdcAmount);
-    await minter.connect(signer)["mint(address,uint256)"](address.USDC, usdcAmount);
+    const signerMinter = minter.connect(signer);
+    await signerMinter["mint(address,uint256,uint256,address)"](address.USDC, usdcAmount, vUSDMintage, signer.address);
 
     const vUSDBalance = await vusd.balanceOf(signer.address);
     expect(vUSDBalance).to.eq(vUSDMintage, "Incorrect VUSD amount");
 
     // Approve VUSD to redeem USDC
     await vusd.connect(signer).approve(redeemer.address, vUSDBalance);
-    await redeemer.connect(signer)["redeem(address,uint256)"](address.USDC, vUSDBalance);
+    const redeemable = await redeemer["redeemable(address,uint256)"](address.USDC, vUSDBalance);
+    await redeemer.connect(signer).redeem(address.USDC, vUSDBalance, redeemable, signer.address);
     expect(await vusd.balanceOf(signer.address)).to.eq(0, "VUSD amount should be zero");
   });
 });
@@ -0,0 +1,63 @@
+import hre from "hardhat";
+import {expect} from "chai";
+import {
+  ERC20__factory,
+  Minter,
+  Minter__factory,
+  Redeemer,
+  Redeemer__factory,
+  Treasury,
+  Treasury__factory,
+  VUSD,
+  VUSD__factory,
+} from "../typechain";
+import {contractAt, fundToken, isMockNetwork, setupNetwork} from "./utils/setup";
+
+const {deployments, ethers} = hre;
+
+describe("Deployment against mocks", async function () {
+  let minter: Minter, redeemer: Redeemer, treasury: Treasury, vusd: VUSD;
+  let signers;
+
+  before(async function () {
+    // Whole stack is deployed only on network with mocks
+    await setupNetwork();
+    if (!isMockNetwork()) {
+      this.skip();
+    }
+  });
+
+  beforeEach(async function () {
+    signers = await ethers.getSigners();
+    await deployments.fixture();
+    vusd = await contractAt(VUSD__factory, "VUSD");
+    minter = await contractAt(Minter__factory, "Minter");
+    redeemer = await contractAt(Redeemer__factory, "Redeemer");
+    treasury = await contractAt(Treasury__factory, "Treasury");
+  });
+
+  it("Should wire VUSD, Minter, Redeemer and Treasury", async function () {
+    expect(await vusd.minter()).to.eq(minter.address, "Wrong minter");
+    expect(await vusd.treasury()).to.eq(treasury.address, "Wrong treasury");
+    expect(await treasury.redeemer()).to.eq(redeemer.address, "Wrong redeemer");
+    expect(await treasury.whitelistedTokens()).to.deep.eq(await minter.whitelistedTokens(), "Wrong tokens");
+  });
+
+  it("Should mint and redeem with mock tokens", async function () {
+    const user = signers[3];
+    const usdc = await contractAt(ERC20__factory, "USDC");
+    const usdcAmount = await fundToken("1", usdc.address, user);
+    const mintage = await minter.calculateMintage(usdc.address, usdcAmount);
+    await usdc.connect(user).approve(minter.address, usdcAmount);
+    const userMinter = minter.connect(user);
+    await userMinter["mint(address,uint256,uint256,address)"](usdc.address, usdcAmount, mintage, user.address);
+    expect(await vusd.balanceOf(user.address)).to.eq(mintage, "Incorrect VUSD amount");
+    expect(await usdc.balanceOf(user.address)).to.eq(0, "USDC should be deposited");
+
+    const redeemable = await redeemer["redeemable(address,uint256)"](usdc.address, mintage);
+    await vusd.connect(user).approve(redeemer.address, mintage);
+    await redeemer.connect(user).redeem(usdc.address, mintage, redeemable, user.address);
+    expect(await vusd.balanceOf(user.address)).to.eq(0, "VUSD should be burnt");
+    expect(await usdc.balanceOf(user.address)).to.eq(redeemable, "Incorrect USDC amount");
+  });
+});
@@ -0,0 +1,265 @@
+import hre from "hardhat";
+import {expect} from "chai";
+import {SignerWithAddress} from "@nomiclabs/hardhat-ethers/signers";
+import {
+  Minter,
+  Minter__factory,
+  MockChainlinkOracle,
+  MockStablecoin,
+  MockStablecoin__factory,
+  OracleRouter,
+  OracleRouter__factory,
+  Redeemer,
+  Redeemer__factory,
+  VUSD,
+} from "../typechain";
+import {contractAt, isMockNetwork, setupNetwork} from "./utils/setup";
+
+const {deployments, ethers} = hre;
+const ZERO_ADDRESS = ethers.constants.AddressZero;
+const HOUR = 60 * 60;
+const FALLBACK = 0;
+const MEDIAN = 1;
+
+describe("Oracle router", async function () {
+  let oracleRouter: OracleRouter, vusd: VUSD;
+  let primary: MockChainlinkOracle, secondary: MockChainlinkOracle;
+  let governor: SignerWithAddress, user: SignerWithAddress;
+  let token: string;
+
+  async function deployFeed(price: string, decimals = 8): Promise<MockChainlinkOracle> {
+    const factory = await ethers.getContractFactory("MockChainlinkOracle");
+    return (await factory.deploy(ethers.utils.parseUnits(price, decimals), decimals)) as MockChainlinkOracle;
+  }
+
+  async function makeStale(feed: MockChainlinkOracle) {
+    const {timestamp} = await ethers.provider.getBlock("latest");
+    const [roundId, answer] = await feed.latestRoundData();
+    await feed.updateRoundData(roundId, answer, timestamp - HOUR, roundId);
+  }
+
+  before(async function () {
+    await setupNetwork();
+  });
+
+  beforeEach(async function () {
+    [governor, user] = await ethers.getSigners();
+    token = ethers.Wallet.createRandom().address;
+    vusd = (await (await ethers.getContractFactory("VUSD")).deploy(governor.address)) as VUSD;
+    primary = await deployFeed("1.001");
+    secondary = await deployFeed("0.999", 18);
+    const factory = await ethers.getContractFactory("OracleRouter");
+    oracleRouter = (await factory.deploy(
+      vusd.address,
+      [token],
+      [primary.address],
+      [secondary.address],
+      [HOUR]
+    )) as OracleRouter;
+  });
+
+  it("Should revert if input length mismatch", async function () {
+    const factory = await ethers.getContractFactory("OracleRouter");
+    const tx = factory.deploy(vusd.address, [token], [primary.address], [], [HOUR]);
+    await expect(tx).to.be.revertedWith("input-length-mismatch");
+  });
+
+  context("Fallback mode", function () {
+    it("Should return primary price with 18 decimals", async function () {
+      expect(await oracleRouter.price(token)).to.eq(ethers.utils.parseEther("1.001"), "Wrong price");
+    });
+
+    it("Should scale down price of feed with more than 18 decimals", async function () {
+      const feed = await deployFeed("1.001", 20);
+      await oracleRouter.updateFeeds(token, feed.address, ZERO_ADDRESS, FALLBACK);
+      await oracleRouter.updateStalePeriod(feed.address, HOUR);
+      expect(await oracleRouter.price(token)).to.eq(ethers.utils.parseEther("1.001"), "Wrong price");
+    });
+
+    it("Should fall back to secondary when primary is stale", async function () {
+      await makeStale(primary);
+      expect(await oracleRouter.price(token)).to.eq(ethers.utils.parseEther("0.999"), "Wrong price");
+    });
+
+    it("Should fall back to secondary when primary price is not positive", async function () {
+      await primary.updatePrice(0);
+      expect(await oracleRouter.price(token)).to.eq(ethers.utils.parseEther("0.999"), "Wrong price");
+      await primary.updatePrice(-1);
+      expect(await oracleRouter.price(token)).to.eq(ethers.utils.parseEther("0.999"), "Wrong price");
+    });
+
+    it("Should fall back to secondary when primary round is not complete", async function () {
+      const {timestamp} = await ethers.provider.getBlock("latest");
+      await primary.updateRoundData(5, ethers.utils.parseUnits("1", 8), timestamp, 4);
+      const [, valid] = await oracleRouter.feedPrice(primary.address);
+      expect(valid).to.eq(false, "Incomplete round should be invalid");
+      expect(await oracleRouter.price(token)).to.eq(ethers.utils.parseEther("0.999"), "Wrong price");
+    });
+
+    it("Should fall back to secondary when primary reverts", async function () {
+      // VUSD has no latestRoundData(), so the call reverts
+      await oracleRouter.updateFeeds(token, vusd.address, secondary.address, FALLBACK);
+      await oracleRouter.updateStalePeriod(vusd.address, HOUR);
+      const [, valid] = await oracleRouter.feedPrice(vusd.address);
+      expect(valid).to.eq(false, "Reverting feed should be invalid");
+      expect(await oracleRouter.price(token)).to.eq(ethers.utils.parseEther("0.999"), "Wrong price");
+      await oracleRouter.updateFeeds(token, vusd.address, ZERO_ADDRESS, FALLBACK);
+      await expect(oracleRouter.price(token)).to.be.revertedWith("oracle-feed-reverted");
+    });
+
+    it("Should fall back to secondary when primary has no code", async function () {
+      const noCode = ethers.Wallet.createRandom().address;
+      await oracleRouter.updateFeeds(token, noCode, secondary.address, FALLBACK);
+      await oracleRouter.updateStalePeriod(noCode, HOUR);
+      const [, valid] = await oracleRouter.feedPrice(noCode);
+      expect(valid).to.eq(false, "Feed without code should be invalid");
+      expect(await oracleRouter.price(token)).to.eq(ethers.utils.parseEther("0.999"), "Wrong price");
+      await oracleRouter.updateFeeds(token, noCode, ZERO_ADDRESS, FALLBACK);
+      await expect(oracleRouter.price(token)).to.be.revertedWith("oracle-feed-has-no-code");
+    });
+
+    it("Should fall back to secondary when primary is updated in the future", async function () {
+      const {timestamp} = await ethers.provider.getBlock("latest");
+      await primary.updateRoundData(2, ethers.utils.parseUnits("1", 8), timestamp + HOUR, 2);
+      expect(await oracleRouter.price(token)).to.eq(ethers.utils.parseEther("0.999"), "Wrong price");
+      await secondary.updatePrice(0);
+      await expect(oracleRouter.price(token)).to.be.revertedWith("oracle-price-is-stale");
+    });
+
+    it("Should revert if both feeds are invalid", async function () {
+      await makeStale(primary);
+      await secondary.updatePrice(0);
+      await expect(oracleRouter.price(token)).to.be.revertedWith("oracle-price-is-stale");
+    });
+
+    it("Should revert if token has only a stale primary feed", async function () {
+      await oracleRouter.updateFeeds(token, primary.address, ZERO_ADDRESS, FALLBACK);
+      await makeStale(primary);
+      await expect(oracleRouter.price(token)).to.be.revertedWith("oracle-price-is-stale");
+    });
+
+    it("Should revert with reason of primary feed", async function () {
+      await secondary.updatePrice(0);
+      await primary.updatePrice(-1);
+      await expect(oracleRouter.price(token)).to.be.revertedWith("oracle-price-is-invalid");
+      const {timestamp} = await ethers.provider.getBlock("latest");
+      await primary.updateRoundData(5, ethers.utils.parseUnits("1", 8), timestamp, 4);
+      await expect(oracleRouter.price(token)).to.be.revertedWith("oracle-round-is-incomplete");
+    });
+  });
+
+  context("Median mode", function () {
+    beforeEach(async function () {
+      await oracleRouter.updateFeeds(token, primary.address, secondary.address, MEDIAN);
+    });
+
+    it("Should return median of both feeds", async function () {
+      expect(await oracleRouter.price(token)).to.eq(ethers.utils.parseEther("1"), "Wrong price");
+    });
+
+    it("Should revert if any feed is invalid", async function () {
+      await makeStale(secondary);
+      await expect(oracleRouter.price(token)).to.be.revertedWith("oracle-price-is-stale");
+      await secondary.updatePrice(0);
+      await expect(oracleRouter.price(token)).to.be.revertedWith("oracle-price-is-invalid");
+    });
+
+    it("Should revert with reason if any feed has no code", async function () {
+      const noCode = ethers.Wallet.createRandom().address;
+      await oracleRouter.updateFeeds(token, primary.address, noCode, MEDIAN);
+      await expect(oracleRouter.price(token)).to.be.revertedWith("oracle-feed-has-no-code");
+    });
+  });
+
+  context("Governance", function () {
+    it("Should revert if caller is not governor or oracle manager", async function () {
+      const tx = oracleRouter.connect(user).updateFeeds(token, secondary.address, primary.address, FALLBACK);
+      await expect(tx).to.be.revertedWith("caller-is-not-the-governor");
+      await expect(oracleRouter.connect(user).removeFeeds(token)).to.be.revertedWith("caller-is-not-the-governor");
+      const stalePeriodTx = oracleRouter.connect(user).updateStalePeriod(primary.address, 1);
+      await expect(stalePeriodTx).to.be.revertedWith("caller-is-not-authorized");
+      const registryTx = oracleRouter.connect(user).updateRoleRegistry(user.address);
+      await expect(registryTx).to.be.revertedWith("caller-is-not-the-governor");
+    });
+
+    it("Should update feeds", async function () {
+      const tx = oracleRouter.updateFeeds(token, secondary.address, primary.address, MEDIAN);
+      await expect(tx)
+        .to.emit(oracleRouter, "UpdatedFeeds")
+        .withArgs(token, secondary.address, primary.address, MEDIAN);
+      const feeds = await oracleRouter.feeds(token);
+      expect(feeds.primary).to.eq(secondary.address, "Wrong primary feed");
+      expect(feeds.mode).to.eq(MEDIAN, "Wrong mode");
+    });
+
+    it("Should revert if median has no secondary feed", async function () {
+      const tx = oracleRouter.updateFeeds(token, primary.address, ZERO_ADDRESS, MEDIAN);
+      await expect(tx).to.be.revertedWith("median-needs-secondary-feed");
+    });
+
+    it("Should revert if primary and secondary are same", async function () {
+      const tx = oracleRouter.updateFeeds(token, primary.address, primary.address, FALLBACK);
+      await expect(tx).to.be.revertedWith("same-feed");
+    });
+
+    it("Should remove feeds", async function () {
+      await expect(oracleRouter.removeFeeds(token)).to.emit(oracleRouter, "RemovedFeeds").withArgs(token);
+      await expect(oracleRouter.price(token)).to.be.revertedWith("token-has-no-feed");
+      await expect(oracleRouter.removeFeeds(token)).to.be.revertedWith("token-has-no-feed");
+    });
+
+    it("Should update stale period", async function () {
+      const tx = oracleRouter.updateStalePeriod(primary.address, 2 * HOUR);
+      await expect(tx)
+        .to.emit(oracleRouter, "UpdatedStalePeriod")
+        .withArgs(primary.address, HOUR, 2 * HOUR);
+      await makeStale(primary);
+      expect(await oracleRouter.price(token)).to.eq(ethers.utils.parseEther("1.001"), "Primary should be fresh");
+    });
+
+    it("Should revert if stale period is invalid", async function () {
+      await expect(oracleRouter.updateStalePeriod(primary.address, HOUR)).to.be.revertedWith("same-stale-period");
+      await expect(oracleRouter.updateStalePeriod(primary.address, 0)).to.be.revertedWith("stale-period-is-invalid");
+    });
+  });
+
+  context("Minter and Redeemer", function () {
+    let minter: Minter, redeemer: Redeemer, usdc: MockStablecoin, router: OracleRouter;
+
+    before(async function () {
+      // Primary feed can be made stale only on network with mocks
+      if (!isMockNetwork()) {
+        this.skip();
+      }
+    });
+
+    beforeEach(async function () {
+      await deployments.fixture();
+      minter = await contractAt(Minter__factory, "Minter");
+      redeemer = await contractAt(Redeemer__factory, "Redeemer");
+      usdc = await contractAt(MockStablecoin__factory, "USDC");
+      router = await contractAt(OracleRouter__factory, "OracleRouter");
+    });
+
+    it("Should share one oracle router", async function () {
+      expect(await minter.oracleRouter()).to.eq(router.address, "Wrong router in minter");
+      expect(await redeemer.oracleRouter()).to.eq(router.address, "Wrong router in redeemer");
+    });
+
+    it("Should keep minting with secondary feed when primary is stale", async function () {
+      const {primary: usdcPrimary} = await router.feeds(usdc.address);
+      const primaryFeed = (await ethers.getContractAt("MockChainlinkOracle", usdcPrimary)) as MockChainlinkOracle;
+      const secondaryFeed = await deployFeed("1");
+      await router.updateFeeds(usdc.address, usdcPrimary, secondaryFeed.address, FALLBACK);
+      await router.updateStalePeriod(secondaryFeed.address, HOUR);
+      const amount = ethers.utils.parseUnits("100", 6);
+
+      const {timestamp} = await ethers.provider.getBlock("latest");
+      await primaryFeed.updateRoundData(2, ethers.utils.parseUnits("1", 8), timestamp - 2 * 24 * HOUR, 2);
+      expect(await minter.calculateMintage(usdc.address, amount)).to.eq(ethers.utils.parseEther("100"));
+
+      await router.updateFeeds(usdc.address, usdcPrimary, ZERO_ADDRESS, FALLBACK);
+      await expect(minter.calculateMintage(usdc.address, amount)).to.be.revertedWith("oracle-price-is-stale");
+    });
+  });
+});
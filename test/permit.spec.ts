@@ -0,0 +1,145 @@
+import hre from "hardhat";
+import {expect} from "chai";
+import {SignerWithAddress} from "@nomiclabs/hardhat-ethers/signers";
+import {
+  Minter,
+  Minter__factory,
+  MockStablecoin,
+  MockStablecoin__factory,
+  Redeemer,
+  Redeemer__factory,
+  VUSD,
+  VUSD__factory,
+} from "../typechain";
+import {signDaiPermit, signPermit} from "../sdk";
+import {contractAt, fundToken, isMockNetwork, setupNetwork} from "./utils/setup";
+
+const {deployments, ethers} = hre;
+
+describe("Mint and redeem with permit", async function () {
+  let minter: Minter, redeemer: Redeemer, vusd: VUSD, usdc: MockStablecoin, dai: MockStablecoin;
+  let user: SignerWithAddress, other: SignerWithAddress;
+  let deadline: number;
+
+  before(async function () {
+    // Permit tokens are available only on network with mocks
+    await setupNetwork();
+    if (!isMockNetwork()) {
+      this.skip();
+    }
+  });
+
+  beforeEach(async function () {
+    await deployments.fixture();
+    [, , , user, other] = await ethers.getSigners();
+    minter = await contractAt(Minter__factory, "Minter");
+    redeemer = await contractAt(Redeemer__factory, "Redeemer");
+    vusd = await contractAt(VUSD__factory, "VUSD");
+    usdc = await contractAt(MockStablecoin__factory, "USDC");
+    dai = await contractAt(MockStablecoin__factory, "DAI");
+    deadline = (await ethers.provider.getBlock("latest")).timestamp + 3600;
+  });
+
+  describe("mintWithPermit", function () {
+    let amount;
+
+    beforeEach(async function () {
+      amount = await fundToken("1", usdc.address, user);
+    });
+
+    it("Should mint VUSD without approve", async function () {
+      const mintage = await minter.calculateMintage(usdc.address, amount);
+      const {v, r, s} = await signPermit(user, usdc.address, minter.address, amount, deadline);
+      await minter.connect(user).mintWithPermit(usdc.address, amount, mintage, user.address, deadline, v, r, s);
+      expect(await vusd.balanceOf(user.address)).to.eq(mintage, "Incorrect VUSD amount");
+      expect(await usdc.nonces(user.address)).to.eq(1, "Permit should be used");
+    });
+
+    it("Should revert if permit is expired", async function () {
+      const expired = (await ethers.provider.getBlock("latest")).timestamp - 1;
+      const {v, r, s} = await signPermit(user, usdc.address, minter.address, amount, expired);
+      const tx = minter.connect(user).mintWithPermit(usdc.address, amount, 0, user.address, expired, v, r, s);
+      await expect(tx).to.be.revertedWith("ERC20: transfer amount exceeds allowance");
+      expect(await usdc.nonces(user.address)).to.eq(0, "Permit should not be used");
+    });
+
+    it("Should revert if permit is replayed", async function () {
+      const half = amount.div(2);
+      const {v, r, s} = await signPermit(user, usdc.address, minter.address, half, deadline);
+      await minter.connect(user).mintWithPermit(usdc.address, half, 0, user.address, deadline, v, r, s);
+      const tx = minter.connect(user).mintWithPermit(usdc.address, half, 0, user.address, deadline, v, r, s);
+      await expect(tx).to.be.revertedWith("ERC20: transfer amount exceeds allowance");
+    });
+
+    it("Should revert if permit is signed by someone else", async function () {
+      await fundToken("1", usdc.address, other);
+      const {v, r, s} = await signPermit(other, usdc.address, minter.address, amount, deadline);
+      const tx = minter.connect(user).mintWithPermit(usdc.address, amount, 0, user.address, deadline, v, r, s);
+      await expect(tx).to.be.revertedWith("ERC20: transfer amount exceeds allowance");
+    });
+  });
+
+  describe("mintWithDaiPermit", function () {
+    it("Should mint VUSD without approve", async function () {
+      const amount = await fundToken("1", dai.address, user);
+      const mintage = await minter.calculateMintage(dai.address, amount);
+      const {nonce, expiry, v, r, s} = await signDaiPermit(user, dai.address, minter.address, deadline);
+      await minter.connect(user).mintWithDaiPermit(dai.address, amount, mintage, user.address, nonce, expiry, v, r, s);
+      expect(await vusd.balanceOf(user.address)).to.eq(mintage, "Incorrect VUSD amount");
+      expect(await dai.nonces(user.address)).to.eq(1, "Permit should be used");
+    });
+
+    it("Should revert if permit is expired", async function () {
+      const amount = await fundToken("1", dai.address, user);
+      const expired = (await ethers.provider.getBlock("latest")).timestamp - 1;
+      const {nonce, v, r, s} = await signDaiPermit(user, dai.address, minter.address, expired);
+      const tx = minter.connect(user).mintWithDaiPermit(dai.address, amount, 0, user.address, nonce, expired, v, r, s);
+      await expect(tx).to.be.revertedWith("ERC20: transfer amount exceeds allowance");
+    });
+  });
+
+  describe("redeemWithPermit", function () {
+    let vusdAmount;
+
+    beforeEach(async function () {
+      const amount = await fundToken("1", usdc.address, user);
+      await usdc.connect(user).approve(minter.address, amount);
+      await minter.connect(user)["mint(address,uint256,uint256,address)"](usdc.address, amount, 0, user.address);
+      vusdAmount = await vusd.balanceOf(user.address);
+    });
+
+    it("Should redeem VUSD without approve", async function () {
+      const redeemable = await redeemer["redeemable(address,uint256)"](usdc.address, vusdAmount);
+      const {v, r, s} = await signPermit(user, vusd.address, redeemer.address, vusdAmount, deadline);
+      await redeemer
+        .connect(user)
+        .redeemWithPermit(usdc.address, vusdAmount, redeemable, user.address, deadline, v, r, s);
+      expect(await vusd.balanceOf(user.address)).to.eq(0, "VUSD should be burnt");
+      expect(await usdc.balanceOf(user.address)).to.eq(redeemable, "Incorrect USDC amount");
+    });
+
+    it("Should redeem VUSD if permit is front-run", async function () {
+      const {v, r, s} = await signPermit(user, vusd.address, redeemer.address, vusdAmount, deadline);
+      await vusd.connect(other).permit(user.address, redeemer.address, vusdAmount, deadline, v, r, s);
+      await redeemer.connect(user).redeemWithPermit(usdc.address, vusdAmount, 0, user.address, deadline, v, r, s);
+      expect(await vusd.balanceOf(user.address)).to.eq(0, "VUSD should be burnt");
+    });
+
+    it("Should revert if permit is expired", async function () {
+      const expired = (await ethers.provider.getBlock("latest")).timestamp - 1;
+      const {v, r, s} = await signPermit(user, vusd.address, redeemer.address, vusdAmount, expired);
+      const tx = redeemer.connect(user).redeemWithPermit(usdc.address, vusdAmount, 0, user.address, expired, v, r, s);
+      await expect(tx).to.be.revertedWith("ERC20: burn amount exceeds allowance");
+      expect(await vusd.nonces(user.address)).to.eq(0, "Permit should not be used");
+    });
+
+    it("Should revert if permit is replayed", async function () {
+      const half = vusdAmount.div(2);
+      const {v, r, s} = await signPermit(user, vusd.address, redeemer.address, half, deadline);
+      await redeemer.connect(user).redeemWithPermit(usdc.address, half, 0, user.address, deadline, v, r, s);
+      const tx = redeemer.connect(user).redeemWithPermit(usdc.address, half, 0, user.address, deadline, v, r, s);
+      await expect(tx).to.be.revertedWith("ERC20: burn amount exceeds allowance");
+      expect(await vusd.balanceOf(user.address)).to.eq(vusdAmount.sub(half), "Only first redeem should burn");
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import hre from "hardhat";
+import {expect} from "chai";
+import {SignerWithAddress} from "@nomiclabs/hardhat-ethers/signers";
+import {
+  CircuitBreaker__factory,
+  Minter,
+  Minter__factory,
+  MockChainlinkOracle__factory,
+  MockMalformedReturn,
+  MockStablecoin,
+  MockStablecoin__factory,
+  OracleRouter__factory,
+  Quoter,
+  Quoter__factory,
+  RateLimiter__factory,
+  Redeemer,
+  Redeemer__factory,
+  Treasury__factory,
+  VUSD,
+  VUSD__factory,
+} from "../typechain";
+import {decodeQuoterQuote, decodeQuoterStatus, quoteMintAll, quoteRedeemAll} from "../sdk";
+import {contractAt, isMockNetwork, mintVUSD, setupNetwork} from "./utils/setup";
+
+const {deployments, ethers} = hre;
+const {parseEther, parseUnits} = ethers.utils;
+
+describe("Quoter", async function () {
+  let quoter: Quoter, minter: Minter, redeemer: Redeemer, vusd: VUSD, usdc: MockStablecoin, dai: MockStablecoin;
+  let user: SignerWithAddress, alice: SignerWithAddress;
+
+  async function quoteMint(token: string, amountIn: string) {
+    return decodeQuoterQuote(await quoter.quoteMint(token, amountIn, user.address));
+  }
+
+  async function quoteRedeem(token: string, vusdAmount: string) {
+    return decodeQuoterQuote(await quoter.quoteRedeem(token, vusdAmount, user.address));
+  }
+
+  before(async function () {
+    // Whole stack is deployed only on network with mocks
+    await setupNetwork();
+    if (!isMockNetwork()) {
+      this.skip();
+    }
+  });
+
+  beforeEach(async function () {
+    await deployments.fixture();
+    [, , , user, alice] = await ethers.getSigners();
+    quoter = await contractAt(Quoter__factory, "Quoter");
+    minter = await contractAt(Minter__factory, "Minter");
+    redeemer = await contractAt(Redeemer__factory, "Redeemer");
+    vusd = await contractAt(VUSD__factory, "VUSD");
+    usdc = await contractAt(MockStablecoin__factory, "USDC");
+    dai = await contractAt(MockStablecoin__factory, "DAI");
+  });
+
+  it("Should quote mint same as Minter, with fee, price and staleness", async function () {
+    await minter.updateMintingFee(50);
+    const amountIn = parseUnits("1000", 6).toString();
+    const quote = await quoteMint(usdc.address, amountIn);
+    expect(quote.status).to.eq("ok", "Wrong status");
+    expect(quote.token).to.eq(usdc.address, "Wrong token");
+    expect(quote.amountOut).to.eq(await minter.calculateMintage(usdc.address, amountIn), "Wrong amount out");
+    expect(quote.fee).to.eq(parseEther("5"), "Wrong fee");
+    expect(quote.price).to.eq(parseEther("1"), "Wrong price");
+    expect(quote.staleness).to.be.lt(60, "Wrong staleness");
+
+    await mintVUSD(usdc, user, "1000");
+    expect(await vusd.balanceOf(user.address)).to.eq(quote.amountOut, "Minted amount should match quote");
+  });
+
+  it("Should share mint and redeem math with Minter and Redeemer", async function () {
+    await minter.updateMintingFee(50);
+    const price = parseEther("0.998");
+    const [mintage, mintFee] = await minter.mintageAt(usdc.address, parseUnits("1000", 6), price);
+    expect(mintage).to.eq(parseEther("993.01"), "Wrong mintage");
+    expect(mintFee).to.eq(parseEther("4.99"), "Wrong minting fee");
+    const [redeemable, redeemFee] = await redeemer.redeemableAt(usdc.address, parseEther("1000"), parseEther("1.002"));
+    expect(redeemable.add(redeemFee)).to.eq(parseUnits("998.003992", 6), "Wrong redeemable before fee");
+    expect(await minter.isPriceWithinTolerance(parseEther("1.01"))).to.eq(true, "1% off peg is within tolerance");
+    expect(await redeemer.isPriceWithinTolerance(parseEther("0.989"))).to.eq(false, "1.1% off peg is out");
+  });
+
+  it("Should quote redeem same as Redeemer", async function () {
+    await mintVUSD(usdc, user, "1000");
+    const vusdAmount = parseEther("500");
+    const quote = await quoteRedeem(usdc.address, vusdAmount.toString());
+    expect(quote.status).to.eq("ok", "Wrong status");
+    const redeemable = await redeemer["redeemable(address,uint256)"](usdc.address, vusdAmount);
+    expect(quote.amountOut).to.eq(redeemable, "Wrong amount out");
+    // Default redeem fee is 0.3%
+    expect(quote.fee).to.eq(parseUnits("1.5", 6), "Wrong fee");
+
+    await vusd.connect(user).approve(redeemer.address, vusdAmount);
+    await redeemer.connect(user).redeem(usdc.address, vusdAmount, quote.amountOut, user.address);
+    expect(await usdc.balanceOf(user.address)).to.eq(quote.amountOut, "Redeemed amount should match quote");
+  });
+
+  it("Should quote same as actual mint and redeem of each token", async function () {
+    await minter.updateMintingFee(50);
+    for (const address of await minter.whitelistedTokens()) {
+      const token = (await ethers.getContractAt("MockStablecoin", address)) as MockStablecoin;
+      const symbol = await token.symbol();
+      const oracle = await contractAt(MockChainlinkOracle__factory, `${symbol}_USD`);
+      // Below peg price lowers mintage, above peg price lowers redeemed amount
+      await oracle.updatePrice(99_800_000);
+      const amountIn = parseUnits("1000", await token.decimals());
+      const mintQuote = await quoteMint(address, amountIn.toString());
+      expect(mintQuote.status).to.eq("ok", `Wrong mint status of ${symbol}`);
+      await token.mint(user.address, amountIn);
+      await token.connect(user).approve(minter.address, amountIn);
+      const vusdBefore = await vusd.balanceOf(user.address);
+      await minter.connect(user)["mint(address,uint256,uint256,address)"](address, amountIn, 0, user.address);
+      const minted = (await vusd.balanceOf(user.address)).sub(vusdBefore);
+      expect(minted).to.eq(mintQuote.amountOut, `Minted ${symbol} should match quote`);
+
+      await oracle.updatePrice(100_200_000);
+      const vusdAmount = parseEther("100");
+      const redeemQuote = await quoteRedeem(address, vusdAmount.toString());
+      expect(redeemQuote.status).to.eq("ok", `Wrong redeem status of ${symbol}`);
+      const tokenBefore = await token.balanceOf(user.address);
+      await vusd.connect(user).approve(redeemer.address, vusdAmount);
+      await redeemer.connect(user).redeem(address, vusdAmount, redeemQuote.amountOut, user.address);
+      const redeemed = (await token.balanceOf(user.address)).sub(tokenBefore);
+      expect(redeemed).to.eq(redeemQuote.amountOut, `Redeemed ${symbol} should match quote`);
+    }
+  });
+
+  it("Should explain token without feed and Minter without getters instead of revert", async function () {
+    const oracleRouter = await contractAt(OracleRouter__factory, "OracleRouter");
+    await oracleRouter.removeFeeds(usdc.address);
+    expect((await quoteMint(usdc.address, "1000")).status).to.eq("unsupported-token", "Wrong mint status");
+    expect((await quoteRedeem(usdc.address, "1000")).status).to.eq("unsupported-token", "Wrong redeem status");
+
+    // Treasury has whitelisted tokens but none of the other getters of Minter
+    const treasury = await contractAt(Treasury__factory, "Treasury");
+    await vusd.updateMinter(treasury.address);
+    const quotes = await quoteMintAll(quoter, parseEther("100"), user.address);
+    expect(quotes.map((q) => q.token)).to.deep.eq(await treasury.whitelistedTokens(), "Wrong tokens");
+    for (const quote of quotes) {
+      expect(quote.status).to.eq("unsupported-token", "Wrong status");
+    }
+    // Minter without code
+    await vusd.updateMinter(alice.address);
+    expect((await quoteMint(dai.address, "1000")).status).to.eq("unsupported-token", "Wrong mint status");
+    expect(await quoteMintAll(quoter, parseEther("100"), user.address)).to.deep.eq([], "There should be no quotes");
+  });
+
+  it("Should explain malformed return data instead of revert", async function () {
+    const factory = await ethers.getContractFactory("MockMalformedReturn");
+    const proxy = (await factory.deploy(minter.address)) as MockMalformedReturn;
+    await vusd.updateMinter(proxy.address);
+    expect((await quoteMint(usdc.address, "1000")).status).to.eq("ok", "Proxy should forward to Minter");
+    const {defaultAbiCoder} = ethers.utils;
+    // One word instead of amount and fee
+    await proxy.updateReturnData(minter.interface.getSighash("mintageAt"), defaultAbiCoder.encode(["uint256"], [1]));
+    expect((await quoteMint(usdc.address, "1000")).status).to.eq("unsupported-token", "Wrong mint status");
+    // Array offset or length beyond return data and a word which is not an address
+    const malformed = [
+      defaultAbiCoder.encode(["uint256", "uint256"], [1000, 0]),
+      defaultAbiCoder.encode(["uint256", "uint256"], [32, 1000]),
+      defaultAbiCoder.encode(["uint256", "uint256", "uint256"], [32, 1, ethers.constants.MaxUint256]),
+    ];
+    for (const data of malformed) {
+      await proxy.updateReturnData(minter.interface.getSighash("whitelistedTokens"), data);
+      expect(await quoteMintAll(quoter, parseEther("100"), user.address)).to.deep.eq([], "There should be no quotes");
+    }
+  });
+
+  it("Should explain unsupported and paused token", async function () {
+    const token = alice.address;
+    expect((await quoteMint(token, "1000")).status).to.eq("unsupported-token", "Wrong mint status");
+    expect((await quoteRedeem(token, "1000")).status).to.eq("unsupported-token", "Wrong redeem status");
+
+    const circuitBreaker = await contractAt(CircuitBreaker__factory, "CircuitBreaker");
+    await circuitBreaker["pause(address)"](usdc.address);
+    expect((await quoteMint(usdc.address, "1000")).status).to.eq("paused", "Wrong mint status");
+    expect((await quoteRedeem(usdc.address, "1000")).status).to.eq("paused", "Wrong redeem status");
+  });
+
+  it("Should explain stale price instead of revert", async function () {
+    await ethers.provider.send("evm_increaseTime", [25 * 60 * 60]);
+    await ethers.provider.send("evm_mine", []);
+    const quote = await quoteMint(usdc.address, "1000000");
+    expect(quote.status).to.eq("stale", "Wrong status");
+    expect(quote.price).to.eq(0, "Stale price should be zero");
+    expect(quote.amountOut).to.eq(0, "Amount should be zero");
+    expect(quote.staleness).to.be.gte(25 * 60 * 60, "Wrong staleness");
+    expect((await quoteRedeem(usdc.address, "1000000")).status).to.eq("stale", "Wrong redeem status");
+  });
+
+  it("Should explain depegged price", async function () {
+    const oracle = await contractAt(MockChainlinkOracle__factory, "USDC_USD");
+    await oracle.updatePrice(90_000_000);
+    const quote = await quoteMint(usdc.address, "1000000");
+    expect(quote.status).to.eq("depegged", "Wrong status");
+    expect(quote.price).to.eq(parseEther("0.9"), "Wrong price");
+    expect(quote.amountOut).to.eq(0, "Amount should be zero");
+    expect((await quoteRedeem(usdc.address, "1000000")).status).to.eq("depegged", "Wrong redeem status");
+  });
+
+  it("Should explain mint limit and rate limit", async function () {
+    await minter.updateMaxMintAmount(1);
+    const quote = await quoteMint(usdc.address, "1000000");
+    expect(quote.status).to.eq("limit", "Wrong mint status");
+    expect(quote.amountOut).to.eq(parseEther("1"), "Amount should be quoted");
+
+    await minter.updateMaxMintAmount(parseEther("1000000"));
+    await mintVUSD(usdc, user, "1000");
+    const rateLimiter = await contractAt(RateLimiter__factory, "RateLimiter");
+    await rateLimiter.updateAccountRedeemLimit(parseEther("100"));
+    expect((await quoteRedeem(usdc.address, parseEther("101").toString())).status).to.eq("limit");
+    expect((await quoteRedeem(usdc.address, parseEther("100").toString())).status).to.eq("ok");
+  });
+
+  it("Should report amount too large to quote as limit instead of revert", async function () {
+    await minter.updateMintingFee(50);
+    const max = ethers.constants.MaxUint256.toString();
+    const mintQuote = await quoteMint(usdc.address, max);
+    expect(mintQuote.status).to.eq("limit", "Wrong mint status");
+    expect(mintQuote.amountOut).to.eq(0, "Amount should be zero");
+    expect((await quoteRedeem(usdc.address, max)).status).to.eq("limit", "Wrong redeem status");
+    for (const quote of await quoteMintAll(quoter, ethers.constants.MaxUint256, user.address)) {
+      expect(quote.status).to.eq("limit", "Wrong status");
+    }
+    const oracle = await contractAt(MockChainlinkOracle__factory, "USDC_USD");
+    await oracle.updatePrice(100_500_000);
+    expect((await quoteRedeem(usdc.address, max)).status).to.eq("limit", "Wrong redeem status above peg");
+  });
+
+  it("Should explain insufficient liquidity", async function () {
+    await mintVUSD(usdc, user, "1000");
+    const vusdAmount = parseEther("1000");
+    expect(await redeemer["redeemable(address,uint256)"](dai.address, vusdAmount)).to.eq(0, "Redeemer reports zero");
+    const quote = await quoteRedeem(dai.address, vusdAmount.toString());
+    expect(quote.status).to.eq("insufficient-liquidity", "Wrong status");
+    expect(quote.amountOut).to.eq(parseEther("997"), "Amount should be quoted");
+  });
+
+  it("Should quote every token in one call", async function () {
+    const circuitBreaker = await contractAt(CircuitBreaker__factory, "CircuitBreaker");
+    await circuitBreaker["pause(address)"](dai.address);
+    const tokens = await minter.whitelistedTokens();
+    const mintQuotes = await quoteMintAll(quoter, parseEther("100"), user.address);
+    expect(mintQuotes.map((q) => q.token)).to.deep.eq(tokens, "Wrong tokens");
+    for (const quote of mintQuotes) {
+      expect(quote.status).to.eq(quote.token === dai.address ? "paused" : "ok", "Wrong status");
+      // Amount is scaled to decimals of each token
+      expect(quote.amountOut).to.eq(parseEther("100"), "Wrong amount out");
+    }
+
+    await mintVUSD(usdc, user, "1000");
+    const redeemQuotes = await quoteRedeemAll(quoter, parseEther("100"), user.address);
+    const statuses = Object.fromEntries(redeemQuotes.map((q) => [q.token, q.status]));
+    expect(statuses[usdc.address]).to.eq("ok", "Wrong USDC status");
+    expect(statuses[dai.address]).to.eq("paused", "Wrong DAI status");
+    const treasury = await contractAt(Treasury__factory, "Treasury");
+    expect(redeemQuotes.map((q) => q.token)).to.deep.eq(await treasury.whitelistedTokens(), "Wrong tokens");
+  });
+
+  it("Should decode status codes", async function () {
+    expect(decodeQuoterStatus(0)).to.eq("ok", "Wrong status");
+    expect(decodeQuoterStatus(4)).to.eq("insufficient-liquidity", "Wrong status");
+    expect(() => decodeQuoterStatus(7)).to.throw("Unknown quoter status 7");
+  });
+});
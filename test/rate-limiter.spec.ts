@@ -0,0 +1,200 @@
+import hre from "hardhat";
+import {expect} from "chai";
+import {SignerWithAddress} from "@nomiclabs/hardhat-ethers/signers";
+import {
+  Minter,
+  Minter__factory,
+  MockChainlinkOracle__factory,
+  MockStablecoin,
+  MockStablecoin__factory,
+  RateLimiter,
+  RateLimiter__factory,
+  Redeemer,
+  Redeemer__factory,
+  VUSD,
+  VUSD__factory,
+} from "../typechain";
+import {connectContracts, quoteMint} from "../sdk";
+import {contractAt, isMockNetwork, mintVUSD, setupNetwork} from "./utils/setup";
+
+const {deployments, ethers} = hre;
+const DAY = 24 * 60 * 60;
+
+describe("Rate limiter", async function () {
+  let rateLimiter: RateLimiter, minter: Minter, redeemer: Redeemer, vusd: VUSD;
+  let usdc: MockStablecoin, dai: MockStablecoin;
+  let alice: SignerWithAddress, bob: SignerWithAddress;
+  const limit = ethers.utils.parseEther("150");
+
+  async function redeemVUSD(token: MockStablecoin, user: SignerWithAddress, amount: string) {
+    const vusdAmount = ethers.utils.parseEther(amount);
+    await vusd.connect(user).approve(redeemer.address, vusdAmount);
+    return redeemer.connect(user).redeem(token.address, vusdAmount, 0, user.address);
+  }
+
+  async function increaseTime(seconds: number) {
+    await ethers.provider.send("evm_increaseTime", [seconds]);
+    await ethers.provider.send("evm_mine", []);
+    // Keep oracles fresh
+    for (const oracle of ["DAI_USD", "USDC_USD"]) {
+      await (await contractAt(MockChainlinkOracle__factory, oracle)).updatePrice(100_000_000);
+    }
+  }
+
+  before(async function () {
+    // Whole stack is deployed only on network with mocks
+    await setupNetwork();
+    if (!isMockNetwork()) {
+      this.skip();
+    }
+  });
+
+  beforeEach(async function () {
+    await deployments.fixture();
+    [, , , alice, bob] = await ethers.getSigners();
+    rateLimiter = await contractAt(RateLimiter__factory, "RateLimiter");
+    minter = await contractAt(Minter__factory, "Minter");
+    redeemer = await contractAt(Redeemer__factory, "Redeemer");
+    vusd = await contractAt(VUSD__factory, "VUSD");
+    usdc = await contractAt(MockStablecoin__factory, "USDC");
+    dai = await contractAt(MockStablecoin__factory, "DAI");
+  });
+
+  it("Should be wired with Minter and Redeemer", async function () {
+    expect(await minter.rateLimiter()).to.eq(rateLimiter.address, "Wrong rate limiter in minter");
+    expect(await redeemer.rateLimiter()).to.eq(rateLimiter.address, "Wrong rate limiter in redeemer");
+  });
+
+  it("Should report max capacity when there is no limit", async function () {
+    await mintVUSD(usdc, alice, "100");
+    expect(await rateLimiter.mintCapacity(usdc.address, alice.address)).to.eq(ethers.constants.MaxUint256);
+    expect(await rateLimiter.redeemCapacity(usdc.address, alice.address)).to.eq(ethers.constants.MaxUint256);
+  });
+
+  it("Should revert if consumer is not minter or redeemer", async function () {
+    const tx = rateLimiter.consumeMint(usdc.address, alice.address, 1);
+    await expect(tx).to.be.revertedWith("caller-is-not-the-minter");
+    await expect(rateLimiter.consumeRedeem(usdc.address, alice.address, 1)).to.be.revertedWith(
+      "caller-is-not-the-redeemer"
+    );
+  });
+
+  context("Update limits", function () {
+    it("Should revert if caller is not governor", async function () {
+      const tx = rateLimiter.connect(alice).updateTokenMintLimit(usdc.address, limit);
+      await expect(tx).to.be.revertedWith("caller-is-not-the-governor");
+      await expect(rateLimiter.connect(alice).updatePeriod(DAY * 2)).to.be.revertedWith("caller-is-not-the-governor");
+    });
+
+    it("Should update limits", async function () {
+      const tx = rateLimiter.updateTokenMintLimit(usdc.address, limit);
+      await expect(tx).to.emit(rateLimiter, "UpdatedTokenMintLimit").withArgs(usdc.address, 0, limit);
+      await expect(rateLimiter.updateTokenRedeemLimit(usdc.address, limit)).to.emit(
+        rateLimiter,
+        "UpdatedTokenRedeemLimit"
+      );
+      await expect(rateLimiter.updateAccountMintLimit(limit)).to.emit(rateLimiter, "UpdatedAccountMintLimit");
+      await expect(rateLimiter.updateAccountRedeemLimit(limit)).to.emit(rateLimiter, "UpdatedAccountRedeemLimit");
+      await expect(rateLimiter.updatePeriod(DAY * 2))
+        .to.emit(rateLimiter, "UpdatedPeriod")
+        .withArgs(DAY, DAY * 2);
+    });
+
+    it("Should revert if setting same limit", async function () {
+      await expect(rateLimiter.updateAccountMintLimit(0)).to.be.revertedWith("same-mint-limit");
+      await expect(rateLimiter.updatePeriod(DAY)).to.be.revertedWith("same-period");
+      await expect(rateLimiter.updatePeriod(0)).to.be.revertedWith("period-is-invalid");
+    });
+  });
+
+  context("Mint limit", function () {
+    it("Should cap mint volume of a token across accounts", async function () {
+      await rateLimiter.updateTokenMintLimit(usdc.address, limit);
+      await mintVUSD(usdc, alice, "100");
+      const capacity = await rateLimiter.mintCapacity(usdc.address, bob.address);
+      expect(capacity).to.eq(limit.sub(await vusd.balanceOf(alice.address)), "Wrong capacity");
+      await expect(mintVUSD(usdc, bob, "100")).to.be.revertedWith("token-mint-limit-reached");
+      // Other token has no limit
+      await mintVUSD(dai, bob, "100");
+    });
+
+    it("Should cap mint volume of an account across tokens", async function () {
+      await rateLimiter.updateAccountMintLimit(limit);
+      await mintVUSD(usdc, alice, "100");
+      await expect(mintVUSD(dai, alice, "100")).to.be.revertedWith("account-mint-limit-reached");
+      // Other account has its own limit
+      await mintVUSD(dai, bob, "100");
+    });
+
+    it("Should free mint volume linearly over period", async function () {
+      await rateLimiter.updateTokenMintLimit(usdc.address, limit);
+      await mintVUSD(usdc, alice, "100");
+      const used = await vusd.balanceOf(alice.address);
+      await increaseTime(DAY / 2);
+      // Half of volume is freed, oracle updates of increaseTime add a few seconds
+      const capacity = await rateLimiter.mintCapacity(usdc.address, alice.address);
+      expect(capacity.sub(limit.sub(used.div(2))).abs()).to.be.lt(used.div(1000), "Half of volume should be freed");
+      await expect(mintVUSD(usdc, alice, "120")).to.be.revertedWith("token-mint-limit-reached");
+      await increaseTime(DAY / 2);
+      expect(await rateLimiter.mintCapacity(usdc.address, alice.address)).to.eq(limit, "Volume should be freed");
+      await mintVUSD(usdc, alice, "100");
+    });
+
+    it("Should not allow more than limit in a burst around end of period", async function () {
+      await rateLimiter.updateTokenMintLimit(usdc.address, limit);
+      await mintVUSD(usdc, alice, "1");
+      await increaseTime(DAY - 60);
+      await mintVUSD(usdc, alice, "140");
+      // A window starting with first mint would be over now and allow full limit again
+      await increaseTime(120);
+      await expect(mintVUSD(usdc, alice, "140")).to.be.revertedWith("token-mint-limit-reached");
+      const capacity = await rateLimiter.mintCapacity(usdc.address, alice.address);
+      expect(capacity).to.be.lt(ethers.utils.parseEther("11"), "Only unused limit should be available");
+    });
+
+    it("Should quote rate limit in SDK", async function () {
+      await rateLimiter.updateAccountMintLimit(limit);
+      await mintVUSD(usdc, alice, "100");
+      const contracts = connectContracts(
+        {VUSD: vusd.address, Minter: minter.address, Redeemer: redeemer.address, Treasury: await vusd.treasury()},
+        ethers.provider
+      );
+      const amount = ethers.utils.parseUnits("100", 6);
+      expect((await quoteMint(contracts, usdc.address, amount, alice.address)).status).to.eq("rate-limit");
+      expect((await quoteMint(contracts, usdc.address, amount, bob.address)).status).to.eq("ok");
+    });
+  });
+
+  context("Redeem limit", function () {
+    beforeEach(async function () {
+      await mintVUSD(usdc, alice, "300");
+      await mintVUSD(usdc, bob, "300");
+    });
+
+    it("Should cap redeem volume of a token across accounts", async function () {
+      await rateLimiter.updateTokenRedeemLimit(usdc.address, limit);
+      await redeemVUSD(usdc, alice, "100");
+      expect(await rateLimiter.redeemCapacity(usdc.address, bob.address)).to.eq(
+        limit.sub(ethers.utils.parseEther("100"))
+      );
+      await expect(redeemVUSD(usdc, bob, "100")).to.be.revertedWith("token-redeem-limit-reached");
+    });
+
+    it("Should cap redeem volume of an account", async function () {
+      await rateLimiter.updateAccountRedeemLimit(limit);
+      await redeemVUSD(usdc, alice, "100");
+      await expect(redeemVUSD(usdc, alice, "100")).to.be.revertedWith("account-redeem-limit-reached");
+      await redeemVUSD(usdc, bob, "100");
+    });
+
+    it("Should free redeem volume once period is over", async function () {
+      await rateLimiter.updateAccountRedeemLimit(limit);
+      await redeemVUSD(usdc, alice, "100");
+      await increaseTime(DAY);
+      await redeemVUSD(usdc, alice, "100");
+      expect(await rateLimiter.redeemCapacity(usdc.address, alice.address)).to.eq(
+        limit.sub(ethers.utils.parseEther("100"))
+      );
+    });
+  });
+});
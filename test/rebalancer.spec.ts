@@ -0,0 +1,237 @@
+import hre from "hardhat";
+import {expect} from "chai";
+import {SignerWithAddress} from "@nomiclabs/hardhat-ethers/signers";
+import {
+  MockStablecoin,
+  MockStablecoin__factory,
+  MockUniswapRouter,
+  MockUniswapRouter__factory,
+  Rebalancer,
+  Rebalancer__factory,
+  RoleRegistry__factory,
+  Treasury,
+  Treasury__factory,
+} from "../typechain";
+import {planRebalance, simulateRebalance} from "../scripts/rebalance";
+import {contractAt, isMockNetwork, mintVUSD, setupNetwork} from "./utils/setup";
+
+const {deployments, ethers} = hre;
+const ZERO_ADDRESS = ethers.constants.AddressZero;
+
+describe("Rebalancer", async function () {
+  let rebalancer: Rebalancer, treasury: Treasury, router: MockUniswapRouter;
+  let dai: MockStablecoin, usdc: MockStablecoin, usdt: MockStablecoin;
+  let keeper: SignerWithAddress, user: SignerWithAddress;
+  const maxAmount = ethers.utils.parseEther("50");
+
+  async function reserveOf(token: MockStablecoin) {
+    const [, reserves] = await treasury.reserves();
+    const reserve = reserves.find((r) => r.token === token.address);
+    if (!reserve) {
+      throw new Error(`No reserve of ${token.address}`);
+    }
+    return reserve;
+  }
+
+  before(async function () {
+    // Whole stack is deployed only on network with mocks
+    await setupNetwork();
+    if (!isMockNetwork()) {
+      this.skip();
+    }
+  });
+
+  beforeEach(async function () {
+    await deployments.fixture();
+    [, , , user, keeper] = await ethers.getSigners();
+    rebalancer = await contractAt(Rebalancer__factory, "Rebalancer");
+    treasury = await contractAt(Treasury__factory, "Treasury");
+    router = await contractAt(MockUniswapRouter__factory, "UniswapRouter");
+    dai = await contractAt(MockStablecoin__factory, "DAI");
+    usdc = await contractAt(MockStablecoin__factory, "USDC");
+    usdt = await contractAt(MockStablecoin__factory, "USDT");
+    const roleRegistry = await contractAt(RoleRegistry__factory, "RoleRegistry");
+    await roleRegistry.grantRole(await roleRegistry.KEEPER_ROLE(), keeper.address);
+    // Treasury holds $300 DAI, $100 USDC and $200 USDT. Target is a third of $600 each.
+    await mintVUSD(dai, user, "300");
+    await mintVUSD(usdc, user, "100");
+    await mintVUSD(usdt, user, "200");
+    await rebalancer.updateTargetWeights([dai.address, usdc.address, usdt.address], [3333, 3334, 3333]);
+    // 1 DAI = 1 USDC
+    await router.updateRate(dai.address, usdc.address, ethers.utils.parseUnits("1", 6));
+    await usdc.mint(router.address, ethers.utils.parseUnits("1000", 6));
+  });
+
+  it("Should be wired with Treasury", async function () {
+    expect(await treasury.rebalancer()).to.eq(rebalancer.address, "Wrong rebalancer in treasury");
+  });
+
+  context("Governance", function () {
+    it("Should revert if caller is not governor", async function () {
+      const tx = rebalancer.connect(keeper).updateTargetWeights([dai.address], [10_000]);
+      await expect(tx).to.be.revertedWith("caller-is-not-the-governor");
+      const maxTx = rebalancer.connect(keeper).updateMaxRebalanceAmount(maxAmount);
+      await expect(maxTx).to.be.revertedWith("caller-is-not-the-governor");
+      await expect(treasury.connect(keeper).updateRebalancer(ZERO_ADDRESS)).to.be.revertedWith(
+        "caller-is-not-the-governor"
+      );
+    });
+
+    it("Should update target weights", async function () {
+      const tx = rebalancer.updateTargetWeights([dai.address, usdc.address], [3334, 3333]);
+      await expect(tx).to.emit(rebalancer, "UpdatedTargetWeight").withArgs(dai.address, 3333, 3334);
+      expect(await rebalancer.targetWeight(usdc.address)).to.eq(3333, "Wrong target weight");
+    });
+
+    it("Should revert if target weights do not add up to 100%", async function () {
+      const tx = rebalancer.updateTargetWeights([dai.address], [5000]);
+      await expect(tx).to.be.revertedWith("target-weights-are-invalid");
+    });
+
+    it("Should revert if token is not supported", async function () {
+      const tx = rebalancer.updateTargetWeights([treasury.address], [0]);
+      await expect(tx).to.be.revertedWith("token-is-not-supported");
+    });
+
+    it("Should update max rebalance amount", async function () {
+      const tx = rebalancer.updateMaxRebalanceAmount(maxAmount);
+      await expect(tx).to.emit(rebalancer, "UpdatedMaxRebalanceAmount").withArgs(0, maxAmount);
+      await expect(rebalancer.updateMaxRebalanceAmount(maxAmount)).to.be.revertedWith("same-max-rebalance-amount");
+    });
+
+    it("Should disable rebalance with zero rebalancer in treasury", async function () {
+      const tx = treasury.updateRebalancer(ZERO_ADDRESS);
+      await expect(tx).to.emit(treasury, "UpdatedRebalancer").withArgs(rebalancer.address, ZERO_ADDRESS);
+      await expect(treasury.updateRebalancer(ZERO_ADDRESS)).to.be.revertedWith("same-rebalancer");
+      await rebalancer.updateMaxRebalanceAmount(maxAmount);
+      const minOut = ethers.utils.parseUnits("50", 6);
+      const rebalance = rebalancer.connect(keeper).rebalance(dai.address, usdc.address, maxAmount, minOut);
+      await expect(rebalance).to.be.revertedWith("caller-is-not-authorized");
+    });
+
+    it("Should let rebalancer withdraw only to itself", async function () {
+      await treasury.updateRebalancer(keeper.address);
+      const amount = ethers.utils.parseEther("10");
+      const toUser = treasury.connect(keeper)["withdraw(address,uint256,address)"](dai.address, amount, user.address);
+      await expect(toUser).to.be.revertedWith("caller-is-not-authorized");
+      await treasury.connect(keeper)["withdraw(address,uint256)"](dai.address, amount);
+      expect(await dai.balanceOf(keeper.address)).to.eq(amount, "Rebalancer should get token");
+    });
+
+    it("Should update max slippage", async function () {
+      await expect(rebalancer.connect(keeper).updateMaxSlippage(100)).to.be.revertedWith("caller-is-not-the-governor");
+      await expect(rebalancer.updateMaxSlippage(100)).to.emit(rebalancer, "UpdatedMaxSlippage").withArgs(50, 100);
+      await expect(rebalancer.updateMaxSlippage(100)).to.be.revertedWith("same-max-slippage");
+      await expect(rebalancer.updateMaxSlippage(10_001)).to.be.revertedWith("slippage-is-invalid");
+    });
+  });
+
+  context("Rebalance", function () {
+    const amount = ethers.utils.parseEther("40");
+
+    beforeEach(async function () {
+      await rebalancer.updateMaxRebalanceAmount(maxAmount);
+    });
+
+    it("Should revert if caller is not keeper", async function () {
+      const tx = rebalancer.connect(user).rebalance(dai.address, usdc.address, amount, 0);
+      await expect(tx).to.be.revertedWith("caller-is-not-authorized");
+    });
+
+    it("Should swap excess token into short token", async function () {
+      const daiBefore = await reserveOf(dai);
+      const usdcBefore = await reserveOf(usdc);
+      const amountOut = ethers.utils.parseUnits("40", 6);
+      const tx = rebalancer.connect(keeper).rebalance(dai.address, usdc.address, amount, amountOut);
+      await expect(tx).to.emit(rebalancer, "Rebalanced").withArgs(dai.address, usdc.address, amount, amountOut);
+      expect((await reserveOf(dai)).amount).to.eq(daiBefore.amount.sub(amount), "Wrong DAI reserve");
+      expect((await reserveOf(usdc)).amount).to.eq(usdcBefore.amount.add(amountOut), "Wrong USDC reserve");
+      expect(await usdc.balanceOf(await treasury.strategies(usdc.address))).to.eq(0, "USDC should be deposited");
+    });
+
+    it("Should swap amount received from treasury of token with transfer fee", async function () {
+      // Idle DAI in strategy covers withdraw, 1% of every DAI transfer is burnt
+      await dai.mint(await treasury.strategies(dai.address), amount);
+      await dai.updateTransferFee(100);
+      const received = amount.mul(99).div(100);
+      // Minimum of full amount is more than swap of received amount pays
+      const fullMinOut = await rebalancer.minAmountOut(dai.address, usdc.address, amount);
+      const tooHigh = rebalancer.connect(keeper).rebalance(dai.address, usdc.address, amount, fullMinOut);
+      await expect(tooHigh).to.be.revertedWith("UniswapV2Router: INSUFFICIENT_OUTPUT_AMOUNT");
+      const minOut = await rebalancer.minAmountOut(dai.address, usdc.address, received);
+      const tx = rebalancer.connect(keeper).rebalance(dai.address, usdc.address, amount, minOut);
+      const amountOut = ethers.utils.parseUnits("39.6", 6);
+      await expect(tx).to.emit(rebalancer, "Rebalanced").withArgs(dai.address, usdc.address, received, amountOut);
+      expect(await dai.balanceOf(rebalancer.address)).to.eq(0, "Rebalancer should not hold DAI");
+    });
+
+    it("Should revert if minimum is lower than oracle value less max slippage", async function () {
+      // $40 of DAI is 40 USDC, 0.5% max slippage
+      const floor = ethers.utils.parseUnits("39.8", 6);
+      expect(await rebalancer.minAmountOut(dai.address, usdc.address, amount)).to.eq(floor, "Wrong min amount out");
+      const tx = rebalancer.connect(keeper).rebalance(dai.address, usdc.address, amount, floor.sub(1));
+      await expect(tx).to.be.revertedWith("min-out-is-too-low");
+      // Swap pays less than oracle value
+      await router.updateRate(dai.address, usdc.address, ethers.utils.parseUnits("0.99", 6));
+      const swap = rebalancer.connect(keeper).rebalance(dai.address, usdc.address, amount, floor);
+      await expect(swap).to.be.revertedWith("UniswapV2Router: INSUFFICIENT_OUTPUT_AMOUNT");
+    });
+
+    it("Should revert if output is less than minimum", async function () {
+      const tx = rebalancer
+        .connect(keeper)
+        .rebalance(dai.address, usdc.address, amount, ethers.utils.parseUnits("41", 6));
+      await expect(tx).to.be.revertedWith("UniswapV2Router: INSUFFICIENT_OUTPUT_AMOUNT");
+    });
+
+    it("Should revert if tokens are not off target", async function () {
+      const fromShort = rebalancer.connect(keeper).rebalance(usdc.address, dai.address, 1, 0);
+      await expect(fromShort).to.be.revertedWith("token-has-no-excess");
+      const toExcess = rebalancer.connect(keeper).rebalance(dai.address, usdt.address, 1, 0);
+      await expect(toExcess).to.be.revertedWith("token-has-no-shortfall");
+    });
+
+    it("Should revert if amount exceeds max or imbalance", async function () {
+      const aboveMax = rebalancer
+        .connect(keeper)
+        .rebalance(dai.address, usdc.address, ethers.utils.parseEther("51"), 0);
+      await expect(aboveMax).to.be.revertedWith("rebalance-amount-exceeds-max");
+      await rebalancer.updateMaxRebalanceAmount(ethers.constants.MaxUint256);
+      const aboveExcess = rebalancer
+        .connect(keeper)
+        .rebalance(dai.address, usdc.address, ethers.utils.parseEther("101"), 0);
+      await expect(aboveExcess).to.be.revertedWith("rebalance-amount-exceeds-imbalance");
+    });
+  });
+
+  context("Keeper script", function () {
+    it("Should plan nothing when rebalance is disabled", async function () {
+      expect(await planRebalance(hre)).to.eq(undefined, "Plan should be empty");
+    });
+
+    it("Should plan nothing when best route pays less than oracle value", async function () {
+      await rebalancer.updateMaxRebalanceAmount(maxAmount);
+      await router.updateRate(dai.address, usdc.address, ethers.utils.parseUnits("0.99", 6));
+      expect(await planRebalance(hre)).to.eq(undefined, "Plan should be empty");
+    });
+
+    it("Should plan and simulate best rebalance", async function () {
+      await rebalancer.updateMaxRebalanceAmount(maxAmount);
+      const plan = await planRebalance(hre, {slippage: 10});
+      if (!plan) {
+        throw new Error("Plan is empty");
+      }
+      expect(plan.fromToken).to.eq(dai.address, "Wrong from token");
+      expect(plan.toToken).to.eq(usdc.address, "Wrong to token");
+      expect(plan.amount).to.eq(maxAmount, "Amount should be capped by max");
+      expect(plan.minOut).to.eq(ethers.utils.parseUnits("49.95", 6), "Wrong min out");
+      const floor = await planRebalance(hre, {slippage: 100});
+      expect(floor?.minOut).to.eq(ethers.utils.parseUnits("49.75", 6), "Min out should not be lower than rebalancer's");
+
+      const usdcBefore = await reserveOf(usdc);
+      const result = await simulateRebalance(hre, plan, keeper.address);
+      expect(result.amountOut).to.eq(plan.expectedOut, "Wrong simulated output");
+      expect((await reserveOf(usdc)).amount).to.eq(usdcBefore.amount, "Simulation should be rolled back");
+    });
+  });
+});
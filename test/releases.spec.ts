@@ -0,0 +1,84 @@
+import hre from "hardhat";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {expect} from "chai";
+import {VUSD} from "../typechain";
+import {buildRelease, releaseNetwork, ReleaseManifest, verifyRelease, writeRelease} from "../scripts/releases";
+import {isMockNetwork, setupNetwork} from "./utils/setup";
+
+const {deployments, ethers} = hre;
+
+describe("Release manifest", async function () {
+  const tempDir = (prefix: string) => fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+
+  it("Should write release once", async function () {
+    const dir = tempDir("releases-");
+    const manifest: ReleaseManifest = {version: "9.9.9", networks: {mainnet: {VUSD: ethers.constants.AddressZero}}};
+    const file = writeRelease(manifest, dir);
+    expect(file).to.eq(path.join(dir, "9.9.9", "contracts.json"), "Wrong file");
+    expect(JSON.parse(fs.readFileSync(file, "utf8"))).to.deep.eq(manifest, "Wrong manifest");
+    expect(() => writeRelease(manifest, dir)).to.throw("Release 9.9.9 already exists");
+  });
+
+  describe("Against mocks", async function () {
+    let manifest: ReleaseManifest, network: string;
+    const deploymentsPath = hre.config.paths.deployments;
+
+    before(async function () {
+      // Whole stack is deployed only on network with mocks
+      await setupNetwork();
+      if (!isMockNetwork()) {
+        this.skip();
+      }
+    });
+
+    beforeEach(async function () {
+      await deployments.fixture();
+      // Fixture deployments are in memory, write them as hardhat-deploy does for a live network
+      hre.config.paths.deployments = tempDir("deployments-");
+      network = await releaseNetwork(hre);
+      const dir = path.join(hre.config.paths.deployments, network);
+      fs.mkdirSync(dir);
+      for (const [name, {address}] of Object.entries(await deployments.all())) {
+        fs.writeFileSync(path.join(dir, `${name}.json`), JSON.stringify({address}));
+      }
+      manifest = await buildRelease(hre);
+    });
+
+    afterEach(async function () {
+      hre.config.paths.deployments = deploymentsPath;
+    });
+
+    it("Should build release from deployments", async function () {
+      expect(manifest.version).to.eq("1.5.0", "Version should be highest contract VERSION");
+      const contracts = manifest.networks[network];
+      expect(contracts.Minter).to.eq((await deployments.get("Minter")).address, "Wrong Minter");
+      expect(contracts.USDC).to.eq((await deployments.get("USDC")).address, "Wrong USDC");
+      expect((await buildRelease(hre, "1.5.1")).version).to.eq("1.5.1", "Given version should be used");
+    });
+
+    it("Should verify release against chain", async function () {
+      expect(await verifyRelease(hre, manifest)).to.deep.eq([], "Release should match chain");
+
+      const [, , , , alice] = await ethers.getSigners();
+      const {Minter, Treasury} = manifest.networks[network];
+      const noCode = {...manifest, networks: {[network]: {...manifest.networks[network], Treasury: alice.address}}};
+      expect(await verifyRelease(hre, noCode)).to.deep.eq([`Treasury ${alice.address} has no code`]);
+      const renamed = {...manifest, networks: {[network]: {...manifest.networks[network], Treasury: Minter}}};
+      expect(await verifyRelease(hre, renamed)).to.deep.eq([
+        `Treasury ${Minter} reports NAME VUSD-Minter, expected VUSD-Treasury`,
+      ]);
+      const failures = await verifyRelease(hre, {...manifest, version: "1.6.0"});
+      expect(failures).to.include(`Minter ${Minter} reports VERSION 1.5.0, expected 1.6.0`);
+      expect(failures).to.include(`Treasury ${Treasury} reports VERSION 1.5.0, expected 1.6.0`);
+      expect(await verifyRelease(hre, {version: "1.5.0", networks: {}})).to.deep.eq([
+        `Release 1.5.0 has no contracts for network ${network}`,
+      ]);
+
+      const vusd = (await ethers.getContractAt("VUSD", manifest.networks[network].VUSD)) as VUSD;
+      await vusd.updateMinter(alice.address);
+      expect(await verifyRelease(hre, manifest)).to.deep.eq([`vusd.minter() is ${alice.address}, expected ${Minter}`]);
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import hre from "hardhat";
+import {expect} from "chai";
+import {SignerWithAddress} from "@nomiclabs/hardhat-ethers/signers";
+import {
+  CircuitBreaker,
+  CircuitBreaker__factory,
+  Minter,
+  Minter__factory,
+  MockStablecoin,
+  MockStablecoin__factory,
+  OracleRouter,
+  OracleRouter__factory,
+  Redeemer,
+  Redeemer__factory,
+  RoleRegistry,
+  RoleRegistry__factory,
+  Treasury,
+  Treasury__factory,
+} from "../typechain";
+import {contractAt, isMockNetwork, setupNetwork} from "./utils/setup";
+import {rolesReport} from "../scripts/roles";
+
+const {deployments, ethers} = hre;
+
+describe("Role registry", async function () {
+  let roleRegistry: RoleRegistry, minter: Minter, redeemer: Redeemer, treasury: Treasury;
+  let circuitBreaker: CircuitBreaker, oracleRouter: OracleRouter;
+  let usdc: MockStablecoin;
+  let governor: SignerWithAddress, alice: SignerWithAddress, bob: SignerWithAddress;
+  let GUARDIAN_ROLE: string, KEEPER_ROLE: string, FEE_MANAGER_ROLE: string, ORACLE_MANAGER_ROLE: string;
+
+  before(async function () {
+    // Whole stack is deployed only on network with mocks
+    await setupNetwork();
+    if (!isMockNetwork()) {
+      this.skip();
+    }
+  });
+
+  beforeEach(async function () {
+    await deployments.fixture();
+    [governor, , , , alice, bob] = await ethers.getSigners();
+    roleRegistry = await contractAt(RoleRegistry__factory, "RoleRegistry");
+    minter = await contractAt(Minter__factory, "Minter");
+    redeemer = await contractAt(Redeemer__factory, "Redeemer");
+    treasury = await contractAt(Treasury__factory, "Treasury");
+    circuitBreaker = await contractAt(CircuitBreaker__factory, "CircuitBreaker");
+    oracleRouter = await contractAt(OracleRouter__factory, "OracleRouter");
+    usdc = await contractAt(MockStablecoin__factory, "USDC");
+    [GUARDIAN_ROLE, KEEPER_ROLE, FEE_MANAGER_ROLE, ORACLE_MANAGER_ROLE] = await Promise.all([
+      roleRegistry.GUARDIAN_ROLE(),
+      roleRegistry.KEEPER_ROLE(),
+      roleRegistry.FEE_MANAGER_ROLE(),
+      roleRegistry.ORACLE_MANAGER_ROLE(),
+    ]);
+  });
+
+  it("Should be wired with Minter, Redeemer, Treasury, CircuitBreaker and OracleRouter", async function () {
+    expect(await minter.roleRegistry()).to.eq(roleRegistry.address, "Wrong role registry in minter");
+    expect(await redeemer.roleRegistry()).to.eq(roleRegistry.address, "Wrong role registry in redeemer");
+    expect(await treasury.roleRegistry()).to.eq(roleRegistry.address, "Wrong role registry in treasury");
+    expect(await circuitBreaker.roleRegistry()).to.eq(roleRegistry.address, "Wrong role registry in circuit breaker");
+    expect(await oracleRouter.roleRegistry()).to.eq(roleRegistry.address, "Wrong role registry in oracle router");
+  });
+
+  context("Grant and revoke", function () {
+    it("Should revert if caller is not governor", async function () {
+      const tx = roleRegistry.connect(alice).grantRole(KEEPER_ROLE, alice.address);
+      await expect(tx).to.be.revertedWith("caller-is-not-the-governor");
+      await expect(roleRegistry.connect(alice).revokeRole(KEEPER_ROLE, governor.address)).to.be.revertedWith(
+        "caller-is-not-the-governor"
+      );
+    });
+
+    it("Should revert if role is governor role or unknown", async function () {
+      const governorRole = roleRegistry.grantRole(await roleRegistry.GOVERNOR_ROLE(), alice.address);
+      await expect(governorRole).to.be.revertedWith("role-is-invalid");
+      const unknown = roleRegistry.grantRole(ethers.utils.id("MINTER_ROLE"), alice.address);
+      await expect(unknown).to.be.revertedWith("role-is-invalid");
+    });
+
+    it("Should emit event on grant, revoke and renounce", async function () {
+      await expect(roleRegistry.grantRole(GUARDIAN_ROLE, alice.address))
+        .to.emit(roleRegistry, "RoleGranted")
+        .withArgs(GUARDIAN_ROLE, alice.address, governor.address);
+      await expect(roleRegistry.grantRole(GUARDIAN_ROLE, alice.address)).to.be.revertedWith("role-is-already-granted");
+      await roleRegistry.grantRole(GUARDIAN_ROLE, bob.address);
+      expect(await roleRegistry.members(GUARDIAN_ROLE)).to.deep.eq([alice.address, bob.address], "Wrong guardians");
+      await expect(roleRegistry.revokeRole(GUARDIAN_ROLE, alice.address))
+        .to.emit(roleRegistry, "RoleRevoked")
+        .withArgs(GUARDIAN_ROLE, alice.address, governor.address);
+      await expect(roleRegistry.connect(bob).renounceRole(GUARDIAN_ROLE))
+        .to.emit(roleRegistry, "RoleRevoked")
+        .withArgs(GUARDIAN_ROLE, bob.address, bob.address);
+      expect(await roleRegistry.hasRole(GUARDIAN_ROLE, bob.address)).to.eq(false, "Bob should not be guardian");
+    });
+
+    it("Should report governor of VUSD as governor role", async function () {
+      const governorRole = await roleRegistry.GOVERNOR_ROLE();
+      expect(await roleRegistry.hasRole(governorRole, governor.address)).to.eq(true, "Governor should have role");
+      expect(await roleRegistry.members(governorRole)).to.deep.eq([governor.address], "Wrong governor");
+    });
+
+    it("Should list holders of each role", async function () {
+      await roleRegistry.grantRole(FEE_MANAGER_ROLE, alice.address);
+      const {roleRegistry: registry, roles, vusdMinter} = await rolesReport(hre);
+      expect(registry).to.eq(roleRegistry.address, "Wrong role registry");
+      expect(roles.GOVERNOR_ROLE).to.deep.eq([governor.address], "Wrong governor");
+      expect(roles.FEE_MANAGER_ROLE).to.deep.eq([alice.address], "Wrong fee managers");
+      expect(roles.ORACLE_MANAGER_ROLE).to.deep.eq([], "Oracle manager should be empty");
+      expect(vusdMinter).to.eq(minter.address, "Wrong minter of VUSD");
+    });
+  });
+
+  context("Role checks", function () {
+    it("Should allow fee manager to lower fee only", async function () {
+      await minter.updateMintingFee(100);
+      await expect(minter.connect(alice).updateMintingFee(50)).to.be.revertedWith("caller-is-not-authorized");
+      await roleRegistry.grantRole(FEE_MANAGER_ROLE, alice.address);
+      await minter.connect(alice).updateMintingFee(50);
+      expect(await minter.mintingFee()).to.eq(50, "Wrong minting fee");
+      await expect(minter.connect(alice).updateMintingFee(60)).to.be.revertedWith("fee-increase-is-not-allowed");
+      await expect(redeemer.connect(alice).updateRedeemFee(40)).to.be.revertedWith("fee-increase-is-not-allowed");
+      await redeemer.connect(alice).updateRedeemFee(10);
+      expect(await redeemer.redeemFee()).to.eq(10, "Wrong redeem fee");
+      await redeemer.updateRedeemFee(40);
+      expect(await redeemer.redeemFee()).to.eq(40, "Governor should raise redeem fee");
+    });
+
+    it("Should allow oracle manager to lower price tolerance only", async function () {
+      await expect(redeemer.connect(alice).updatePriceTolerance(50)).to.be.revertedWith("caller-is-not-authorized");
+      await roleRegistry.grantRole(ORACLE_MANAGER_ROLE, alice.address);
+      await minter.connect(alice).updatePriceTolerance(50);
+      await redeemer.connect(alice).updatePriceTolerance(50);
+      expect(await minter.priceTolerance()).to.eq(50, "Wrong price tolerance of minter");
+      expect(await redeemer.priceTolerance()).to.eq(50, "Wrong price tolerance of redeemer");
+      const minterTx = minter.connect(alice).updatePriceTolerance(10_000);
+      await expect(minterTx).to.be.revertedWith("tolerance-increase-is-not-allowed");
+      const redeemerTx = redeemer.connect(alice).updatePriceTolerance(60);
+      await expect(redeemerTx).to.be.revertedWith("tolerance-increase-is-not-allowed");
+      await minter.updatePriceTolerance(100);
+      expect(await minter.priceTolerance()).to.eq(100, "Governor should raise price tolerance");
+    });
+
+    it("Should allow oracle manager to lower stale periods of oracle router only", async function () {
+      const [primary, secondary] = await oracleRouter.feeds(usdc.address);
+      await expect(oracleRouter.connect(alice).updateStalePeriod(primary, 60)).to.be.revertedWith(
+        "caller-is-not-authorized"
+      );
+      await roleRegistry.grantRole(ORACLE_MANAGER_ROLE, alice.address);
+      await oracleRouter.connect(alice).updateStalePeriod(primary, 60);
+      expect(await oracleRouter.stalePeriod(primary)).to.eq(60, "Wrong stale period");
+      await expect(oracleRouter.connect(alice).updateStalePeriod(primary, 120)).to.be.revertedWith(
+        "stale-period-increase-is-not-allowed"
+      );
+      await expect(oracleRouter.connect(alice).updateFeeds(usdc.address, secondary, primary, 0)).to.be.revertedWith(
+        "caller-is-not-the-governor"
+      );
+      await expect(oracleRouter.connect(alice).removeFeeds(usdc.address)).to.be.revertedWith(
+        "caller-is-not-the-governor"
+      );
+    });
+
+    it("Should allow guardian to pause", async function () {
+      await expect(circuitBreaker.connect(alice)["pause()"]()).to.be.revertedWith("caller-is-not-authorized");
+      await roleRegistry.grantRole(GUARDIAN_ROLE, alice.address);
+      await expect(circuitBreaker.connect(alice)["pause(address)"](usdc.address)).to.emit(circuitBreaker, "Paused");
+      await expect(circuitBreaker.connect(alice)["unpause(address)"](usdc.address)).to.be.revertedWith(
+        "caller-is-not-the-governor"
+      );
+    });
+
+    it("Should allow guardian to stop mint with a token", async function () {
+      const tx = minter.connect(alice).removeWhitelistedToken(usdc.address);
+      await expect(tx).to.be.revertedWith("caller-is-not-authorized");
+      await roleRegistry.grantRole(GUARDIAN_ROLE, alice.address);
+      await expect(minter.connect(alice).removeWhitelistedToken(usdc.address))
+        .to.emit(minter, "WhitelistedTokenRemoved")
+        .withArgs(usdc.address);
+      await expect(minter.connect(alice).addWhitelistedToken(usdc.address)).to.be.revertedWith(
+        "caller-is-not-the-governor"
+      );
+    });
+
+    it("Should read keeper of treasury from registry", async function () {
+      expect(await treasury.isKeeper(alice.address)).to.eq(false, "Alice should not be keeper");
+      await roleRegistry.grantRole(KEEPER_ROLE, alice.address);
+      expect(await treasury.isKeeper(alice.address)).to.eq(true, "Alice should be keeper");
+    });
+
+    it("Should leave governor only without registry", async function () {
+      await roleRegistry.grantRole(ORACLE_MANAGER_ROLE, alice.address);
+      await expect(minter.updateRoleRegistry(ethers.constants.AddressZero))
+        .to.emit(minter, "UpdatedRoleRegistry")
+        .withArgs(roleRegistry.address, ethers.constants.AddressZero);
+      await expect(minter.connect(alice).updatePriceTolerance(50)).to.be.revertedWith("caller-is-not-authorized");
+      await minter.updatePriceTolerance(50);
+    });
+  });
+});
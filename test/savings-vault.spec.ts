@@ -0,0 +1,259 @@
+import hre from "hardhat";
+import {expect} from "chai";
+import {BigNumber} from "ethers";
+import {SignerWithAddress} from "@nomiclabs/hardhat-ethers/signers";
+import {
+  Minter,
+  Minter__factory,
+  MockChainlinkOracle__factory,
+  MockStablecoin,
+  MockStablecoin__factory,
+  RoleRegistry__factory,
+  SavingsVault,
+  SavingsVault__factory,
+  Treasury,
+  Treasury__factory,
+  VUSD,
+  VUSD__factory,
+} from "../typechain";
+import {planYield, runYield} from "../scripts/yield";
+import {contractAt, isMockNetwork, mintVUSD, setupNetwork} from "./utils/setup";
+
+const {deployments, ethers} = hre;
+const {parseEther, parseUnits} = ethers.utils;
+const DRIP_PERIOD = 7 * 24 * 60 * 60;
+
+describe("Savings vault", async function () {
+  let vault: SavingsVault, minter: Minter, treasury: Treasury, vusd: VUSD, usdc: MockStablecoin;
+  let user: SignerWithAddress, alice: SignerWithAddress, bob: SignerWithAddress;
+
+  async function increaseTime(seconds: number) {
+    await ethers.provider.send("evm_increaseTime", [seconds]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  async function deposit(signer: SignerWithAddress, amount: string): Promise<BigNumber> {
+    await mintVUSD(usdc, signer, amount);
+    await vusd.connect(signer).approve(vault.address, parseEther(amount));
+    const shares = await vault.previewDeposit(parseEther(amount));
+    await vault.connect(signer).deposit(parseEther(amount), signer.address);
+    return shares;
+  }
+
+  async function redeemAll(signer: SignerWithAddress): Promise<BigNumber> {
+    const before = await vusd.balanceOf(signer.address);
+    await vault.connect(signer).redeem(await vault.balanceOf(signer.address), signer.address, signer.address);
+    return (await vusd.balanceOf(signer.address)).sub(before);
+  }
+
+  // Interest of strategy, i.e. Compound interest, raises reserves of treasury without VUSD mint
+  async function addInterest(amount: string) {
+    await usdc.mint(await treasury.strategies(usdc.address), parseUnits(amount, 6));
+  }
+
+  before(async function () {
+    // Whole stack is deployed only on network with mocks
+    await setupNetwork();
+    if (!isMockNetwork()) {
+      this.skip();
+    }
+  });
+
+  beforeEach(async function () {
+    await deployments.fixture();
+    [, , , user, alice, bob] = await ethers.getSigners();
+    vault = await contractAt(SavingsVault__factory, "SavingsVault");
+    minter = await contractAt(Minter__factory, "Minter");
+    treasury = await contractAt(Treasury__factory, "Treasury");
+    vusd = await contractAt(VUSD__factory, "VUSD");
+    usdc = await contractAt(MockStablecoin__factory, "USDC");
+    const roleRegistry = await contractAt(RoleRegistry__factory, "RoleRegistry");
+    await roleRegistry.grantRole(await roleRegistry.KEEPER_ROLE(), alice.address);
+  });
+
+  it("Should be wired with Minter", async function () {
+    expect(await minter.savingsVault()).to.eq(vault.address, "Wrong savings vault in minter");
+    expect(await vault.asset()).to.eq(vusd.address, "Wrong asset");
+    expect(await vault.dripPeriod()).to.eq(DRIP_PERIOD, "Wrong drip period");
+    await expect(minter.mintYield(1)).to.be.revertedWith("caller-is-not-the-savings-vault");
+  });
+
+  context("Governance", function () {
+    it("Should revert if caller is not governor", async function () {
+      await expect(vault.connect(alice).updateDripPeriod(0)).to.be.revertedWith("caller-is-not-the-governor");
+      const ratioTx = vault.connect(alice).updateMinCollateralizationRatio(10_100);
+      await expect(ratioTx).to.be.revertedWith("caller-is-not-the-governor");
+    });
+
+    it("Should update collateralization floor and drip period", async function () {
+      await expect(vault.updateMinCollateralizationRatio(9_999)).to.be.revertedWith(
+        "collateralization-ratio-is-invalid"
+      );
+      await expect(vault.updateMinCollateralizationRatio(10_000)).to.be.revertedWith("same-collateralization-ratio");
+      await expect(vault.updateMinCollateralizationRatio(10_100))
+        .to.emit(vault, "UpdatedMinCollateralizationRatio")
+        .withArgs(10_000, 10_100);
+      await expect(vault.updateDripPeriod(31 * 24 * 60 * 60)).to.be.revertedWith("drip-period-is-invalid");
+      await expect(vault.updateDripPeriod(DRIP_PERIOD)).to.be.revertedWith("same-drip-period");
+      await expect(vault.updateDripPeriod(3600)).to.emit(vault, "UpdatedDripPeriod").withArgs(DRIP_PERIOD, 3600);
+    });
+  });
+
+  context("Deposit and withdraw", function () {
+    it("Should deposit and redeem 1:1 without yield", async function () {
+      const shares = await deposit(user, "1000");
+      expect(shares).to.eq(parseEther("1000"), "Wrong shares");
+      expect(await vault.balanceOf(user.address)).to.eq(shares, "Wrong share balance");
+      expect(await vault.totalAssets()).to.eq(parseEther("1000"), "Wrong total assets");
+      expect(await redeemAll(user)).to.eq(parseEther("1000"), "Wrong VUSD out");
+      expect(await vault.totalAssets()).to.eq(0, "Vault should be empty");
+    });
+
+    it("Should mint shares and withdraw assets for owner", async function () {
+      await mintVUSD(usdc, user, "1000");
+      await vusd.connect(user).approve(vault.address, parseEther("1000"));
+      await expect(vault.connect(user).mint(parseEther("400"), bob.address))
+        .to.emit(vault, "Deposit")
+        .withArgs(user.address, bob.address, parseEther("400"), parseEther("400"));
+      const tx = vault.connect(user).withdraw(parseEther("100"), user.address, bob.address);
+      await expect(tx).to.be.revertedWith("insufficient-allowance");
+      await vault.connect(bob).approve(user.address, parseEther("100"));
+      await expect(vault.connect(user).withdraw(parseEther("100"), alice.address, bob.address))
+        .to.emit(vault, "Withdraw")
+        .withArgs(user.address, alice.address, bob.address, parseEther("100"), parseEther("100"));
+      expect(await vusd.balanceOf(alice.address)).to.eq(parseEther("100"), "Wrong VUSD of receiver");
+      expect(await vault.allowance(bob.address, user.address)).to.eq(0, "Allowance should be spent");
+      expect(await vault.maxWithdraw(bob.address)).to.eq(parseEther("300"), "Wrong max withdraw");
+    });
+
+    it("Should not change share price with VUSD sent directly", async function () {
+      await deposit(user, "1000");
+      await mintVUSD(usdc, bob, "500");
+      await vusd.connect(bob).transfer(vault.address, parseEther("500"));
+      expect(await vault.convertToAssets(parseEther("1"))).to.eq(parseEther("1"), "Share price should not change");
+    });
+  });
+
+  context("Available yield", function () {
+    it("Should be zero when reserves equal VUSD supply", async function () {
+      await deposit(user, "1000");
+      expect(await vault.availableYield()).to.eq(0, "There should be no yield");
+    });
+
+    it("Should be excess of reserves over supply", async function () {
+      await deposit(user, "1000");
+      await addInterest("100");
+      expect(await vault.availableYield()).to.eq(parseEther("100"), "Wrong available yield");
+      // 1100 USD of reserves backs at most 1000 VUSD at 110%
+      await vault.updateMinCollateralizationRatio(11_000);
+      expect(await vault.availableYield()).to.eq(0, "Yield should be capped by collateralization floor");
+    });
+
+    it("Should value reserves at most $1 per token", async function () {
+      await deposit(user, "1000");
+      await addInterest("100");
+      const usdcOracle = await contractAt(MockChainlinkOracle__factory, "USDC_USD");
+      await usdcOracle.updatePrice(101_000_000);
+      expect(await vault.availableYield()).to.eq(parseEther("100"), "Price above peg should not add to yield");
+      // 1100 USDC at $0.999 is 1098.9 USD
+      await usdcOracle.updatePrice(99_900_000);
+      expect(await vault.availableYield()).to.eq(parseEther("98.9"), "Price below peg should reduce yield");
+    });
+
+    it("Should set aside fee surplus for fee recipients", async function () {
+      // 1% minting fee stays in treasury as fee surplus
+      await minter.updateMintingFee(100);
+      await mintVUSD(usdc, user, "1000");
+      expect(await vault.availableYield()).to.eq(0, "Fee surplus is not yield");
+      await addInterest("50");
+      expect(await vault.availableYield()).to.eq(parseEther("50"), "Wrong available yield");
+    });
+  });
+
+  context("Distribute yield", function () {
+    it("Should revert if caller is not keeper or vault is empty", async function () {
+      await addInterest("100");
+      await expect(vault.connect(bob).distributeYield(1)).to.be.revertedWith("caller-is-not-authorized");
+      await expect(vault.connect(alice).distributeYield(1)).to.be.revertedWith("vault-is-empty");
+      await deposit(user, "1000");
+      const tx = vault.connect(alice).distributeYield(parseEther("101"));
+      await expect(tx).to.be.revertedWith("yield-is-not-available");
+    });
+
+    it("Should drip yield into share price", async function () {
+      await deposit(user, "1000");
+      await addInterest("100");
+      await expect(vault.connect(alice).distributeYield(parseEther("100")))
+        .to.emit(vault, "YieldDistributed")
+        .withArgs(parseEther("100"), parseEther("100"));
+      expect(await vusd.balanceOf(vault.address)).to.eq(parseEther("1100"), "Yield should be minted to vault");
+      expect(await vault.totalAssets()).to.eq(parseEther("1000"), "Yield should be locked");
+      expect(await vault.availableYield()).to.eq(0, "Yield should be distributed");
+
+      await increaseTime(DRIP_PERIOD / 2);
+      const halfway = parseEther("1050");
+      expect(await vault.totalAssets()).to.be.closeTo(halfway, 1e15, "Half of yield should vest");
+      await increaseTime(DRIP_PERIOD / 2);
+      expect(await vault.lockedYield()).to.eq(0, "Yield should be vested");
+      expect(await vault.convertToAssets(parseEther("1"))).to.eq(parseEther("1.1"), "Wrong share price");
+      expect(await redeemAll(user)).to.eq(parseEther("1100"), "Wrong VUSD out");
+      expect(await vusd.balanceOf(vault.address)).to.eq(0, "Vault should be empty");
+    });
+
+    it("Should not give locked yield to late depositor", async function () {
+      await deposit(user, "1000");
+      await addInterest("100");
+      await vault.connect(alice).distributeYield(parseEther("100"));
+      const shares = await deposit(bob, "1000");
+      expect(shares).to.gte(parseEther("999.99"), "Late depositor should get shares at pre-yield price");
+      const out = await redeemAll(bob);
+      expect(out).to.lte(parseEther("1000.01"), "Late depositor should not take locked yield");
+    });
+
+    it("Should add up deposits, yield and withdrawals of all holders", async function () {
+      // Mint price of USDC goes stale after 24 hours, yield vests within an hour
+      await vault.updateDripPeriod(3600);
+      const deposits = parseEther("3000");
+      await deposit(user, "1000");
+      await addInterest("100");
+      await vault.connect(alice).distributeYield(parseEther("60"));
+      await increaseTime(3600);
+      await deposit(bob, "2000");
+      await addInterest("30");
+      await vault.distributeYield(parseEther("70"));
+      await increaseTime(3600);
+
+      const yields = parseEther("130");
+      expect(await vault.totalAssets()).to.eq(deposits.add(yields), "Wrong total assets");
+      const out = (await redeemAll(user)).add(await redeemAll(bob));
+      // Rounding is in favour of vault, dust stays in it
+      expect(out).to.be.closeTo(deposits.add(yields), 10, "Withdrawals should add up");
+      expect(out.add(await vusd.balanceOf(vault.address))).to.eq(deposits.add(yields), "VUSD should be accounted");
+      expect(await vault.totalSupply()).to.eq(0, "All shares should be redeemed");
+    });
+  });
+
+  context("Yield plan", function () {
+    it("Should do nothing when vault is empty or there is no yield", async function () {
+      await addInterest("100");
+      expect(await planYield(hre, {keeper: alice.address})).to.eq(undefined, "Empty vault gets no yield");
+      await deposit(user, "1000");
+      const minAmount = parseEther("101");
+      expect(await planYield(hre, {keeper: alice.address, minAmount})).to.eq(undefined, "Yield is below min amount");
+    });
+
+    it("Should distribute share of available yield", async function () {
+      await deposit(user, "1000");
+      await addInterest("100");
+      const plan = await planYield(hre, {keeper: alice.address, share: 5000});
+      expect(plan?.amount).to.eq(parseEther("50"), "Wrong amount");
+      expect(plan?.sharePrice).to.eq(parseEther("1"), "Wrong share price");
+      if (!plan) {
+        return;
+      }
+      const result = await runYield(hre, plan);
+      expect(result.lockedYield).to.eq(parseEther("50"), "Wrong locked yield");
+      expect(await vault.availableYield()).to.eq(parseEther("50"), "Rest of yield should stay available");
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import hre from "hardhat";
+import {expect} from "chai";
+import {SignerWithAddress} from "@nomiclabs/hardhat-ethers/signers";
+import {ERC20, MockChainlinkOracle} from "../typechain";
+import {
+  connectContracts,
+  loadAddresses,
+  mint,
+  minAmountOut,
+  quoteMint,
+  quoteRedeem,
+  redeem,
+  releases,
+  revertReason,
+} from "../sdk";
+import type {VusdContracts} from "../sdk";
+import {latestRelease, listReleases, readRelease} from "../scripts/releases";
+import {fundToken, isMockNetwork, setupNetwork} from "./utils/setup";
+
+const {deployments, ethers} = hre;
+
+async function errorOf(promise: Promise<unknown>): Promise<string> {
+  try {
+    await promise;
+  } catch (error) {
+    return (error as Error).message;
+  }
+  throw new Error("Expected promise to be rejected");
+}
+
+describe("SDK", async function () {
+  it("Should load addresses from latest release", async function () {
+    const release = readRelease(latestRelease());
+    expect(loadAddresses()).to.deep.eq(release.networks.mainnet, "Wrong addresses");
+    expect(() => loadAddresses("mainnet", "1.0.0")).to.throw("Release 1.0.0 on mainnet is missing Redeemer, Treasury");
+    expect(() => loadAddresses("goerli")).to.throw(`Release ${release.version} has no contracts for network goerli`);
+    expect(() => loadAddresses("mainnet", "9.9.9")).to.throw("Release 9.9.9 is not shipped with SDK");
+  });
+
+  it("Should ship manifest of every release", async function () {
+    expect(Object.keys(releases)).to.have.members(listReleases(), "SDK should ship every release");
+    for (const version of listReleases()) {
+      expect(releases[version]).to.deep.eq(readRelease(version), `Wrong manifest of ${version}`);
+    }
+  });
+
+  it("Should apply slippage on quoted amount", async function () {
+    expect(minAmountOut(ethers.BigNumber.from(10_000))).to.eq(9950, "Wrong default slippage");
+    expect(minAmountOut(ethers.BigNumber.from(10_000), 100)).to.eq(9900, "Wrong slippage");
+    expect(() => minAmountOut(ethers.BigNumber.from(10_000), 10_001)).to.throw("Invalid slippage 10001");
+  });
+
+  it("Should extract revert reason of nested error", async function () {
+    expect(revertReason({reason: "execution reverted: token-is-paused"})).to.eq("token-is-paused", "Wrong reason");
+    const message = "VM Exception while processing transaction: reverted with reason string 'mint-limit-reached'";
+    expect(revertReason({error: {message}})).to.eq("mint-limit-reached", "Wrong nested reason");
+    expect(revertReason({reason: 42, message: 42})).to.eq(undefined, "Non string reason should be ignored");
+    expect(revertReason("execution reverted")).to.eq(undefined, "Non object error has no reason");
+    expect(revertReason(null)).to.eq(undefined, "Null error has no reason");
+  });
+
+  describe("Mint and redeem against mocks", async function () {
+    let contracts: VusdContracts, usdc: ERC20, user: SignerWithAddress, governor: SignerWithAddress;
+    let usdcAmount;
+
+    before(async function () {
+      // Whole stack is deployed only on network with mocks
+      await setupNetwork();
+      if (!isMockNetwork()) {
+        this.skip();
+      }
+    });
+
+    beforeEach(async function () {
+      await deployments.fixture();
+      const signers = await ethers.getSigners();
+      user = signers[4];
+      governor = await ethers.getSigner((await hre.getNamedAccounts()).deployer);
+      const address = async (name: string) => (await deployments.get(name)).address;
+      contracts = connectContracts(
+        {
+          VUSD: await address("VUSD"),
+          Minter: await address("Minter"),
+          Redeemer: await address("Redeemer"),
+          Treasury: await address("Treasury"),
+        },
+        user
+      );
+      usdc = (await ethers.getContractAt("ERC20", await address("USDC"))) as ERC20;
+      usdcAmount = await fundToken("1", usdc.address, user);
+    });
+
+    it("Should quote and mint VUSD", async function () {
+      const quote = await quoteMint(contracts, usdc.address, usdcAmount);
+      expect(quote.status).to.eq("ok", "Wrong status");
+      expect(quote.amountOut).to.eq(await contracts.minter.calculateMintage(usdc.address, usdcAmount), "Wrong quote");
+      await mint(contracts, usdc.address, usdcAmount);
+      expect(await contracts.vusd.balanceOf(user.address)).to.eq(quote.amountOut, "Incorrect VUSD amount");
+      expect(await usdc.balanceOf(user.address)).to.eq(0, "USDC should be deposited");
+    });
+
+    it("Should mint VUSD using permit", async function () {
+      const quote = await quoteMint(contracts, usdc.address, usdcAmount);
+      await mint(contracts, usdc.address, usdcAmount, {permit: "eip-2612"});
+      expect(await contracts.vusd.balanceOf(user.address)).to.eq(quote.amountOut, "Incorrect VUSD amount");
+      expect(await usdc.allowance(user.address, contracts.minter.address)).to.eq(0, "Allowance should be used");
+    });
+
+    it("Should redeem VUSD using permit", async function () {
+      await mint(contracts, usdc.address, usdcAmount);
+      const vusdAmount = await contracts.vusd.balanceOf(user.address);
+      const quote = await quoteRedeem(contracts, usdc.address, vusdAmount);
+      expect(quote.status).to.eq("ok", "Wrong status");
+      expect(await contracts.vusd.allowance(user.address, contracts.redeemer.address)).to.eq(0, "Wrong allowance");
+
+      await redeem(contracts, usdc.address, vusdAmount);
+      expect(await contracts.vusd.balanceOf(user.address)).to.eq(0, "VUSD should be burnt");
+      expect(await usdc.balanceOf(user.address)).to.eq(quote.amountOut, "Incorrect USDC amount");
+      expect(await contracts.vusd.nonces(user.address)).to.eq(1, "Permit should be used");
+    });
+
+    it("Should explain unsupported token", async function () {
+      const token = ethers.Wallet.createRandom().address;
+      expect((await quoteMint(contracts, token, usdcAmount)).status).to.eq("unsupported-token");
+      expect((await quoteRedeem(contracts, token, usdcAmount)).status).to.eq("unsupported-token");
+      expect(await errorOf(mint(contracts, token, usdcAmount))).to.eq("Mint would revert: unsupported-token");
+    });
+
+    it("Should explain paused token", async function () {
+      const {address} = await deployments.get("CircuitBreaker");
+      const circuitBreaker = await ethers.getContractAt("CircuitBreaker", address, governor);
+      await circuitBreaker["pause(address)"](usdc.address);
+      expect((await quoteMint(contracts, usdc.address, usdcAmount)).status).to.eq("paused");
+      expect((await quoteRedeem(contracts, usdc.address, usdcAmount)).status).to.eq("paused");
+    });
+
+    it("Should explain stale oracle", async function () {
+      await ethers.provider.send("evm_increaseTime", [25 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+      const quote = await quoteMint(contracts, usdc.address, usdcAmount);
+      expect(quote.status).to.eq("stale-oracle", "Wrong status");
+      expect(quote.reason).to.eq("oracle-price-is-stale", "Wrong reason");
+      expect(quote.amountOut).to.eq(0, "Amount should be zero");
+      expect((await quoteRedeem(contracts, usdc.address, usdcAmount)).status).to.eq("stale-oracle");
+    });
+
+    it("Should explain price tolerance", async function () {
+      const {address} = await deployments.get("USDC_USD");
+      const oracle = (await ethers.getContractAt("MockChainlinkOracle", address)) as MockChainlinkOracle;
+      await oracle.updatePrice(90_000_000);
+      expect((await quoteMint(contracts, usdc.address, usdcAmount)).status).to.eq("price-tolerance");
+      expect((await quoteRedeem(contracts, usdc.address, usdcAmount)).status).to.eq("price-tolerance");
+    });
+
+    it("Should explain mint limit", async function () {
+      await contracts.minter.connect(governor).updateMaxMintAmount(1);
+      const quote = await quoteMint(contracts, usdc.address, usdcAmount);
+      expect(quote.status).to.eq("mint-limit", "Wrong status");
+      expect(await errorOf(mint(contracts, usdc.address, usdcAmount))).to.eq(
+        "Mint would revert: mint-limit (mint-limit-reached)"
+      );
+    });
+
+    it("Should explain treasury liquidity", async function () {
+      await mint(contracts, usdc.address, usdcAmount);
+      const vusdAmount = await contracts.vusd.balanceOf(user.address);
+      const quote = await quoteRedeem(contracts, usdc.address, vusdAmount.mul(2));
+      expect(quote.status).to.eq("treasury-liquidity", "Wrong status");
+      expect(quote.amountOut).to.eq(0, "Amount should be zero");
+    });
+  });
+});
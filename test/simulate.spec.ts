@@ -0,0 +1,71 @@
+import hre from "hardhat";
+import {expect} from "chai";
+import {Minter, Minter__factory, Redeemer, Redeemer__factory} from "../typechain";
+import {formatSimulationReport, simulate} from "../scripts/simulate";
+import {contractAt, isMockNetwork, setupNetwork} from "./utils/setup";
+
+const {deployments, ethers} = hre;
+
+describe("Simulate", async function () {
+  let minter: Minter, redeemer: Redeemer;
+
+  before(async function () {
+    // Whole stack is deployed only on network with mocks
+    await setupNetwork();
+    if (!isMockNetwork()) {
+      this.skip();
+    }
+  });
+
+  beforeEach(async function () {
+    await deployments.fixture();
+    minter = await contractAt(Minter__factory, "Minter");
+    redeemer = await contractAt(Redeemer__factory, "Redeemer");
+  });
+
+  it("Should apply changes as governor and report each step", async function () {
+    const report = await simulate(hre, {
+      changes: [
+        {contract: "Redeemer", method: "updateRedeemFee", args: [0]},
+        {contract: "Minter", method: "updateMintingFee", args: [0]},
+      ],
+      prices: [{token: "USDC", answer: "0.95"}],
+      steps: [
+        {action: "mint", token: "DAI", amount: "1000"},
+        {action: "redeem", token: "DAI", amount: "400", minAmountOut: "400"},
+        {action: "mint", token: "USDC", amount: "100"},
+        {action: "price", token: "USDC", answer: "1", age: 60},
+        {action: "mint", token: "USDC", amount: "100"},
+      ],
+    });
+    expect(report.governor).to.eq((await ethers.getSigners())[0].address, "Wrong governor");
+    expect(report.changes[0].reason).to.eq(undefined, "Redeem fee change should be applied");
+    expect(report.changes[1].reason).to.eq("same-minting-fee", "Wrong revert reason of change");
+
+    const [mintDAI, redeemDAI, mintUSDC, price, mintUSDCAgain] = report.steps;
+    expect(mintDAI.amountOut).to.eq("1000.0", "Wrong mintage");
+    expect(mintDAI.collateralizationRatio).to.eq(10_000, "Wrong collateralization after mint");
+    expect(redeemDAI.amountOut).to.eq("400.0", "Redeem should have no fee");
+    expect(redeemDAI.supply).to.eq(ethers.utils.parseEther("600"), "Wrong supply after redeem");
+    expect(mintUSDC.reason).to.eq("oracle-price-exceed-tolerance", "Wrong revert reason of step");
+    expect(price.reason).to.eq(undefined, "Price override should succeed");
+    expect(mintUSDCAgain.amountOut).to.eq("100.0", "Wrong mintage after price override");
+    expect(formatSimulationReport(hre, report)).to.contain("reverted: oracle-price-exceed-tolerance");
+  });
+
+  it("Should report stale price and roll back simulation", async function () {
+    const report = await simulate(hre, {
+      changes: [{contract: "Redeemer", method: "updateRedeemFee", args: [100]}],
+      steps: [
+        {action: "mint", token: "DAI", amount: "10"},
+        {action: "warp", seconds: 2 * 60 * 60},
+        {action: "mint", token: "DAI", amount: "10"},
+      ],
+    });
+    expect(report.steps[2].reason).to.eq("oracle-price-is-stale", "Price should be stale");
+    expect(report.steps[2].supply).to.eq(ethers.utils.parseEther("10"), "Supply should not change");
+    expect(report.steps[2].totalValue).to.eq(undefined, "Reserves can not be valued with stale price");
+    expect(await redeemer.redeemFee()).to.eq(30, "Redeem fee should be rolled back");
+    expect(await minter.availableMintage()).to.eq(await minter.maxMintLimit(), "Mint should be rolled back");
+  });
+});
@@ -0,0 +1,181 @@
+import hre from "hardhat";
+import {expect} from "chai";
+import {SignerWithAddress} from "@nomiclabs/hardhat-ethers/signers";
+import {
+  Minter,
+  Minter__factory,
+  Redeemer,
+  Redeemer__factory,
+  Timelock,
+  Timelock__factory,
+  Treasury,
+  Treasury__factory,
+  VUSD,
+  VUSD__factory,
+} from "../typechain";
+import {contractAt, isMockNetwork, setupNetwork} from "./utils/setup";
+import {
+  encodeExecute,
+  encodeQueue,
+  timelockCallId,
+  timelockCalls,
+  timelockDelay,
+  TimelockCall,
+  TimelockCalls,
+} from "../scripts/timelock";
+
+const {deployments, ethers} = hre;
+
+describe("Timelock", async function () {
+  let timelock: Timelock, minter: Minter, redeemer: Redeemer, treasury: Treasury, vusd: VUSD;
+  let governor: SignerWithAddress, alice: SignerWithAddress;
+  let calls: TimelockCalls;
+
+  async function increaseTime(seconds: number) {
+    await ethers.provider.send("evm_increaseTime", [seconds]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  async function queue(call: TimelockCall) {
+    const tx = await timelock.queue(call.target, call.data);
+    const receipt = await tx.wait();
+    const queued = receipt.events?.find((event) => event.event === "Queued");
+    return {id: queued?.args?.id as string, eta: queued?.args?.eta.toNumber() as number};
+  }
+
+  before(async function () {
+    // Whole stack is deployed only on network with mocks
+    await setupNetwork();
+    if (!isMockNetwork()) {
+      this.skip();
+    }
+    calls = await timelockCalls(hre);
+  });
+
+  beforeEach(async function () {
+    await deployments.fixture();
+    [governor, , , , alice] = await ethers.getSigners();
+    timelock = await contractAt(Timelock__factory, "Timelock");
+    minter = await contractAt(Minter__factory, "Minter");
+    redeemer = await contractAt(Redeemer__factory, "Redeemer");
+    treasury = await contractAt(Treasury__factory, "Treasury");
+    vusd = await contractAt(VUSD__factory, "VUSD");
+    await minter.updateMintingFee(100);
+    await vusd.transferGovernorship(timelock.address);
+    await timelock.acceptGovernorshipOf(vusd.address);
+  });
+
+  it("Should be governor of VUSD contracts", async function () {
+    expect(await vusd.governor()).to.eq(timelock.address, "Wrong governor of VUSD");
+    expect(await timelock.governor()).to.eq(governor.address, "Wrong governor of timelock");
+    expect(await timelock.delay()).to.eq(timelockDelay, "Wrong delay");
+    await expect(minter.updateMintingFee(50)).to.be.revertedWith("caller-is-not-authorized");
+  });
+
+  it("Should revert if caller is not governor of timelock", async function () {
+    const call = calls.updateMintingFee(minter.address, 200);
+    await expect(timelock.connect(alice).queue(call.target, call.data)).to.be.revertedWith(
+      "caller-is-not-the-governor"
+    );
+    await expect(timelock.connect(alice).executeFast(call.target, call.data)).to.be.revertedWith(
+      "caller-is-not-the-governor"
+    );
+    await expect(timelock.updateDelay(timelockDelay * 2)).to.be.revertedWith("caller-is-not-the-timelock");
+  });
+
+  context("Queue", function () {
+    it("Should execute queued call after delay", async function () {
+      const call = calls.updateTreasury(vusd.address, alice.address);
+      const {id, eta} = await queue(call);
+      expect(id).to.eq(timelockCallId(hre, call, eta), "Wrong call id");
+      expect(await timelock.queued(id)).to.eq(true, "Call should be queued");
+      await expect(timelock.execute(call.target, call.data, eta)).to.be.revertedWith("call-is-not-ready");
+      await increaseTime(timelockDelay);
+      const tx = timelock.execute(call.target, call.data, eta);
+      await expect(tx).to.emit(timelock, "Executed").withArgs(id, call.target, call.data);
+      await expect(tx).to.emit(vusd, "UpdatedTreasury").withArgs(treasury.address, alice.address);
+      expect(await timelock.queued(id)).to.eq(false, "Call should not be queued");
+    });
+
+    it("Should not execute cancelled or expired call", async function () {
+      const call = calls.updateSwapManager(treasury.address, alice.address);
+      const {id, eta} = await queue(call);
+      await expect(timelock.cancel(id)).to.emit(timelock, "Cancelled").withArgs(id);
+      await increaseTime(timelockDelay);
+      await expect(timelock.execute(call.target, call.data, eta)).to.be.revertedWith("call-is-not-queued");
+      const next = await queue(call);
+      await increaseTime(timelockDelay + (await timelock.GRACE_PERIOD()).toNumber() + 1);
+      await expect(timelock.execute(call.target, call.data, next.eta)).to.be.revertedWith("call-is-expired");
+    });
+
+    it("Should bubble up revert of target", async function () {
+      const call = calls.migrate(treasury.address, ethers.constants.AddressZero);
+      const {eta} = await queue(call);
+      await increaseTime(timelockDelay);
+      await expect(timelock.execute(call.target, call.data, eta)).to.be.revertedWith("new-treasury-address-is-zero");
+    });
+
+    it("Should update its own settings via queued call", async function () {
+      const call = {
+        target: timelock.address,
+        data: timelock.interface.encodeFunctionData("updateDelay", [timelockDelay * 2]),
+      };
+      const {eta} = await queue(call);
+      await increaseTime(timelockDelay);
+      const tx = timelock.execute(call.target, call.data, eta);
+      await expect(tx)
+        .to.emit(timelock, "UpdatedDelay")
+        .withArgs(timelockDelay, timelockDelay * 2);
+    });
+
+    it("Should encode queue and execute calldata for governor batch", async function () {
+      const call = calls.updateMinter(vusd.address, alice.address);
+      await governor.sendTransaction({to: timelock.address, data: encodeQueue(timelock, call)});
+      const eta = (await ethers.provider.getBlock("latest")).timestamp + timelockDelay;
+      expect(await timelock.queued(timelockCallId(hre, call, eta))).to.eq(true, "Call should be queued");
+      await increaseTime(timelockDelay);
+      await governor.sendTransaction({to: timelock.address, data: encodeExecute(timelock, call, eta)});
+      expect(await vusd.minter()).to.eq(alice.address, "Wrong minter");
+    });
+  });
+
+  context("Fast path", function () {
+    it("Should lower fee right away", async function () {
+      const call = calls.updateMintingFee(minter.address, 50);
+      const tx = timelock.executeFast(call.target, call.data);
+      await expect(tx).to.emit(timelock, "ExecutedFast").withArgs(call.target, call.data);
+      expect(await minter.mintingFee()).to.eq(50, "Wrong minting fee");
+      const redeemFee = await redeemer.redeemFee();
+      const redeemCall = calls.updateRedeemFee(redeemer.address, redeemFee.sub(1));
+      await timelock.executeFast(redeemCall.target, redeemCall.data);
+      expect(await redeemer.redeemFee()).to.eq(redeemFee.sub(1), "Wrong redeem fee");
+    });
+
+    it("Should revert fee increase and risky call on fast path", async function () {
+      const increase = calls.updateMintingFee(minter.address, 200);
+      await expect(timelock.executeFast(increase.target, increase.data)).to.be.revertedWith(
+        "call-is-not-decrease-only"
+      );
+      const risky = calls.updateTreasury(vusd.address, alice.address);
+      await expect(timelock.executeFast(risky.target, risky.data)).to.be.revertedWith("call-is-not-fast-path");
+    });
+
+    it("Should revert equal fee on fast path", async function () {
+      const call = calls.updateMintingFee(minter.address, await minter.mintingFee());
+      await expect(timelock.executeFast(call.target, call.data)).to.be.revertedWith("call-is-not-decrease-only");
+    });
+
+    it("Should revert fast path function on another target", async function () {
+      // Another Minter has same function and getter, it is governed by timelock too but not on fast path
+      const args = (await deployments.get("Minter")).args as [string, string, string, string[]];
+      const otherMinter = await new Minter__factory(governor).deploy(...args);
+      const increase = calls.updateMintingFee(otherMinter.address, 100);
+      const {eta} = await queue(increase);
+      await increaseTime(timelockDelay);
+      await timelock.execute(increase.target, increase.data, eta);
+      const call = calls.updateMintingFee(otherMinter.address, 50);
+      await expect(timelock.executeFast(call.target, call.data)).to.be.revertedWith("call-is-not-fast-path");
+      expect(await timelock.fastPathGetter(minter.address, call.data.slice(0, 10))).to.not.eq("0x00000000");
+    });
+  });
+});
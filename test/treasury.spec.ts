@@ -1,36 +1,33 @@
 import {ethers} from "hardhat";
 import chai from "chai";
-import {VUSD, VUSD__factory, Minter, Minter__factory, Treasury, Treasury__factory} from "../typechain";
+import {VUSD, VUSD__factory, Minter, Minter__factory, RoleRegistry, Treasury, Treasury__factory} from "../typechain";
 import {BigNumber} from "@ethersproject/bignumber";
-import tokenSwapper from "./utils/tokenSwapper";
 import {SignerWithAddress} from "@nomiclabs/hardhat-ethers/signers";
-import Address from "./utils/address";
+import {
+  Addresses,
+  defaultTokenArgs,
+  deployOracleRouter,
+  deployStrategies,
+  fundToken,
+  isMockNetwork,
+  setupNetwork,
+} from "./utils/setup";
 
 const {expect} = chai;
 
-const ZERO_ADDRESS = Address.ZERO;
-const DAI_ADDRESS = Address.DAI;
-const USDC_ADDRESS = Address.USDC;
-const USDT_ADDRESS = Address.USDT;
-const WETH_ADDRESS = Address.WETH;
-
-const cDAI_ADDRESS = Address.cDAI;
-const cUSDC_ADDRESS = Address.cUSDC;
-const cETH_ADDRESS = Address.cETH;
-
-const DAI_USD = Address.DAI_USD;
-const ETH_USD = Address.ETH_USD;
-
 describe("VUSD Treasury", async function () {
-  let vusd: VUSD, minter: Minter, treasury: Treasury;
+  let vusd: VUSD, minter: Minter, treasury: Treasury, roleRegistry: RoleRegistry;
   let signers, keeper;
+  let Address: Addresses;
+  let ZERO_ADDRESS: string, DAI_ADDRESS: string, USDC_ADDRESS: string, USDT_ADDRESS: string, WETH_ADDRESS: string;
+  let cDAI_ADDRESS: string, cUSDC_ADDRESS: string;
 
   async function mintVUSD(toToken: string, caller: SignerWithAddress, amountIn?: string): Promise<BigNumber> {
     const inputAmount = amountIn || "1";
-    const amount = await tokenSwapper.swapEthForToken(inputAmount, toToken, caller);
+    const amount = await fundToken(inputAmount, toToken, caller);
     const Token = await ethers.getContractAt("ERC20", toToken);
     await Token.connect(caller).approve(minter.address, amount);
-    await minter.connect(caller)["mint(address,uint256)"](toToken, amount);
+    await minter.connect(caller)["mint(address,uint256,uint256,address)"](toToken, amount, 1, caller.address);
     return amount;
   }
 
@@ -42,16 +39,34 @@ describe("VUSD Treasury", async function () {
     }
   }
 
-  async function deployTreasury(vusd: VUSD, caller: SignerWithAddress) {
+  // Deploy treasury with given strategies, new strategies by default. VUSD is not updated.
+  async function deployTreasury(vusd: VUSD, caller: SignerWithAddress, strategies?: string[]) {
+    const {tokens} = defaultTokenArgs();
     const treasuryFactory = (await ethers.getContractFactory("Treasury", caller)) as Treasury__factory;
-    const treasury: Treasury = await treasuryFactory.deploy(vusd.address);
+    const treasury: Treasury = await treasuryFactory.deploy(
+      vusd.address,
+      Address.SWAP_MANAGER,
+      Address.COMP,
+      tokens,
+      strategies || (await deployStrategies(vusd.address))
+    );
     expect(treasury.address).to.be.properAddress;
-    await vusd.updateTreasury(treasury.address);
-    treasury.addKeeper(keeper.address);
     return treasury;
   }
 
+  async function idleStrategy(token: string) {
+    const strategy = await (await ethers.getContractFactory("IdleStrategy")).deploy(vusd.address, token);
+    return strategy.address;
+  }
+
+  before(async function () {
+    Address = await setupNetwork();
+    ({ZERO: ZERO_ADDRESS, DAI: DAI_ADDRESS, USDC: USDC_ADDRESS, USDT: USDT_ADDRESS, WETH: WETH_ADDRESS} = Address);
+    ({cDAI: cDAI_ADDRESS, cUSDC: cUSDC_ADDRESS} = Address);
+  });
+
   beforeEach(async function () {
+    const {tokens} = defaultTokenArgs();
     signers = await ethers.getSigners();
     keeper = signers[1];
     const vusdFactory = (await ethers.getContractFactory("VUSD", signers[0])) as VUSD__factory;
@@ -59,11 +74,16 @@ describe("VUSD Treasury", async function () {
     expect(vusd.address).to.be.properAddress;
 
     const minterFactory = (await ethers.getContractFactory("Minter", signers[0])) as Minter__factory;
-    minter = await minterFactory.deploy(vusd.address, ethers.constants.MaxUint256);
+    const oracleRouter = await deployOracleRouter(vusd.address);
+    minter = await minterFactory.deploy(vusd.address, oracleRouter, ethers.constants.MaxUint256, tokens);
     expect(minter.address).to.be.properAddress;
     await vusd.updateMinter(minter.address);
 
     treasury = await deployTreasury(vusd, signers[0]);
+    await vusd.updateTreasury(treasury.address);
+    roleRegistry = (await (await ethers.getContractFactory("RoleRegistry")).deploy(vusd.address)) as RoleRegistry;
+    await treasury.updateRoleRegistry(roleRegistry.address);
+    await roleRegistry.grantRole(await roleRegistry.KEEPER_ROLE(), keeper.address);
   });
 
   context("Check Withdrawable", function () {
@@ -81,6 +101,59 @@ describe("VUSD Treasury", async function () {
     });
   });
 
+  context("Proof of reserves", function () {
+    it("Should return max collateralization ratio when there is no supply", async function () {
+      const {_totalValue, _reserves, _collateralizationRatio} = await treasury.reserves();
+      expect(_totalValue).to.be.eq(0, "Total value should be zero");
+      expect(_reserves.length).to.be.eq(3, "Should report all whitelisted tokens");
+      expect(_collateralizationRatio).to.be.eq(ethers.constants.MaxUint256, "Wrong collateralization ratio");
+    });
+
+    it("Should value holdings with oracle router price", async function () {
+      await mintVUSD(DAI_ADDRESS, signers[3], "100");
+      await mintVUSD(USDC_ADDRESS, signers[4], "100");
+      const {_totalValue, _reserves, _collateralizationRatio} = await treasury.reserves();
+      const oracleRouter = await ethers.getContractAt("OracleRouter", await minter.oracleRouter());
+      let total = BigNumber.from(0);
+      for (const reserve of _reserves) {
+        expect(reserve.amount).to.be.eq(await treasury.withdrawable(reserve.token), "Wrong amount");
+        const tokenDecimals = await (await ethers.getContractAt("ERC20", reserve.token)).decimals();
+        // amount * price has token + 18 decimals, value has 18
+        const value = reserve.amount.eq(0)
+          ? BigNumber.from(0)
+          : reserve.amount.mul(await oracleRouter.price(reserve.token)).div(BigNumber.from(10).pow(tokenDecimals));
+        expect(reserve.value).to.be.eq(value, "Wrong value");
+        total = total.add(value);
+      }
+      expect(_totalValue).to.be.eq(total, "Wrong total value");
+      const supply = await vusd.totalSupply();
+      expect(_collateralizationRatio).to.be.eq(total.mul(10_000).div(supply), "Wrong collateralization ratio");
+    });
+
+    it("Should value holdings at most at $1 in capped reserves value", async function () {
+      await mintVUSD(DAI_ADDRESS, signers[3], "100");
+      await mintVUSD(USDC_ADDRESS, signers[4], "100");
+      const {_reserves} = await treasury.reserves();
+      const oracleRouter = await ethers.getContractAt("OracleRouter", await minter.oracleRouter());
+      let total = BigNumber.from(0);
+      for (const reserve of _reserves) {
+        const tokenDecimals = await (await ethers.getContractAt("ERC20", reserve.token)).decimals();
+        const price = await oracleRouter.price(reserve.token);
+        const cappedPrice = price.gt(ethers.constants.WeiPerEther) ? ethers.constants.WeiPerEther : price;
+        total = total.add(reserve.amount.mul(cappedPrice).div(BigNumber.from(10).pow(tokenDecimals)));
+      }
+      expect(await treasury.cappedReservesValue()).to.be.eq(total, "Wrong capped reserves value");
+    });
+
+    it("Should report under collateralization when governor mints", async function () {
+      await mintVUSD(DAI_ADDRESS, signers[3], "100");
+      const {_collateralizationRatio: before} = await treasury.reserves();
+      await minter["mint(uint256)"](await vusd.totalSupply());
+      const {_collateralizationRatio: after} = await treasury.reserves();
+      expect(after).to.be.eq(before.div(2), "Collateralization ratio should be halved");
+    });
+  });
+
   context("Withdraw token", function () {
     it("Should revert if caller is neither governor nor redeemer", async function () {
       await mintVUSD(DAI_ADDRESS, signers[4]);
@@ -164,24 +237,36 @@ describe("VUSD Treasury", async function () {
   });
 
   context("Claim COMP", function () {
-    // CompoundV2 protocol has stopped distributing COMP to all markets.
-    it.skip("Should claim comp from all cToken markets", async function () {
+    it("Should claim comp from all cToken markets", async function () {
+      // CompoundV2 protocol has stopped distributing COMP to all markets, only mock comptroller does.
+      if (!isMockNetwork()) {
+        this.skip();
+      }
       await mintVUSD(DAI_ADDRESS, signers[4], "100");
       await mineBlocks(1000);
+      const comptroller = await ethers.getContractAt("MockComptroller", Address.COMPTROLLER);
+      await comptroller.updateCompAccrued(await treasury.strategies(DAI_ADDRESS), ethers.utils.parseEther("10"));
       const cUSDC = await ethers.getContractAt("ERC20", cUSDC_ADDRESS);
-      expect(await cUSDC.balanceOf(treasury.address)).to.be.eq(0, "cUSDC balance should be zero");
+      const usdcStrategy = await treasury.strategies(USDC_ADDRESS);
+      expect(await cUSDC.balanceOf(usdcStrategy)).to.be.eq(0, "cUSDC balance should be zero");
       await treasury.claimCompAndConvertTo(USDC_ADDRESS, 1);
-      expect(await cUSDC.balanceOf(treasury.address)).to.be.gt(0, "cUSDC balance should be > 0");
+      expect(await cUSDC.balanceOf(usdcStrategy)).to.be.gt(0, "cUSDC balance should be > 0");
     });
 
-    // CompoundV2 protocol has stopped distributing COMP to all markets.
-    it.skip("Should claim comp via keeper call", async function () {
+    it("Should claim comp via keeper call", async function () {
+      // CompoundV2 protocol has stopped distributing COMP to all markets, only mock comptroller does.
+      if (!isMockNetwork()) {
+        this.skip();
+      }
       await mintVUSD(USDC_ADDRESS, signers[4], "100");
       await mineBlocks(1000);
+      const comptroller = await ethers.getContractAt("MockComptroller", Address.COMPTROLLER);
+      await comptroller.updateCompAccrued(await treasury.strategies(USDC_ADDRESS), ethers.utils.parseEther("10"));
       const cDAI = await ethers.getContractAt("ERC20", cDAI_ADDRESS);
-      expect(await cDAI.balanceOf(treasury.address)).to.be.eq(0, "cDAI balance should be zero");
+      const daiStrategy = await treasury.strategies(DAI_ADDRESS);
+      expect(await cDAI.balanceOf(daiStrategy)).to.be.eq(0, "cDAI balance should be zero");
       await treasury.connect(keeper).claimCompAndConvertTo(DAI_ADDRESS, 1);
-      expect(await cDAI.balanceOf(treasury.address)).to.be.gt(0, "cDAI balance should be > 0");
+      expect(await cDAI.balanceOf(daiStrategy)).to.be.gt(0, "cDAI balance should be > 0");
     });
 
     it("Should revert if token is not supported", async function () {
@@ -204,46 +289,86 @@ describe("VUSD Treasury", async function () {
       // Deploy new treasury
       const treasuryFactory = (await ethers.getContractFactory("Treasury", signers[0])) as Treasury__factory;
       // passing DAI address as VUSD
-      const newTreasury = await treasuryFactory.deploy(DAI_ADDRESS);
+      const {tokens} = defaultTokenArgs();
+      const newTreasury = await treasuryFactory.deploy(
+        DAI_ADDRESS,
+        Address.SWAP_MANAGER,
+        Address.COMP,
+        tokens,
+        await deployStrategies(vusd.address)
+      );
       const tx = treasury.migrate(newTreasury.address);
       await expect(tx).to.be.revertedWith("vusd-mismatch");
     });
-    it("Should transfer all cTokens to new treasury", async function () {
+
+    it("Should move funds to strategies of new treasury", async function () {
       await mintVUSD(DAI_ADDRESS, signers[4], "100");
       await mintVUSD(USDC_ADDRESS, signers[5], "100");
-      const cDAI = await ethers.getContractAt("ERC20", cDAI_ADDRESS);
-      const cUSDC = await ethers.getContractAt("ERC20", cUSDC_ADDRESS);
-      const cDAIBalance = await cDAI.balanceOf(treasury.address);
-      const cUSDCBalance = await cUSDC.balanceOf(treasury.address);
+      const daiWithdrawable = await treasury.withdrawable(DAI_ADDRESS);
+      const usdcWithdrawable = await treasury.withdrawable(USDC_ADDRESS);
 
       // Deploy new treasury
       const newTreasury = await deployTreasury(vusd, signers[0]);
-      expect(await cDAI.balanceOf(newTreasury.address)).to.be.eq(0, "cDAI balance should be zero");
-      expect(await cUSDC.balanceOf(newTreasury.address)).to.be.eq(0, "cUSDC balance should be zero");
+      expect(await newTreasury.withdrawable(DAI_ADDRESS)).to.be.eq(0, "DAI withdrawable should be zero");
+      expect(await newTreasury.withdrawable(USDC_ADDRESS)).to.be.eq(0, "USDC withdrawable should be zero");
 
       await treasury.migrate(newTreasury.address);
-      expect(await cDAI.balanceOf(newTreasury.address)).to.be.eq(cDAIBalance, "cDAI in new treasury is wrong");
-      expect(await cUSDC.balanceOf(newTreasury.address)).to.be.eq(cUSDCBalance, "cUSDC in new treasury is wrong");
+      // Checking gte as actual will be having little extra due to earning from 1 block
+      expect(await newTreasury.withdrawable(DAI_ADDRESS)).to.be.gte(daiWithdrawable, "DAI in new treasury is wrong");
+      expect(await newTreasury.withdrawable(USDC_ADDRESS)).to.be.gte(usdcWithdrawable, "USDC in new treasury is wrong");
 
-      expect(await cDAI.balanceOf(treasury.address)).to.be.eq(0, "cDAI balance should be zero");
-      expect(await cUSDC.balanceOf(treasury.address)).to.be.eq(0, "cUSDC balance should be zero");
+      expect(await treasury.withdrawable(DAI_ADDRESS)).to.be.eq(0, "DAI withdrawable should be zero");
+      expect(await treasury.withdrawable(USDC_ADDRESS)).to.be.eq(0, "USDC withdrawable should be zero");
+    });
+
+    it("Should keep funds when new treasury has same strategies", async function () {
+      await mintVUSD(DAI_ADDRESS, signers[4], "100");
+      const {tokens} = defaultTokenArgs();
+      const strategies = await Promise.all(tokens.map((token) => treasury.strategies(token)));
+      const newTreasury = await deployTreasury(vusd, signers[0], strategies);
+      const daiWithdrawable = await treasury.withdrawable(DAI_ADDRESS);
+      await treasury.migrate(newTreasury.address);
+      expect(await newTreasury.withdrawable(DAI_ADDRESS)).to.be.eq(daiWithdrawable, "DAI in new treasury is wrong");
     });
   });
 
   context("Sweep token", function () {
     it("Should sweep token", async function () {
-      const daiAmount = await tokenSwapper.swapEthForToken("1", DAI_ADDRESS, signers[5], treasury.address);
+      const token = await (await ethers.getContractFactory("MockStablecoin")).deploy("Test", "TST", 18);
+      const amount = ethers.utils.parseEther("10");
+      await token.mint(treasury.address, amount);
+      await treasury.sweep(token.address);
+      expect(await token.balanceOf(signers[0].address)).to.be.eq(amount, "Sweep token amount is not correct");
+    });
+
+    it("Should move whitelisted token to its strategy", async function () {
+      const daiAmount = await fundToken("1", DAI_ADDRESS, signers[5], treasury.address);
       const DAI = await ethers.getContractAt("ERC20", DAI_ADDRESS);
       const balanceBefore = await DAI.balanceOf(signers[0].address);
       await treasury.sweep(DAI_ADDRESS);
-      const balanceAfter = await DAI.balanceOf(signers[0].address);
-      await treasury.claimCompAndConvertTo(USDC_ADDRESS, 1);
-      expect(balanceAfter.sub(balanceBefore)).to.be.eq(daiAmount, "Sweep token amount is not correct");
-    });
+      expect(await DAI.balanceOf(signers[0].address)).to.be.eq(balanceBefore, "DAI should not go to governor");
+      expect(await DAI.balanceOf(treasury.address)).to.be.eq(0, "DAI should be moved");
+      // Compound rounds down when valuing cToken
+      expect(await treasury.withdrawable(DAI_ADDRESS)).to.be.closeTo(daiAmount, 1e6, "Wrong DAI withdrawable");
+    });
+
+    it("Should move cToken to its strategy", async function () {
+      // Minting cToken needs a live market, only mock market is
+      if (!isMockNetwork()) {
+        this.skip();
+      }
+      const daiAmount = await fundToken("1", DAI_ADDRESS, signers[5]);
+      const DAI = await ethers.getContractAt("ERC20", DAI_ADDRESS);
+      const cDAI = await ethers.getContractAt("MockCToken", cDAI_ADDRESS);
+      await DAI.connect(signers[5]).approve(cDAI_ADDRESS, daiAmount);
+      await cDAI.connect(signers[5]).mint(daiAmount);
+      const cDAIAmount = await cDAI.balanceOf(signers[5].address);
+      await cDAI.connect(signers[5]).transfer(treasury.address, cDAIAmount);
 
-    it("Should revert if trying to sweep cToken", async function () {
-      const tx = treasury.sweep(cDAI_ADDRESS);
-      await expect(tx).to.be.revertedWith("cToken-is-not-allowed-to-sweep");
+      await treasury.sweep(cDAI_ADDRESS);
+      const daiStrategy = await treasury.strategies(DAI_ADDRESS);
+      expect(await cDAI.balanceOf(daiStrategy)).to.be.eq(cDAIAmount, "cDAI should be moved to strategy");
+      expect(await treasury.withdrawable(DAI_ADDRESS)).to.be.closeTo(daiAmount, 1e6, "Wrong DAI withdrawable");
     });
   });
 
@@ -272,26 +397,27 @@ describe("VUSD Treasury", async function () {
     });
   });
 
-  context("Update keeper", function () {
+  context("Update role registry", function () {
     it("Should revert if caller is not governor", async function () {
-      const tx = treasury.connect(signers[4]).addKeeper(signers[9].address);
+      const tx = treasury.connect(signers[4]).updateRoleRegistry(signers[9].address);
       await expect(tx).to.be.revertedWith("caller-is-not-the-governor");
     });
-    it("Should revert if setting zero address as keeper", async function () {
-      const tx = treasury.addKeeper(ZERO_ADDRESS);
-      await expect(tx).to.be.revertedWith("keeper-address-is-zero");
+
+    it("Should revert if setting same role registry", async function () {
+      const tx = treasury.updateRoleRegistry(roleRegistry.address);
+      await expect(tx).to.be.revertedWith("same-role-registry");
     });
 
-    it("Should add new keeper", async function () {
-      expect((await treasury.keepers()).length).to.eq(2, "incorrect keeper count");
-      const newKeeper = signers[10].address;
-      await treasury.addKeeper(newKeeper);
-      expect((await treasury.keepers()).length).to.eq(3, "add keeper failed");
+    it("Should read keeper from role registry", async function () {
+      expect(await treasury.isKeeper(keeper.address)).to.eq(true, "Keeper role should be read");
+      await roleRegistry.revokeRole(await roleRegistry.KEEPER_ROLE(), keeper.address);
+      expect(await treasury.isKeeper(keeper.address)).to.eq(false, "Revoked keeper should not be keeper");
     });
 
-    it("Should remove a keeper", async function () {
-      await treasury.removeKeeper(keeper.address);
-      expect((await treasury.keepers()).length).to.eq(1, "remove keeper failed");
+    it("Should have no keeper without role registry", async function () {
+      const tx = treasury.updateRoleRegistry(ZERO_ADDRESS);
+      await expect(tx).to.emit(treasury, "UpdatedRoleRegistry").withArgs(roleRegistry.address, ZERO_ADDRESS);
+      expect(await treasury.isKeeper(keeper.address)).to.eq(false, "Keeper should not be keeper");
     });
   });
 
@@ -314,34 +440,75 @@ describe("VUSD Treasury", async function () {
     });
   });
 
+  context("Update strategy", function () {
+    it("Should revert if caller is not governor", async function () {
+      const tx = treasury.connect(signers[4]).updateStrategy(DAI_ADDRESS, await idleStrategy(DAI_ADDRESS));
+      await expect(tx).to.be.revertedWith("caller-is-not-the-governor");
+    });
+
+    it("Should revert if token is not supported", async function () {
+      const tx = treasury.updateStrategy(WETH_ADDRESS, await idleStrategy(WETH_ADDRESS));
+      await expect(tx).to.be.revertedWith("token-is-not-supported");
+    });
+
+    it("Should revert if strategy is of another token", async function () {
+      const tx = treasury.updateStrategy(DAI_ADDRESS, await idleStrategy(USDC_ADDRESS));
+      await expect(tx).to.be.revertedWith("strategy-token-mismatch");
+    });
+
+    it("Should revert if setting same strategy", async function () {
+      const tx = treasury.updateStrategy(DAI_ADDRESS, await treasury.strategies(DAI_ADDRESS));
+      await expect(tx).to.be.revertedWith("same-strategy");
+    });
+
+    it("Should move funds to new strategy", async function () {
+      await mintVUSD(DAI_ADDRESS, signers[4], "100");
+      const currentStrategy = await treasury.strategies(DAI_ADDRESS);
+      const withdrawable = await treasury.withdrawable(DAI_ADDRESS);
+      const newStrategy = await idleStrategy(DAI_ADDRESS);
+      const tx = treasury.updateStrategy(DAI_ADDRESS, newStrategy);
+      await expect(tx).to.emit(treasury, "UpdatedStrategy").withArgs(DAI_ADDRESS, currentStrategy, newStrategy);
+      expect(await treasury.strategies(DAI_ADDRESS)).to.be.eq(newStrategy, "Strategy update failed");
+      const DAI = await ethers.getContractAt("ERC20", DAI_ADDRESS);
+      // Checking gte as actual will be having little extra due to earning from 1 block
+      expect(await DAI.balanceOf(newStrategy)).to.be.gte(withdrawable, "Funds should be in new strategy");
+      expect(await treasury.withdrawable(DAI_ADDRESS)).to.be.eq(await DAI.balanceOf(newStrategy));
+    });
+  });
+
   context("Update token whitelist", function () {
     context("Add token in whitelist", function () {
       it("Should revert if caller is not governor", async function () {
-        const tx = treasury.connect(signers[4]).addWhitelistedToken(DAI_ADDRESS, cDAI_ADDRESS, DAI_USD);
+        const strategy = await treasury.strategies(DAI_ADDRESS);
+        const tx = treasury.connect(signers[4]).addWhitelistedToken(DAI_ADDRESS, strategy);
         await expect(tx).to.be.revertedWith("caller-is-not-the-governor");
       });
 
       it("Should revert if setting zero address for token", async function () {
-        const tx = treasury.addWhitelistedToken(ZERO_ADDRESS, cETH_ADDRESS, ETH_USD);
+        const tx = treasury.addWhitelistedToken(ZERO_ADDRESS, await idleStrategy(WETH_ADDRESS));
         await expect(tx).to.be.revertedWith("token-address-is-zero");
       });
 
-      it("Should revert if setting zero address for cToken", async function () {
-        const tx = treasury.addWhitelistedToken(WETH_ADDRESS, ZERO_ADDRESS, ETH_USD);
-        await expect(tx).to.be.revertedWith("cToken-address-is-zero");
+      it("Should revert if setting zero address for strategy", async function () {
+        const tx = treasury.addWhitelistedToken(WETH_ADDRESS, ZERO_ADDRESS);
+        await expect(tx).to.be.revertedWith("strategy-address-is-zero");
+      });
+
+      it("Should revert if strategy is of another token", async function () {
+        const tx = treasury.addWhitelistedToken(WETH_ADDRESS, await idleStrategy(DAI_ADDRESS));
+        await expect(tx).to.be.revertedWith("strategy-token-mismatch");
       });
 
       it("Should add token address in whitelist", async function () {
-        await treasury.addWhitelistedToken(WETH_ADDRESS, cETH_ADDRESS, ETH_USD);
+        const strategy = await idleStrategy(WETH_ADDRESS);
+        await treasury.addWhitelistedToken(WETH_ADDRESS, strategy);
         expect((await treasury.whitelistedTokens()).length).to.be.equal(4, "Address added successfully");
-        expect((await treasury.cTokenList()).length).to.be.equal(4, "cToken address added successfully");
-        expect(await treasury.cTokens(WETH_ADDRESS)).to.be.eq(cETH_ADDRESS, "Wrong cToken");
+        expect(await treasury.strategies(WETH_ADDRESS)).to.be.eq(strategy, "Wrong strategy");
       });
 
       it("Should revert if address already exist in list", async function () {
-        await expect(treasury.addWhitelistedToken(DAI_ADDRESS, cDAI_ADDRESS, DAI_USD)).to.be.revertedWith(
-          "add-in-list-failed"
-        );
+        const strategy = await treasury.strategies(DAI_ADDRESS);
+        await expect(treasury.addWhitelistedToken(DAI_ADDRESS, strategy)).to.be.revertedWith("add-in-list-failed");
       });
     });
     context("Remove token address from whitelist", function () {
@@ -353,8 +520,7 @@ describe("VUSD Treasury", async function () {
       it("Should remove token from whitelist", async function () {
         await treasury.removeWhitelistedToken(USDT_ADDRESS);
         expect((await treasury.whitelistedTokens()).length).to.be.equal(2, "Address removed successfully");
-        expect((await treasury.cTokenList()).length).to.be.equal(2, "cToken address removed successfully");
-        expect(await treasury.cTokens(USDT_ADDRESS)).to.be.eq(ZERO_ADDRESS, "CToken should be removed");
+        expect(await treasury.strategies(USDT_ADDRESS)).to.be.eq(ZERO_ADDRESS, "Strategy should be removed");
       });
 
       it("Should revert if token not in list", async function () {
@@ -1,23 +1,39 @@
-enum Address {
-  ZERO = "0x0000000000000000000000000000000000000000",
+import {getNetworkConfig, TokenConfig} from "../../scripts/networks";
 
-  DAI = "0x6B175474E89094C44Da98b954EedeAC495271d0F",
-  cDAI = "0x5d3a536E4D6DbD6114cc1Ead35777bAB948E3643",
+const mainnet = getNetworkConfig(1);
 
-  USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
-  cUSDC = "0x39AA39c021dfbaE8faC545936693aC917d5E7563",
+function token(symbol: string): TokenConfig {
+  const config = mainnet.tokens.find((token) => token.symbol === symbol);
+  if (!config) {
+    throw new Error(`${symbol} is not configured for mainnet`);
+  }
+  return config;
+}
+
+const Address = {
+  ZERO: "0x0000000000000000000000000000000000000000",
+
+  DAI: token("DAI").address,
+  cDAI: token("DAI").cToken,
 
-  USDT = "0xdAC17F958D2ee523a2206206994597C13D831ec7",
-  cUSDT = "0xf650C3d88D12dB855b8bf7D11Be6C55A4e07dCC9",
+  USDC: token("USDC").address,
+  cUSDC: token("USDC").cToken,
 
-  WETH = "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
-  cETH = "0x4Ddc2D193948926D02f9B1fE9e1daa0718270ED5",
+  USDT: token("USDT").address,
+  cUSDT: token("USDT").cToken,
+
+  WETH: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
+  cETH: "0x4Ddc2D193948926D02f9B1fE9e1daa0718270ED5",
+
+  COMP: mainnet.comp,
+  COMPTROLLER: mainnet.comptroller,
+  SWAP_MANAGER: mainnet.swapManager,
 
   // Chainlink price oracle
-  DAI_USD = "0xaed0c38402a5d19df6e4c03f4e2dced6e29c1ee9",
-  ETH_USD = "0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419",
-  USDC_USD = "0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6",
-  USDT_USD = "0x3E7d1eAB13ad0104d2750B8863b489D65364e32D",
-}
+  DAI_USD: token("DAI").oracle,
+  ETH_USD: "0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419",
+  USDC_USD: token("USDC").oracle,
+  USDT_USD: token("USDT").oracle,
+};
 
 export default Address;
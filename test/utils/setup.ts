@@ -0,0 +1,168 @@
+import hre from "hardhat";
+import {BigNumber, ContractTransaction, Signer} from "ethers";
+import {SignerWithAddress} from "@nomiclabs/hardhat-ethers/signers";
+import {loadNetworkConfig, NetworkConfig, tokenArgs} from "../../scripts/networks";
+import {Minter__factory, MockStablecoin} from "../../typechain";
+import Address from "./address";
+import tokenSwapper from "./tokenSwapper";
+
+const ethers = hre.ethers;
+const ETH_PRICE = 2000; // Mock tokens minted per ETH
+
+export type Addresses = typeof Address;
+
+let networkConfig: NetworkConfig;
+
+/**
+ * Whether current network runs against mocks, see deploy/mocks
+ */
+export function isMockNetwork(): boolean {
+  return !!networkConfig.mockTokens;
+}
+
+/**
+ * Deploy mocks, if network uses them, and get addresses to test with.
+ * On mainnet fork these are mainnet addresses, on mock network these are mocks.
+ *
+ * @returns Promise with addresses, same shape as test/utils/address
+ */
+export async function setupNetwork(): Promise<Addresses> {
+  await hre.deployments.fixture(["Mocks"]);
+  networkConfig = await loadNetworkConfig(hre);
+  if (!isMockNetwork()) {
+    return Address;
+  }
+  const token = (symbol: string) => {
+    const config = networkConfig.tokens.find((token) => token.symbol === symbol);
+    if (!config) {
+      throw new Error(`${symbol} is not configured`);
+    }
+    return config;
+  };
+  // Not whitelisted token to test unsupported token cases
+  const weth = await (await ethers.getContractFactory("MockStablecoin")).deploy("Mock WETH", "WETH", 18);
+  const cETH = await (
+    await ethers.getContractFactory("MockCToken")
+  ).deploy(weth.address, "200000000000000000000000000", "cETH");
+  const ethUsd = await (await ethers.getContractFactory("MockChainlinkOracle")).deploy(ETH_PRICE * 1e8, 8);
+  return {
+    ZERO: Address.ZERO,
+    DAI: token("DAI").address,
+    cDAI: token("DAI").cToken,
+    USDC: token("USDC").address,
+    cUSDC: token("USDC").cToken,
+    USDT: token("USDT").address,
+    cUSDT: token("USDT").cToken,
+    WETH: weth.address,
+    cETH: cETH.address,
+    COMP: networkConfig.comp,
+    COMPTROLLER: networkConfig.comptroller,
+    SWAP_MANAGER: networkConfig.swapManager,
+    DAI_USD: token("DAI").oracle,
+    ETH_USD: ethUsd.address,
+    USDC_USD: token("USDC").oracle,
+    USDT_USD: token("USDT").oracle,
+  };
+}
+
+/**
+ * Default tokens of current network as constructor arguments, see scripts/networks
+ */
+export function defaultTokenArgs(): ReturnType<typeof tokenArgs> {
+  return tokenArgs(networkConfig.tokens);
+}
+
+/**
+ * Deploy strategy of each default token for given VUSD, as configured for current network.
+ *
+ * @param vusd Address of VUSD
+ * @returns Promise with strategy addresses, 1:1 with default tokens
+ */
+export async function deployStrategies(vusd: string): Promise<string[]> {
+  const strategies: string[] = [];
+  const {comp, comptroller} = networkConfig;
+  for (const token of networkConfig.tokens) {
+    const factory = await ethers.getContractFactory(
+      token.strategy === "compound" ? "CompoundStrategy" : "IdleStrategy"
+    );
+    const args = token.strategy === "compound" ? [token.cToken, comp, comptroller] : [];
+    strategies.push((await factory.deploy(vusd, token.address, ...args)).address);
+  }
+  return strategies;
+}
+
+/**
+ * Deploy oracle router for given VUSD with default tokens of current network.
+ *
+ * @param vusd Address of VUSD
+ * @returns Promise with oracle router address
+ */
+export async function deployOracleRouter(vusd: string): Promise<string> {
+  const {tokens, oracles, secondaryOracles, stalePeriods} = defaultTokenArgs();
+  const factory = await ethers.getContractFactory("OracleRouter");
+  return (await factory.deploy(vusd, tokens, oracles, secondaryOracles, stalePeriods)).address;
+}
+
+/**
+ * Get given token worth of given ETH. It swaps ETH on mainnet fork and mints token on mock network.
+ *
+ * @param ethAmount ETH amount, it is in ETH i.e. 2 for 2 ETH
+ * @param toToken Address of output token
+ * @param caller caller with signer, who will pay for ETH
+ * @param receiver? Address of token receiver
+ * @returns Promise with balance of toToken after funding
+ */
+export async function fundToken(
+  ethAmount: string,
+  toToken: string,
+  caller: SignerWithAddress,
+  receiver?: string
+): Promise<BigNumber> {
+  if (!isMockNetwork()) {
+    return tokenSwapper.swapEthForToken(ethAmount, toToken, caller, receiver);
+  }
+  const toAddress = receiver || caller.address;
+  const token = await ethers.getContractAt("MockStablecoin", toToken);
+  const amount = BigNumber.from(10)
+    .pow(await token.decimals())
+    .mul(ethAmount)
+    .mul(ETH_PRICE);
+  await token.mint(toAddress, amount);
+  return token.balanceOf(toAddress);
+}
+
+/**
+ * Get contract of given deployment, typed by its typechain factory and connected to first signer.
+ *
+ * @param factory Typechain factory of contract, i.e. Minter__factory
+ * @param deployment Name of deployment
+ * @returns Promise with contract
+ */
+export async function contractAt<T>(
+  factory: {connect(address: string, signer: Signer): T},
+  deployment: string
+): Promise<T> {
+  const [signer] = await ethers.getSigners();
+  return factory.connect((await hre.deployments.get(deployment)).address, signer);
+}
+
+/**
+ * Mint given mock token to signer and mint VUSD with it via deployed Minter, on mock network only.
+ *
+ * @param token Mock token to deposit
+ * @param signer Signer who mints and receives VUSD
+ * @param amount Token amount, it is in token i.e. 100 for 100 USDC
+ * @returns Promise with mint transaction
+ */
+export async function mintVUSD(
+  token: MockStablecoin,
+  signer: SignerWithAddress,
+  amount: string
+): Promise<ContractTransaction> {
+  const amountIn = ethers.utils.parseUnits(amount, await token.decimals());
+  await token.mint(signer.address, amountIn);
+  const minter = await contractAt(Minter__factory, "Minter");
+  await token.connect(signer).approve(minter.address, amountIn);
+  const signerMinter = minter.connect(signer);
+  return signerMinter["mint(address,uint256,uint256,address)"](token.address, amountIn, 0, signer.address);
+}
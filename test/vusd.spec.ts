@@ -1,17 +1,30 @@
 import {ethers} from "hardhat";
 import chai from "chai";
-import {VUSD, VUSD__factory, Minter__factory, Minter} from "../typechain";
+import {VUSD, VUSD__factory, Minter__factory, Minter, Treasury__factory} from "../typechain";
 import {BigNumber} from "@ethersproject/bignumber";
-import tokenSwapper from "./utils/tokenSwapper";
 import Address from "./utils/address";
+import {
+  Addresses,
+  defaultTokenArgs,
+  deployOracleRouter,
+  deployStrategies,
+  fundToken,
+  setupNetwork,
+} from "./utils/setup";
 const {expect} = chai;
 
 const ZERO_ADDRESS = Address.ZERO;
-const DAI_ADDRESS = Address.DAI;
 
 describe("VUSD", async function () {
   let vusd: VUSD;
   let signers;
+  let Address: Addresses;
+  let DAI_ADDRESS: string;
+
+  before(async function () {
+    Address = await setupNetwork();
+    DAI_ADDRESS = Address.DAI;
+  });
 
   beforeEach(async function () {
     signers = await ethers.getSigners();
@@ -93,15 +106,34 @@ describe("VUSD", async function () {
 
     it("Should transfer VUSD to multiple recipients", async function () {
       const minterFactory = (await ethers.getContractFactory("Minter", signers[0])) as Minter__factory;
-      const minter: Minter = await minterFactory.deploy(vusd.address, ethers.constants.MaxUint256);
+      const {tokens} = defaultTokenArgs();
+      const oracleRouter = await deployOracleRouter(vusd.address);
+      const minter: Minter = await minterFactory.deploy(
+        vusd.address,
+        oracleRouter,
+        ethers.constants.MaxUint256,
+        tokens
+      );
       expect(minter.address).to.be.properAddress;
       await vusd.updateMinter(minter.address);
-
-      await tokenSwapper.swapEthForToken("1", DAI_ADDRESS, signers[1]);
+      // Minted tokens go to strategies of treasury
+      const treasuryFactory = (await ethers.getContractFactory("Treasury", signers[0])) as Treasury__factory;
+      const strategies = await deployStrategies(vusd.address);
+      const treasury = await treasuryFactory.deploy(
+        vusd.address,
+        Address.SWAP_MANAGER,
+        Address.COMP,
+        tokens,
+        strategies
+      );
+      await vusd.updateTreasury(treasury.address);
+
+      await fundToken("1", DAI_ADDRESS, signers[1]);
       const amount = ethers.utils.parseEther("1000");
       const DAI = await ethers.getContractAt("ERC20", DAI_ADDRESS);
       await DAI.connect(signers[1]).approve(minter.address, amount);
-      await minter.connect(signers[1])["mint(address,uint256)"](DAI_ADDRESS, amount);
+      const user = minter.connect(signers[1]);
+      await user["mint(address,uint256,uint256,address)"](DAI_ADDRESS, amount, 1, signers[1].address);
       const vusdBalance = await vusd.balanceOf(signers[1].address);
       expect(vusdBalance).to.be.gt(0, "Incorrect VUSD balance");
       const halfBalance = vusdBalance.div(2);